@@ -9,3 +9,16 @@ redis.on("connect", () => {
 redis.on("error", (err) => {
   console.error("Redis Client Error", err);
 });
+
+// BullMQ exige maxRetriesPerRequest: null nas conexões usadas por Workers
+export function createQueueConnection(): Redis {
+  const connection = new Redis(process.env.REDIS_URL!, {
+    maxRetriesPerRequest: null
+  });
+
+  connection.on("error", (err) => {
+    console.error("Redis Queue Error", err);
+  });
+
+  return connection;
+}
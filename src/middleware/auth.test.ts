@@ -0,0 +1,154 @@
+import { FastifyReply, FastifyRequest, RouteOptions } from 'fastify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  verifyIdToken: vi.fn(),
+  getDoc: vi.fn()
+}));
+
+vi.mock('firebase-admin', () => ({
+  default: { apps: [{}], auth: () => ({ verifyIdToken: mocks.verifyIdToken }) }
+}));
+vi.mock('firebase/firestore', async importOriginal => ({
+  ...(await importOriginal<typeof import('firebase/firestore')>()),
+  doc: vi.fn(),
+  getDoc: mocks.getDoc
+}));
+
+const { requireRole, requireRegistrationKey, enforceRouteAccess } = await import('./auth.js');
+
+function fakeReply() {
+  const reply = {
+    sent: false,
+    statusCode: 200,
+    payload: undefined as unknown,
+    status: vi.fn((code: number) => {
+      reply.statusCode = code;
+      return reply;
+    }),
+    send: vi.fn((payload: unknown) => {
+      reply.payload = payload;
+      reply.sent = true;
+      return reply;
+    })
+  };
+  return reply;
+}
+
+function fakeRequest(fields: Record<string, unknown> = {}) {
+  return { headers: {}, params: {}, ...fields } as unknown as FastifyRequest;
+}
+
+const adminUser = { uid: 'admin-1', email: 'admin@exemplo.com', role: 'admin', enterpriseEmail: 'empresa@exemplo.com' };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('requireRole', () => {
+  it('usa o usuário já autenticado sem verificar o token de novo', async () => {
+    const reply = fakeReply();
+
+    await requireRole(['admin'])(fakeRequest({ user: adminUser }), reply as unknown as FastifyReply);
+
+    expect(mocks.verifyIdToken).not.toHaveBeenCalled();
+    expect(reply.sent).toBe(false);
+  });
+
+  it('recusa role não permitido', async () => {
+    const reply = fakeReply();
+
+    await requireRole(['admin'])(fakeRequest({ user: { ...adminUser, role: 'client' } }), reply as unknown as FastifyReply);
+
+    expect(reply.statusCode).toBe(403);
+  });
+
+  it('autentica quando usado sozinho e responde uma única vez sem token', async () => {
+    const reply = fakeReply();
+
+    await requireRole(['admin'])(fakeRequest(), reply as unknown as FastifyReply);
+
+    expect(reply.statusCode).toBe(401);
+    expect(reply.send).toHaveBeenCalledOnce();
+  });
+
+  it('autentica pelo token quando não há usuário na requisição', async () => {
+    const reply = fakeReply();
+    mocks.verifyIdToken.mockResolvedValue({ uid: 'admin-1', email: 'admin@exemplo.com' });
+    mocks.getDoc.mockResolvedValue({ exists: () => true, data: () => ({ role: 'admin', enterpriseEmail: 'empresa@exemplo.com' }) });
+    const request = fakeRequest({ headers: { authorization: 'Bearer token' } });
+
+    await requireRole(['admin'])(request, reply as unknown as FastifyReply);
+
+    expect(mocks.verifyIdToken).toHaveBeenCalledWith('token');
+    expect((request as any).user).toEqual(expect.objectContaining({ uid: 'admin-1', role: 'admin' }));
+    expect(reply.sent).toBe(false);
+  });
+
+  it('aplica a verificação de propriedade do role', async () => {
+    const reply = fakeReply();
+    const ownsResource = vi.fn(async () => false);
+
+    await requireRole(['admin', 'employee'], { employee: ownsResource })(
+      fakeRequest({ user: { ...adminUser, role: 'employee' } }),
+      reply as unknown as FastifyReply
+    );
+
+    expect(ownsResource).toHaveBeenCalledOnce();
+    expect(reply.statusCode).toBe(403);
+  });
+});
+
+describe('requireRegistrationKey', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('fica aberto fora de produção sem ENTERPRISE_REGISTRATION_KEY', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('ENTERPRISE_REGISTRATION_KEY', '');
+    const reply = fakeReply();
+
+    await requireRegistrationKey(fakeRequest(), reply as unknown as FastifyReply);
+
+    expect(reply.sent).toBe(false);
+  });
+
+  it('desativa o cadastro em produção sem ENTERPRISE_REGISTRATION_KEY', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('ENTERPRISE_REGISTRATION_KEY', '');
+    const reply = fakeReply();
+
+    await requireRegistrationKey(fakeRequest(), reply as unknown as FastifyReply);
+
+    expect(reply.statusCode).toBe(403);
+  });
+
+  it('exige o header com a chave configurada', async () => {
+    vi.stubEnv('ENTERPRISE_REGISTRATION_KEY', 'chave-secreta');
+
+    const missing = fakeReply();
+    await requireRegistrationKey(fakeRequest(), missing as unknown as FastifyReply);
+    expect(missing.statusCode).toBe(403);
+
+    const wrong = fakeReply();
+    await requireRegistrationKey(fakeRequest({ headers: { 'x-registration-key': 'outra' } }), wrong as unknown as FastifyReply);
+    expect(wrong.statusCode).toBe(403);
+
+    const valid = fakeReply();
+    await requireRegistrationKey(fakeRequest({ headers: { 'x-registration-key': 'chave-secreta' } }), valid as unknown as FastifyReply);
+    expect(valid.sent).toBe(false);
+  });
+});
+
+describe('enforceRouteAccess', () => {
+  it('recusa rota sem preHandler nem config public', () => {
+    expect(() => enforceRouteAccess({ method: 'GET', url: '/api/segredo' } as RouteOptions))
+      .toThrow('Rota GET /api/segredo sem autenticação');
+  });
+
+  it('aceita rota com preHandler ou marcada como pública', () => {
+    expect(() => enforceRouteAccess({ method: 'GET', url: '/a', preHandler: [vi.fn()] } as unknown as RouteOptions)).not.toThrow();
+    expect(() => enforceRouteAccess({ method: 'GET', url: '/b', config: { public: true } } as unknown as RouteOptions)).not.toThrow();
+  });
+});
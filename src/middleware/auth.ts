@@ -1,6 +1,14 @@
-import { FastifyRequest, FastifyReply } from 'fastify';
+import { timingSafeEqual } from 'crypto';
+import { FastifyRequest, FastifyReply, RouteOptions } from 'fastify';
 import admin from 'firebase-admin';
 
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // Rota acessível sem autenticação (formulários de agendamento, webhooks, links públicos)
+    public?: boolean;
+  }
+}
+
 if (!admin.apps.length) {
   admin.initializeApp({
     projectId: process.env.FIREBASE_PROJECT_ID || '',
@@ -13,9 +21,13 @@ interface AuthenticatedRequest extends FastifyRequest {
     email: string;
     role?: string;
     enterpriseEmail?: string;
+    employeeId?: string; // Funcionário vinculado (role employee)
   };
 }
 
+// Verificação de propriedade aplicada a um role, ex: funcionário só acessa os próprios agendamentos
+export type OwnershipCheck = (request: FastifyRequest) => Promise<boolean>;
+
 export async function authenticate(request: AuthenticatedRequest, reply: FastifyReply) {
   try {
     const authorization = request.headers.authorization;
@@ -50,7 +62,8 @@ export async function authenticate(request: AuthenticatedRequest, reply: Fastify
       uid: decodedToken.uid,
       email: decodedToken.email || '',
       role: userData?.role,
-      enterpriseEmail: userData?.enterpriseEmail
+      enterpriseEmail: userData?.enterpriseEmail,
+      ...(userData?.employeeId && { employeeId: userData.employeeId })
     };
 
   } catch (error: any) {
@@ -62,10 +75,15 @@ export async function authenticate(request: AuthenticatedRequest, reply: Fastify
   }
 }
 
-export function requireRole(allowedRoles: string[]) {
+export function requireRole(allowedRoles: string[], ownershipChecks: Partial<Record<string, OwnershipCheck>> = {}) {
   return async function(request: AuthenticatedRequest, reply: FastifyReply) {
-    await authenticate(request, reply);
-    
+    // As rotas já autenticam antes (preHandler: [authenticate, requireAdmin, ...]):
+    // o token só é verificado de novo quando requireRole é usado sozinho
+    if (!request.user) {
+      await authenticate(request, reply);
+      if (reply.sent) return;
+    }
+
     if (!request.user) {
       return reply.status(401).send({
         success: false,
@@ -79,6 +97,14 @@ export function requireRole(allowedRoles: string[]) {
         message: 'Acesso negado. Permissão insuficiente.'
       });
     }
+
+    const ownershipCheck = ownershipChecks[request.user.role || ''];
+    if (ownershipCheck && !(await ownershipCheck(request))) {
+      return reply.status(403).send({
+        success: false,
+        message: 'Acesso negado. O recurso não pertence ao usuário.'
+      });
+    }
   };
 }
 
@@ -86,6 +112,51 @@ export function requireAdmin(request: AuthenticatedRequest, reply: FastifyReply)
   return requireRole(['admin'])(request, reply);
 }
 
+export function requireEmployee(request: AuthenticatedRequest, reply: FastifyReply) {
+  return requireRole(['employee'])(request, reply);
+}
+
 export function requireAdminOrClient(request: AuthenticatedRequest, reply: FastifyReply) {
   return requireRole(['admin', 'client'])(request, reply);
 }
+
+// Cadastro de empresas: exige o header x-registration-key igual a
+// ENTERPRISE_REGISTRATION_KEY. Sem a variável, só fica aberto fora de produção
+export async function requireRegistrationKey(request: FastifyRequest, reply: FastifyReply) {
+  const registrationKey = process.env.ENTERPRISE_REGISTRATION_KEY;
+
+  if (!registrationKey) {
+    if (process.env.NODE_ENV !== 'production') return;
+
+    return reply.status(403).send({
+      success: false,
+      message: 'Cadastro de empresas desativado',
+      error: 'Acesso negado'
+    });
+  }
+
+  const header = request.headers['x-registration-key'];
+  const expected = Buffer.from(registrationKey);
+  const received = Buffer.from(typeof header === 'string' ? header : '');
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return reply.status(403).send({
+      success: false,
+      message: 'Chave de cadastro de empresas inválida',
+      error: 'Acesso negado'
+    });
+  }
+}
+
+// Hook onRoute: toda rota precisa de um preHandler de autenticação ou ser
+// marcada explicitamente com config: { public: true }
+export function enforceRouteAccess(routeOptions: RouteOptions) {
+  const preHandlers = [routeOptions.preHandler].flat().filter(Boolean);
+
+  if (routeOptions.config?.public || preHandlers.length > 0) {
+    return;
+  }
+
+  const method = [routeOptions.method].flat().join(',');
+  throw new Error(`Rota ${method} ${routeOptions.url} sem autenticação: adicione preHandler ou config: { public: true }`);
+}
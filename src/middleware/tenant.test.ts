@@ -0,0 +1,176 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  getEmployeeById: vi.fn(),
+  getScheduleById: vi.fn(),
+  getBookingById: vi.fn()
+}));
+
+vi.mock('firebase-admin', () => ({
+  default: { apps: [{}], auth: vi.fn() }
+}));
+vi.mock('../services/employeeService.js', () => ({
+  employeeService: { getEmployeeById: mocks.getEmployeeById }
+}));
+vi.mock('../services/scheduleService.js', () => ({
+  scheduleService: { getScheduleById: mocks.getScheduleById }
+}));
+vi.mock('../services/bookingService.js', () => ({
+  bookingService: { getBookingById: mocks.getBookingById }
+}));
+
+const {
+  requireTenant,
+  requireTenantParam,
+  requireTenantEmployee,
+  requireTenantSchedule,
+  ownsBooking,
+  requireBookingAccess
+} = await import('./tenant.js');
+
+function fakeReply() {
+  const reply = {
+    sent: false,
+    statusCode: 200,
+    status: vi.fn((code: number) => {
+      reply.statusCode = code;
+      return reply;
+    }),
+    send: vi.fn(() => {
+      reply.sent = true;
+      return reply;
+    })
+  };
+  return reply;
+}
+
+const user = { uid: 'admin-1', email: 'admin@exemplo.com', role: 'admin', enterpriseEmail: 'empresa@exemplo.com' };
+
+function fakeRequest(fields: Record<string, unknown> = {}, schema: Record<string, unknown> = {}) {
+  return { user, params: {}, routeOptions: { schema }, ...fields } as unknown as FastifyRequest;
+}
+
+async function run(
+  preHandler: (request: FastifyRequest, reply: FastifyReply) => unknown,
+  request: FastifyRequest
+) {
+  const reply = fakeReply();
+  await preHandler(request, reply as unknown as FastifyReply);
+  return reply;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('requireTenant', () => {
+  it('exige usuário autenticado', async () => {
+    expect((await run(requireTenant, fakeRequest({ user: undefined }))).statusCode).toBe(401);
+  });
+
+  it('recusa usuário sem empresa', async () => {
+    expect((await run(requireTenant, fakeRequest({ user: { ...user, enterpriseEmail: undefined } }))).statusCode).toBe(403);
+  });
+
+  it('recusa enterpriseEmail de outra empresa na query ou no corpo', async () => {
+    expect((await run(requireTenant, fakeRequest({ query: { enterpriseEmail: 'outra@exemplo.com' } }))).statusCode).toBe(403);
+    expect((await run(requireTenant, fakeRequest({ body: { enterpriseEmail: 'outra@exemplo.com' } }))).statusCode).toBe(403);
+  });
+
+  it('aceita o enterpriseEmail da própria empresa sem diferenciar maiúsculas', async () => {
+    const reply = await run(requireTenant, fakeRequest({ query: { enterpriseEmail: ' Empresa@Exemplo.com ' } }));
+    expect(reply.sent).toBe(false);
+  });
+
+  it('preenche enterpriseEmail com o do token quando o schema declara o campo', async () => {
+    const query: Record<string, unknown> = {};
+    const request = fakeRequest({ query }, {
+      querystring: { type: 'object', properties: { enterpriseEmail: { type: 'string' } } }
+    });
+
+    const reply = await run(requireTenant, request);
+
+    expect(reply.sent).toBe(false);
+    expect(query.enterpriseEmail).toBe('empresa@exemplo.com');
+  });
+
+  it('não acrescenta enterpriseEmail quando o schema não declara o campo', async () => {
+    const body: Record<string, unknown> = { name: 'Corte' };
+
+    await run(requireTenant, fakeRequest({ body }, { body: { type: 'object', properties: { name: { type: 'string' } } } }));
+
+    expect(body).toEqual({ name: 'Corte' });
+  });
+});
+
+describe('requireTenantParam', () => {
+  it('recusa o parâmetro de rota de outra empresa', async () => {
+    const request = fakeRequest({ params: { email: 'outra@exemplo.com' } });
+    expect((await run(requireTenantParam('email'), request)).statusCode).toBe(403);
+  });
+
+  it('aceita o parâmetro de rota da própria empresa', async () => {
+    const request = fakeRequest({ params: { email: 'empresa@exemplo.com' } });
+    expect((await run(requireTenantParam('email'), request)).sent).toBe(false);
+  });
+});
+
+describe('requireTenantEmployee e requireTenantSchedule', () => {
+  it('responde 404 para funcionário de outra empresa', async () => {
+    mocks.getEmployeeById.mockResolvedValue({ success: true, data: { id: 'emp-1', enterpriseEmail: 'outra@exemplo.com' } });
+
+    const reply = await run(requireTenantEmployee(), fakeRequest({ params: { id: 'emp-1' } }));
+
+    expect(reply.statusCode).toBe(404);
+  });
+
+  it('aceita funcionário da própria empresa', async () => {
+    mocks.getEmployeeById.mockResolvedValue({ success: true, data: { id: 'emp-1', enterpriseEmail: 'empresa@exemplo.com' } });
+
+    const reply = await run(requireTenantEmployee(), fakeRequest({ params: { id: 'emp-1' } }));
+
+    expect(reply.sent).toBe(false);
+  });
+
+  it('responde 404 para horário inexistente ou de outra empresa', async () => {
+    mocks.getScheduleById.mockResolvedValueOnce({ success: false });
+    expect((await run(requireTenantSchedule(), fakeRequest({ params: { id: 's-1' } }))).statusCode).toBe(404);
+
+    mocks.getScheduleById.mockResolvedValueOnce({ success: true, data: { enterpriseEmail: 'outra@exemplo.com' } });
+    expect((await run(requireTenantSchedule(), fakeRequest({ params: { id: 's-1' } }))).statusCode).toBe(404);
+  });
+});
+
+describe('requireBookingAccess', () => {
+  const employeeUser = { uid: 'emp-user', email: 'barbeiro@exemplo.com', role: 'employee', enterpriseEmail: 'empresa@exemplo.com', employeeId: 'emp-1' };
+
+  it('libera qualquer agendamento da empresa para o admin', async () => {
+    const reply = await run(requireBookingAccess, fakeRequest({ params: { id: 'booking-1' } }));
+
+    expect(reply.sent).toBe(false);
+    expect(mocks.getBookingById).not.toHaveBeenCalled();
+  });
+
+  it('libera para o funcionário apenas os próprios agendamentos', async () => {
+    mocks.getBookingById.mockResolvedValueOnce({ success: true, data: { id: 'booking-1', employeeId: 'emp-1' } });
+    const own = await run(requireBookingAccess, fakeRequest({ user: employeeUser, params: { id: 'booking-1' } }));
+    expect(own.sent).toBe(false);
+    expect(mocks.getBookingById).toHaveBeenCalledWith('empresa@exemplo.com', 'booking-1');
+
+    mocks.getBookingById.mockResolvedValueOnce({ success: true, data: { id: 'booking-2', employeeId: 'emp-2' } });
+    const other = await run(requireBookingAccess, fakeRequest({ user: employeeUser, params: { id: 'booking-2' } }));
+    expect(other.statusCode).toBe(403);
+  });
+
+  it('recusa cliente', async () => {
+    const reply = await run(requireBookingAccess, fakeRequest({ user: { ...user, role: 'client' }, params: { id: 'booking-1' } }));
+
+    expect(reply.statusCode).toBe(403);
+  });
+
+  it('não considera dono o usuário sem funcionário vinculado', async () => {
+    expect(await ownsBooking(fakeRequest({ user: { ...employeeUser, employeeId: undefined }, params: { id: 'booking-1' } }))).toBe(false);
+    expect(mocks.getBookingById).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,130 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { requireRole } from './auth.js';
+import { bookingService } from '../services/bookingService.js';
+import { employeeService } from '../services/employeeService.js';
+import { scheduleService } from '../services/scheduleService.js';
+
+type RequestFields = Record<string, unknown>;
+
+function isRequestFields(value: unknown): value is RequestFields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sameEnterprise(value: unknown, tenantEmail: string): boolean {
+  return typeof value === 'string' && value.trim().toLowerCase() === tenantEmail.toLowerCase();
+}
+
+function declaresEnterpriseEmail(schema: unknown): boolean {
+  return isRequestFields(schema) && isRequestFields(schema.properties) && 'enterpriseEmail' in schema.properties;
+}
+
+function sendForbidden(reply: FastifyReply) {
+  return reply.status(403).send({
+    success: false,
+    message: 'Acesso negado aos dados de outra empresa',
+    error: 'Acesso negado'
+  });
+}
+
+// Empresa do usuário autenticado (disponível depois de requireTenant)
+export function getTenantEmail(request: FastifyRequest): string {
+  return (request as any).user?.enterpriseEmail || '';
+}
+
+// Limita a rota à empresa do token. Um enterpriseEmail de outra empresa é
+// rejeitado; quando omitido, é preenchido com o do token para os handlers
+export function requireTenantParam(paramName: string) {
+  return async function(request: FastifyRequest, reply: FastifyReply) {
+    const user = (request as any).user;
+
+    if (!user) {
+      return reply.status(401).send({
+        success: false,
+        message: 'Usuário não autenticado'
+      });
+    }
+
+    if (!user.enterpriseEmail) {
+      return reply.status(403).send({
+        success: false,
+        message: 'Usuário não está associado a nenhuma empresa',
+        error: 'Acesso negado'
+      });
+    }
+
+    const tenantEmail: string = user.enterpriseEmail;
+    const params = isRequestFields(request.params) ? request.params : {};
+
+    if (paramName in params && !sameEnterprise(params[paramName], tenantEmail)) {
+      return sendForbidden(reply);
+    }
+
+    const schema = request.routeOptions.schema;
+    const sources: Array<[unknown, unknown]> = [
+      [request.query, schema?.querystring],
+      [request.body, schema?.body]
+    ];
+
+    for (const [fields, fieldsSchema] of sources) {
+      if (!isRequestFields(fields)) continue;
+
+      if (fields.enterpriseEmail !== undefined && !sameEnterprise(fields.enterpriseEmail, tenantEmail)) {
+        return sendForbidden(reply);
+      }
+
+      if (declaresEnterpriseEmail(fieldsSchema)) {
+        fields.enterpriseEmail = tenantEmail;
+      }
+    }
+  };
+}
+
+export function requireTenant(request: FastifyRequest, reply: FastifyReply) {
+  return requireTenantParam('enterpriseEmail')(request, reply);
+}
+
+// Funcionários ficam na coleção global: o ID precisa ser da empresa do token
+export function requireTenantEmployee(paramName: string = 'id') {
+  return async function(request: FastifyRequest, reply: FastifyReply) {
+    const employeeId = (request.params as RequestFields)[paramName] as string;
+    const employeeResult = await employeeService.getEmployeeById(employeeId);
+
+    if (!employeeResult.data || !sameEnterprise(employeeResult.data.enterpriseEmail, getTenantEmail(request))) {
+      return reply.status(404).send({
+        success: false,
+        message: 'Funcionário não encontrado'
+      });
+    }
+  };
+}
+
+// Horários também ficam na coleção global
+export function requireTenantSchedule(paramName: string = 'id') {
+  return async function(request: FastifyRequest, reply: FastifyReply) {
+    const scheduleId = (request.params as RequestFields)[paramName] as string;
+    const scheduleResult = await scheduleService.getScheduleById(scheduleId);
+
+    if (!scheduleResult.data || !sameEnterprise(scheduleResult.data.enterpriseEmail, getTenantEmail(request))) {
+      return reply.status(404).send({
+        success: false,
+        message: 'Schedule não encontrado'
+      });
+    }
+  };
+}
+
+// O agendamento (params.id) precisa ser do funcionário vinculado ao usuário
+export async function ownsBooking(request: FastifyRequest): Promise<boolean> {
+  const user = (request as any).user;
+  if (!user?.employeeId || !user.enterpriseEmail) return false;
+
+  const bookingId = (request.params as RequestFields).id as string;
+  const bookingResult = await bookingService.getBookingById(user.enterpriseEmail, bookingId);
+
+  return bookingResult.data?.employeeId === user.employeeId;
+}
+
+// Admin acessa qualquer agendamento da empresa; funcionário, só os próprios
+export function requireBookingAccess(request: FastifyRequest, reply: FastifyReply) {
+  return requireRole(['admin', 'employee'], { employee: ownsBooking })(request, reply);
+}
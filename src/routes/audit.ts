@@ -0,0 +1,63 @@
+import { FastifyInstance } from 'fastify';
+import { auditService, AuditFilters } from '../services/auditService.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { requireTenant, getTenantEmail } from '../middleware/tenant.js';
+
+const entityTypes = [
+  'booking',
+  'bookingSeries',
+  'product',
+  'employee',
+  'schedule',
+  'scheduleException',
+  'enterprise',
+  'client',
+  'commissionRule',
+  'payment',
+  'payoutStatement',
+  'waitlistEntry',
+  'webhook',
+  'messageTemplate'
+];
+
+export async function auditRoutes(fastify: FastifyInstance) {
+
+  fastify.get('/audit', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Audit'],
+      summary: 'Histórico de alterações da empresa',
+      description: 'Lista as alterações (quem, quando, o quê) mais recentes primeiro. Sem período informado, retorna os últimos 30 dias.',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          entityType: { type: 'string', enum: entityTypes },
+          entityId: { type: 'string' },
+          actorUid: { type: 'string', description: 'UID de quem fez a alteração ("system" para rotinas automáticas, "public" para links públicos)' },
+          startDate: { type: 'string', format: 'date', description: 'Início do período (YYYY-MM-DD)' },
+          endDate: { type: 'string', format: 'date', description: 'Fim do período, inclusivo (YYYY-MM-DD)' },
+          limit: { type: 'integer', minimum: 1, maximum: 500, default: 100 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const result = await auditService.getEntries(getTenantEmail(request), request.query as AuditFilters);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao buscar auditoria'
+        });
+      }
+
+      return { success: true, data: result.data };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+}
@@ -1,24 +1,24 @@
 import { FastifyInstance } from 'fastify';
 import { authService } from '../services/authService.js';
 import { enterpriseService } from '../services/enterpriseService.js';
-import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { authenticate, requireAdmin, requireRegistrationKey } from '../middleware/auth.js';
+import { requireTenant, getTenantEmail } from '../middleware/tenant.js';
 import { userSchema, responses, enterpriseSchema, enterpriseRegistrationSchema } from '../schemas/index.js';
+import { isValidTimeZone } from '../utils/dateTime.js';
 
 export async function authRoutes(fastify: FastifyInstance) {
   fastify.post('/auth/register', {
+    config: { public: true },
     schema: {
       tags: ['Authentication'],
       summary: 'Registrar novo usuário',
       description: `
-        Cria uma nova conta de usuário com diferentes tipos de acesso.
-        
-        **Tipos de usuário:**
-        - **client**: Cliente comum que agenda serviços
-        - **admin**: Administrador de empresa (requer enterpriseEmail)
+        Cria uma conta de cliente comum, que agenda serviços.
         
         **⚠️ Importante:** 
-        - Use /auth/register-enterprise para criar empresas novas
-        - Funcionários não fazem login - são recursos internos gerenciados pelo admin
+        - Use /auth/register-enterprise para criar empresas novas (com o primeiro admin)
+        - Novos administradores são criados por um admin da empresa em /auth/register-admin
+        - Funcionários recebem login (role employee) pelo admin em /employees/{id}/account
       `,
       body: {
         type: 'object',
@@ -40,20 +40,16 @@ export async function authRoutes(fastify: FastifyInstance) {
           },
           role: { 
             type: 'string', 
-            enum: ['admin', 'client'],
-            description: 'Tipo de usuário'
-          },
-          enterpriseEmail: { 
-            type: 'string', 
-            format: 'email',
-            description: 'Email da empresa (obrigatório para admins)'
+            enum: ['client'],
+            default: 'client',
+            description: 'Tipo de usuário (apenas client no cadastro público)'
           },
           phone: { 
             type: 'string',
             description: 'Telefone de contato (opcional)'
           }
         },
-        required: ['email', 'password', 'name', 'role']
+        required: ['email', 'password', 'name']
       },
       response: {
         201: {
@@ -72,16 +68,10 @@ export async function authRoutes(fastify: FastifyInstance) {
     }
   }, async (request, reply) => {
     try {
-      const { email, password, name, role, enterpriseEmail, phone } = request.body as any;
-      
-      if (role === 'admin' && !enterpriseEmail) {
-        return reply.status(400).send({
-          success: false,
-          message: 'enterpriseEmail é obrigatório para administradores'
-        });
-      }
+      const { email, password, name, phone } = request.body as any;
 
-      const result = await authService.registerUser(email, password, name, role, enterpriseEmail, phone);
+      // Cadastro público nunca cria admin: o token de admin dá acesso aos dados da empresa
+      const result = await authService.registerUser(email, password, name, 'client', undefined, phone);
       
       if (result.success) {
         return reply.status(201).send({
@@ -105,7 +95,67 @@ export async function authRoutes(fastify: FastifyInstance) {
     }
   });
 
+  fastify.post('/auth/register-admin', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Authentication'],
+      summary: 'Registrar administrador da empresa',
+      description: 'Cria outro administrador para a empresa do admin autenticado.',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email' },
+          password: { type: 'string', minLength: 6 },
+          name: { type: 'string', minLength: 2 },
+          phone: { type: 'string' }
+        },
+        required: ['email', 'password', 'name']
+      },
+      response: {
+        201: {
+          ...responses[201],
+          properties: {
+            ...responses[201].properties,
+            data: userSchema
+          }
+        },
+        400: responses[400],
+        401: responses[401],
+        403: responses[403],
+        500: responses[500]
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { email, password, name, phone } = request.body as any;
+
+      const result = await authService.registerUser(email, password, name, 'admin', getTenantEmail(request), phone);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: result.data,
+        message: 'Administrador registrado com sucesso'
+      });
+    } catch (error: any) {
+      fastify.log.error('Erro no registro de administrador:', error);
+
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
   fastify.post('/auth/login', {
+    config: { public: true },
     schema: {
       tags: ['Authentication'],
       summary: 'Fazer login',
@@ -206,6 +256,7 @@ export async function authRoutes(fastify: FastifyInstance) {
   });
 
   fastify.post('/auth/logout', {
+    config: { public: true },
     schema: {
       tags: ['Authentication'],
       summary: 'Realizar logout',
@@ -224,10 +275,12 @@ export async function authRoutes(fastify: FastifyInstance) {
   });
 
   fastify.get('/auth/profile/:uid', {
+    preHandler: [authenticate],
     schema: {
       tags: ['Authentication'],
       summary: 'Buscar perfil por ID',
-      description: 'Retorna os dados públicos de um usuário específico',
+      description: 'Retorna o perfil do próprio usuário ou, para administradores, de um usuário da mesma empresa',
+      security: [{ bearerAuth: [] }],
       params: {
         type: 'object',
         properties: {
@@ -246,6 +299,8 @@ export async function authRoutes(fastify: FastifyInstance) {
             data: userSchema
           }
         },
+        401: responses[401],
+        403: responses[403],
         404: responses[404],
         500: responses[500],
         502: responses[502]
@@ -254,10 +309,23 @@ export async function authRoutes(fastify: FastifyInstance) {
   }, async (request, reply) => {
     try {
       const { uid } = request.params as { uid: string };
-      
+      const user = (request as any).user;
+
+      if (user.uid !== uid && user.role !== 'admin') {
+        return reply.status(403).send({
+          success: false,
+          message: 'Acesso negado. O perfil não pertence ao usuário.'
+        });
+      }
+
       const result = await authService.getUserProfile(uid);
-      
-      if (result.success) {
+
+      // Admin só vê perfis da própria empresa; de outra empresa, como se não existisse
+      const sameTenant = user.uid === uid || (
+        !!user.enterpriseEmail && result.data?.enterpriseEmail?.toLowerCase() === user.enterpriseEmail.toLowerCase()
+      );
+
+      if (result.success && sameTenant) {
         return {
           success: true,
           data: result.data
@@ -265,7 +333,7 @@ export async function authRoutes(fastify: FastifyInstance) {
       } else {
         return reply.status(404).send({
           success: false,
-          message: result.error
+          message: result.success ? 'Usuário não encontrado' : result.error
         });
       }
     } catch (error: any) {
@@ -279,11 +347,16 @@ export async function authRoutes(fastify: FastifyInstance) {
   });
 
   fastify.post('/auth/register-enterprise', {
+    preHandler: [requireRegistrationKey],
+    config: { rateLimit: { max: 5, timeWindow: '1 hour' } },
     schema: {
       tags: ['Authentication'],
       summary: 'Registrar Nova Empresa',
       description: `
         Cria uma nova empresa e o usuário administrador em uma única operação.
+
+        **🔑 Acesso:** exige o header x-registration-key com o valor de ENTERPRISE_REGISTRATION_KEY
+        (em produção, sem a variável, o cadastro fica desativado). Limitado a 5 cadastros por hora por IP.
         
         **🏢 Fluxo completo:**
         1. Cria a empresa no sistema
@@ -312,6 +385,7 @@ export async function authRoutes(fastify: FastifyInstance) {
           }
         },
         400: responses[400],
+        403: responses[403],
         409: responses[409],
         422: responses[422],
         500: responses[500],
@@ -326,9 +400,17 @@ export async function authRoutes(fastify: FastifyInstance) {
         name,
         enterpriseName,
         phone, 
-        address 
+        address,
+        timeZone
       } = request.body as any;
 
+      if (timeZone && !isValidTimeZone(timeZone)) {
+        return reply.status(400).send({
+          success: false,
+          message: `Fuso horário inválido: ${timeZone}`
+        });
+      }
+
       const userExists = await authService.login(email, 'fake_password_test');
       if (userExists.success) {
         return reply.status(409).send({
@@ -342,7 +424,8 @@ export async function authRoutes(fastify: FastifyInstance) {
         email: email,
         name: enterpriseName,
         phone: phone,
-        address: address
+        address: address,
+        ...(timeZone && { timeZone })
       });
 
       if (!enterpriseResult.success) {
@@ -4,10 +4,11 @@ import { responses } from '../schemas/index.js';
 
 export async function availabilityRoutes(fastify: FastifyInstance) {
   fastify.get('/availability/slots', {
+    config: { public: true },
     schema: {
       tags: ['Availability'],
       summary: 'Consultar horários disponíveis',
-      description: 'Retorna os horários disponíveis para agendamento em uma data específica, considerando a duração do serviço e agendamentos existentes.',
+      description: 'Retorna os horários disponíveis para agendamento em uma data específica, considerando a duração do serviço e agendamentos existentes. Com productIds, a duração é a soma dos serviços do combo.',
       querystring: {
           type: 'object',
           properties: {
@@ -25,9 +26,14 @@ export async function availabilityRoutes(fastify: FastifyInstance) {
               type: 'number',
               minimum: 1,
               description: 'Duração do serviço em minutos'
+            },
+            productIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'IDs dos serviços do combo (substitui duration)'
             }
           },
-          required: ['enterpriseEmail', 'date', 'duration']
+          required: ['enterpriseEmail', 'date']
         },
       response: {
         200: {
@@ -54,14 +60,26 @@ export async function availabilityRoutes(fastify: FastifyInstance) {
     }
   }, async (request, reply) => {
     try {
-      const { enterpriseEmail, date, duration } = request.query as any;
-      
-      if (!enterpriseEmail || !date || !duration) {
+      const { enterpriseEmail, date, productIds } = request.query as any;
+      let { duration } = request.query as any;
+
+      if (!enterpriseEmail || !date || (!duration && !productIds?.length)) {
         return reply.status(400).send({
           success: false,
-          message: 'enterpriseEmail, date e duration são obrigatórios'
+          message: 'enterpriseEmail, date e duration (ou productIds) são obrigatórios'
         });
       }
+
+      if (productIds?.length) {
+        const servicesResult = await bookingService.resolveServices(enterpriseEmail, productIds);
+        if (!servicesResult.success || !servicesResult.data) {
+          return reply.status(400).send({
+            success: false,
+            message: servicesResult.error || 'Serviços não encontrados'
+          });
+        }
+        duration = servicesResult.data.totalDuration;
+      }
       
       const result = await bookingService.getAvailableSlots(enterpriseEmail, date, duration);
       
@@ -88,6 +106,7 @@ export async function availabilityRoutes(fastify: FastifyInstance) {
   });
 
   fastify.post('/availability/check', {
+    config: { public: true },
     schema: {
       tags: ['Availability'],
       description: 'Verificar se um horário específico está disponível',
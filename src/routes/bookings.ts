@@ -1,43 +1,56 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { bookingService } from '../services/bookingService.js';
+import { bookingSeriesService } from '../services/bookingSeriesService.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { requireTenant, getTenantEmail, requireBookingAccess } from '../middleware/tenant.js';
+import { BookingActor } from '../types/index.js';
 import { bookingSchema, responses } from '../schemas/index.js';
 import { 
   scheduleSimpleReminder, 
-  cancelSimpleReminder, 
-  getActiveReminders 
+  getActiveReminders,
+  getDeadLetterReminders
 } from '../services/reminder.js';
+import { getManageUrl, getBookingCalendarUrl } from '../services/bookingMessages.js';
+import { paymentService } from '../services/paymentService.js';
+import { DEFAULT_TIME_ZONE, nowInTimeZone, toZonedIsoString } from '../utils/dateTime.js';
 
 export async function bookingRoutes(fastify: FastifyInstance) {
   
-  function calculateReminderDelay(date: string, startTime: string): number {
-    const isProduction = process.env.NODE_ENV === 'production';
-    const minutesBefore = isProduction ? 30 : 0.5;
-
-    const bookingDateTime = new Date(`${date}T${startTime}:00-03:00`);
-    const reminderTime = bookingDateTime.getTime() - (minutesBefore * 60 * 1000);
-    const delay = reminderTime - Date.now();
-
-    return Math.max(0, Math.round(delay / 1000));
+  function getActor(request: FastifyRequest): BookingActor | undefined {
+    const user = (request as any).user;
+    if (!user?.uid) return undefined;
+
+    return {
+      uid: user.uid,
+      email: user.email || '',
+      ...(user.role && { role: user.role })
+    };
   }
 
-  function createBookingTimestamp(date: string, startTime: string): string {
+  function sendTransitionError(reply: FastifyReply, error: string | undefined, fallback: string) {
+    const errorMessage = error || fallback;
+    const statusCode = errorMessage.includes('não encontrado') ? 404 : 409;
 
-    return `${date}T${startTime}:00-03:00`;
+    return reply.status(statusCode).send({
+      success: false,
+      message: errorMessage
+    });
   }
 
 
   fastify.get('/bookings', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
     schema: {
       tags: ['Bookings'],
       summary: 'Listar agendamentos',
+      security: [{ bearerAuth: [] }],
       querystring: {
         type: 'object',
         properties: {
           enterpriseEmail: { type: 'string', format: 'email' },
           date: { type: 'string', format: 'date' },
-          status: { type: 'string', enum: ['pending', 'confirmed', 'cancelled', 'completed'] }
-        },
-        required: ['enterpriseEmail']
+          status: { type: 'string', enum: ['pending', 'confirmed', 'cancelled', 'completed', 'no_show'] }
+        }
       }
     }
   }, async (request, reply) => {
@@ -72,6 +85,7 @@ export async function bookingRoutes(fastify: FastifyInstance) {
   });
 
   fastify.post('/bookings', {
+    config: { public: true },
     schema: {
       tags: ['Bookings'],
       summary: 'Criar agendamento com lembrete automático',
@@ -83,13 +97,18 @@ export async function bookingRoutes(fastify: FastifyInstance) {
           clientPhone: { type: 'string' },
           clientEmail: { type: 'string', format: 'email' },
           productId: { type: 'string' },
+          productIds: { type: 'array', items: { type: 'string' }, minItems: 1 },
           employeeId: { type: 'string' },
           employeeName: { type: 'string' },
           date: { type: 'string', format: 'date' },
           startTime: { type: 'string', pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$' },
           notes: { type: 'string' }
         },
-        required: ['enterpriseEmail', 'clientName', 'clientPhone', 'productId', 'date', 'startTime']
+        required: ['enterpriseEmail', 'clientName', 'clientPhone', 'date', 'startTime'],
+        anyOf: [
+          { required: ['productId'] },
+          { required: ['productIds'] }
+        ]
       }
     }
   }, async (request, reply) => {
@@ -102,6 +121,7 @@ export async function bookingRoutes(fastify: FastifyInstance) {
         clientPhone: body.clientPhone,
         clientEmail: body.clientEmail,
         productId: body.productId,
+        productIds: body.productIds,
         employeeId: body.employeeId,
         employeeName: body.employeeName,
         date: body.date,
@@ -112,41 +132,34 @@ export async function bookingRoutes(fastify: FastifyInstance) {
       console.log(' Resultado do agendamento:', { success: result.success });
 
       if (result.success && 'data' in result) {
-        const bookingData = result.data;
+        let bookingData = result.data;
         
         if (bookingData && typeof bookingData === 'object' && 'id' in bookingData) {
           console.log('✅ Agendamento criado:', bookingData.id);
-          
+
+          // Sinal e confirmação ficam nos handlers de booking.created; aqui só
+          // devolve o agendamento atualizado e o PIX do sinal, se houver
+          const currentResult = await bookingService.getBookingById(bookingData.enterpriseEmail, bookingData.id!);
+          if (currentResult.data) {
+            bookingData = currentResult.data;
+          }
+          const depositCharge = await paymentService.getDepositCharge(bookingData.enterpriseEmail, bookingData.id!);
+
+          let manageUrl: string | undefined;
+          let calendarUrl: string | undefined;
           try {
-            const delaySeconds = calculateReminderDelay(body.date, body.startTime);
-            
-            if (delaySeconds > 0) {
-              console.log('Agendando lembrete...');
-              
-
-              const bookingDateTime = createBookingTimestamp(body.date, body.startTime);
-              
-              const reminderScheduled = await scheduleSimpleReminder(bookingData.id as string, {
-                bookingId: bookingData.id as string,
-                clientName: body.clientName,
-                clientPhone: body.clientPhone,
-                productName: (bookingData as any).productName || 'Serviço',
-                bookingDateTime: bookingDateTime 
-              }, delaySeconds);
-              
-              console.log(`Lembrete agendado para: ${bookingDateTime} (delay: ${delaySeconds}s)`);
-            } else {
-              console.log(' Delay inválido, sem lembrete');
-            }
-          } catch (reminderError) {
-            console.error('Erro no lembrete:', reminderError);
-            
+            manageUrl = getManageUrl(bookingData);
+            calendarUrl = getBookingCalendarUrl(bookingData);
+          } catch (linkError) {
+            console.error('Erro ao gerar link do agendamento:', linkError);
           }
 
           return reply.status(201).send({
             success: true,
-            data: bookingData,
-            message: 'Agendamento criado com sucesso! Lembrete agendado.'
+            data: { ...bookingData, manageUrl, calendarUrl, ...(depositCharge && { depositCharge }) },
+            message: depositCharge
+              ? 'Agendamento criado! Pague o sinal via PIX para confirmar o horário.'
+              : 'Agendamento criado com sucesso! Lembrete agendado.'
           });
         } else {
           console.error('Dados do agendamento inválidos');
@@ -158,6 +171,15 @@ export async function bookingRoutes(fastify: FastifyInstance) {
       } else {
         const errorMessage = 'error' in result ? result.error : 'Erro ao criar agendamento';
         console.error(' Falha na criação:', errorMessage);
+
+        if (result.conflictTime) {
+          return reply.status(409).send({
+            success: false,
+            message: errorMessage || `Horário ${result.conflictTime} não disponível`,
+            error: 'Conflito de horário',
+            conflictTime: result.conflictTime
+          });
+        }
         
         return reply.status(400).send({
           success: false,
@@ -175,27 +197,25 @@ export async function bookingRoutes(fastify: FastifyInstance) {
   });
 
   fastify.put('/bookings/:id/confirm', {
+    preHandler: [authenticate, requireTenant, requireBookingAccess],
     schema: {
       tags: ['Bookings'],
+      summary: 'Confirmar agendamento',
+      security: [{ bearerAuth: [] }],
       params: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
-      querystring: { type: 'object', properties: { enterpriseEmail: { type: 'string' } }, required: ['enterpriseEmail'] }
+      querystring: { type: 'object', properties: { enterpriseEmail: { type: 'string' } } }
     }
   }, async (request, reply) => {
     try {
       const { id } = request.params as { id: string };
       const { enterpriseEmail } = request.query as { enterpriseEmail: string };
 
-      const result = await bookingService.confirmBooking(enterpriseEmail, id);
+      const result = await bookingService.confirmBooking(enterpriseEmail, id, getActor(request));
 
       if (result.success) {
-        const message = 'message' in result ? result.message : 'Agendamento confirmado';
-        return { success: true, message: message || 'Confirmado com sucesso' };
+        return { success: true, data: result.data, message: result.message || 'Confirmado com sucesso' };
       } else {
-        const errorMessage = 'error' in result ? result.error : 'Erro ao confirmar';
-        return reply.status(500).send({
-          success: false,
-          message: errorMessage || 'Erro interno'
-        });
+        return sendTransitionError(reply, result.error, 'Erro ao confirmar');
       }
     } catch (error: any) {
       return reply.status(500).send({
@@ -206,11 +226,13 @@ export async function bookingRoutes(fastify: FastifyInstance) {
   });
 
   fastify.put('/bookings/:id/cancel', {
+    preHandler: [authenticate, requireTenant, requireBookingAccess],
     schema: {
       tags: ['Bookings'],
       summary: 'Cancelar agendamento e lembrete',
+      security: [{ bearerAuth: [] }],
       params: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
-      querystring: { type: 'object', properties: { enterpriseEmail: { type: 'string' } }, required: ['enterpriseEmail'] }
+      querystring: { type: 'object', properties: { enterpriseEmail: { type: 'string' } } }
     }
   }, async (request, reply) => {
     try {
@@ -219,40 +241,291 @@ export async function bookingRoutes(fastify: FastifyInstance) {
 
       console.log(` Cancelando agendamento: ${id}`);
 
+      const result = await bookingService.cancelBooking(enterpriseEmail, id, getActor(request));
 
-      const result = await bookingService.cancelBooking(enterpriseEmail, id);
+      if (result.success) {
+        return { success: true, data: result.data, message: result.message || 'Cancelado com sucesso' };
+      } else {
+        return sendTransitionError(reply, result.error, 'Erro ao cancelar agendamento');
+      }
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.put('/bookings/:id/complete', {
+    preHandler: [authenticate, requireTenant, requireBookingAccess],
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Marcar agendamento como concluído',
+      security: [{ bearerAuth: [] }],
+      params: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+      querystring: { type: 'object', properties: { enterpriseEmail: { type: 'string' } } }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+
+      const result = await bookingService.completeBooking(enterpriseEmail, id, getActor(request));
 
       if (result.success) {
-    
-        try {
-          const reminderCanceled = await cancelSimpleReminder(id);
-          console.log(`Lembrete cancelado: ${reminderCanceled}`);
-          
-          const message = 'message' in result ? result.message : 'Agendamento cancelado';
-          const reminderMsg = reminderCanceled ? ' Lembrete cancelado.' : ' (Lembrete não encontrado)';
-          
-          return {
-            success: true,
-            message: (message || 'Cancelado com sucesso') + reminderMsg
-          };
-        } catch (reminderError) {
-          console.error('Erro ao cancelar lembrete:', reminderError);
-          
-          const message = 'message' in result ? result.message : 'Agendamento cancelado';
-          return {
-            success: true,
-            message: (message || 'Cancelado com sucesso') + ' (Erro ao cancelar lembrete)'
-          };
-        }
+        return { success: true, data: result.data, message: result.message || 'Concluído com sucesso' };
       } else {
-        const errorMessage = 'error' in result ? result.error : 'Erro ao cancelar';
-        const statusCode = (errorMessage || '').includes('não encontrado') ? 404 : 400;
-        
+        return sendTransitionError(reply, result.error, 'Erro ao concluir agendamento');
+      }
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.put('/bookings/:id/no-show', {
+    preHandler: [authenticate, requireTenant, requireBookingAccess],
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Marcar não comparecimento do cliente',
+      security: [{ bearerAuth: [] }],
+      params: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+      querystring: { type: 'object', properties: { enterpriseEmail: { type: 'string' } } }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+
+      const result = await bookingService.markNoShow(enterpriseEmail, id, getActor(request));
+
+      if (result.success) {
+        return { success: true, data: result.data, message: result.message || 'Não comparecimento registrado' };
+      } else {
+        return sendTransitionError(reply, result.error, 'Erro ao registrar não comparecimento');
+      }
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+
+  fastify.put('/bookings/:id/reschedule', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Reagendar agendamento e lembrete',
+      description: 'Move o agendamento para nova data/horário (e opcionalmente outro funcionário), refazendo as verificações de disponibilidade. O horário anterior é preservado no histórico do agendamento.',
+      security: [{ bearerAuth: [] }],
+      params: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+      querystring: { type: 'object', properties: { enterpriseEmail: { type: 'string' } } },
+      body: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', format: 'date' },
+          startTime: { type: 'string', pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$' },
+          employeeId: { type: 'string' }
+        },
+        required: ['date', 'startTime']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+      const body = request.body as { date: string; startTime: string; employeeId?: string };
+
+      const result = await bookingService.rescheduleBooking(enterpriseEmail, id, {
+        date: body.date,
+        startTime: body.startTime,
+        employeeId: body.employeeId
+      });
+
+      if (!result.success || !result.data) {
+        const errorMessage = result.error || 'Erro ao reagendar';
+
+        if (result.conflictTime) {
+          return reply.status(409).send({
+            success: false,
+            message: errorMessage,
+            error: 'Conflito de horário',
+            conflictTime: result.conflictTime
+          });
+        }
+
+        const statusCode = errorMessage.includes('não encontrado') ? 404 : 400;
+
         return reply.status(statusCode).send({
           success: false,
-          message: errorMessage || 'Erro ao cancelar agendamento'
+          message: errorMessage
+        });
+      }
+
+      return {
+        success: true,
+        data: result.data,
+        message: 'Agendamento reagendado com sucesso.'
+      };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/bookings/series', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Criar série de agendamentos recorrentes',
+      description: 'Cria agendamentos semanais, quinzenais ou mensais a partir de uma regra. Cada ocorrência passa pelas verificações de disponibilidade; as que conflitam são reportadas em conflicts.',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          enterpriseEmail: { type: 'string', format: 'email' },
+          clientName: { type: 'string' },
+          clientPhone: { type: 'string' },
+          clientEmail: { type: 'string', format: 'email' },
+          productId: { type: 'string' },
+          employeeId: { type: 'string' },
+          startDate: { type: 'string', format: 'date' },
+          startTime: { type: 'string', pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$' },
+          notes: { type: 'string' },
+          rule: {
+            type: 'object',
+            properties: {
+              frequency: { type: 'string', enum: ['weekly', 'biweekly', 'monthly'] },
+              count: { type: 'integer', minimum: 1, maximum: 52 },
+              until: { type: 'string', format: 'date' }
+            },
+            required: ['frequency']
+          }
+        },
+        required: ['clientName', 'clientPhone', 'productId', 'startDate', 'startTime', 'rule']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const body = request.body as any;
+
+      const result = await bookingSeriesService.createSeries(body.enterpriseEmail, {
+        clientName: body.clientName,
+        clientPhone: body.clientPhone,
+        clientEmail: body.clientEmail,
+        productId: body.productId,
+        employeeId: body.employeeId,
+        startDate: body.startDate,
+        startTime: body.startTime,
+        notes: body.notes,
+        rule: body.rule
+      });
+
+      if (!result.success || !result.data) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao criar série',
+          conflicts: result.data?.conflicts || []
+        });
+      }
+
+      const { bookings, conflicts } = result.data;
+
+      return reply.status(201).send({
+        success: true,
+        data: result.data,
+        message: `Série criada com ${bookings.length} agendamento(s)` +
+          (conflicts.length > 0 ? ` e ${conflicts.length} conflito(s)` : '')
+      });
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/bookings/series/:seriesId', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Obter série e suas ocorrências',
+      security: [{ bearerAuth: [] }],
+      params: { type: 'object', properties: { seriesId: { type: 'string' } }, required: ['seriesId'] },
+      querystring: { type: 'object', properties: { enterpriseEmail: { type: 'string' } } }
+    }
+  }, async (request, reply) => {
+    try {
+      const { seriesId } = request.params as { seriesId: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+
+      const seriesResult = await bookingSeriesService.getSeries(enterpriseEmail, seriesId);
+      if (!seriesResult.success) {
+        return reply.status(404).send({
+          success: false,
+          message: seriesResult.error || 'Série não encontrada'
+        });
+      }
+
+      const bookingsResult = await bookingSeriesService.getSeriesBookings(enterpriseEmail, seriesId);
+
+      return {
+        success: true,
+        data: {
+          series: seriesResult.data,
+          bookings: bookingsResult.data || []
+        }
+      };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.put('/bookings/series/:seriesId/cancel', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Cancelar ocorrência e seguintes da série',
+      description: 'Cancela as ocorrências a partir de fromDate (inclusive). Sem fromDate, cancela a série inteira.',
+      security: [{ bearerAuth: [] }],
+      params: { type: 'object', properties: { seriesId: { type: 'string' } }, required: ['seriesId'] },
+      querystring: {
+        type: 'object',
+        properties: {
+          enterpriseEmail: { type: 'string' },
+          fromDate: { type: 'string', format: 'date' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { seriesId } = request.params as { seriesId: string };
+      const { enterpriseEmail, fromDate } = request.query as { enterpriseEmail: string; fromDate?: string };
+
+      const result = await bookingSeriesService.cancelSeries(enterpriseEmail, seriesId, fromDate, getActor(request));
+
+      if (!result.success || !result.data) {
+        const errorMessage = result.error || 'Erro ao cancelar série';
+        return reply.status(errorMessage.includes('não encontrada') ? 404 : 400).send({
+          success: false,
+          message: errorMessage
         });
       }
+
+      return {
+        success: true,
+        data: result.data,
+        message: `${result.data.cancelled.length} agendamento(s) da série cancelado(s)`
+      };
     } catch (error: any) {
       return reply.status(500).send({
         success: false,
@@ -261,8 +534,57 @@ export async function bookingRoutes(fastify: FastifyInstance) {
     }
   });
 
+  fastify.put('/bookings/series/:seriesId/reschedule', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Alterar horário da ocorrência e seguintes da série',
+      description: 'Move as ocorrências a partir de fromDate (inclusive) para o novo horário, mantendo as datas. Conflitos são reportados por ocorrência.',
+      security: [{ bearerAuth: [] }],
+      params: { type: 'object', properties: { seriesId: { type: 'string' } }, required: ['seriesId'] },
+      querystring: { type: 'object', properties: { enterpriseEmail: { type: 'string' } } },
+      body: {
+        type: 'object',
+        properties: {
+          fromDate: { type: 'string', format: 'date' },
+          startTime: { type: 'string', pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$' },
+          employeeId: { type: 'string' }
+        },
+        required: ['startTime']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { seriesId } = request.params as { seriesId: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+      const body = request.body as { fromDate?: string; startTime: string; employeeId?: string };
+
+      const result = await bookingSeriesService.rescheduleSeries(enterpriseEmail, seriesId, body);
+
+      if (!result.success || !result.data) {
+        const errorMessage = result.error || 'Erro ao alterar série';
+        return reply.status(errorMessage.includes('não encontrada') ? 404 : 400).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return {
+        success: true,
+        data: result.data,
+        message: `${result.data.updated.length} agendamento(s) alterado(s)` +
+          (result.data.conflicts.length > 0 ? `, ${result.data.conflicts.length} conflito(s)` : '')
+      };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
 
   fastify.get('/bookings/available-employees', {
+    config: { public: true },
     schema: {
       tags: ['Bookings'],
       querystring: {
@@ -304,13 +626,38 @@ export async function bookingRoutes(fastify: FastifyInstance) {
 
 
   fastify.get('/bookings/reminders/active', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Ver lembretes pendentes na fila',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const reminders = await getActiveReminders(getTenantEmail(request));
+      return {
+        success: true,
+        total: reminders.length,
+        reminders: reminders
+      };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message
+      });
+    }
+  });
+
+  fastify.get('/bookings/reminders/dead-letter', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
     schema: {
       tags: ['Bookings'],
-      summary: 'Ver lembretes ativos no Redis'
+      summary: 'Ver lembretes que esgotaram as tentativas de envio',
+      security: [{ bearerAuth: [] }]
     }
   }, async (request, reply) => {
     try {
-      const reminders = await getActiveReminders();
+      const reminders = await getDeadLetterReminders(getTenantEmail(request));
       return {
         success: true,
         total: reminders.length,
@@ -325,9 +672,11 @@ export async function bookingRoutes(fastify: FastifyInstance) {
   });
 
   fastify.get('/bookings/test-simple', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
     schema: {
       tags: ['Bookings'],
       summary: 'Teste lembrete simples (10 segundos)',
+      security: [{ bearerAuth: [] }],
       querystring: {
         type: 'object',
         properties: { phone: { type: 'string' } },
@@ -342,36 +691,18 @@ export async function bookingRoutes(fastify: FastifyInstance) {
       
       const testId = `test-${Date.now()}`;
 
-      const now = new Date();
-      const testDate = new Date(now.getTime() + 10000);
-
-      const formatter = new Intl.DateTimeFormat('en-CA', {
-        timeZone: 'America/Sao_Paulo',
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-        hour12: false
-      });
-      
-      const parts = formatter.formatToParts(testDate);
-      const year = parts.find(p => p.type === 'year')?.value;
-      const month = parts.find(p => p.type === 'month')?.value;
-      const day = parts.find(p => p.type === 'day')?.value;
-      const hour = parts.find(p => p.type === 'hour')?.value;
-      const minute = parts.find(p => p.type === 'minute')?.value;
-      const second = parts.find(p => p.type === 'second')?.value;
-      
-      const testDateTime = `${year}-${month}-${day}T${hour}:${minute}:${second}-03:00`;
+      const testDate = new Date(Date.now() + 10000);
+      const { date, time } = nowInTimeZone(DEFAULT_TIME_ZONE, testDate);
+      const testDateTime = toZonedIsoString(date, time, DEFAULT_TIME_ZONE);
       
       const result = await scheduleSimpleReminder(testId, {
         bookingId: testId,
+        enterpriseEmail: getTenantEmail(request),
         clientName: 'Teste Simples',
         clientPhone: phone,
         productName: 'Teste Redis',
-        bookingDateTime: testDateTime
+        bookingDateTime: testDateTime,
+        isTest: true
       }, 10); //10s
       
       return {
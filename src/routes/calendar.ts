@@ -0,0 +1,148 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { calendarService, CalendarFeedLinks, CalendarResult } from '../services/calendarService.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { requireTenant, requireTenantEmployee, getTenantEmail } from '../middleware/tenant.js';
+
+const employeeIdParams = {
+  type: 'object',
+  properties: { id: { type: 'string' } },
+  required: ['id']
+};
+
+export async function calendarRoutes(fastify: FastifyInstance) {
+
+  function sendFeedLinks(reply: FastifyReply, result: CalendarResult<CalendarFeedLinks>, message?: string) {
+    if (!result.success) {
+      return reply.status(500).send({
+        success: false,
+        message: result.error || 'Erro ao gerar feed de calendário'
+      });
+    }
+
+    return { success: true, data: result.data, ...(message && { message }) };
+  }
+
+  fastify.get('/calendar/feed', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Calendar'],
+      summary: 'URL do feed de calendário da empresa',
+      description: 'URL .ics somente leitura com todos os agendamentos da empresa, para assinar no calendário do celular.',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const result = await calendarService.getFeedLinks(getTenantEmail(request));
+      return sendFeedLinks(reply, result);
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/calendar/feed/rotate', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Calendar'],
+      summary: 'Gerar nova URL do feed da empresa',
+      description: 'A URL anterior deixa de funcionar.',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const result = await calendarService.getFeedLinks(getTenantEmail(request), undefined, true);
+      return sendFeedLinks(reply, result, 'Nova URL do feed gerada');
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/employees/:id/calendar-feed', {
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantEmployee()],
+    schema: {
+      tags: ['Calendar'],
+      summary: 'URL do feed de calendário do funcionário',
+      security: [{ bearerAuth: [] }],
+      params: employeeIdParams
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const result = await calendarService.getFeedLinks(getTenantEmail(request), id);
+      return sendFeedLinks(reply, result);
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/employees/:id/calendar-feed/rotate', {
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantEmployee()],
+    schema: {
+      tags: ['Calendar'],
+      summary: 'Gerar nova URL do feed do funcionário',
+      description: 'A URL anterior deixa de funcionar.',
+      security: [{ bearerAuth: [] }],
+      params: employeeIdParams
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const result = await calendarService.getFeedLinks(getTenantEmail(request), id, true);
+      return sendFeedLinks(reply, result, 'Nova URL do feed gerada');
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  // Sem login: o token da URL identifica o feed (apps de calendário não enviam Authorization)
+  fastify.get('/public/calendar/:token/agenda.ics', {
+    config: { public: true },
+    schema: {
+      tags: ['Calendar'],
+      summary: 'Feed iCalendar (.ics)',
+      description: 'Agendamentos dos últimos 30 dias e dos próximos 180. Cancelados aparecem com STATUS:CANCELLED.',
+      params: {
+        type: 'object',
+        properties: { token: { type: 'string' } },
+        required: ['token']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { token } = request.params as { token: string };
+
+      const result = await calendarService.getFeedCalendar(token);
+
+      if (!result.success || !result.data) {
+        const errorMessage = result.error || 'Feed de calendário não encontrado';
+        return reply.status(errorMessage.includes('inválido') || errorMessage.includes('não encontrado') ? 404 : 500).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return reply
+        .type('text/calendar; charset=utf-8')
+        .header('Cache-Control', 'private, max-age=300')
+        .send(result.data);
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+}
@@ -0,0 +1,249 @@
+import { FastifyInstance } from 'fastify';
+import { clientService } from '../services/clientService.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { requireTenant } from '../middleware/tenant.js';
+
+const clientIdParams = {
+  type: 'object',
+  properties: { id: { type: 'string', description: 'ID do cliente (telefone normalizado)' } },
+  required: ['id']
+};
+
+const enterpriseEmailQuery = {
+  type: 'object',
+  properties: { enterpriseEmail: { type: 'string', format: 'email' } }
+};
+
+export async function clientRoutes(fastify: FastifyInstance) {
+
+  fastify.get('/clients', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Clients'],
+      summary: 'Listar clientes',
+      description: 'Clientes são cadastrados automaticamente no primeiro agendamento, identificados pelo telefone.',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          enterpriseEmail: { type: 'string', format: 'email' },
+          search: { type: 'string', description: 'Parte do nome ou do telefone' },
+          tag: { type: 'string' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { enterpriseEmail, search, tag } = request.query as any;
+
+      const result = await clientService.listClients(enterpriseEmail, { search, tag });
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao buscar clientes'
+        });
+      }
+
+      return { success: true, data: result.data || [] };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/clients/:id', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Clients'],
+      summary: 'Buscar cliente',
+      security: [{ bearerAuth: [] }],
+      params: clientIdParams,
+      querystring: enterpriseEmailQuery
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+
+      const result = await clientService.getClient(enterpriseEmail, id);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao buscar cliente';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 500).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return { success: true, data: result.data };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/clients/:id/bookings', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Clients'],
+      summary: 'Histórico de agendamentos do cliente',
+      security: [{ bearerAuth: [] }],
+      params: clientIdParams,
+      querystring: enterpriseEmailQuery
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+
+      const result = await clientService.getClientBookings(enterpriseEmail, id);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao buscar agendamentos do cliente';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 500).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return { success: true, data: result.data || [] };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/clients', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Clients'],
+      summary: 'Cadastrar cliente',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          enterpriseEmail: { type: 'string', format: 'email' },
+          name: { type: 'string', minLength: 1 },
+          phone: { type: 'string' },
+          email: { type: 'string', format: 'email' },
+          notes: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['name', 'phone']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { enterpriseEmail, ...input } = request.body as any;
+
+      const result = await clientService.createClient(enterpriseEmail, input);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao cadastrar cliente';
+        return reply.status(errorMessage.includes('Já existe') ? 409 : 400).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: result.data,
+        message: 'Cliente cadastrado com sucesso'
+      });
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.put('/clients/:id', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Clients'],
+      summary: 'Atualizar cliente',
+      description: 'Atualiza nome, e-mail, observações e tags. O telefone identifica o cliente e não pode ser alterado.',
+      security: [{ bearerAuth: [] }],
+      params: clientIdParams,
+      querystring: enterpriseEmailQuery,
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          email: { type: 'string', format: 'email' },
+          notes: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+
+      const result = await clientService.updateClient(enterpriseEmail, id, request.body as any);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao atualizar cliente';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 400).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return {
+        success: true,
+        data: result.data,
+        message: 'Cliente atualizado com sucesso'
+      };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.delete('/clients/:id', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Clients'],
+      summary: 'Remover cliente',
+      description: 'Remove o cadastro; os agendamentos do cliente são mantidos.',
+      security: [{ bearerAuth: [] }],
+      params: clientIdParams,
+      querystring: enterpriseEmailQuery
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+
+      const result = await clientService.deleteClient(enterpriseEmail, id);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao remover cliente';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 500).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return { success: true, message: result.message };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+}
@@ -7,6 +7,7 @@ interface GetTimeSlotsQuery {
   employeeId: string;
   date: string;
   duration?: number;
+  productIds?: string[];
 }
 
 interface GetAvailableEmployeesQuery {
@@ -29,6 +30,7 @@ export async function employeeAvailabilityRoutes(fastify: FastifyInstance) {
   fastify.get<{
     Querystring: GetTimeSlotsQuery;
   }>('/employees/availability/slots', {
+    config: { public: true },
     schema: {
       tags: ['Employee Availability'],
       summary: 'Horários disponíveis do funcionário',
@@ -49,6 +51,11 @@ export async function employeeAvailabilityRoutes(fastify: FastifyInstance) {
             type: 'number',
             minimum: 5,
             description: 'Duração do serviço em minutos (opcional, padrão: 30)'
+          },
+          productIds: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'IDs dos serviços do combo (opcional, substitui duration)'
           }
         },
         required: ['employeeId', 'date']
@@ -82,7 +89,7 @@ export async function employeeAvailabilityRoutes(fastify: FastifyInstance) {
     }
   }, async (request: FastifyRequest<{ Querystring: GetTimeSlotsQuery }>, reply: FastifyReply) => {
     try {
-      const { employeeId, date, duration = 30 } = request.query;
+      const { employeeId, date, duration = 30, productIds } = request.query;
       
       // Buscar dados do funcionário
       const employeeResult = await employeeService.getEmployeeById(employeeId);
@@ -99,7 +106,8 @@ export async function employeeAvailabilityRoutes(fastify: FastifyInstance) {
       const slotsResult = await employeeAvailabilityService.generateTimeSlots(
         employeeId,
         date,
-        duration
+        duration,
+        productIds
       );
 
       if (slotsResult.success) {
@@ -132,6 +140,7 @@ export async function employeeAvailabilityRoutes(fastify: FastifyInstance) {
   fastify.post<{
     Body: CheckAvailabilityBody;
   }>('/employees/availability/check', {
+    config: { public: true },
     
     schema: {
       tags: ['Employee Availability'],
@@ -252,6 +261,7 @@ export async function employeeAvailabilityRoutes(fastify: FastifyInstance) {
   fastify.get<{
     Querystring: GetAvailableEmployeesQuery;
   }>('/employees/availability/professionals', {
+    config: { public: true },
     schema: {
       tags: ['Employee Availability'],
       summary: 'Funcionários disponíveis para serviço',
@@ -306,8 +316,8 @@ export async function employeeAvailabilityRoutes(fastify: FastifyInstance) {
                       name: { type: 'string' },
                       position: { type: 'string' },
                       experienceLevel: { type: 'string' },
-                      estimatedPrice: { type: 'number' },
-                      // Removido estimatedDuration - usa duração padrão do produto
+                      estimatedPrice: { type: 'number', description: 'Preço cobrado por este profissional' },
+                      estimatedDuration: { type: 'number', description: 'Duração em minutos com este profissional' },
                       avatar: { type: 'string' }
                     }
                   }
@@ -337,22 +347,16 @@ export async function employeeAvailabilityRoutes(fastify: FastifyInstance) {
       if (availableEmployeesResult.success) {
         const availableEmployees = availableEmployeesResult.data || [];
 
-        // Enriquecer dados com informações de preço e duração
-        const enrichedEmployees = availableEmployees.map(employee => {
-          const skill = employee.skills?.find((s: any) => s.productId === productId);
-          
-          return {
-            id: employee.id,
-            name: employee.name,
-            position: employee.position,
-            experienceLevel: skill?.experienceLevel || 'intermediario',
-            estimatedPrice: skill?.priceMultiplier ? 
-              Math.round((skill.priceMultiplier * 50) * 100) / 100 :
-              50,
-            estimatedDuration: duration || 30,
-            avatar: employee.avatar
-          };
-        });
+        // Preço e duração já consideram os valores personalizados de cada profissional
+        const enrichedEmployees = availableEmployees.map(employee => ({
+          id: employee.id,
+          name: employee.name,
+          position: employee.position,
+          experienceLevel: employee.experienceLevel,
+          estimatedPrice: employee.price,
+          estimatedDuration: employee.estimatedDuration,
+          avatar: employee.avatar
+        }));
 
         return reply.send({
           success: true,
@@ -380,6 +384,7 @@ export async function employeeAvailabilityRoutes(fastify: FastifyInstance) {
 
   // Buscar horários disponíveis de um funcionário específico para um serviço
   fastify.get('/employees/:employeeId/availability/service-slots', {
+    config: { public: true },
     
     schema: {
       tags: ['Employee Availability'],
@@ -1,8 +1,16 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { employeeService } from '../services/employeeService.js';
+import { scheduleExceptionService } from '../services/scheduleExceptionService.js';
 import { authenticate, requireAdmin } from '../middleware/auth.js';
-import { Employee, EmployeeSkill } from '../types/index.js';
-import { employeeSchema, responses, createEmployeeSchema } from '../schemas/index.js';
+import { requireTenant, requireTenantEmployee } from '../middleware/tenant.js';
+import { Employee, EmployeeSkill, ScheduleExceptionType } from '../types/index.js';
+import { 
+  employeeSchema, 
+  responses, 
+  createEmployeeSchema, 
+  scheduleExceptionSchema, 
+  createScheduleExceptionSchema 
+} from '../schemas/index.js';
 
 interface CreateEmployeeBody {
   enterpriseEmail: string;
@@ -14,13 +22,39 @@ interface CreateEmployeeBody {
   skills?: EmployeeSkill[];
 }
 
-interface UpdateEmployeeBody extends Partial<CreateEmployeeBody> {}
+interface UpdateEmployeeBody extends Partial<CreateEmployeeBody> {
+  workSchedule?: Employee['workSchedule'];
+  canEditSchedule?: boolean;
+}
+
+interface CreateEmployeeAccountBody {
+  email: string;
+  password: string;
+}
 
 interface AddSkillBody {
   productId: string;
   productName: string;
   experienceLevel: 'iniciante' | 'intermediario' | 'avancado' | 'especialista';
   canPerform?: boolean;
+  price?: number;
+  duration?: number;
+}
+
+interface UpdateSkillBody {
+  experienceLevel?: 'iniciante' | 'intermediario' | 'avancado' | 'especialista';
+  canPerform?: boolean;
+  price?: number | null;
+  duration?: number | null;
+}
+
+interface CreateTimeOffBody {
+  type?: ScheduleExceptionType;
+  startDate: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+  reason?: string;
 }
 
 interface GetEmployeesQuery {
@@ -34,7 +68,7 @@ export async function employeeRoutes(fastify: FastifyInstance) {
   fastify.get<{
     Querystring: GetEmployeesQuery;
   }>('/employees', {
-    preHandler: [authenticate],
+    preHandler: [authenticate, requireAdmin, requireTenant],
     schema: {
       tags: ['Employees'],
       summary: 'Listar funcionários',
@@ -42,10 +76,12 @@ export async function employeeRoutes(fastify: FastifyInstance) {
         Retorna todos os funcionários de uma empresa com opções de filtro avançado.
         
         **Casos de uso:**
-        - Listar todos os funcionários: apenas enterpriseEmail
-        - Filtrar por cargo específico: enterpriseEmail + position
-        - Buscar funcionários ativos: enterpriseEmail + isActive=true
-        - Funcionários que fazem um serviço: enterpriseEmail + productId
+        - Listar todos os funcionários: sem filtros
+        - Filtrar por cargo específico: position
+        - Buscar funcionários ativos: isActive=true
+        - Funcionários que fazem um serviço: productId
+
+        **🔒 Segurança:** A empresa é sempre a do usuário autenticado
         
         **Performance:** Esta rota usa cache interno para otimizar consultas repetidas.
       `,
@@ -55,7 +91,7 @@ export async function employeeRoutes(fastify: FastifyInstance) {
           enterpriseEmail: { 
             type: 'string',
             format: 'email',
-            description: 'Email da empresa (obrigatório)'
+            description: 'Email da empresa (padrão: empresa do usuário autenticado)'
           },
           position: {
             type: 'string',
@@ -69,8 +105,7 @@ export async function employeeRoutes(fastify: FastifyInstance) {
             type: 'string',
             description: 'Buscar funcionários que sabem fazer este serviço (opcional)'
           }
-        },
-        required: ['enterpriseEmail']
+        }
       },
       response: {
         200: {
@@ -145,7 +180,7 @@ export async function employeeRoutes(fastify: FastifyInstance) {
   fastify.get<{
     Params: { id: string };
   }>('/employees/:id', {
-    preHandler: [authenticate],
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantEmployee()],
     schema: {
       tags: ['Employees'],
       summary: 'Obter funcionário por ID',
@@ -202,7 +237,7 @@ export async function employeeRoutes(fastify: FastifyInstance) {
   fastify.post<{
     Body: CreateEmployeeBody;
   }>('/employees', {
-    preHandler: [authenticate, requireAdmin],
+    preHandler: [authenticate, requireAdmin, requireTenant],
     schema: {
       tags: ['Employees'],
       summary: 'Criar funcionário',
@@ -211,7 +246,7 @@ export async function employeeRoutes(fastify: FastifyInstance) {
         
         **👨‍💼 Apenas admins:** Requer token de administrador válido
         **🔒 Segurança:** Admin só pode criar funcionários na própria empresa
-        **⚡ Novo fluxo:** Funcionário não faz login - é recurso interno gerenciado pelo admin
+        **⚡ Novo fluxo:** Funcionário é recurso interno gerenciado pelo admin; o login é opcional via /employees/{id}/account
         **🎯 Próximo passo:** Use /employees/{id}/skills para atribuir serviços
         
         **📝 Campos obrigatórios:** name, position
@@ -261,13 +296,14 @@ export async function employeeRoutes(fastify: FastifyInstance) {
                   type: 'string',
                   enum: ['iniciante', 'intermediario', 'avancado', 'especialista']
                 },
-                priceMultiplier: { type: 'number', minimum: 0.5, maximum: 3 },
+                price: { type: 'number', minimum: 0 },
+                duration: { type: 'number', minimum: 5 }
               },
               required: ['productId', 'productName', 'experienceLevel']
             }
           }
         },
-        required: ['enterpriseEmail', 'name', 'position']
+        required: ['name', 'position']
       },
       response: {
         201: {
@@ -324,7 +360,7 @@ export async function employeeRoutes(fastify: FastifyInstance) {
     Params: { id: string };
     Body: UpdateEmployeeBody;
   }>('/employees/:id', {
-    preHandler: [authenticate, requireAdmin],
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantEmployee()],
     schema: {
       tags: ['Employees'],
       summary: 'Atualizar funcionário',
@@ -349,7 +385,12 @@ export async function employeeRoutes(fastify: FastifyInstance) {
           position: { type: 'string' },
           hireDate: { type: 'string', format: 'date' },
           avatar: { type: 'string' },
-          isActive: { type: 'boolean' }
+          isActive: { type: 'boolean' },
+          workSchedule: employeeSchema.properties.workSchedule,
+          canEditSchedule: {
+            type: 'boolean',
+            description: 'Permite que o funcionário altere o próprio horário em /me/work-schedule'
+          }
         }
       },
       response: {
@@ -401,7 +442,7 @@ export async function employeeRoutes(fastify: FastifyInstance) {
   fastify.delete<{
     Params: { id: string };
   }>('/employees/:id', {
-    preHandler: [authenticate, requireAdmin],
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantEmployee()],
     schema: {
       tags: ['Employees'],
       summary: 'Deletar funcionário',
@@ -452,15 +493,79 @@ export async function employeeRoutes(fastify: FastifyInstance) {
     }
   });
 
+  fastify.post<{
+    Params: { id: string };
+    Body: CreateEmployeeAccountBody;
+  }>('/employees/:id/account', {
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantEmployee()],
+    schema: {
+      tags: ['Employees'],
+      summary: 'Criar acesso do funcionário',
+      description: `
+        Cria um login (role employee) vinculado ao funcionário.
+
+        **👤 Acesso do funcionário:** agenda própria em /me/bookings, registro de chegada e conclusão
+        dos próprios atendimentos e, se canEditSchedule estiver ativo, o próprio horário de trabalho
+      `,
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { 
+            type: 'string',
+            description: 'ID do funcionário'
+          }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email' },
+          password: { type: 'string', minLength: 6 }
+        },
+        required: ['email', 'password']
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: { id: string }; Body: CreateEmployeeAccountBody }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { email, password } = request.body;
+
+      const result = await employeeService.createEmployeeAccount(id, email, password);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao criar acesso do funcionário';
+        const statusCode = errorMessage.includes('não encontrado') ? 404 : errorMessage.includes('já possui') ? 409 : 400;
+        return reply.status(statusCode).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: result.data,
+        message: 'Acesso do funcionário criado com sucesso'
+      });
+    } catch (error: any) {
+      fastify.log.error('Erro ao criar acesso do funcionário:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Erro interno do servidor'
+      });
+    }
+  });
+
   fastify.post<{
     Params: { id: string };
     Body: AddSkillBody;
   }>('/employees/:id/skills', {
-    preHandler: [authenticate, requireAdmin],
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantEmployee()],
     schema: {
       tags: ['Employees'],
       summary: 'Adicionar habilidade',
-      description: 'Adiciona uma nova habilidade/especialidade ao funcionário. O funcionário poderá realizar este serviço com o preço e duração definidos pela empresa.',
+      description: 'Adiciona uma nova habilidade/especialidade ao funcionário. Sem price/duration, o funcionário realiza o serviço com o preço e a duração do produto.',
       security: [{ bearerAuth: [] }],
       params: {
         type: 'object',
@@ -492,6 +597,16 @@ export async function employeeRoutes(fastify: FastifyInstance) {
             type: 'boolean',
             description: 'Se o funcionário pode realizar este serviço',
             default: true
+          },
+          price: { 
+            type: 'number',
+            minimum: 0,
+            description: 'Preço cobrado por este funcionário (opcional, padrão: preço do produto)'
+          },
+          duration: { 
+            type: 'number',
+            minimum: 5,
+            description: 'Duração em minutos com este funcionário (opcional, padrão: duração do produto)'
           }
         },
         required: ['productId', 'productName', 'experienceLevel']
@@ -549,10 +664,90 @@ export async function employeeRoutes(fastify: FastifyInstance) {
     }
   });
 
+  fastify.put<{
+    Params: { id: string; productId: string };
+    Body: UpdateSkillBody;
+  }>('/employees/:id/skills/:productId', {
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantEmployee()],
+    schema: {
+      tags: ['Employees'],
+      summary: 'Atualizar habilidade',
+      description: 'Altera nível, disponibilidade, preço ou duração do funcionário no serviço. Envie null em price/duration para voltar ao padrão do produto.',
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { 
+            type: 'string',
+            description: 'ID do funcionário'
+          },
+          productId: { 
+            type: 'string',
+            description: 'ID do produto/serviço'
+          }
+        },
+        required: ['id', 'productId']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          experienceLevel: { 
+            type: 'string',
+            enum: ['iniciante', 'intermediario', 'avancado', 'especialista']
+          },
+          canPerform: { type: 'boolean' },
+          price: { type: ['number', 'null'], minimum: 0 },
+          duration: { type: ['number', 'null'], minimum: 5 }
+        }
+      },
+      response: {
+        200: {
+          ...responses[200],
+          properties: {
+            ...responses[200].properties,
+            data: employeeSchema
+          }
+        },
+        400: responses[400],
+        401: responses[401],
+        403: responses[403],
+        404: responses[404],
+        500: responses[500],
+        502: responses[502]
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: { id: string; productId: string }; Body: UpdateSkillBody }>, reply: FastifyReply) => {
+    try {
+      const { id, productId } = request.params;
+
+      const result = await employeeService.updateEmployeeSkill(id, productId, request.body);
+      
+      if (result.success) {
+        return reply.send({
+          success: true,
+          data: result.data,
+          message: 'Habilidade atualizada com sucesso'
+        });
+      } else {
+        const statusCode = result.error?.includes('não encontrad') ? 404 : 400;
+        return reply.status(statusCode).send({
+          success: false,
+          message: result.error
+        });
+      }
+    } catch (error: any) {
+      fastify.log.error('Erro ao atualizar habilidade:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Erro interno do servidor'
+      });
+    }
+  });
+
   fastify.delete<{
     Params: { id: string; productId: string };
   }>('/employees/:id/skills/:productId', {
-    preHandler: [authenticate, requireAdmin],
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantEmployee()],
     schema: {
       tags: ['Employees'],
       summary: 'Remover habilidade',
@@ -613,4 +808,227 @@ export async function employeeRoutes(fastify: FastifyInstance) {
       });
     }
   });
+
+  fastify.get<{
+    Params: { id: string };
+  }>('/employees/:id/time-off', {
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantEmployee()],
+    schema: {
+      tags: ['Employees'],
+      summary: 'Listar ausências',
+      description: 'Lista ausências e horários modificados do funcionário',
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { 
+            type: 'string',
+            description: 'ID do funcionário'
+          }
+        },
+        required: ['id']
+      },
+      response: {
+        200: {
+          ...responses[200],
+          properties: {
+            ...responses[200].properties,
+            data: {
+              type: 'array',
+              items: scheduleExceptionSchema
+            }
+          }
+        },
+        401: responses[401],
+        404: responses[404],
+        500: responses[500]
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      const employeeResult = await employeeService.getEmployeeById(id);
+      if (!employeeResult.success || !employeeResult.data) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Funcionário não encontrado'
+        });
+      }
+
+      const result = await scheduleExceptionService.listExceptions(employeeResult.data.enterpriseEmail, id);
+
+      if (result.success) {
+        return reply.send({
+          success: true,
+          data: result.data || []
+        });
+      } else {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao buscar ausências'
+        });
+      }
+    } catch (error: any) {
+      fastify.log.error('Erro ao buscar ausências:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post<{
+    Params: { id: string };
+    Body: CreateTimeOffBody;
+  }>('/employees/:id/time-off', {
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantEmployee()],
+    schema: {
+      tags: ['Employees'],
+      summary: 'Registrar ausência',
+      description: 'Registra férias, folga ou horário modificado do funcionário. Os horários disponíveis passam a considerar a exceção.',
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { 
+            type: 'string',
+            description: 'ID do funcionário'
+          }
+        },
+        required: ['id']
+      },
+      body: createScheduleExceptionSchema,
+      response: {
+        201: {
+          ...responses[200],
+          properties: {
+            ...responses[200].properties,
+            data: scheduleExceptionSchema
+          }
+        },
+        400: responses[400],
+        401: responses[401],
+        403: responses[403],
+        404: responses[404],
+        500: responses[500]
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: { id: string }; Body: CreateTimeOffBody }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const body = request.body;
+
+      const employeeResult = await employeeService.getEmployeeById(id);
+      if (!employeeResult.success || !employeeResult.data) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Funcionário não encontrado'
+        });
+      }
+
+      const result = await scheduleExceptionService.createException(employeeResult.data.enterpriseEmail, {
+        employeeId: id,
+        type: body.type || 'closed',
+        startDate: body.startDate,
+        endDate: body.endDate || body.startDate,
+        startTime: body.startTime,
+        endTime: body.endTime,
+        reason: body.reason
+      });
+
+      if (result.success) {
+        return reply.status(201).send({
+          success: true,
+          data: result.data,
+          message: 'Ausência registrada com sucesso'
+        });
+      } else {
+        return reply.status(400).send({
+          success: false,
+          message: result.error
+        });
+      }
+    } catch (error: any) {
+      fastify.log.error('Erro ao registrar ausência:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.delete<{
+    Params: { id: string; timeOffId: string };
+  }>('/employees/:id/time-off/:timeOffId', {
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantEmployee()],
+    schema: {
+      tags: ['Employees'],
+      summary: 'Remover ausência',
+      description: 'Remove uma ausência ou horário modificado do funcionário',
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { 
+            type: 'string',
+            description: 'ID do funcionário'
+          },
+          timeOffId: { 
+            type: 'string',
+            description: 'ID da ausência'
+          }
+        },
+        required: ['id', 'timeOffId']
+      },
+      response: {
+        200: responses[200],
+        401: responses[401],
+        403: responses[403],
+        404: responses[404],
+        500: responses[500]
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: { id: string; timeOffId: string } }>, reply: FastifyReply) => {
+    try {
+      const { id, timeOffId } = request.params;
+
+      const employeeResult = await employeeService.getEmployeeById(id);
+      if (!employeeResult.success || !employeeResult.data) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Funcionário não encontrado'
+        });
+      }
+
+      const enterpriseEmail = employeeResult.data.enterpriseEmail;
+      const timeOffResult = await scheduleExceptionService.getException(enterpriseEmail, timeOffId);
+      if (!timeOffResult.success || timeOffResult.data?.employeeId !== id) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Ausência não encontrada'
+        });
+      }
+
+      const result = await scheduleExceptionService.deleteException(enterpriseEmail, timeOffId);
+
+      if (result.success) {
+        return reply.send({
+          success: true,
+          message: 'Ausência removida com sucesso'
+        });
+      } else {
+        return reply.status(500).send({
+          success: false,
+          message: result.error
+        });
+      }
+    } catch (error: any) {
+      fastify.log.error('Erro ao remover ausência:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Erro interno do servidor'
+      });
+    }
+  });
 }
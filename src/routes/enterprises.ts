@@ -1,9 +1,18 @@
 import { FastifyInstance } from 'fastify';
 import { enterpriseService } from '../services/enterpriseService.js';
-import { enterpriseSchema, responses } from '../schemas/index.js';
+import { scheduleExceptionService } from '../services/scheduleExceptionService.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { requireTenantParam } from '../middleware/tenant.js';
+import { 
+  enterpriseSchema, 
+  responses, 
+  scheduleExceptionSchema, 
+  createScheduleExceptionSchema 
+} from '../schemas/index.js';
 
 export async function enterpriseRoutes(fastify: FastifyInstance) {
   fastify.get('/enterprises', {
+    config: { public: true },
     schema: {
       tags: ['Enterprises'],
       summary: 'Listar empresas',
@@ -50,6 +59,7 @@ export async function enterpriseRoutes(fastify: FastifyInstance) {
   });
 
   fastify.get('/enterprises/:email', {
+    config: { public: true },
     schema: {
       tags: ['Enterprises'],
       summary: 'Obter empresa por email',
@@ -115,6 +125,7 @@ export async function enterpriseRoutes(fastify: FastifyInstance) {
   });
 
   fastify.post('/enterprises', {
+    config: { public: true },
     schema: {
       tags: ['Enterprises'],
       summary: 'Criar empresa',
@@ -177,10 +188,12 @@ export async function enterpriseRoutes(fastify: FastifyInstance) {
   });
 
   fastify.put('/enterprises/:email', {
+    preHandler: [authenticate, requireAdmin, requireTenantParam('email')],
     schema: {
       tags: ['Enterprises'],
       summary: 'Atualizar empresa',
-      description: 'Atualiza dados de uma empresa existente',
+      description: 'Atualiza dados de uma empresa existente, incluindo o fuso horário usado em horários e lembretes',
+      security: [{ bearerAuth: [] }],
       params: {
         type: 'object',
         properties: {
@@ -206,6 +219,29 @@ export async function enterpriseRoutes(fastify: FastifyInstance) {
           address: { 
             type: 'string',
             description: 'Endereço da empresa'
+          },
+          timeZone: { 
+            type: 'string',
+            description: 'Fuso horário IANA (ex: America/Manaus)'
+          },
+          cancellationDeadlineHours: { 
+            type: 'number',
+            minimum: 0,
+            description: 'Antecedência mínima (horas) para o cliente cancelar ou reagendar pelo link'
+          },
+          deposit: {
+            type: 'object',
+            description: 'Sinal exigido ao agendar: percentual do preço ou valor fixo por serviço',
+            properties: {
+              type: { type: 'string', enum: ['percentage', 'fixed'] },
+              value: { type: 'number', minimum: 0 }
+            },
+            required: ['type', 'value']
+          },
+          depositTimeoutMinutes: { 
+            type: 'number',
+            minimum: 5,
+            description: 'Minutos para pagar o sinal antes do cancelamento automático (padrão: 30)'
           }
         }
       },
@@ -229,9 +265,27 @@ export async function enterpriseRoutes(fastify: FastifyInstance) {
       const { email } = request.params as { email: string };
       const body = request.body as any;
 
+      const result = await enterpriseService.updateEnterprise(email, {
+        name: body.name,
+        phone: body.phone,
+        address: body.address,
+        timeZone: body.timeZone,
+        cancellationDeadlineHours: body.cancellationDeadlineHours,
+        deposit: body.deposit,
+        depositTimeoutMinutes: body.depositTimeoutMinutes
+      });
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao atualizar empresa';
+        return reply.status(errorMessage.includes('não encontrada') ? 404 : 400).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
       return {
         success: true,
-        data: { email, ...body },
+        data: result.data,
         message: 'Empresa atualizada com sucesso!'
       };
     } catch (error: any) {
@@ -243,4 +297,195 @@ export async function enterpriseRoutes(fastify: FastifyInstance) {
       });
     }
   });
+
+  fastify.get('/enterprises/:email/closures', {
+    config: { public: true },
+    schema: {
+      tags: ['Enterprises'],
+      summary: 'Listar fechamentos',
+      description: 'Lista feriados, fechamentos e horários modificados da empresa',
+      params: {
+        type: 'object',
+        properties: {
+          email: { 
+            type: 'string',
+            format: 'email',
+            description: 'Email da empresa'
+          }
+        },
+        required: ['email']
+      },
+      response: {
+        200: {
+          ...responses[200],
+          properties: {
+            ...responses[200].properties,
+            data: {
+              type: 'array',
+              items: scheduleExceptionSchema
+            }
+          }
+        },
+        500: responses[500]
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { email } = request.params as { email: string };
+
+      const result = await scheduleExceptionService.listExceptions(email);
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao buscar fechamentos'
+        });
+      }
+
+      return {
+        success: true,
+        data: result.data || []
+      };
+    } catch (error: any) {
+      fastify.log.error('Erro ao buscar fechamentos:', error);
+      
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/enterprises/:email/closures', {
+    preHandler: [authenticate, requireAdmin, requireTenantParam('email')],
+    schema: {
+      tags: ['Enterprises'],
+      summary: 'Registrar fechamento',
+      description: 'Registra feriado, fechamento ou horário modificado da empresa. Vale para todos os funcionários.',
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          email: { 
+            type: 'string',
+            format: 'email',
+            description: 'Email da empresa'
+          }
+        },
+        required: ['email']
+      },
+      body: createScheduleExceptionSchema,
+      response: {
+        201: {
+          ...responses[200],
+          properties: {
+            ...responses[200].properties,
+            data: scheduleExceptionSchema
+          }
+        },
+        400: responses[400],
+        401: responses[401],
+        403: responses[403],
+        500: responses[500]
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { email } = request.params as { email: string };
+      const body = request.body as any;
+
+      const result = await scheduleExceptionService.createException(email, {
+        type: body.type || 'closed',
+        startDate: body.startDate,
+        endDate: body.endDate || body.startDate,
+        startTime: body.startTime,
+        endTime: body.endTime,
+        reason: body.reason
+      });
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao registrar fechamento'
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: result.data,
+        message: 'Fechamento registrado com sucesso'
+      });
+    } catch (error: any) {
+      fastify.log.error('Erro ao registrar fechamento:', error);
+      
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.delete('/enterprises/:email/closures/:closureId', {
+    preHandler: [authenticate, requireAdmin, requireTenantParam('email')],
+    schema: {
+      tags: ['Enterprises'],
+      summary: 'Remover fechamento',
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          email: { 
+            type: 'string',
+            format: 'email',
+            description: 'Email da empresa'
+          },
+          closureId: { 
+            type: 'string',
+            description: 'ID do fechamento'
+          }
+        },
+        required: ['email', 'closureId']
+      },
+      response: {
+        200: responses[200],
+        401: responses[401],
+        403: responses[403],
+        404: responses[404],
+        500: responses[500]
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { email, closureId } = request.params as { email: string; closureId: string };
+
+      const closureResult = await scheduleExceptionService.getException(email, closureId);
+      if (!closureResult.success || closureResult.data?.employeeId) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Fechamento não encontrado'
+        });
+      }
+
+      const result = await scheduleExceptionService.deleteException(email, closureId);
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao remover fechamento'
+        });
+      }
+
+      return {
+        success: true,
+        message: 'Fechamento removido com sucesso'
+      };
+    } catch (error: any) {
+      fastify.log.error('Erro ao remover fechamento:', error);
+      
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
 }
@@ -0,0 +1,244 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { importExportService, ImportExportResult, ImportReport, RowValidator } from '../services/importExportService.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { requireTenant, getTenantEmail } from '../middleware/tenant.js';
+import { productImportRowSchema, employeeImportRowSchema } from '../schemas/index.js';
+
+const importQuerystring = {
+  type: 'object',
+  properties: {
+    dryRun: { type: 'boolean', default: false, description: 'Apenas valida e devolve o relatório, sem gravar' }
+  }
+};
+
+const exportQuerystring = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: ['json', 'csv'], default: 'json' }
+  }
+};
+
+// Usa o mesmo validador do Fastify (conversão de tipos e defaults) em cada linha
+function createRowValidator(request: FastifyRequest, schema: object): RowValidator {
+  const validate = request.compileValidationSchema(schema);
+
+  return (row) => {
+    if (validate(row)) return null;
+
+    const [error] = validate.errors || [];
+    if (!error) return 'Linha inválida';
+
+    const field = error.instancePath.replace(/^\//, '').replace(/\//g, '.');
+    return field ? `${field} ${error.message}` : error.message || 'Linha inválida';
+  };
+}
+
+export async function importExportRoutes(fastify: FastifyInstance) {
+
+  fastify.addContentTypeParser('text/csv', { parseAs: 'string' }, (_request, body, done) => {
+    done(null, body);
+  });
+
+  function sendImportReport(reply: FastifyReply, result: ImportExportResult<ImportReport>) {
+    if (!result.success || !result.data) {
+      return reply.status(400).send({
+        success: false,
+        message: result.error || 'Erro ao importar'
+      });
+    }
+
+    const report = result.data;
+
+    if (report.invalid > 0) {
+      return reply.status(report.dryRun ? 200 : 422).send({
+        success: false,
+        data: report,
+        message: report.dryRun
+          ? `${report.invalid} linha(s) com erro`
+          : `${report.invalid} linha(s) com erro. Nada foi importado.`
+      });
+    }
+
+    if (report.dryRun) {
+      return { success: true, data: report, message: 'Todas as linhas são válidas' };
+    }
+
+    return reply.status(201).send({
+      success: true,
+      data: report,
+      message: `${report.created} registro(s) importado(s)`
+    });
+  }
+
+  function sendExport(reply: FastifyReply, format: string, filename: string, rows: unknown[], toCsv: () => string) {
+    if (format === 'csv') {
+      return reply
+        .type('text/csv; charset=utf-8')
+        .header('Content-Disposition', `attachment; filename="${filename}.csv"`)
+        .send(toCsv());
+    }
+
+    return { success: true, data: rows };
+  }
+
+  fastify.post('/import/products', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Import/Export'],
+      summary: 'Importar produtos/serviços em lote',
+      description: 'Aceita CSV (Content-Type: text/csv, separador , ou ;) com as colunas name, price, duration, description, category, isActive, depositType, depositValue, ou JSON com a lista de produtos. Valida com as mesmas regras de POST /products e só grava se todas as linhas forem válidas.',
+      security: [{ bearerAuth: [] }],
+      querystring: importQuerystring
+    }
+  }, async (request, reply) => {
+    try {
+      const { dryRun } = request.query as { dryRun: boolean };
+
+      const result = await importExportService.importProducts(
+        getTenantEmail(request),
+        request.body,
+        createRowValidator(request, productImportRowSchema),
+        dryRun
+      );
+
+      return sendImportReport(reply, result);
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/import/employees', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Import/Export'],
+      summary: 'Importar funcionários em lote',
+      description: 'Aceita CSV com as colunas name, phone, position, isActive, avatar, skills (nomes dos serviços separados por |) ou JSON com skills como lista de nomes. Os serviços precisam estar cadastrados; importe os produtos antes.',
+      security: [{ bearerAuth: [] }],
+      querystring: importQuerystring
+    }
+  }, async (request, reply) => {
+    try {
+      const { dryRun } = request.query as { dryRun: boolean };
+
+      const result = await importExportService.importEmployees(
+        getTenantEmail(request),
+        request.body,
+        createRowValidator(request, employeeImportRowSchema),
+        dryRun
+      );
+
+      return sendImportReport(reply, result);
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/export/products', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Import/Export'],
+      summary: 'Exportar produtos/serviços',
+      description: 'Mesmo formato aceito por /import/products.',
+      security: [{ bearerAuth: [] }],
+      querystring: exportQuerystring
+    }
+  }, async (request, reply) => {
+    try {
+      const { format } = request.query as { format: string };
+
+      const result = await importExportService.exportProducts(getTenantEmail(request));
+
+      if (!result.success || !result.data) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao exportar produtos'
+        });
+      }
+
+      const rows = result.data;
+      return sendExport(reply, format, 'produtos', rows, () => importExportService.productsToCsv(rows));
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/export/employees', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Import/Export'],
+      summary: 'Exportar funcionários',
+      description: 'Mesmo formato aceito por /import/employees.',
+      security: [{ bearerAuth: [] }],
+      querystring: exportQuerystring
+    }
+  }, async (request, reply) => {
+    try {
+      const { format } = request.query as { format: string };
+
+      const result = await importExportService.exportEmployees(getTenantEmail(request));
+
+      if (!result.success || !result.data) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao exportar funcionários'
+        });
+      }
+
+      const rows = result.data;
+      return sendExport(reply, format, 'funcionarios', rows, () => importExportService.employeesToCsv(rows));
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/export/bookings', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Import/Export'],
+      summary: 'Exportar agendamentos do período',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          ...exportQuerystring.properties,
+          startDate: { type: 'string', format: 'date', description: 'Início do período (YYYY-MM-DD)' },
+          endDate: { type: 'string', format: 'date', description: 'Fim do período, inclusivo (YYYY-MM-DD)' }
+        },
+        required: ['startDate', 'endDate']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { format, startDate, endDate } = request.query as { format: string; startDate: string; endDate: string };
+
+      const result = await importExportService.exportBookings(getTenantEmail(request), startDate, endDate);
+
+      if (!result.success || !result.data) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao exportar agendamentos'
+        });
+      }
+
+      const rows = result.data;
+      return sendExport(reply, format, `agendamentos-${startDate}-${endDate}`, rows, () => importExportService.bookingsToCsv(rows));
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+}
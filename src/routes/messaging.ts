@@ -0,0 +1,176 @@
+import { FastifyInstance } from 'fastify';
+import { messagingService, MESSAGE_TYPES, UpdateMessagingSettingsInput } from '../services/messagingService.js';
+import { inboundMessageService, EvolutionWebhookPayload } from '../services/inboundMessageService.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { requireTenant, getTenantEmail } from '../middleware/tenant.js';
+import { MessageType } from '../types/index.js';
+import { normalizePhone } from '../utils/phone.js';
+
+const providerNames = ['evolution', 'smtp', 'console'];
+
+const routingSchema = {
+  type: 'object',
+  description: 'Provedores em ordem de tentativa para cada tipo de mensagem',
+  properties: Object.fromEntries(MESSAGE_TYPES.map(type => [type, {
+    type: 'array',
+    minItems: 1,
+    items: { type: 'string', enum: providerNames }
+  }])),
+  additionalProperties: false
+};
+
+export async function messagingRoutes(fastify: FastifyInstance) {
+
+  fastify.get('/messaging/settings', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Messaging'],
+      summary: 'Configuração de envio de mensagens da empresa',
+      description: 'A apiKey da Evolution API não é devolvida (apenas hasApiKey).',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const result = await messagingService.getPublicSettings(getTenantEmail(request));
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao buscar configuração de mensagens'
+        });
+      }
+
+      return { success: true, data: result.data };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.put('/messaging/settings', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Messaging'],
+      summary: 'Atualizar configuração de envio de mensagens',
+      description: 'evolution: instância própria da empresa na Evolution API (null remove e volta à instância padrão do servidor). baseUrl precisa ser https com endereço público. Sem apiKey, mantém a chave já cadastrada.',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          evolution: {
+            type: ['object', 'null'],
+            properties: {
+              baseUrl: { type: 'string', format: 'uri', pattern: '^https://' },
+              instance: { type: 'string', minLength: 1 },
+              apiKey: { type: 'string', minLength: 1 }
+            },
+            required: ['baseUrl', 'instance']
+          },
+          routing: routingSchema
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const result = await messagingService.updateSettings(
+        getTenantEmail(request),
+        request.body as UpdateMessagingSettingsInput
+      );
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao atualizar configuração de mensagens'
+        });
+      }
+
+      return {
+        success: true,
+        data: result.data,
+        message: 'Configuração de mensagens atualizada'
+      };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/messaging/test', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Messaging'],
+      summary: 'Enviar mensagem de teste',
+      description: 'Usa a mesma ordem de provedores do tipo informado e devolve qual provedor entregou.',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: MESSAGE_TYPES, default: 'booking_confirmation' },
+          phone: { type: 'string' },
+          email: { type: 'string', format: 'email' }
+        },
+        anyOf: [{ required: ['phone'] }, { required: ['email'] }]
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { type, phone, email } = request.body as { type: MessageType; phone?: string; email?: string };
+
+      const result = await messagingService.send(type, {
+        to: {
+          ...(phone && { phone: normalizePhone(phone) }),
+          ...(email && { email })
+        },
+        subject: 'Mensagem de teste',
+        text: 'Mensagem de teste do X-Corte. Se você recebeu, o envio está funcionando.'
+      }, getTenantEmail(request));
+
+      return { success: true, data: result, message: `Mensagem enviada via ${result.provider}` };
+    } catch (error: any) {
+      return reply.status(502).send({
+        success: false,
+        message: error.message || 'Erro ao enviar mensagem de teste'
+      });
+    }
+  });
+
+  fastify.post('/messaging/inbound/evolution/:token', {
+    config: { public: true },
+    schema: {
+      tags: ['Messaging'],
+      summary: 'Webhook de mensagens recebidas (Evolution API)',
+      description: 'Configure como webhook (evento MESSAGES_UPSERT) da instância. Respostas "1/SIM" confirmam e "2/NÃO" cancelam o próximo agendamento do número; outras mensagens são repassadas para a empresa. ' +
+        'A URL da instância própria está em GET /messaging/settings (evolution.inboundWebhookUrl); a instância padrão do servidor usa EVOLUTION_WEBHOOK_SECRET como token.',
+      params: {
+        type: 'object',
+        properties: { token: { type: 'string' } },
+        required: ['token']
+      },
+      body: { type: 'object' }
+    }
+  }, async (request, reply) => {
+    try {
+      const { token } = request.params as { token: string };
+
+      const result = await inboundMessageService.handleEvolutionWebhook(token, request.body as EvolutionWebhookPayload);
+
+      if (!result.success) {
+        return reply.status(result.unauthorized ? 401 : 400).send({
+          success: false,
+          message: result.error || 'Mensagem recebida inválida'
+        });
+      }
+
+      return { success: true, data: result.data };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+}
@@ -0,0 +1,191 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { paymentService } from '../services/paymentService.js';
+import { authenticate } from '../middleware/auth.js';
+import { requireTenant, requireBookingAccess } from '../middleware/tenant.js';
+import { BookingActor } from '../types/index.js';
+
+const bookingIdParams = {
+  type: 'object',
+  properties: { id: { type: 'string' } },
+  required: ['id']
+};
+
+const enterpriseEmailQuery = {
+  type: 'object',
+  properties: { enterpriseEmail: { type: 'string' } }
+};
+
+export async function paymentRoutes(fastify: FastifyInstance) {
+
+  function getActor(request: FastifyRequest): BookingActor | undefined {
+    const user = (request as any).user;
+    if (!user?.uid) return undefined;
+
+    return {
+      uid: user.uid,
+      email: user.email || '',
+      ...(user.role && { role: user.role })
+    };
+  }
+
+  fastify.get('/bookings/:id/payments', {
+    preHandler: [authenticate, requireTenant, requireBookingAccess],
+    schema: {
+      tags: ['Payments'],
+      summary: 'Pagamentos do agendamento',
+      description: 'Lista pagamentos e cobranças PIX, com total, sinal, valor pago e saldo devedor.',
+      security: [{ bearerAuth: [] }],
+      params: bookingIdParams,
+      querystring: enterpriseEmailQuery
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+
+      const result = await paymentService.getBookingPayments(enterpriseEmail, id);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao buscar pagamentos';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 500).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return { success: true, data: result.data };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/bookings/:id/payments', {
+    preHandler: [authenticate, requireTenant, requireBookingAccess],
+    schema: {
+      tags: ['Payments'],
+      summary: 'Registrar pagamento',
+      description: 'Registra um pagamento recebido no balcão (dinheiro, cartão ou PIX direto). Quitar o sinal confirma o agendamento pendente.',
+      security: [{ bearerAuth: [] }],
+      params: bookingIdParams,
+      querystring: enterpriseEmailQuery,
+      body: {
+        type: 'object',
+        properties: {
+          method: { type: 'string', enum: ['cash', 'card', 'pix'] },
+          amount: { type: 'number', exclusiveMinimum: 0 },
+          notes: { type: 'string' }
+        },
+        required: ['method', 'amount']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+
+      const result = await paymentService.recordPayment(enterpriseEmail, id, request.body as any, getActor(request));
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao registrar pagamento';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 400).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: { payment: result.data, summary: result.summary },
+        message: 'Pagamento registrado com sucesso'
+      });
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/bookings/:id/payments/pix', {
+    preHandler: [authenticate, requireTenant, requireBookingAccess],
+    schema: {
+      tags: ['Payments'],
+      summary: 'Gerar cobrança PIX',
+      description: 'Gera um código PIX copia e cola. Sem amount, cobra o saldo devedor do agendamento.',
+      security: [{ bearerAuth: [] }],
+      params: bookingIdParams,
+      querystring: enterpriseEmailQuery,
+      body: {
+        type: 'object',
+        properties: {
+          amount: { type: 'number', exclusiveMinimum: 0 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+      const { amount } = (request.body || {}) as { amount?: number };
+
+      const result = await paymentService.createPixCharge(enterpriseEmail, id, { amount });
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao gerar cobrança PIX';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 400).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: result.data,
+        message: 'Cobrança PIX gerada'
+      });
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/payments/webhooks/:provider', {
+    config: { public: true },
+    schema: {
+      tags: ['Payments'],
+      summary: 'Webhook do provedor PIX',
+      description: 'Recebe a confirmação de pagamento ou expiração de cobranças PIX.',
+      params: {
+        type: 'object',
+        properties: { provider: { type: 'string' } },
+        required: ['provider']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { provider } = request.params as { provider: string };
+
+      const result = await paymentService.handlePixWebhook(provider, request.headers, request.body);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Notificação PIX inválida';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 400).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+}
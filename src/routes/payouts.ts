@@ -0,0 +1,364 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { commissionService } from '../services/commissionService.js';
+import { payoutService } from '../services/payoutService.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { requireTenant } from '../middleware/tenant.js';
+import { BookingActor } from '../types/index.js';
+
+const idParams = {
+  type: 'object',
+  properties: { id: { type: 'string' } },
+  required: ['id']
+};
+
+const enterpriseEmailQuery = {
+  type: 'object',
+  properties: { enterpriseEmail: { type: 'string', format: 'email' } }
+};
+
+const experienceLevels = ['iniciante', 'intermediario', 'avancado', 'especialista'];
+
+const commissionValueProperties = {
+  type: { type: 'string', enum: ['percentage', 'fixed'], description: 'percentage: % do preço; fixed: valor fixo por serviço' },
+  value: { type: 'number', minimum: 0 },
+  tiers: {
+    type: 'array',
+    description: 'Valores por nível de experiência do funcionário no serviço (substituem value)',
+    items: {
+      type: 'object',
+      properties: {
+        experienceLevel: { type: 'string', enum: experienceLevels },
+        value: { type: 'number', minimum: 0 }
+      },
+      required: ['experienceLevel', 'value']
+    }
+  }
+};
+
+export async function payoutRoutes(fastify: FastifyInstance) {
+
+  function getActor(request: FastifyRequest): BookingActor | undefined {
+    const user = (request as any).user;
+    if (!user?.uid) return undefined;
+
+    return {
+      uid: user.uid,
+      email: user.email || '',
+      ...(user.role && { role: user.role })
+    };
+  }
+
+  fastify.get('/commission-rules', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Payouts'],
+      summary: 'Listar regras de comissão',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          enterpriseEmail: { type: 'string', format: 'email' },
+          employeeId: { type: 'string', description: 'Regras do funcionário e as gerais da empresa' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { enterpriseEmail, employeeId } = request.query as { enterpriseEmail: string; employeeId?: string };
+
+      const result = await commissionService.listRules(enterpriseEmail, employeeId);
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao buscar regras de comissão'
+        });
+      }
+
+      return { success: true, data: result.data || [] };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/commission-rules', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Payouts'],
+      summary: 'Criar regra de comissão',
+      description: 'Sem employeeId vale para todos; sem productId/category vale para todos os serviços. A regra mais específica é aplicada.',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          enterpriseEmail: { type: 'string', format: 'email' },
+          employeeId: { type: 'string' },
+          productId: { type: 'string' },
+          category: { type: 'string' },
+          ...commissionValueProperties
+        },
+        required: ['type', 'value']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { enterpriseEmail, ...input } = request.body as any;
+
+      const result = await commissionService.createRule(enterpriseEmail, input);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao criar regra de comissão'
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: result.data,
+        message: 'Regra de comissão criada com sucesso'
+      });
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.put('/commission-rules/:id', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Payouts'],
+      summary: 'Atualizar regra de comissão',
+      description: 'Extratos já fechados não são alterados.',
+      security: [{ bearerAuth: [] }],
+      params: idParams,
+      querystring: enterpriseEmailQuery,
+      body: {
+        type: 'object',
+        properties: commissionValueProperties
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+
+      const result = await commissionService.updateRule(enterpriseEmail, id, request.body as any);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao atualizar regra de comissão';
+        return reply.status(errorMessage.includes('não encontrada') ? 404 : 400).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return {
+        success: true,
+        data: result.data,
+        message: 'Regra de comissão atualizada com sucesso'
+      };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.delete('/commission-rules/:id', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Payouts'],
+      summary: 'Remover regra de comissão',
+      security: [{ bearerAuth: [] }],
+      params: idParams,
+      querystring: enterpriseEmailQuery
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+
+      const result = await commissionService.deleteRule(enterpriseEmail, id);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao remover regra de comissão';
+        return reply.status(errorMessage.includes('não encontrada') ? 404 : 500).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return { success: true, message: result.message };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/payouts', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Payouts'],
+      summary: 'Comissões a pagar no período',
+      description: 'Extrato por funcionário dos atendimentos concluídos no período que ainda não entraram em um extrato fechado.',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          enterpriseEmail: { type: 'string', format: 'email' },
+          startDate: { type: 'string', format: 'date' },
+          endDate: { type: 'string', format: 'date' },
+          employeeId: { type: 'string' }
+        },
+        required: ['startDate', 'endDate']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { enterpriseEmail, startDate, endDate, employeeId } = request.query as any;
+
+      const result = await payoutService.buildStatements(enterpriseEmail, { startDate, endDate }, employeeId);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao calcular comissões'
+        });
+      }
+
+      return { success: true, data: result.data || [] };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/payouts/close', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Payouts'],
+      summary: 'Fechar extrato de comissões',
+      description: 'Congela os valores do extrato do funcionário. Os atendimentos incluídos não entram em extratos futuros.',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          enterpriseEmail: { type: 'string', format: 'email' },
+          employeeId: { type: 'string' },
+          startDate: { type: 'string', format: 'date' },
+          endDate: { type: 'string', format: 'date' }
+        },
+        required: ['employeeId', 'startDate', 'endDate']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { enterpriseEmail, employeeId, startDate, endDate } = request.body as any;
+
+      const result = await payoutService.closeStatement(
+        enterpriseEmail,
+        employeeId,
+        { startDate, endDate },
+        getActor(request)
+      );
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao fechar extrato'
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: result.data,
+        message: 'Extrato fechado com sucesso'
+      });
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/payouts/statements', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Payouts'],
+      summary: 'Listar extratos fechados',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          enterpriseEmail: { type: 'string', format: 'email' },
+          employeeId: { type: 'string' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { enterpriseEmail, employeeId } = request.query as { enterpriseEmail: string; employeeId?: string };
+
+      const result = await payoutService.listStatements(enterpriseEmail, employeeId);
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao buscar extratos'
+        });
+      }
+
+      return { success: true, data: result.data || [] };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/payouts/statements/:id', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Payouts'],
+      summary: 'Buscar extrato fechado',
+      security: [{ bearerAuth: [] }],
+      params: idParams,
+      querystring: enterpriseEmailQuery
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+
+      const result = await payoutService.getStatement(enterpriseEmail, id);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao buscar extrato';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 500).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return { success: true, data: result.data };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+}
@@ -1,10 +1,12 @@
 import { FastifyInstance } from 'fastify';
 import { productService } from '../services/productService.js';
 import { authenticate, requireAdmin } from '../middleware/auth.js';
-import { productSchema, responses } from '../schemas/index.js';
+import { requireTenant, getTenantEmail } from '../middleware/tenant.js';
+import { productSchema, depositRuleSchema, responses } from '../schemas/index.js';
 
 export async function productRoutes(fastify: FastifyInstance) {
   fastify.get('/products/public/:enterpriseEmail', {
+    config: { public: true },
     schema: {
       tags: ['Products'],
       summary: '      const result = await productService.getAllProducts(user.enterpriseEmail);star produtos/serviços (público)',
@@ -81,7 +83,7 @@ export async function productRoutes(fastify: FastifyInstance) {
   });
 
   fastify.post('/products', {
-    preHandler: [authenticate, requireAdmin],
+    preHandler: [authenticate, requireAdmin, requireTenant],
     schema: {
       tags: ['Products'],
       summary: 'Criar produto/serviço',
@@ -114,7 +116,8 @@ export async function productRoutes(fastify: FastifyInstance) {
             isActive: { 
               type: 'boolean',
               description: 'Se o produto está ativo'
-            }
+            },
+            deposit: depositRuleSchema
           },
           required: ['name', 'price', 'duration']
         },
@@ -137,15 +140,6 @@ export async function productRoutes(fastify: FastifyInstance) {
   }, async (request, reply) => {
     try {
       const body = request.body as any;
-      const user = (request as any).user;
-
-      if (!user?.enterpriseEmail) {
-        return reply.status(403).send({
-          success: false,
-          message: 'Usuário não está associado a nenhuma empresa',
-          error: 'Acesso negado'
-        });
-      }
 
       if (!body.name || !body.price || !body.duration) {
         return reply.status(400).send({
@@ -169,14 +163,15 @@ export async function productRoutes(fastify: FastifyInstance) {
       }
 
       const result = await productService.createProduct(
-        user.enterpriseEmail,
+        getTenantEmail(request),
         {
           name: body.name,
           price: body.price,
           duration: body.duration,
           description: body.description || '',
           category: body.category || '',
-          isActive: body.isActive !== undefined ? body.isActive : true
+          isActive: body.isActive !== undefined ? body.isActive : true,
+          ...(body.deposit && { deposit: body.deposit })
         }
       );
 
@@ -197,7 +192,7 @@ export async function productRoutes(fastify: FastifyInstance) {
   });
 
   fastify.put('/products/:id', {
-    preHandler: [authenticate, requireAdmin],
+    preHandler: [authenticate, requireAdmin, requireTenant],
     schema: {
       tags: ['Products'],
       description: 'Atualizar um produto',
@@ -217,9 +212,9 @@ export async function productRoutes(fastify: FastifyInstance) {
           duration: { type: 'number' },
           description: { type: 'string' },
           category: { type: 'string' },
-          isActive: { type: 'boolean' }
-        },
-        required: ['enterpriseEmail']
+          isActive: { type: 'boolean' },
+          deposit: depositRuleSchema
+        }
       }
     }
   }, async (request, reply) => {
@@ -260,7 +255,7 @@ export async function productRoutes(fastify: FastifyInstance) {
   });
 
   fastify.delete('/products/:id', {
-    preHandler: [authenticate, requireAdmin],
+    preHandler: [authenticate, requireAdmin, requireTenant],
     schema: {
       tags: ['Products'],
       description: 'Deletar um produto',
@@ -275,8 +270,7 @@ export async function productRoutes(fastify: FastifyInstance) {
         type: 'object',
         properties: {
           enterpriseEmail: { type: 'string' }
-        },
-        required: ['enterpriseEmail']
+        }
       }
     }
   }, async (request, reply) => {
@@ -316,6 +310,7 @@ export async function productRoutes(fastify: FastifyInstance) {
   });
 
   fastify.get('/products/active', {
+    config: { public: true },
     schema: {
       tags: ['Products'],
       description: 'Listar produtos ativos de uma empresa',
@@ -362,7 +357,7 @@ export async function productRoutes(fastify: FastifyInstance) {
   });
 
   fastify.get('/admin/products', {
-    preHandler: [authenticate, requireAdmin],
+    preHandler: [authenticate, requireAdmin, requireTenant],
     schema: {
       tags: ['Products'],
       summary: 'Listar produtos/serviços (admin)',
@@ -401,18 +396,7 @@ export async function productRoutes(fastify: FastifyInstance) {
     }
   }, async (request, reply) => {
     try {
-      const user = (request as any).user;
-      
-      if (!user?.enterpriseEmail) {
-        return reply.status(403).send({
-          success: false,
-          message: 'Usuário não está associado a nenhuma empresa',
-          error: 'Acesso negado'
-        });
-      }
-
-      // Usar o enterpriseEmail do token JWT - mais seguro!
-      const result = await productService.getProducts(user.enterpriseEmail);
+      const result = await productService.getProducts(getTenantEmail(request));
       
       if (result.success) {
         return reply.send(result);
@@ -0,0 +1,175 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { bookingManageService, ManageResult } from '../services/bookingManageService.js';
+import { calendarService } from '../services/calendarService.js';
+
+// Rotas sem login: o token do link de gerenciamento identifica o agendamento
+export async function publicBookingRoutes(fastify: FastifyInstance) {
+
+  function sendManageError(reply: FastifyReply, result: ManageResult, fallback: string) {
+    const errorMessage = result.error || fallback;
+
+    if (result.conflictTime) {
+      return reply.status(409).send({
+        success: false,
+        message: errorMessage,
+        error: 'Conflito de horário',
+        conflictTime: result.conflictTime
+      });
+    }
+
+    const statusCode = result.deadlinePassed ? 403
+      : result.invalidSlot ? 400
+      : errorMessage.includes('inválido') || errorMessage.includes('não encontrado') ? 404
+      : 409;
+
+    return reply.status(statusCode).send({
+      success: false,
+      message: errorMessage
+    });
+  }
+
+  const tokenParams = {
+    type: 'object',
+    properties: { token: { type: 'string' } },
+    required: ['token']
+  };
+
+  fastify.get('/public/bookings/:token', {
+    config: { public: true },
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Consultar agendamento pelo link do cliente',
+      params: tokenParams
+    }
+  }, async (request, reply) => {
+    try {
+      const { token } = request.params as { token: string };
+
+      const result = await bookingManageService.getBookingByToken(token);
+      if (!result.success || !result.data) {
+        return reply.status(404).send({
+          success: false,
+          message: result.error || 'Agendamento não encontrado'
+        });
+      }
+
+      const window = await bookingManageService.getChangeDeadline(result.data);
+      const isActive = result.data.status === 'pending' || result.data.status === 'confirmed';
+
+      return {
+        success: true,
+        data: {
+          ...bookingManageService.toPublicBooking(result.data),
+          canChange: isActive && window.allowed,
+          changeDeadline: window.deadline
+        }
+      };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/public/bookings/:token/calendar.ics', {
+    config: { public: true },
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Baixar agendamento para o calendário (.ics)',
+      description: 'Evento único com o mesmo UID dos feeds; baixar de novo atualiza o evento já importado.',
+      params: tokenParams
+    }
+  }, async (request, reply) => {
+    try {
+      const { token } = request.params as { token: string };
+
+      const result = await calendarService.getBookingCalendar(token);
+      if (!result.success || !result.data) {
+        return reply.status(404).send({
+          success: false,
+          message: result.error || 'Agendamento não encontrado'
+        });
+      }
+
+      return reply
+        .type('text/calendar; charset=utf-8')
+        .header('Content-Disposition', 'attachment; filename="agendamento.ics"')
+        .send(result.data);
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/public/bookings/:token/cancel', {
+    config: { public: true },
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Cliente cancela o próprio agendamento',
+      description: 'Respeita a antecedência mínima configurada pela empresa (cancellationDeadlineHours).',
+      params: tokenParams
+    }
+  }, async (request, reply) => {
+    try {
+      const { token } = request.params as { token: string };
+
+      const result = await bookingManageService.cancelByToken(token);
+      if (!result.success || !result.data) {
+        return sendManageError(reply, result, 'Erro ao cancelar agendamento');
+      }
+
+      return {
+        success: true,
+        data: bookingManageService.toPublicBooking(result.data),
+        message: 'Agendamento cancelado'
+      };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/public/bookings/:token/reschedule', {
+    config: { public: true },
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Cliente reagenda o próprio agendamento',
+      description: 'Mantém o mesmo profissional e refaz as verificações de disponibilidade.',
+      params: tokenParams,
+      body: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', format: 'date' },
+          startTime: { type: 'string', pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$' }
+        },
+        required: ['date', 'startTime']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { token } = request.params as { token: string };
+      const body = request.body as { date: string; startTime: string };
+
+      const result = await bookingManageService.rescheduleByToken(token, body);
+      if (!result.success || !result.data) {
+        return sendManageError(reply, result, 'Erro ao reagendar agendamento');
+      }
+
+      return {
+        success: true,
+        data: bookingManageService.toPublicBooking(result.data),
+        message: 'Agendamento reagendado'
+      };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+}
@@ -0,0 +1,115 @@
+import { FastifyInstance } from 'fastify';
+import { reportService, ReportRange } from '../services/reportService.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { requireTenant } from '../middleware/tenant.js';
+
+const reportQuerystring = {
+  type: 'object',
+  properties: {
+    enterpriseEmail: { type: 'string', format: 'email' },
+    startDate: { type: 'string', format: 'date', description: 'Início do período (YYYY-MM-DD)' },
+    endDate: { type: 'string', format: 'date', description: 'Fim do período, inclusivo (YYYY-MM-DD)' },
+    groupBy: { type: 'string', enum: ['day', 'week', 'month'], default: 'day' }
+  },
+  required: ['startDate', 'endDate']
+};
+
+interface ReportQuery extends ReportRange {
+  enterpriseEmail: string;
+}
+
+export async function reportRoutes(fastify: FastifyInstance) {
+
+  fastify.get('/reports/revenue', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Reports'],
+      summary: 'Relatório de receita',
+      description: 'Agendamentos concluídos, cancelados, receita, ticket médio e taxa de cancelamento por período. Receita considera apenas agendamentos concluídos.',
+      security: [{ bearerAuth: [] }],
+      querystring: reportQuerystring
+    }
+  }, async (request, reply) => {
+    try {
+      const { enterpriseEmail, startDate, endDate, groupBy } = request.query as ReportQuery;
+
+      const result = await reportService.getRevenueReport(enterpriseEmail, { startDate, endDate, groupBy });
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao gerar relatório'
+        });
+      }
+
+      return { success: true, data: result.data };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/reports/services', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Reports'],
+      summary: 'Relatório por serviço',
+      description: 'Métricas por serviço, ordenadas por receita. Serviços de combos contam individualmente.',
+      security: [{ bearerAuth: [] }],
+      querystring: reportQuerystring
+    }
+  }, async (request, reply) => {
+    try {
+      const { enterpriseEmail, startDate, endDate, groupBy } = request.query as ReportQuery;
+
+      const result = await reportService.getServicesReport(enterpriseEmail, { startDate, endDate, groupBy });
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao gerar relatório'
+        });
+      }
+
+      return { success: true, data: result.data };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/reports/employees', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Reports'],
+      summary: 'Relatório por funcionário',
+      description: 'Métricas por funcionário, ordenadas por receita.',
+      security: [{ bearerAuth: [] }],
+      querystring: reportQuerystring
+    }
+  }, async (request, reply) => {
+    try {
+      const { enterpriseEmail, startDate, endDate, groupBy } = request.query as ReportQuery;
+
+      const result = await reportService.getEmployeesReport(enterpriseEmail, { startDate, endDate, groupBy });
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao gerar relatório'
+        });
+      }
+
+      return { success: true, data: result.data };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+}
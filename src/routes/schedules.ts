@@ -2,6 +2,8 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { scheduleService } from '../services/scheduleService.js';
 import { Schedule } from '../types/index.js';
 import { scheduleSchema, responses } from '../schemas/index.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { requireTenant, requireTenantSchedule } from '../middleware/tenant.js';
 
 interface CreateScheduleBody {
   enterpriseEmail: string;
@@ -31,17 +33,19 @@ export async function schedulesRoutes(fastify: FastifyInstance) {
   fastify.post<{
     Body: CreateScheduleBody;
   }>('/schedules', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
     schema: {
       tags: ['Schedules'],
       summary: 'Criar horário de funcionamento',
       description: 'Cria um novo horário de funcionamento para uma empresa com disponibilidade semanal configurável.',
+      security: [{ bearerAuth: [] }],
       body: {
         type: 'object',
         properties: {
           enterpriseEmail: {
             type: 'string',
             format: 'email',
-            description: 'Email da empresa'
+            description: 'Email da empresa (padrão: empresa do usuário autenticado)'
           },
           name: {
             type: 'string',
@@ -84,7 +88,7 @@ export async function schedulesRoutes(fastify: FastifyInstance) {
             description: 'Se este é o horário padrão da empresa'
           }
         },
-        required: ['enterpriseEmail', 'name', 'timeZone', 'availability']
+        required: ['name', 'timeZone', 'availability']
       },
       response: {
         201: {
@@ -150,20 +154,21 @@ export async function schedulesRoutes(fastify: FastifyInstance) {
   fastify.get<{
     Querystring: GetSchedulesQuery;
   }>('/schedules', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
     schema: {
       tags: ['Schedules'],
       summary: 'Listar horários de funcionamento',
       description: 'Retorna todos os horários de funcionamento de uma empresa',
+      security: [{ bearerAuth: [] }],
       querystring: {
         type: 'object',
         properties: {
           enterpriseEmail: { 
             type: 'string',
             format: 'email',
-            description: 'Email da empresa'
+            description: 'Email da empresa (padrão: empresa do usuário autenticado)'
           }
-        },
-        required: ['enterpriseEmail']
+        }
       },
       response: {
         200: {
@@ -217,10 +222,12 @@ export async function schedulesRoutes(fastify: FastifyInstance) {
   fastify.get<{
     Params: { id: string };
   }>('/schedules/:id', {
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantSchedule()],
     schema: {
       tags: ['Schedules'],
       summary: 'Obter horário por ID',
       description: 'Retorna um horário de funcionamento específico pelo ID',
+      security: [{ bearerAuth: [] }],
       params: {
         type: 'object',
         properties: {
@@ -274,10 +281,12 @@ export async function schedulesRoutes(fastify: FastifyInstance) {
     Params: UpdateScheduleParams;
     Body: Partial<Schedule>;
   }>('/schedules/:id', {
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantSchedule()],
     schema: {
       tags: ['Schedules'],
       summary: 'Atualizar horário',
       description: 'Atualiza um horário de funcionamento existente',
+      security: [{ bearerAuth: [] }],
       params: {
         type: 'object',
         properties: {
@@ -337,10 +346,12 @@ export async function schedulesRoutes(fastify: FastifyInstance) {
   fastify.delete<{
     Params: DeleteScheduleParams;
   }>('/schedules/:id', {
+    preHandler: [authenticate, requireAdmin, requireTenant, requireTenantSchedule()],
     schema: {
       tags: ['Schedules'],
       summary: 'Deletar horário',
       description: 'Remove um horário de funcionamento',
+      security: [{ bearerAuth: [] }],
       params: {
         type: 'object',
         properties: {
@@ -386,7 +397,7 @@ export async function schedulesRoutes(fastify: FastifyInstance) {
 
   fastify.get<{
     Params: { enterpriseEmail: string };
-  }>('/schedules/default/:enterpriseEmail', async (request: FastifyRequest<{ Params: { enterpriseEmail: string } }>, reply: FastifyReply) => {
+  }>('/schedules/default/:enterpriseEmail', { config: { public: true } }, async (request: FastifyRequest<{ Params: { enterpriseEmail: string } }>, reply: FastifyReply) => {
     try {
       const { enterpriseEmail } = request.params;
 
@@ -0,0 +1,273 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { bookingService } from '../services/bookingService.js';
+import { employeeService } from '../services/employeeService.js';
+import { enterpriseService } from '../services/enterpriseService.js';
+import { calendarService } from '../services/calendarService.js';
+import { authenticate, requireEmployee, requireRole } from '../middleware/auth.js';
+import { requireTenant, getTenantEmail, ownsBooking } from '../middleware/tenant.js';
+import { BookingActor, Employee } from '../types/index.js';
+import { employeeSchema } from '../schemas/index.js';
+import { addDaysToDate, nowInTimeZone } from '../utils/dateTime.js';
+
+const MAX_AGENDA_DAYS = 31;
+
+const bookingIdParams = {
+  type: 'object',
+  properties: { id: { type: 'string' } },
+  required: ['id']
+};
+
+// Funcionário só acessa os agendamentos em que é o profissional
+const requireOwnBooking = requireRole(['employee'], { employee: ownsBooking });
+
+export async function staffRoutes(fastify: FastifyInstance) {
+
+  function getActor(request: FastifyRequest): BookingActor | undefined {
+    const user = (request as any).user;
+    if (!user?.uid) return undefined;
+
+    return {
+      uid: user.uid,
+      email: user.email || '',
+      ...(user.role && { role: user.role })
+    };
+  }
+
+  // Funcionário vinculado ao usuário; envia 403 se estiver inativo
+  async function getOwnEmployee(request: FastifyRequest, reply: FastifyReply): Promise<Employee | undefined> {
+    const employeeId = (request as any).user?.employeeId;
+    const employeeResult = employeeId ? await employeeService.getEmployeeById(employeeId) : undefined;
+    const employee = employeeResult?.data;
+
+    if (!employee || employee.enterpriseEmail !== getTenantEmail(request)) {
+      reply.status(404).send({
+        success: false,
+        message: 'Funcionário vinculado ao usuário não encontrado'
+      });
+      return undefined;
+    }
+
+    if (!employee.isActive) {
+      reply.status(403).send({
+        success: false,
+        message: 'Funcionário inativo'
+      });
+      return undefined;
+    }
+
+    return employee;
+  }
+
+  fastify.get('/me/employee', {
+    preHandler: [authenticate, requireEmployee, requireTenant],
+    schema: {
+      tags: ['Staff'],
+      summary: 'Meu cadastro de funcionário',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const employee = await getOwnEmployee(request, reply);
+      if (!employee) return reply;
+
+      return { success: true, data: employee };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/me/bookings', {
+    preHandler: [authenticate, requireEmployee, requireTenant],
+    schema: {
+      tags: ['Staff'],
+      summary: 'Minha agenda',
+      description: `Agendamentos do funcionário logado. Sem date, mostra o dia de hoje no fuso da empresa; com endDate, o período (até ${MAX_AGENDA_DAYS} dias).`,
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', format: 'date' },
+          endDate: { type: 'string', format: 'date' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const employee = await getOwnEmployee(request, reply);
+      if (!employee) return reply;
+
+      const query = request.query as { date?: string; endDate?: string };
+      const enterpriseEmail = getTenantEmail(request);
+
+      const timeZone = await enterpriseService.getEnterpriseTimeZone(enterpriseEmail);
+      const startDate = query.date || nowInTimeZone(timeZone).date;
+      const endDate = query.endDate || startDate;
+
+      if (endDate < startDate || endDate > addDaysToDate(startDate, MAX_AGENDA_DAYS - 1)) {
+        return reply.status(400).send({
+          success: false,
+          message: `Período inválido: endDate deve estar entre date e ${MAX_AGENDA_DAYS} dias depois`
+        });
+      }
+
+      const result = await bookingService.getEmployeeBookings(enterpriseEmail, employee.id!, startDate, endDate);
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao buscar agenda'
+        });
+      }
+
+      return { success: true, data: result.data || [] };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/me/calendar-feed', {
+    preHandler: [authenticate, requireEmployee, requireTenant],
+    schema: {
+      tags: ['Staff'],
+      summary: 'URL do feed da minha agenda',
+      description: 'URL .ics somente leitura para assinar no calendário do celular.',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const employee = await getOwnEmployee(request, reply);
+      if (!employee) return reply;
+
+      const result = await calendarService.getFeedLinks(getTenantEmail(request), employee.id!);
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao gerar feed de calendário'
+        });
+      }
+
+      return { success: true, data: result.data };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.put('/me/bookings/:id/arrive', {
+    preHandler: [authenticate, requireOwnBooking, requireTenant],
+    schema: {
+      tags: ['Staff'],
+      summary: 'Registrar chegada do cliente',
+      security: [{ bearerAuth: [] }],
+      params: bookingIdParams
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const result = await bookingService.markArrived(getTenantEmail(request), id, getActor(request));
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao registrar chegada';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 409).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return { success: true, data: result.data, message: 'Chegada do cliente registrada' };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.put('/me/bookings/:id/complete', {
+    preHandler: [authenticate, requireOwnBooking, requireTenant],
+    schema: {
+      tags: ['Staff'],
+      summary: 'Concluir atendimento',
+      security: [{ bearerAuth: [] }],
+      params: bookingIdParams
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const result = await bookingService.completeBooking(getTenantEmail(request), id, getActor(request));
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao concluir agendamento';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 409).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return { success: true, data: result.data, message: result.message || 'Concluído com sucesso' };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.put('/me/work-schedule', {
+    preHandler: [authenticate, requireEmployee, requireTenant],
+    schema: {
+      tags: ['Staff'],
+      summary: 'Alterar meu horário de trabalho',
+      description: 'Disponível apenas quando o admin libera a alteração (canEditSchedule no cadastro do funcionário).',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          workSchedule: employeeSchema.properties.workSchedule
+        },
+        required: ['workSchedule']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const employee = await getOwnEmployee(request, reply);
+      if (!employee) return reply;
+
+      if (!employee.canEditSchedule) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Alteração de horário não liberada pelo administrador'
+        });
+      }
+
+      const { workSchedule } = request.body as Pick<Employee, 'workSchedule'>;
+
+      const result = await employeeService.updateEmployee(employee.id!, { workSchedule });
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao atualizar horário'
+        });
+      }
+
+      return { success: true, data: result.data, message: 'Horário de trabalho atualizado' };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+}
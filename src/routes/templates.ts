@@ -0,0 +1,201 @@
+import { FastifyInstance } from 'fastify';
+import {
+  messageTemplateService,
+  MESSAGE_TEMPLATE_TYPES,
+  UpdateMessageTemplateInput
+} from '../services/messageTemplateService.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { requireTenant, getTenantEmail } from '../middleware/tenant.js';
+import { MessageTemplateType } from '../types/index.js';
+
+const typeParamsSchema = {
+  type: 'object',
+  required: ['type'],
+  properties: {
+    type: { type: 'string', enum: MESSAGE_TEMPLATE_TYPES }
+  }
+};
+
+const placeholdersDescription = 'Placeholders no formato {{nome}}; {{#nome}}...{{/nome}} mostra o trecho só quando a variável tem valor. ' +
+  'Placeholders fora da lista do tipo (campo placeholders em GET /templates) são recusados, assim como corpos sem os ' +
+  'obrigatórios (campo requiredPlaceholders: {{code}} no OTP, {{manageLink}} na confirmação).';
+
+export async function templateRoutes(fastify: FastifyInstance) {
+
+  fastify.get('/templates', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Templates'],
+      summary: 'Modelos de mensagem da empresa',
+      description: 'Lista o modelo em uso de cada tipo (personalizado ou padrão) e os placeholders aceitos.',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const result = await messageTemplateService.getTemplates(getTenantEmail(request));
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao buscar modelos de mensagem'
+        });
+      }
+
+      return { success: true, data: result.data };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/templates/:type', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Templates'],
+      summary: 'Modelo de mensagem de um tipo',
+      security: [{ bearerAuth: [] }],
+      params: typeParamsSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const { type } = request.params as { type: MessageTemplateType };
+      const result = await messageTemplateService.getTemplate(getTenantEmail(request), type);
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao buscar modelo de mensagem'
+        });
+      }
+
+      return { success: true, data: result.data };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.put('/templates/:type', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Templates'],
+      summary: 'Personalizar modelo de mensagem',
+      description: `${placeholdersDescription} Sem subject, mantém o assunto atual.`,
+      security: [{ bearerAuth: [] }],
+      params: typeParamsSchema,
+      body: {
+        type: 'object',
+        required: ['body'],
+        properties: {
+          subject: { type: 'string', minLength: 1, maxLength: 200 },
+          body: { type: 'string', minLength: 1, maxLength: 4000 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { type } = request.params as { type: MessageTemplateType };
+      const result = await messageTemplateService.updateTemplate(
+        getTenantEmail(request),
+        type,
+        request.body as UpdateMessageTemplateInput
+      );
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao atualizar modelo de mensagem',
+          ...(result.errors && { errors: result.errors })
+        });
+      }
+
+      return {
+        success: true,
+        data: result.data,
+        message: 'Modelo de mensagem atualizado'
+      };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.delete('/templates/:type', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Templates'],
+      summary: 'Restaurar modelo padrão',
+      description: 'Remove o modelo personalizado; o tipo volta a usar o texto padrão.',
+      security: [{ bearerAuth: [] }],
+      params: typeParamsSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const { type } = request.params as { type: MessageTemplateType };
+      const result = await messageTemplateService.resetTemplate(getTenantEmail(request), type);
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao restaurar modelo de mensagem'
+        });
+      }
+
+      return {
+        success: true,
+        data: result.data,
+        message: 'Modelo padrão restaurado'
+      };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/templates/:type/preview', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Templates'],
+      summary: 'Prévia do modelo de mensagem',
+      description: `Renderiza o modelo com um agendamento de exemplo e os dados da empresa. Com subject/body, mostra a prévia do rascunho sem salvar. ${placeholdersDescription}`,
+      security: [{ bearerAuth: [] }],
+      params: typeParamsSchema,
+      body: {
+        type: 'object',
+        properties: {
+          subject: { type: 'string', maxLength: 200 },
+          body: { type: 'string', maxLength: 4000 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { type } = request.params as { type: MessageTemplateType };
+      const draft = (request.body || {}) as { subject?: string; body?: string };
+      const result = await messageTemplateService.preview(getTenantEmail(request), type, draft);
+
+      if (!result.success) {
+        return reply.status(result.errors ? 400 : 500).send({
+          success: false,
+          message: result.error || 'Erro ao gerar prévia do modelo',
+          ...(result.errors && { errors: result.errors })
+        });
+      }
+
+      return { success: true, data: result.data };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+}
@@ -0,0 +1,187 @@
+import { FastifyInstance } from 'fastify';
+import { waitlistService } from '../services/waitlistService.js';
+import { bookingService } from '../services/bookingService.js';
+import { paymentService } from '../services/paymentService.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { requireTenant } from '../middleware/tenant.js';
+
+export async function waitlistRoutes(fastify: FastifyInstance) {
+
+  fastify.post('/waitlist', {
+    config: { public: true },
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Entrar na lista de espera',
+      description: 'Quando um agendamento compatível for cancelado, o horário é oferecido por WhatsApp na ordem de chegada.',
+      body: {
+        type: 'object',
+        properties: {
+          enterpriseEmail: { type: 'string', format: 'email' },
+          clientName: { type: 'string' },
+          clientPhone: { type: 'string' },
+          clientEmail: { type: 'string', format: 'email' },
+          productId: { type: 'string' },
+          employeeId: { type: 'string' },
+          fromDate: { type: 'string', format: 'date' },
+          toDate: { type: 'string', format: 'date' },
+          preferredStartTime: { type: 'string', pattern: '^\\d{2}:\\d{2}$' },
+          preferredEndTime: { type: 'string', pattern: '^\\d{2}:\\d{2}$' }
+        },
+        required: ['enterpriseEmail', 'clientName', 'clientPhone', 'productId', 'fromDate']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const body = request.body as any;
+
+      const result = await waitlistService.createEntry(body.enterpriseEmail, {
+        clientName: body.clientName,
+        clientPhone: body.clientPhone,
+        clientEmail: body.clientEmail,
+        productId: body.productId,
+        employeeId: body.employeeId,
+        fromDate: body.fromDate,
+        toDate: body.toDate || body.fromDate,
+        preferredStartTime: body.preferredStartTime,
+        preferredEndTime: body.preferredEndTime
+      });
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao entrar na lista de espera'
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: result.data,
+        message: 'Você está na lista de espera. Avisaremos pelo WhatsApp se abrir um horário.'
+      });
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/waitlist', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Listar lista de espera',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          enterpriseEmail: { type: 'string', format: 'email' },
+          status: { type: 'string', enum: ['waiting', 'offered', 'claiming', 'booked', 'expired', 'cancelled'] }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { enterpriseEmail, status } = request.query as any;
+
+      const result = await waitlistService.listEntries(enterpriseEmail, status);
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao buscar lista de espera'
+        });
+      }
+
+      return { success: true, data: result.data || [] };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.delete('/waitlist/:id', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Remover da lista de espera',
+      security: [{ bearerAuth: [] }],
+      params: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+      querystring: { type: 'object', properties: { enterpriseEmail: { type: 'string' } } }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { enterpriseEmail } = request.query as { enterpriseEmail: string };
+
+      const result = await waitlistService.cancelEntry(enterpriseEmail, id);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao remover da lista de espera';
+        return reply.status(errorMessage.includes('não encontrada') ? 404 : 409).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return { success: true, message: result.message };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/public/waitlist/offers/:token/claim', {
+    config: { public: true },
+    schema: {
+      tags: ['Bookings'],
+      summary: 'Aceitar horário oferecido pela lista de espera',
+      description: 'Transforma a oferta em agendamento enquanto ela estiver dentro do prazo.',
+      params: { type: 'object', properties: { token: { type: 'string' } }, required: ['token'] }
+    }
+  }, async (request, reply) => {
+    try {
+      const { token } = request.params as { token: string };
+
+      const result = await waitlistService.claimOffer(token);
+
+      if (!result.success || !result.data) {
+        const errorMessage = result.error || 'Erro ao aceitar oferta';
+
+        if (result.conflictTime) {
+          return reply.status(409).send({
+            success: false,
+            message: errorMessage,
+            error: 'Conflito de horário',
+            conflictTime: result.conflictTime
+          });
+        }
+
+        return reply.status(errorMessage.includes('inválido') ? 404 : 410).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      // Sinal e confirmação são feitos pelos handlers de booking.created
+      const currentResult = await bookingService.getBookingById(result.data.enterpriseEmail, result.data.id!);
+      const booking = currentResult.data || result.data;
+      const depositCharge = await paymentService.getDepositCharge(booking.enterpriseEmail, booking.id!);
+
+      return reply.status(201).send({
+        success: true,
+        data: { ...booking, ...(depositCharge && { depositCharge }) },
+        message: depositCharge ? 'Horário reservado! Pague o sinal via PIX para confirmar.' : 'Horário confirmado!'
+      });
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+}
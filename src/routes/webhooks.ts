@@ -0,0 +1,253 @@
+import { FastifyInstance } from 'fastify';
+import { webhookService, CreateWebhookInput, UpdateWebhookInput } from '../services/webhookService.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { requireTenant, getTenantEmail } from '../middleware/tenant.js';
+
+const idParams = {
+  type: 'object',
+  properties: { id: { type: 'string' } },
+  required: ['id']
+};
+
+const webhookEvents = [
+  'booking.created',
+  'booking.confirmed',
+  'booking.cancelled',
+  'booking.completed',
+  'booking.no_show',
+  'booking.rescheduled'
+];
+
+const webhookProperties = {
+  url: { type: 'string', format: 'uri', pattern: '^https://', description: 'Endereço https público que recebe o POST com o evento' },
+  events: {
+    type: 'array',
+    minItems: 1,
+    items: { type: 'string', enum: webhookEvents }
+  },
+  description: { type: 'string', maxLength: 200 }
+};
+
+export async function webhookRoutes(fastify: FastifyInstance) {
+
+  fastify.get('/webhooks', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Webhooks'],
+      summary: 'Listar webhooks da empresa',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const result = await webhookService.getWebhooks(getTenantEmail(request));
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao buscar webhooks'
+        });
+      }
+
+      return { success: true, data: result.data || [] };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/webhooks', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Webhooks'],
+      summary: 'Criar webhook',
+      description: 'Cada evento é enviado por POST com corpo JSON e o cabeçalho X-Corte-Signature ("t=<unix>,v1=<hex>"), HMAC-SHA256 de "<t>.<corpo>" com o segredo. O segredo só aparece nesta resposta.',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: webhookProperties,
+        required: ['url', 'events']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const result = await webhookService.createWebhook(getTenantEmail(request), request.body as CreateWebhookInput);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          message: result.error || 'Erro ao criar webhook'
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: result.data,
+        message: 'Webhook criado com sucesso. Guarde o segredo, ele não será exibido novamente.'
+      });
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.put('/webhooks/:id', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Webhooks'],
+      summary: 'Atualizar webhook',
+      security: [{ bearerAuth: [] }],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: {
+          ...webhookProperties,
+          isActive: { type: 'boolean' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const result = await webhookService.updateWebhook(getTenantEmail(request), id, request.body as UpdateWebhookInput);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao atualizar webhook';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 400).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return {
+        success: true,
+        data: result.data,
+        message: 'Webhook atualizado com sucesso'
+      };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.delete('/webhooks/:id', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Webhooks'],
+      summary: 'Remover webhook',
+      security: [{ bearerAuth: [] }],
+      params: idParams
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const result = await webhookService.deleteWebhook(getTenantEmail(request), id);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao remover webhook';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 500).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return { success: true, message: result.message };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.get('/webhooks/:id/deliveries', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Webhooks'],
+      summary: 'Histórico de entregas do webhook',
+      description: 'Mais recentes primeiro, com status, número de tentativas, último status HTTP e erro.',
+      security: [{ bearerAuth: [] }],
+      params: idParams,
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { limit } = request.query as { limit: number };
+      const enterpriseEmail = getTenantEmail(request);
+
+      const webhookResult = await webhookService.getWebhook(enterpriseEmail, id);
+      if (!webhookResult.success) {
+        const errorMessage = webhookResult.error || 'Erro ao buscar webhook';
+        return reply.status(errorMessage.includes('não encontrado') ? 404 : 500).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      const result = await webhookService.getDeliveries(enterpriseEmail, id, limit);
+
+      if (!result.success) {
+        return reply.status(500).send({
+          success: false,
+          message: result.error || 'Erro ao buscar entregas'
+        });
+      }
+
+      return { success: true, data: result.data || [] };
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+
+  fastify.post('/webhooks/deliveries/:id/redeliver', {
+    preHandler: [authenticate, requireAdmin, requireTenant],
+    schema: {
+      tags: ['Webhooks'],
+      summary: 'Reenviar entrega',
+      description: 'Envia novamente o mesmo corpo como uma nova entrega (redeliveryOf aponta para a original), assinado com o segredo atual.',
+      security: [{ bearerAuth: [] }],
+      params: idParams
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const result = await webhookService.redeliver(getTenantEmail(request), id);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Erro ao reenviar entrega';
+        return reply.status(errorMessage.includes('não encontrad') ? 404 : 400).send({
+          success: false,
+          message: errorMessage
+        });
+      }
+
+      return reply.status(202).send({
+        success: true,
+        data: result.data,
+        message: result.message
+      });
+    } catch (error: any) {
+      return reply.status(500).send({
+        success: false,
+        message: error.message || 'Erro interno do servidor'
+      });
+    }
+  });
+}
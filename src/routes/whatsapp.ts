@@ -1,8 +1,12 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { sendMessage } from '../services/sendmessage.js';
+import { messagingService } from '../services/messagingService.js';
+import { messageTemplateService } from '../services/messageTemplateService.js';
+import { clientService } from '../services/clientService.js';
+import { normalizePhone } from '../utils/phone.js';
 
 interface SendCodeRequest {
   phoneNumber: string;
+  enterpriseEmail?: string;
 }
 
 interface VerifyCodeRequest {
@@ -36,7 +40,8 @@ export async function whatsAppVerification(fastify: FastifyInstance) {
       type: 'object',
       required: ['phoneNumber'],
       properties: {
-        phoneNumber: { type: 'string' }
+        phoneNumber: { type: 'string' },
+        enterpriseEmail: { type: 'string', format: 'email', description: 'Envia pelo número de WhatsApp da empresa' }
       }
     }
   };
@@ -55,10 +60,10 @@ export async function whatsAppVerification(fastify: FastifyInstance) {
 
   // Rota POST /sendCode - Gera, guarda e envia código
   fastify.post<{ Body: SendCodeRequest }>('/sendCode', 
-    { schema: sendCodeSchema }, 
+    { config: { public: true }, schema: sendCodeSchema }, 
     async (request: FastifyRequest<{ Body: SendCodeRequest }>, reply: FastifyReply) => {
       try {
-        const { phoneNumber } = request.body;
+        const { phoneNumber, enterpriseEmail } = request.body;
 
         // Validação básica do número de telefone
         if (!phoneNumber || phoneNumber.length < 10) {
@@ -90,11 +95,23 @@ export async function whatsAppVerification(fastify: FastifyInstance) {
           attempts: 0
         });
 
-        // Montar mensagem
-        const message = `Seu código de verificação é: ${verificationCode}\n\nEste código expira em 5 minutos.\nNão compartilhe este código com ninguém.`;
+        // Montar mensagem com o modelo da empresa (ou o padrão)
+        const { subject, text } = await messageTemplateService.render('otp', {
+          code: verificationCode,
+          expiresInMinutes: '5'
+        }, enterpriseEmail);
+
+        // WhatsApp; o e-mail só serve de alternativa se já estiver no cadastro
+        // do cliente com este telefone (nunca um e-mail enviado na requisição)
+        const email = enterpriseEmail
+          ? (await clientService.getClient(enterpriseEmail, normalizePhone(phoneNumber))).data?.email
+          : undefined;
 
-        // Enviar mensagem via WhatsApp
-        const result = await sendMessage(phoneNumber, message);
+        const result = await messagingService.send('otp', {
+          to: { phone: phoneNumber, ...(email && { email }) },
+          subject,
+          text
+        }, enterpriseEmail);
 
         // Resposta de sucesso (sem mostrar o código por segurança)
         return reply.status(200).send({
@@ -103,7 +120,7 @@ export async function whatsAppVerification(fastify: FastifyInstance) {
           data: {
             phoneNumber: phoneNumber,
             expiresIn: 300, // 5 minutos em segundos
-            apiResponse: result
+            channel: result.channel
           }
         });
 
@@ -121,7 +138,7 @@ export async function whatsAppVerification(fastify: FastifyInstance) {
 
   // Rota POST /verifyCode - Verifica o código digitado pelo usuário
   fastify.post<{ Body: VerifyCodeRequest }>('/verifyCode', 
-    { schema: verifyCodeSchema }, 
+    { config: { public: true }, schema: verifyCodeSchema }, 
     async (request: FastifyRequest<{ Body: VerifyCodeRequest }>, reply: FastifyReply) => {
       try {
         const { phoneNumber, userCode } = request.body;
@@ -214,23 +231,8 @@ export async function whatsAppVerification(fastify: FastifyInstance) {
     }
   );
 
-  // Rota GET para verificar códigos ativos (apenas para debug - remover em produção)
-  fastify.get('/debug/codes', async (request, reply) => {
-    const activeCodes = Array.from(verificationCodes.entries()).map(([phone, data]) => ({
-      phoneNumber: phone,
-      expires: data.expires,
-      attempts: data.attempts,
-      isExpired: data.expires < new Date()
-    }));
-
-    return reply.status(200).send({
-      activeCodes: activeCodes,
-      total: activeCodes.length
-    });
-  });
-
   // Rota GET para testar se o serviço está funcionando
-  fastify.get('/health', async (request, reply) => {
+  fastify.get('/health', { config: { public: true } }, async (request, reply) => {
     return reply.status(200).send({
       status: 'OK',
       message: 'Serviço de WhatsApp Verification funcionando',
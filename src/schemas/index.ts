@@ -290,15 +290,16 @@ export const userSchema = {
     name: { type: 'string' },
     role: { 
       type: 'string', 
-      enum: ['admin', 'client'],
-      description: 'Role do usuário: admin (gerencia empresa) ou client (faz agendamentos)'
+      enum: ['admin', 'client', 'employee'],
+      description: 'Role do usuário: admin (gerencia empresa), client (faz agendamentos) ou employee (agenda própria)'
     },
     phone: { type: 'string' },
     enterpriseEmail: { 
       type: 'string', 
       format: 'email', 
-      description: 'Email da empresa (obrigatório para admins)'
+      description: 'Email da empresa (obrigatório para admins e funcionários)'
     },
+    employeeId: { type: 'string', description: 'Funcionário vinculado (role employee)' },
     createdAt: { type: 'string', format: 'date-time' },
     updatedAt: { type: 'string', format: 'date-time' }
   }
@@ -323,6 +324,16 @@ export const loginResponse = {
   }
 };
 
+export const depositRuleSchema = {
+  type: 'object',
+  description: 'Sinal exigido ao agendar: percentual do preço ou valor fixo',
+  properties: {
+    type: { type: 'string', enum: ['percentage', 'fixed'] },
+    value: { type: 'number', minimum: 0 }
+  },
+  required: ['type', 'value']
+};
+
 export const productSchema = {
   type: 'object',
   properties: {
@@ -332,6 +343,7 @@ export const productSchema = {
     price: { type: 'number', minimum: 0, example: 25.50 },
     duration: { type: 'number', minimum: 1, description: 'Duração em minutos', example: 30 },
     category: { type: 'string', example: 'Corte' },
+    deposit: depositRuleSchema,
     active: { type: 'boolean', example: true },
     enterpriseId: { type: 'string', example: 'enterprise123' },
     createdAt: { type: 'string', format: 'date-time' },
@@ -351,6 +363,19 @@ export const bookingSchema = {
     productName: { type: 'string' },
     productDuration: { type: 'number', minimum: 1 },
     productPrice: { type: 'number', minimum: 0 },
+    services: {
+      type: 'array',
+      description: 'Serviços do agendamento, na ordem em que serão realizados',
+      items: {
+        type: 'object',
+        properties: {
+          productId: { type: 'string' },
+          productName: { type: 'string' },
+          duration: { type: 'number' },
+          price: { type: 'number' }
+        }
+      }
+    },
     employeeId: { type: 'string', description: 'ID do funcionário escolhido' },
     employeeName: { type: 'string', description: 'Nome do funcionário' },
     date: { type: 'string', format: 'date', description: 'Data do agendamento (YYYY-MM-DD)' },
@@ -360,10 +385,35 @@ export const bookingSchema = {
     actualDuration: { type: 'number', minimum: 1, description: 'Duração real baseada no funcionário' },
     status: { 
       type: 'string', 
-      enum: ['pending', 'confirmed', 'cancelled', 'completed'],
-      description: 'Status do agendamento: pending (aguardando), confirmed (confirmado), cancelled (cancelado - preserva histórico), completed (realizado)'
+      enum: ['pending', 'confirmed', 'cancelled', 'completed', 'no_show'],
+      description: 'Status do agendamento: pending (aguardando), confirmed (confirmado), cancelled (cancelado - preserva histórico), completed (realizado), no_show (cliente não compareceu)'
+    },
+    statusHistory: {
+      type: 'array',
+      description: 'Histórico de transições de status com data e usuário responsável',
+      items: {
+        type: 'object',
+        properties: {
+          from: { type: 'string' },
+          to: { type: 'string' },
+          changedAt: { type: 'string', format: 'date-time' },
+          changedBy: {
+            type: 'object',
+            properties: {
+              uid: { type: 'string' },
+              email: { type: 'string' },
+              role: { type: 'string' }
+            }
+          }
+        }
+      }
     },
     notes: { type: 'string', description: 'Observações do agendamento' },
+    clientId: { type: 'string', description: 'ID do cliente no cadastro da empresa (telefone normalizado)' },
+    depositAmount: { type: 'number', description: 'Sinal exigido para manter o agendamento' },
+    depositDueAt: { type: 'string', format: 'date-time', description: 'Prazo para pagamento do sinal' },
+    amountPaid: { type: 'number' },
+    paymentStatus: { type: 'string', enum: ['unpaid', 'deposit_pending', 'partially_paid', 'paid'] },
     createdAt: { type: 'string', format: 'date-time' },
     updatedAt: { type: 'string', format: 'date-time' }
   },
@@ -378,6 +428,10 @@ export const enterpriseSchema = {
     email: { type: 'string', format: 'email', example: 'contato@barbearia.com' },
     phone: { type: 'string', example: '(11) 3333-3333' },
     address: { type: 'string', example: 'Rua das Flores, 123 - Centro' },
+    timeZone: { type: 'string', example: 'America/Sao_Paulo', description: 'Fuso horário IANA da empresa' },
+    cancellationDeadlineHours: { type: 'number', example: 2, description: 'Antecedência mínima para cancelar pelo link' },
+    deposit: depositRuleSchema,
+    depositTimeoutMinutes: { type: 'number', example: 30, description: 'Prazo para pagar o sinal' },
     description: { type: 'string', example: 'A melhor barbearia da região' },
     active: { type: 'boolean', example: true },
     createdAt: { type: 'string', format: 'date-time' },
@@ -487,12 +541,20 @@ export const employeeSchema = {
     },
     isActive: { 
       type: 'boolean',
-      description: 'Se o funcionário está ativo (funcionários não fazem login próprio)'
+      description: 'Se o funcionário está ativo'
     },
     avatar: { 
       type: 'string',
       description: 'URL da foto do funcionário (opcional)'
     },
+    userId: {
+      type: 'string',
+      description: 'Usuário com acesso à agenda do funcionário (role employee)'
+    },
+    canEditSchedule: {
+      type: 'boolean',
+      description: 'Se o próprio funcionário pode alterar workSchedule'
+    },
     skills: {
       type: 'array',
       description: 'Serviços/produtos que o funcionário sabe realizar',
@@ -515,6 +577,14 @@ export const employeeSchema = {
           canPerform: { 
             type: 'boolean',
             description: 'Se o funcionário pode realizar este serviço'
+          },
+          price: { 
+            type: 'number',
+            description: 'Preço cobrado por este funcionário (ausente = preço do produto)'
+          },
+          duration: { 
+            type: 'number',
+            description: 'Duração em minutos com este funcionário (ausente = duração do produto)'
           }
         },
         required: ['productId', 'productName', 'experienceLevel', 'canPerform']
@@ -635,6 +705,10 @@ export const enterpriseRegistrationSchema = {
     address: { 
       type: 'string',
       description: 'Endereço da empresa (opcional)'
+    },
+    timeZone: { 
+      type: 'string',
+      description: 'Fuso horário IANA da empresa (opcional, padrão: America/Sao_Paulo)'
     }
   },
   required: ['email', 'password', 'name', 'enterpriseName']
@@ -687,6 +761,12 @@ export const createBookingSchema = {
       type: 'string',
       description: 'ID do produto/serviço'
     },
+    productIds: {
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 1,
+      description: 'IDs dos serviços do combo, em ordem (substitui productId)'
+    },
     employeeId: {
       type: 'string',
       description: 'ID do funcionário específico (opcional). Se não informado, agenda sem funcionário específico'
@@ -706,7 +786,11 @@ export const createBookingSchema = {
       description: 'Observações do agendamento (opcional)'
     }
   },
-  required: ['enterpriseEmail', 'clientName', 'clientPhone', 'productId', 'date', 'startTime']
+  required: ['enterpriseEmail', 'clientName', 'clientPhone', 'date', 'startTime'],
+  anyOf: [
+    { required: ['productId'] },
+    { required: ['productIds'] }
+  ]
 };
 
 // Schema para funcionário simplificado (sem email)
@@ -739,3 +823,85 @@ export const createEmployeeSchema = {
   },
   required: ['name', 'position']
 };
+
+// Linha de importação em lote de produtos (CSV ou JSON)
+export const productImportRowSchema = {
+  type: 'object',
+  properties: {
+    name: productSchema.properties.name,
+    price: productSchema.properties.price,
+    duration: productSchema.properties.duration,
+    description: productSchema.properties.description,
+    category: productSchema.properties.category,
+    deposit: depositRuleSchema,
+    isActive: { type: 'boolean', default: true }
+  },
+  required: ['name', 'price', 'duration']
+};
+
+// Linha de importação em lote de funcionários; skills são nomes de produtos
+export const employeeImportRowSchema = {
+  type: 'object',
+  properties: {
+    ...createEmployeeSchema.properties,
+    skills: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      description: 'Nomes dos serviços que o funcionário realiza'
+    }
+  },
+  required: createEmployeeSchema.required
+};
+
+// Ausência de funcionário, fechamento da empresa ou horário modificado
+export const scheduleExceptionSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    enterpriseEmail: { type: 'string', format: 'email' },
+    employeeId: { type: 'string', description: 'Ausente quando vale para a empresa inteira' },
+    type: { type: 'string', enum: ['closed', 'modified_hours'] },
+    startDate: { type: 'string', format: 'date' },
+    endDate: { type: 'string', format: 'date' },
+    startTime: { type: 'string', pattern: '^\\d{2}:\\d{2}$' },
+    endTime: { type: 'string', pattern: '^\\d{2}:\\d{2}$' },
+    reason: { type: 'string' }
+  }
+};
+
+export const createScheduleExceptionSchema = {
+  type: 'object',
+  properties: {
+    type: {
+      type: 'string',
+      enum: ['closed', 'modified_hours'],
+      default: 'closed',
+      description: 'closed: sem atendimento; modified_hours: expediente diferente do padrão'
+    },
+    startDate: {
+      type: 'string',
+      format: 'date',
+      description: 'Primeiro dia da exceção (YYYY-MM-DD)'
+    },
+    endDate: {
+      type: 'string',
+      format: 'date',
+      description: 'Último dia da exceção, inclusivo (opcional, padrão: startDate)'
+    },
+    startTime: {
+      type: 'string',
+      pattern: '^\\d{2}:\\d{2}$',
+      description: 'Início do expediente modificado (HH:MM)'
+    },
+    endTime: {
+      type: 'string',
+      pattern: '^\\d{2}:\\d{2}$',
+      description: 'Fim do expediente modificado (HH:MM)'
+    },
+    reason: {
+      type: 'string',
+      description: 'Motivo: férias, feriado, etc (opcional)'
+    }
+  },
+  required: ['startDate']
+};
@@ -15,12 +15,35 @@ import { authRoutes } from './routes/auth.js';
 import { employeeRoutes } from './routes/employees.js';
 import { employeeAvailabilityRoutes } from './routes/employeeAvailability.js';
 import { whatsAppVerification } from './routes/whatsapp.js';
+import { publicBookingRoutes } from './routes/publicBookings.js';
+import { waitlistRoutes } from './routes/waitlist.js';
+import { clientRoutes } from './routes/clients.js';
+import { reportRoutes } from './routes/reports.js';
+import { payoutRoutes } from './routes/payouts.js';
+import { paymentRoutes } from './routes/payments.js';
+import { staffRoutes } from './routes/staff.js';
+import { calendarRoutes } from './routes/calendar.js';
+import { importExportRoutes } from './routes/importExport.js';
+import { auditRoutes } from './routes/audit.js';
+import { webhookRoutes } from './routes/webhooks.js';
+import { messagingRoutes } from './routes/messaging.js';
+import { templateRoutes } from './routes/templates.js';
+import { registerEventSubscribers } from './services/eventSubscribers.js';
+import { getPixConfigurationError } from './services/pixProvider.js';
+import { enforceRouteAccess } from './middleware/auth.js';
+import { runWithRequest } from './utils/requestContext.js';
 
 dotenv.config();
 
 const server = Fastify({
   logger: {
     level: process.env.NODE_ENV === 'production' ? 'info' : 'debug'
+  },
+  ajv: {
+    customOptions: {
+      // Schemas de documentação (productSchema etc.) também são usados na validação
+      keywords: ['example']
+    }
   }
 });
 
@@ -122,6 +145,17 @@ async function setupPlugins() {
         { name: 'Products', description: 'Gerenciamento de produtos e serviços' },
         { name: 'Bookings', description: 'Sistema de agendamentos' },
         { name: 'Availability', description: 'Consulta de disponibilidade' },
+        { name: 'Clients', description: 'Cadastro de clientes e histórico de visitas' },
+        { name: 'Reports', description: 'Relatórios de receita, serviços e funcionários' },
+        { name: 'Payouts', description: 'Regras de comissão e extratos de pagamento dos funcionários' },
+        { name: 'Payments', description: 'Sinal, pagamentos e cobranças PIX dos agendamentos' },
+        { name: 'Staff', description: 'Agenda própria dos funcionários com login (role employee)' },
+        { name: 'Calendar', description: 'Feeds iCalendar (.ics) da empresa e dos funcionários' },
+        { name: 'Import/Export', description: 'Importação e exportação em lote (CSV ou JSON)' },
+        { name: 'Audit', description: 'Histórico de alterações da empresa' },
+        { name: 'Webhooks', description: 'Notificações de eventos de agendamento para sistemas externos' },
+        { name: 'Messaging', description: 'Provedores de WhatsApp e e-mail da empresa' },
+        { name: 'Templates', description: 'Modelos de texto das mensagens enviadas aos clientes' },
         { name: 'Enterprises', description: 'Gerenciamento de empresas/barbearias' },
         { name: 'Schedules', description: 'Horários de funcionamento' },
         { name: 'Health', description: 'Status e saúde da aplicação' }
@@ -142,7 +176,15 @@ async function setupPlugins() {
 }
 
 async function setupRoutes() {
+  server.addHook('onRoute', enforceRouteAccess);
+
+  // Depois do parsing do corpo, para o contexto não se perder nos eventos do stream
+  server.addHook('preValidation', (request, _reply, done) => {
+    runWithRequest(request, done);
+  });
+
   server.get('/health', {
+    config: { public: true },
     schema: {
       tags: ['Health'],
       description: 'Verificação de saúde da aplicação',
@@ -177,10 +219,29 @@ async function setupRoutes() {
   await server.register(employeeRoutes, { prefix: '/api' });
   await server.register(employeeAvailabilityRoutes, { prefix: '/api' });
   await server.register(whatsAppVerification, { prefix: '/api' });
+  await server.register(publicBookingRoutes, { prefix: '/api' });
+  await server.register(waitlistRoutes, { prefix: '/api' });
+  await server.register(clientRoutes, { prefix: '/api' });
+  await server.register(reportRoutes, { prefix: '/api' });
+  await server.register(payoutRoutes, { prefix: '/api' });
+  await server.register(paymentRoutes, { prefix: '/api' });
+  await server.register(staffRoutes, { prefix: '/api' });
+  await server.register(calendarRoutes, { prefix: '/api' });
+  await server.register(importExportRoutes, { prefix: '/api' });
+  await server.register(auditRoutes, { prefix: '/api' });
+  await server.register(webhookRoutes, { prefix: '/api' });
+  await server.register(messagingRoutes, { prefix: '/api' });
+  await server.register(templateRoutes, { prefix: '/api' });
 }
 
 async function start() {
   try {
+    const pixConfigError = getPixConfigurationError();
+    if (pixConfigError) {
+      throw new Error(pixConfigError);
+    }
+
+    registerEventSubscribers();
     await setupPlugins();
     await setupRoutes();
 
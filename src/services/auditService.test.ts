@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { diffFields } from './auditService.js';
+
+describe('diffFields', () => {
+  it('lista os campos alterados, incluídos e removidos em ordem alfabética', () => {
+    expect(diffFields(
+      { status: 'pending', price: 35, notes: 'Sem máquina' },
+      { status: 'confirmed', price: 35, employeeId: 'e1' }
+    )).toEqual([
+      { field: 'employeeId', before: null, after: 'e1' },
+      { field: 'notes', before: 'Sem máquina', after: null },
+      { field: 'status', before: 'pending', after: 'confirmed' }
+    ]);
+  });
+
+  it('trata criação e exclusão como diferença contra vazio', () => {
+    expect(diffFields(null, { name: 'Corte' })).toEqual([{ field: 'name', before: null, after: 'Corte' }]);
+    expect(diffFields({ name: 'Corte' }, undefined)).toEqual([{ field: 'name', before: 'Corte', after: null }]);
+  });
+
+  it('ignora campos de controle e históricos', () => {
+    expect(diffFields(
+      { createdAt: 1, updatedAt: 1, statusHistory: [], rescheduleHistory: [] },
+      { createdAt: 2, updatedAt: 2, statusHistory: [{ status: 'confirmed' }], rescheduleHistory: [{}] }
+    )).toEqual([]);
+  });
+
+  it('compara datas, Timestamps e objetos pelo valor', () => {
+    const timestamp = { toDate: () => new Date('2026-03-10T17:00:00Z') };
+
+    expect(diffFields(
+      { paidAt: new Date('2026-03-10T17:00:00Z'), deposit: { type: 'fixed', value: 10, note: undefined } },
+      { paidAt: timestamp, deposit: { type: 'fixed', value: 10 } }
+    )).toEqual([]);
+    expect(diffFields({ deposit: { type: 'fixed', value: 10 } }, { deposit: { type: 'fixed', value: 15 } })).toEqual([
+      { field: 'deposit', before: { type: 'fixed', value: 10 }, after: { type: 'fixed', value: 15 } }
+    ]);
+  });
+
+  it('não registra undefined virando null', () => {
+    expect(diffFields({ notes: undefined }, { notes: null })).toEqual([]);
+  });
+});
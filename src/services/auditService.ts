@@ -0,0 +1,174 @@
+import { collection, addDoc, getDocs, query, where, orderBy, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { AuditAction, AuditChange, AuditEntityType, AuditEntry, BookingActor } from '../types/index.js';
+import { enterpriseService } from './enterpriseService.js';
+import { getCurrentRequest } from '../utils/requestContext.js';
+import { addDaysToDate, nowInTimeZone, zonedDateTimeToUtc } from '../utils/dateTime.js';
+
+const DEFAULT_QUERY_DAYS = 30;
+const MAX_QUERY_DAYS = 366;
+const DEFAULT_LIMIT = 100;
+
+// Campos que mudam em toda escrita ou já são históricos por si só
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt', 'statusHistory', 'rescheduleHistory']);
+
+const SYSTEM_ACTOR: BookingActor = { uid: 'system', email: '', role: 'system' };
+const PUBLIC_ACTOR: BookingActor = { uid: 'public', email: '', role: 'public' };
+
+export interface AuditRecordInput {
+    entityType: AuditEntityType;
+    entityId: string;
+    action: AuditAction;
+    before?: object | null; // Ausente na criação
+    after?: object | null; // Ausente na remoção
+    actor?: BookingActor; // Padrão: usuário da requisição atual
+}
+
+export interface AuditFilters {
+    entityType?: AuditEntityType;
+    entityId?: string;
+    actorUid?: string;
+    startDate?: string; // YYYY-MM-DD no fuso da empresa
+    endDate?: string; // YYYY-MM-DD (inclusivo)
+    limit?: number;
+}
+
+function auditCollectionPath(enterpriseEmail: string): string {
+    return `enterprises/${enterpriseEmail}/auditLog`;
+}
+
+// Valor comparável e aceito pelo Firestore (sem undefined, datas em ISO)
+function normalizeValue(value: unknown): unknown {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+        return (value as { toDate: () => Date }).toDate().toISOString();
+    }
+    if (Array.isArray(value)) return value.map(normalizeValue);
+    if (typeof value === 'object') {
+        const normalized: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            if (item !== undefined) normalized[key] = normalizeValue(item);
+        }
+        return normalized;
+    }
+    return value;
+}
+
+// Diferença campo a campo (primeiro nível) entre dois estados da entidade
+export function diffFields(before?: object | null, after?: object | null): AuditChange[] {
+    const previous = (normalizeValue(before || {}) as Record<string, unknown>);
+    const next = (normalizeValue(after || {}) as Record<string, unknown>);
+    const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+    const changes: AuditChange[] = [];
+    for (const field of fields) {
+        if (IGNORED_FIELDS.has(field)) continue;
+
+        const beforeValue = previous[field] ?? null;
+        const afterValue = next[field] ?? null;
+        if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+            changes.push({ field, before: beforeValue, after: afterValue });
+        }
+    }
+
+    return changes.sort((a, b) => a.field.localeCompare(b.field));
+}
+
+function getCurrentActor(): { actor: BookingActor; ip?: string } {
+    const request = getCurrentRequest();
+    if (!request) {
+        return { actor: SYSTEM_ACTOR };
+    }
+
+    const user = (request as any).user;
+    const actor: BookingActor = user?.uid
+        ? { uid: user.uid, email: user.email || '', ...(user.role && { role: user.role }) }
+        : PUBLIC_ACTOR;
+
+    return { actor, ...(request.ip && { ip: request.ip }) };
+}
+
+function toEntry(id: string, data: any): AuditEntry {
+    return {
+        id,
+        enterpriseEmail: data.enterpriseEmail,
+        entityType: data.entityType,
+        entityId: data.entityId,
+        action: data.action,
+        actor: data.actor,
+        ...(data.ip && { ip: data.ip }),
+        changes: data.changes || [],
+        createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt
+    };
+}
+
+export const auditService = {
+    // Registra a alteração; falhas aqui não desfazem nem bloqueiam a escrita auditada
+    async record(enterpriseEmail: string, input: AuditRecordInput): Promise<void> {
+        try {
+            const changes = diffFields(input.before, input.after);
+            if (changes.length === 0 && input.action === 'update') return;
+
+            const current = getCurrentActor();
+
+            await addDoc(collection(db, auditCollectionPath(enterpriseEmail)), {
+                enterpriseEmail,
+                entityType: input.entityType,
+                entityId: input.entityId,
+                action: input.action,
+                actor: input.actor || current.actor,
+                ...(current.ip && { ip: current.ip }),
+                changes,
+                createdAt: Timestamp.now()
+            });
+        } catch (error) {
+            console.error('Erro ao registrar auditoria:', error);
+        }
+    },
+
+    async getEntries(
+        enterpriseEmail: string,
+        filters: AuditFilters = {}
+    ): Promise<{ success: boolean; data?: AuditEntry[]; error?: string }> {
+        try {
+            const timeZone = await enterpriseService.getEnterpriseTimeZone(enterpriseEmail);
+            const endDate = filters.endDate || nowInTimeZone(timeZone).date;
+            const startDate = filters.startDate || addDaysToDate(endDate, -(DEFAULT_QUERY_DAYS - 1));
+
+            if (endDate < startDate) {
+                return { success: false, error: 'A data final não pode ser anterior à data inicial' };
+            }
+
+            if (endDate > addDaysToDate(startDate, MAX_QUERY_DAYS - 1)) {
+                return { success: false, error: `O período máximo da consulta é de ${MAX_QUERY_DAYS} dias` };
+            }
+
+            // Só o período vai para o Firestore; os demais filtros são aplicados aqui
+            // para não exigir índices compostos
+            const snapshot = await getDocs(query(
+                collection(db, auditCollectionPath(enterpriseEmail)),
+                where('createdAt', '>=', Timestamp.fromDate(zonedDateTimeToUtc(startDate, '00:00', timeZone))),
+                where('createdAt', '<', Timestamp.fromDate(zonedDateTimeToUtc(addDaysToDate(endDate, 1), '00:00', timeZone))),
+                orderBy('createdAt', 'desc')
+            ));
+
+            const entries = snapshot.docs
+                .map(d => toEntry(d.id, d.data()))
+                .filter(entry =>
+                    (!filters.entityType || entry.entityType === filters.entityType) &&
+                    (!filters.entityId || entry.entityId === filters.entityId) &&
+                    (!filters.actorUid || entry.actor?.uid === filters.actorUid)
+                )
+                .slice(0, filters.limit || DEFAULT_LIMIT);
+
+            return { success: true, data: entries };
+        } catch (error) {
+            console.error('Erro ao buscar auditoria:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    }
+};
@@ -10,12 +10,16 @@ import { createSuccessResponse, createErrorResponse, standardMessages, logError,
 
 const auth = getAuth(app);
 
+// employee: acesso à própria agenda, vinculado a um documento de Employee
+export type UserRole = 'admin' | 'client' | 'employee';
+
 export interface UserProfile {
   uid: string;
   email: string;
   name: string;
-  role: 'admin' | 'client';
+  role: UserRole;
   enterpriseEmail?: string;
+  employeeId?: string;
   phone?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -26,9 +30,10 @@ export const authService = {
     email: string, 
     password: string, 
     name: string, 
-    role: 'admin' | 'client',
+    role: UserRole,
     enterpriseEmail?: string,
-    phone?: string
+    phone?: string,
+    employeeId?: string
   ): Promise<ApiResponse<UserProfile>> {
     try {
       logInfo('registerUser', `Tentando registrar usuário: ${email}`, { role, enterpriseEmail });
@@ -40,7 +45,8 @@ export const authService = {
         email: user.email!,
         name,
         role,
-        ...(role === 'admin' && enterpriseEmail && { enterpriseEmail }),
+        ...(role !== 'client' && enterpriseEmail && { enterpriseEmail }),
+        ...(role === 'employee' && employeeId && { employeeId }),
         ...(phone && { phone }),
         createdAt: new Date(),
         updatedAt: new Date()
@@ -131,6 +137,7 @@ export const authService = {
             name: userData.name,
             role: userData.role,
             enterpriseEmail: userData.enterpriseEmail,
+            employeeId: userData.employeeId,
             phone: userData.phone,
             createdAt: userData.createdAt?.toDate() || new Date(),
             updatedAt: userData.updatedAt?.toDate() || new Date()
@@ -216,6 +223,7 @@ export const authService = {
           name: userData.name,
           role: userData.role,
           enterpriseEmail: userData.enterpriseEmail,
+          employeeId: userData.employeeId,
           phone: userData.phone,
           createdAt: userData.createdAt?.toDate() || new Date(),
           updatedAt: userData.updatedAt?.toDate() || new Date()
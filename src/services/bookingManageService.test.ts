@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Booking } from '../types/index.js';
+
+const mocks = vi.hoisted(() => ({
+  getBookingById: vi.fn(),
+  rescheduleBooking: vi.fn()
+}));
+
+vi.mock('./bookingService.js', () => ({
+  bookingService: { getBookingById: mocks.getBookingById, rescheduleBooking: mocks.rescheduleBooking }
+}));
+vi.mock('./enterpriseService.js', () => ({
+  enterpriseService: {
+    getEnterpriseByEmail: async () => ({ success: true, data: { cancellationDeadlineHours: 4 } }),
+    getEnterpriseTimeZone: async () => 'America/Sao_Paulo'
+  }
+}));
+vi.mock('./manageLink.js', () => ({
+  verifyManageToken: (token: string) => token === 'valido' ? { enterpriseEmail: 'empresa@exemplo.com', bookingId: 'booking-1' } : null
+}));
+
+const { bookingManageService } = await import('./bookingManageService.js');
+
+// 2026-11-02 12:00 em São Paulo (UTC-3)
+const NOW = new Date('2026-11-02T15:00:00.000Z');
+
+const booking = {
+  id: 'booking-1',
+  enterpriseEmail: 'empresa@exemplo.com',
+  date: '2026-11-03',
+  startTime: '10:00',
+  status: 'confirmed'
+} as Booking;
+
+describe('bookingManageService.rescheduleByToken', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: NOW });
+    mocks.getBookingById.mockResolvedValue({ success: true, data: booking });
+    mocks.rescheduleBooking.mockImplementation(async (_email, _id, slot) => ({ success: true, data: { ...booking, ...slot } }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reagenda para um horário fora do prazo de antecedência', async () => {
+    const result = await bookingManageService.rescheduleByToken('valido', { date: '2026-11-02', startTime: '16:30' });
+
+    expect(result.success).toBe(true);
+    expect(mocks.rescheduleBooking).toHaveBeenCalledWith('empresa@exemplo.com', 'booking-1', { date: '2026-11-02', startTime: '16:30' });
+  });
+
+  it.each([
+    ['no passado', '2026-11-01', '15:00'],
+    ['mais cedo no mesmo dia', '2026-11-02', '09:00'],
+    ['dentro do prazo de antecedência', '2026-11-02', '15:30']
+  ])('recusa novo horário %s', async (_label, date, startTime) => {
+    const result = await bookingManageService.rescheduleByToken('valido', { date, startTime });
+
+    expect(result).toEqual({
+      success: false,
+      invalidSlot: true,
+      error: 'O novo horário precisa ter pelo menos 4h de antecedência'
+    });
+    expect(mocks.rescheduleBooking).not.toHaveBeenCalled();
+  });
+
+  it('recusa quando o horário atual já está dentro do prazo', async () => {
+    mocks.getBookingById.mockResolvedValue({ success: true, data: { ...booking, date: '2026-11-02', startTime: '14:00' } });
+
+    const result = await bookingManageService.rescheduleByToken('valido', { date: '2026-11-10', startTime: '10:00' });
+
+    expect(result.deadlinePassed).toBe(true);
+    expect(mocks.rescheduleBooking).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+import { Booking, BookingActor } from '../types/index.js';
+import { bookingService } from './bookingService.js';
+import { enterpriseService } from './enterpriseService.js';
+import { verifyManageToken } from './manageLink.js';
+import { zonedDateTimeToUtc } from '../utils/dateTime.js';
+
+const DEFAULT_CANCELLATION_DEADLINE_HOURS = 2;
+
+// Ações feitas pelo link ficam registradas no histórico como do próprio cliente
+function clientActor(booking: Booking): BookingActor {
+  return {
+    uid: 'manage-link',
+    email: booking.clientEmail || '',
+    role: 'client'
+  };
+}
+
+export interface ManageResult {
+  success: boolean;
+  data?: Booking;
+  error?: string;
+  conflictTime?: string;
+  deadlinePassed?: boolean;
+  invalidSlot?: boolean;
+}
+
+export const bookingManageService = {
+  async getBookingByToken(token: string): Promise<{ success: boolean; data?: Booking; error?: string }> {
+    const payload = verifyManageToken(token);
+    if (!payload) {
+      return {
+        success: false,
+        error: 'Link de agendamento inválido'
+      };
+    }
+
+    return bookingService.getBookingById(payload.enterpriseEmail, payload.bookingId);
+  },
+
+  // Prazo a partir do qual o cliente não pode mais cancelar ou reagendar pelo link
+  async getChangeDeadline(booking: Booking): Promise<{ allowed: boolean; deadline: string; deadlineHours: number }> {
+    const enterpriseResult = await enterpriseService.getEnterpriseByEmail(booking.enterpriseEmail);
+    const deadlineHours = enterpriseResult.data?.cancellationDeadlineHours ?? DEFAULT_CANCELLATION_DEADLINE_HOURS;
+    const timeZone = await enterpriseService.getEnterpriseTimeZone(booking.enterpriseEmail);
+
+    const startsAt = zonedDateTimeToUtc(booking.date, booking.startTime, timeZone);
+    const deadline = new Date(startsAt.getTime() - deadlineHours * 60 * 60 * 1000);
+
+    return {
+      allowed: Date.now() < deadline.getTime(),
+      deadline: deadline.toISOString(),
+      deadlineHours
+    };
+  },
+
+  // Campos que o cliente pode ver pelo link (sem histórico interno)
+  toPublicBooking(booking: Booking) {
+    return {
+      id: booking.id,
+      clientName: booking.clientName,
+      productName: booking.productName,
+      services: booking.services,
+      employeeName: booking.employeeName,
+      date: booking.date,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+      productPrice: booking.productPrice,
+      status: booking.status
+    };
+  },
+
+  async cancelByToken(token: string): Promise<ManageResult> {
+    const bookingResult = await this.getBookingByToken(token);
+    if (!bookingResult.success || !bookingResult.data) {
+      return { success: false, error: bookingResult.error };
+    }
+
+    const booking = bookingResult.data;
+    const window = await this.getChangeDeadline(booking);
+    if (!window.allowed) {
+      return {
+        success: false,
+        deadlinePassed: true,
+        error: `Cancelamento permitido apenas com ${window.deadlineHours}h de antecedência. Entre em contato com o estabelecimento.`
+      };
+    }
+
+    return bookingService.cancelBooking(booking.enterpriseEmail, booking.id!, clientActor(booking));
+  },
+
+  async rescheduleByToken(token: string, newSlot: { date: string; startTime: string }): Promise<ManageResult> {
+    const bookingResult = await this.getBookingByToken(token);
+    if (!bookingResult.success || !bookingResult.data) {
+      return { success: false, error: bookingResult.error };
+    }
+
+    const booking = bookingResult.data;
+    const window = await this.getChangeDeadline(booking);
+    if (!window.allowed) {
+      return {
+        success: false,
+        deadlinePassed: true,
+        error: `Reagendamento permitido apenas com ${window.deadlineHours}h de antecedência. Entre em contato com o estabelecimento.`
+      };
+    }
+
+    // O novo horário segue o mesmo prazo: sem isso o cliente poderia mover o
+    // agendamento para o passado ou para daqui a minutos
+    const newWindow = await this.getChangeDeadline({ ...booking, ...newSlot });
+    if (!newWindow.allowed) {
+      return {
+        success: false,
+        invalidSlot: true,
+        error: `O novo horário precisa ter pelo menos ${newWindow.deadlineHours}h de antecedência`
+      };
+    }
+
+    return bookingService.rescheduleBooking(booking.enterpriseEmail, booking.id!, {
+      date: newSlot.date,
+      startTime: newSlot.startTime
+    });
+  }
+};
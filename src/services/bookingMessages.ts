@@ -0,0 +1,49 @@
+import { Booking } from '../types/index.js';
+import { messagingService } from './messagingService.js';
+import { enterpriseService } from './enterpriseService.js';
+import { messageTemplateService, getBookingTemplateVariables } from './messageTemplateService.js';
+import { createManageToken, buildManageUrl, buildBookingCalendarUrl } from './manageLink.js';
+import { normalizePhone } from '../utils/phone.js';
+
+// Link que o cliente usa para ver, cancelar ou reagendar sem login
+export function getManageUrl(booking: Booking): string {
+  return buildManageUrl(createManageToken(booking.enterpriseEmail, booking.id!));
+}
+
+// Evento .ics do agendamento para o cliente adicionar ao calendário
+export function getBookingCalendarUrl(booking: Booking): string {
+  return buildBookingCalendarUrl(createManageToken(booking.enterpriseEmail, booking.id!));
+}
+
+export async function sendBookingConfirmation(booking: Booking): Promise<void> {
+  await sendBookingMessage('booking_confirmation', booking);
+}
+
+export async function sendBookingCancellation(booking: Booking): Promise<void> {
+  await sendBookingMessage('booking_cancellation', booking);
+}
+
+// Texto do modelo da empresa para o tipo, com os dados do agendamento
+async function sendBookingMessage(
+  type: 'booking_confirmation' | 'booking_cancellation',
+  booking: Booking
+): Promise<void> {
+  if (!booking.id) return;
+
+  const timeZone = await enterpriseService.getEnterpriseTimeZone(booking.enterpriseEmail);
+  const { subject, text } = await messageTemplateService.render(
+    type,
+    getBookingTemplateVariables(booking, timeZone),
+    booking.enterpriseEmail
+  );
+
+  await messagingService.send(type, {
+    to: {
+      phone: normalizePhone(booking.clientPhone),
+      name: booking.clientName,
+      ...(booking.clientEmail && { email: booking.clientEmail })
+    },
+    subject,
+    text
+  }, booking.enterpriseEmail);
+}
@@ -0,0 +1,409 @@
+import {
+    collection,
+    addDoc,
+    getDocs,
+    doc,
+    getDoc,
+    updateDoc,
+    deleteDoc,
+    query,
+    where,
+    Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { Booking, BookingActor, BookingSeries, RecurrenceRule } from '../types/index.js';
+import { bookingService } from './bookingService.js';
+import { addDaysToDate } from '../utils/dateTime.js';
+import { auditService } from './auditService.js';
+
+const MAX_OCCURRENCES = 52;
+
+interface CreateSeriesInput {
+    clientName: string;
+    clientPhone: string;
+    clientEmail?: string;
+    productId: string;
+    employeeId?: string;
+    startDate: string;
+    startTime: string;
+    notes?: string;
+    rule: RecurrenceRule;
+}
+
+export interface SeriesOccurrenceConflict {
+    date: string;
+    startTime: string;
+    bookingId?: string;
+    error: string;
+}
+
+function seriesCollectionPath(enterpriseEmail: string): string {
+    return `enterprises/${enterpriseEmail}/bookingSeries`;
+}
+
+// Datas tratadas em UTC para que a soma de dias não dependa do fuso do servidor
+function parseDate(date: string): Date {
+    return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+// Mantém o dia do mês; em meses mais curtos usa o último dia (ex: 31 → 30)
+function addMonths(date: string, months: number): string {
+    const base = parseDate(date);
+    const day = base.getUTCDate();
+    const target = new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return formatDate(target);
+}
+
+export const bookingSeriesService = {
+    generateOccurrenceDates(startDate: string, rule: RecurrenceRule): string[] {
+        const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+        const dates: string[] = [];
+
+        for (let index = 0; index < limit; index++) {
+            const date = rule.frequency === 'monthly'
+                ? addMonths(startDate, index)
+                : addDaysToDate(startDate, index * (rule.frequency === 'biweekly' ? 14 : 7));
+
+            if (rule.until && date > rule.until) {
+                break;
+            }
+
+            dates.push(date);
+        }
+
+        return dates;
+    },
+
+    async createSeries(
+        enterpriseEmail: string,
+        input: CreateSeriesInput
+    ): Promise<{
+        success: boolean;
+        data?: { series: BookingSeries; bookings: Booking[]; conflicts: SeriesOccurrenceConflict[] };
+        error?: string;
+    }> {
+        try {
+            if (!input.rule.count && !input.rule.until) {
+                return {
+                    success: false,
+                    error: 'Informe count ou until na regra de recorrência'
+                };
+            }
+
+            const dates = this.generateOccurrenceDates(input.startDate, input.rule);
+            if (dates.length === 0) {
+                return {
+                    success: false,
+                    error: 'A regra de recorrência não gera nenhuma ocorrência'
+                };
+            }
+
+            const seriesData: any = {
+                enterpriseEmail,
+                clientName: input.clientName,
+                clientPhone: input.clientPhone,
+                productId: input.productId,
+                startDate: input.startDate,
+                startTime: input.startTime,
+                rule: { frequency: input.rule.frequency },
+                status: 'active',
+                createdAt: Timestamp.now(),
+                updatedAt: Timestamp.now()
+            };
+
+            if (input.rule.count) seriesData.rule.count = input.rule.count;
+            if (input.rule.until) seriesData.rule.until = input.rule.until;
+            if (input.clientEmail) seriesData.clientEmail = input.clientEmail;
+            if (input.employeeId) seriesData.employeeId = input.employeeId;
+            if (input.notes) seriesData.notes = input.notes;
+
+            const seriesRef = await addDoc(collection(db, seriesCollectionPath(enterpriseEmail)), seriesData);
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'bookingSeries',
+                entityId: seriesRef.id,
+                action: 'create',
+                after: seriesData
+            });
+
+            const bookings: Booking[] = [];
+            const conflicts: SeriesOccurrenceConflict[] = [];
+
+            // Cada ocorrência passa pelas mesmas verificações de um agendamento avulso
+            for (const [index, date] of dates.entries()) {
+                const result = await bookingService.createBookingWithEmployee(enterpriseEmail, {
+                    clientName: input.clientName,
+                    clientPhone: input.clientPhone,
+                    clientEmail: input.clientEmail,
+                    productId: input.productId,
+                    employeeId: input.employeeId,
+                    date,
+                    startTime: input.startTime,
+                    notes: input.notes,
+                    seriesId: seriesRef.id,
+                    seriesIndex: index
+                });
+
+                if (result.success && result.data) {
+                    bookings.push(result.data);
+                } else {
+                    conflicts.push({
+                        date,
+                        startTime: input.startTime,
+                        error: result.error || 'Horário não disponível'
+                    });
+                }
+            }
+
+            if (bookings.length === 0) {
+                await deleteDoc(seriesRef);
+                return {
+                    success: false,
+                    data: { series: { id: seriesRef.id, ...seriesData }, bookings, conflicts },
+                    error: 'Nenhuma ocorrência da série pôde ser agendada'
+                };
+            }
+
+            return {
+                success: true,
+                data: {
+                    series: { id: seriesRef.id, ...seriesData },
+                    bookings,
+                    conflicts
+                }
+            };
+
+        } catch (error) {
+            console.error('Erro ao criar série de agendamentos:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async getSeries(enterpriseEmail: string, seriesId: string): Promise<{ success: boolean; data?: BookingSeries; error?: string }> {
+        try {
+            const seriesSnap = await getDoc(doc(db, seriesCollectionPath(enterpriseEmail), seriesId));
+
+            if (!seriesSnap.exists()) {
+                return {
+                    success: false,
+                    error: 'Série não encontrada'
+                };
+            }
+
+            return {
+                success: true,
+                data: { id: seriesSnap.id, ...seriesSnap.data() } as BookingSeries
+            };
+        } catch (error) {
+            console.error('Erro ao buscar série:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async getSeriesBookings(
+        enterpriseEmail: string,
+        seriesId: string,
+        fromDate?: string
+    ): Promise<{ success: boolean; data?: Booking[]; error?: string }> {
+        try {
+            const bookingsQuery = query(
+                collection(db, `enterprises/${enterpriseEmail}/bookings`),
+                where('seriesId', '==', seriesId)
+            );
+
+            const snapshot = await getDocs(bookingsQuery);
+            const bookings = snapshot.docs
+                .map(d => ({ id: d.id, ...d.data() }) as Booking)
+                .filter(b => !fromDate || b.date >= fromDate)
+                .sort((a, b) => a.date.localeCompare(b.date));
+
+            return {
+                success: true,
+                data: bookings
+            };
+        } catch (error) {
+            console.error('Erro ao buscar agendamentos da série:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Cancela a ocorrência de fromDate e todas as seguintes
+    async cancelSeries(
+        enterpriseEmail: string,
+        seriesId: string,
+        fromDate?: string,
+        actor?: BookingActor
+    ): Promise<{
+        success: boolean;
+        data?: { cancelled: Booking[]; failed: SeriesOccurrenceConflict[] };
+        error?: string;
+    }> {
+        try {
+            const seriesResult = await this.getSeries(enterpriseEmail, seriesId);
+            if (!seriesResult.success || !seriesResult.data) {
+                return { success: false, error: seriesResult.error };
+            }
+
+            const series = seriesResult.data;
+            const effectiveFrom = fromDate || series.startDate;
+
+            const bookingsResult = await this.getSeriesBookings(enterpriseEmail, seriesId, effectiveFrom);
+            if (!bookingsResult.success) {
+                return { success: false, error: bookingsResult.error };
+            }
+
+            const cancelled: Booking[] = [];
+            const failed: SeriesOccurrenceConflict[] = [];
+
+            for (const booking of bookingsResult.data || []) {
+                if (booking.status !== 'pending' && booking.status !== 'confirmed') continue;
+
+                const result = await bookingService.cancelBooking(enterpriseEmail, booking.id!, actor);
+                if (result.success && result.data) {
+                    cancelled.push(result.data);
+                } else {
+                    failed.push({
+                        date: booking.date,
+                        startTime: booking.startTime,
+                        bookingId: booking.id,
+                        error: result.error || 'Erro ao cancelar'
+                    });
+                }
+            }
+
+            // A partir do início encerra a série; no meio, apenas a trunca
+            const seriesUpdate: any = { updatedAt: Timestamp.now() };
+            const updatedSeries: BookingSeries = { ...series };
+            if (effectiveFrom <= series.startDate) {
+                seriesUpdate.status = 'cancelled';
+                updatedSeries.status = 'cancelled';
+            } else {
+                seriesUpdate['rule.until'] = addDaysToDate(effectiveFrom, -1);
+                updatedSeries.rule = { ...series.rule, until: seriesUpdate['rule.until'] };
+            }
+
+            await updateDoc(doc(db, seriesCollectionPath(enterpriseEmail), seriesId), seriesUpdate);
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'bookingSeries',
+                entityId: seriesId,
+                action: 'cancel',
+                before: series,
+                after: updatedSeries,
+                actor
+            });
+
+            return {
+                success: true,
+                data: { cancelled, failed }
+            };
+        } catch (error) {
+            console.error('Erro ao cancelar série:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Altera horário (e opcionalmente funcionário) da ocorrência de fromDate e das seguintes
+    async rescheduleSeries(
+        enterpriseEmail: string,
+        seriesId: string,
+        changes: { fromDate?: string; startTime: string; employeeId?: string }
+    ): Promise<{
+        success: boolean;
+        data?: { updated: Booking[]; conflicts: SeriesOccurrenceConflict[] };
+        error?: string;
+    }> {
+        try {
+            const seriesResult = await this.getSeries(enterpriseEmail, seriesId);
+            if (!seriesResult.success || !seriesResult.data) {
+                return { success: false, error: seriesResult.error };
+            }
+
+            const series = seriesResult.data;
+            if (series.status === 'cancelled') {
+                return {
+                    success: false,
+                    error: 'Série cancelada não pode ser alterada'
+                };
+            }
+
+            const effectiveFrom = changes.fromDate || series.startDate;
+
+            const bookingsResult = await this.getSeriesBookings(enterpriseEmail, seriesId, effectiveFrom);
+            if (!bookingsResult.success) {
+                return { success: false, error: bookingsResult.error };
+            }
+
+            const updated: Booking[] = [];
+            const conflicts: SeriesOccurrenceConflict[] = [];
+
+            for (const booking of bookingsResult.data || []) {
+                if (booking.status !== 'pending' && booking.status !== 'confirmed') continue;
+
+                const result = await bookingService.rescheduleBooking(enterpriseEmail, booking.id!, {
+                    date: booking.date,
+                    startTime: changes.startTime,
+                    employeeId: changes.employeeId
+                });
+
+                if (result.success && result.data) {
+                    updated.push(result.data);
+                } else {
+                    conflicts.push({
+                        date: booking.date,
+                        startTime: changes.startTime,
+                        bookingId: booking.id,
+                        error: result.error || 'Horário não disponível'
+                    });
+                }
+            }
+
+            if (effectiveFrom <= series.startDate) {
+                const seriesUpdate: any = {
+                    startTime: changes.startTime,
+                    updatedAt: Timestamp.now()
+                };
+                if (changes.employeeId) seriesUpdate.employeeId = changes.employeeId;
+
+                await updateDoc(doc(db, seriesCollectionPath(enterpriseEmail), seriesId), seriesUpdate);
+
+                await auditService.record(enterpriseEmail, {
+                    entityType: 'bookingSeries',
+                    entityId: seriesId,
+                    action: 'reschedule',
+                    before: series,
+                    after: { ...series, startTime: changes.startTime, ...(changes.employeeId && { employeeId: changes.employeeId }) }
+                });
+            }
+
+            return {
+                success: true,
+                data: { updated, conflicts }
+            };
+        } catch (error) {
+            console.error('Erro ao alterar série:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    }
+};
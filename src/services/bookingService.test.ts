@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Booking, BookingStatus } from '../types/index.js';
+
+const mocks = vi.hoisted(() => ({
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  emit: vi.fn(),
+  transaction: { get: vi.fn(), update: vi.fn() }
+}));
+
+vi.mock('firebase/firestore', async importOriginal => ({
+  ...(await importOriginal<typeof import('firebase/firestore')>()),
+  collection: vi.fn(),
+  doc: vi.fn((_db, path: string, id: string) => ({ id, path })),
+  query: vi.fn(),
+  where: vi.fn(),
+  getDoc: mocks.getDoc,
+  getDocs: mocks.getDocs,
+  arrayUnion: vi.fn((...items: unknown[]) => ({ arrayUnion: items })),
+  runTransaction: vi.fn((_db, run: (transaction: unknown) => unknown) => run(mocks.transaction))
+}));
+
+vi.mock('./auditService.js', () => ({
+  auditService: { record: vi.fn() }
+}));
+vi.mock('./eventBus.js', () => ({
+  eventBus: { emit: mocks.emit }
+}));
+
+const { bookingService } = await import('./bookingService.js');
+const { slotLock } = await import('./slotLock.js');
+
+const booking = {
+  id: 'booking-1',
+  enterpriseEmail: 'empresa@exemplo.com',
+  productId: 'corte',
+  productName: 'Corte',
+  productDuration: 30,
+  productPrice: 50,
+  date: '2026-11-03',
+  startTime: '10:00',
+  endTime: '10:30',
+  status: 'pending'
+} as Booking;
+
+function bookingSnapshot(data: Partial<Booking> = {}) {
+  return { id: 'booking-1', exists: () => true, data: () => ({ ...booking, ...data }) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('bookingService.canTransition', () => {
+  it.each<[BookingStatus, BookingStatus]>([
+    ['pending', 'confirmed'],
+    ['pending', 'cancelled'],
+    ['pending', 'completed'],
+    ['pending', 'no_show'],
+    ['confirmed', 'cancelled'],
+    ['confirmed', 'completed'],
+    ['confirmed', 'no_show']
+  ])('permite %s → %s', (from, to) => {
+    expect(bookingService.canTransition(from, to)).toBe(true);
+  });
+
+  it.each<[BookingStatus, BookingStatus]>([
+    ['confirmed', 'pending'],
+    ['cancelled', 'confirmed'],
+    ['cancelled', 'pending'],
+    ['completed', 'cancelled'],
+    ['completed', 'no_show'],
+    ['no_show', 'completed']
+  ])('recusa %s → %s', (from, to) => {
+    expect(bookingService.canTransition(from, to)).toBe(false);
+  });
+});
+
+describe('bookingService.transitionBooking', () => {
+  const actor = { uid: 'admin-1', email: 'admin@exemplo.com', role: 'admin' as const };
+
+  it('grava a mudança de status na transação e emite o evento depois', async () => {
+    mocks.transaction.get.mockResolvedValue(bookingSnapshot());
+
+    const result = await bookingService.transitionBooking(booking.enterpriseEmail, 'booking-1', 'confirmed', actor);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.status).toBe('confirmed');
+    expect(mocks.transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'booking-1' }),
+      expect.objectContaining({ status: 'confirmed', confirmedAt: expect.any(String) })
+    );
+    expect(mocks.emit).toHaveBeenCalledWith('booking.confirmed', expect.objectContaining({
+      booking: expect.objectContaining({ status: 'confirmed' })
+    }));
+  });
+
+  it('recusa transição a partir de status final lido na transação', async () => {
+    mocks.transaction.get.mockResolvedValue(bookingSnapshot({ status: 'cancelled' }));
+
+    const result = await bookingService.transitionBooking(booking.enterpriseEmail, 'booking-1', 'completed', actor);
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Não é possível alterar um agendamento cancelado para concluído'
+    });
+    expect(mocks.transaction.update).not.toHaveBeenCalled();
+    expect(mocks.emit).not.toHaveBeenCalled();
+  });
+
+  it('recusa repetir o status atual', async () => {
+    mocks.transaction.get.mockResolvedValue(bookingSnapshot({ status: 'confirmed' }));
+
+    const result = await bookingService.transitionBooking(booking.enterpriseEmail, 'booking-1', 'confirmed');
+
+    expect(result).toEqual({ success: false, error: 'Agendamento já está confirmado' });
+    expect(mocks.transaction.update).not.toHaveBeenCalled();
+  });
+
+  it('informa agendamento inexistente', async () => {
+    mocks.transaction.get.mockResolvedValue({ exists: () => false });
+
+    const result = await bookingService.transitionBooking(booking.enterpriseEmail, 'booking-1', 'cancelled');
+
+    expect(result).toEqual({ success: false, error: 'Agendamento não encontrado' });
+  });
+});
+
+describe('bookingService.applyReschedule', () => {
+  beforeEach(() => {
+    mocks.getDoc.mockResolvedValue(bookingSnapshot());
+    mocks.getDocs.mockResolvedValue({ docs: [] });
+  });
+
+  it('move o agendamento quando ele não mudou desde a verificação', async () => {
+    mocks.transaction.get.mockResolvedValue(bookingSnapshot());
+
+    const result = await bookingService.applyReschedule(booking.enterpriseEmail, 'booking-1', { date: '2026-11-04', startTime: '15:00' });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(expect.objectContaining({ date: '2026-11-04', startTime: '15:00', endTime: '15:30' }));
+    expect(mocks.transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'booking-1' }),
+      expect.objectContaining({ date: '2026-11-04', startTime: '15:00' })
+    );
+  });
+
+  it('não grava quando o agendamento foi cancelado durante a verificação', async () => {
+    mocks.transaction.get.mockResolvedValue(bookingSnapshot({ status: 'cancelled' }));
+
+    const result = await bookingService.applyReschedule(booking.enterpriseEmail, 'booking-1', { date: '2026-11-04', startTime: '15:00' });
+
+    expect(result).toEqual({ success: false, error: 'Não é possível reagendar um agendamento cancelado' });
+    expect(mocks.transaction.update).not.toHaveBeenCalled();
+  });
+
+  it('não grava quando outro reagendamento mudou o horário antes', async () => {
+    mocks.transaction.get.mockResolvedValue(bookingSnapshot({ startTime: '11:00' }));
+
+    const result = await bookingService.applyReschedule(booking.enterpriseEmail, 'booking-1', { date: '2026-11-04', startTime: '15:00' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('O agendamento foi alterado por outra solicitação. Tente novamente.');
+    expect(mocks.transaction.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('bookingService.rescheduleBooking', () => {
+  it('trava o dia de origem e o novo dia', async () => {
+    mocks.getDoc.mockResolvedValue(bookingSnapshot());
+    const runAll = vi.spyOn(slotLock, 'runAll').mockResolvedValue({ acquired: false });
+
+    const result = await bookingService.rescheduleBooking(booking.enterpriseEmail, 'booking-1', { date: '2026-11-04', startTime: '15:00' });
+
+    expect(runAll).toHaveBeenCalledWith(booking.enterpriseEmail, ['2026-11-03', '2026-11-04'], expect.any(Function));
+    expect(result.conflictTime).toBe('15:00');
+    expect(mocks.emit).not.toHaveBeenCalled();
+  });
+});
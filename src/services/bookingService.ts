@@ -7,12 +7,136 @@ import {
     updateDoc,
     query,
     where,
+    arrayUnion,
+    runTransaction,
     Timestamp
 } from 'firebase/firestore';
 import { db } from '../config/firebase.js';
-import { Booking, AvailableSlot } from '../types/index.js';
+import { 
+    Booking, 
+    AvailableSlot, 
+    BookingSlotHistory, 
+    BookingStatus, 
+    BookingStatusChange, 
+    BookingActor,
+    BookingServiceItem,
+    Employee,
+    AuditAction
+} from '../types/index.js';
 import { scheduleService } from './scheduleService.js';
 import { productService } from './productService.js';
+import { slotLock } from './slotLock.js';
+import { scheduleExceptionService } from './scheduleExceptionService.js';
+import { enterpriseService } from './enterpriseService.js';
+import { clientService } from './clientService.js';
+import { auditService } from './auditService.js';
+import { eventBus, BookingEventName } from './eventBus.js';
+import { getWeekdayIndex, nowInTimeZone } from '../utils/dateTime.js';
+
+export interface CreateBookingInput {
+    clientName: string;
+    clientPhone: string;
+    clientEmail?: string;
+    productId?: string;
+    productIds?: string[]; // Combo: serviços realizados em sequência
+    employeeId?: string;
+    employeeName?: string;
+    date: string;
+    startTime: string;
+    notes?: string;
+    seriesId?: string;
+    seriesIndex?: number;
+}
+
+export interface RescheduleInput {
+    date: string;
+    startTime: string;
+    employeeId?: string;
+}
+
+// conflictTime é preenchido quando outro agendamento ocupa o horário (HTTP 409)
+export interface BookingWriteResult {
+    success: boolean;
+    data?: Booking;
+    error?: string;
+    conflictTime?: string;
+}
+
+// productIds tem prioridade; productId sozinho vira um combo de um serviço
+function requestedProductIds(input: { productId?: string; productIds?: string[] }): string[] {
+    if (input.productIds && input.productIds.length > 0) {
+        return input.productIds;
+    }
+    return input.productId ? [input.productId] : [];
+}
+
+// Agendamentos antigos não têm services, apenas productId
+export function bookingProductIds(booking: Booking): string[] {
+    return booking.services?.length
+        ? booking.services.map(service => service.productId)
+        : [booking.productId];
+}
+
+// Serviços com o preço de cada um; agendamentos antigos viram um único item
+export function bookingServiceItems(booking: Booking): BookingServiceItem[] {
+    return booking.services?.length
+        ? booking.services
+        : [{
+            productId: booking.productId,
+            productName: booking.productName,
+            duration: booking.productDuration,
+            price: booking.productPrice
+        }];
+}
+
+function slotBusyResult(startTime: string): BookingWriteResult {
+    return {
+        success: false,
+        error: `O horário ${startTime} está sendo reservado por outra solicitação. Tente novamente.`,
+        conflictTime: startTime
+    };
+}
+
+// Transições permitidas entre status; cancelled, completed e no_show são finais
+const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+    pending: ['confirmed', 'cancelled', 'completed', 'no_show'],
+    confirmed: ['cancelled', 'completed', 'no_show'],
+    cancelled: [],
+    completed: [],
+    no_show: []
+};
+
+const STATUS_LABELS: Record<BookingStatus, string> = {
+    pending: 'pendente',
+    confirmed: 'confirmado',
+    cancelled: 'cancelado',
+    completed: 'concluído',
+    no_show: 'marcado como não comparecimento'
+};
+
+const STATUS_TIMESTAMP_FIELDS: Record<BookingStatus, string> = {
+    pending: 'pendingAt',
+    confirmed: 'confirmedAt',
+    cancelled: 'cancelledAt',
+    completed: 'completedAt',
+    no_show: 'noShowAt'
+};
+
+const STATUS_AUDIT_ACTIONS: Record<BookingStatus, AuditAction> = {
+    pending: 'update',
+    confirmed: 'confirm',
+    cancelled: 'cancel',
+    completed: 'complete',
+    no_show: 'no_show'
+};
+
+// Voltar para pendente não gera evento
+const STATUS_EVENTS: Partial<Record<BookingStatus, BookingEventName>> = {
+    confirmed: 'booking.confirmed',
+    cancelled: 'booking.cancelled',
+    completed: 'booking.completed',
+    no_show: 'booking.no_show'
+};
 
 export const bookingService = {
     timeToMinutes(time: string): number {
@@ -99,7 +223,8 @@ export const bookingService = {
         date: string,
         startTime: string,
         duration: number,
-        employeeId?: string
+        employeeId?: string,
+        excludeBookingId?: string
     ): Promise<{ available: boolean; conflictingBooking?: Booking; error?: string }> {
         try {
             // 1. Buscar agendamentos do dia
@@ -118,9 +243,10 @@ export const bookingService = {
             const newEndMinutes = this.timeToMinutes(endTime);
 
             // 3. Filtrar agendamentos relevantes
-            const relevantBookings = employeeId
+            const relevantBookings = (employeeId
                 ? bookings.filter(b => b.employeeId === employeeId && b.status !== 'cancelled')
-                : bookings.filter(b => b.status !== 'cancelled');
+                : bookings.filter(b => b.status !== 'cancelled'))
+                .filter(b => !excludeBookingId || b.id !== excludeBookingId);
 
             // 4. Verificar conflitos
             for (const booking of relevantBookings) {
@@ -169,7 +295,7 @@ export const bookingService = {
             }
 
             const defaultSchedule = defaultScheduleResult.data;
-            const dayIndex = new Date(date + 'T00:00:00').getDay();
+            const dayIndex = getWeekdayIndex(date);
             const dayNameEN = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][dayIndex];
 
             const dayAvailability = defaultSchedule?.availability?.find((avail: any) => 
@@ -179,7 +305,23 @@ export const bookingService = {
                 )
             );
 
-            if (!dayAvailability?.startTime || !dayAvailability?.endTime) {
+            // Fechamentos e horários modificados da empresa prevalecem sobre o padrão
+            const exceptionsResult = await scheduleExceptionService.getExceptionsForDate(enterpriseEmail, date);
+            if (!exceptionsResult.success) {
+                return {
+                    success: false,
+                    error: exceptionsResult.error || 'Erro ao buscar exceções de horário'
+                };
+            }
+
+            const dayHours = scheduleExceptionService.resolveDayHours(
+                exceptionsResult.data || [],
+                dayAvailability?.startTime && dayAvailability?.endTime
+                    ? { startTime: dayAvailability.startTime, endTime: dayAvailability.endTime }
+                    : null
+            );
+
+            if (!dayHours.isOpen || !dayHours.startTime || !dayHours.endTime) {
                 return { success: true, data: [] };
             }
 
@@ -191,12 +333,22 @@ export const bookingService = {
                 end: this.timeToMinutes(booking.endTime)
             }));
 
-            const startMinutes = this.timeToMinutes(dayAvailability.startTime);
-            const endMinutes = this.timeToMinutes(dayAvailability.endTime);
+            // Horários que já passaram no fuso da empresa não são oferecidos
+            const timeZone = await enterpriseService.getEnterpriseTimeZone(enterpriseEmail);
+            const now = nowInTimeZone(timeZone);
+            if (date < now.date) {
+                return { success: true, data: [] };
+            }
+
+            const earliestMinutes = date === now.date ? this.timeToMinutes(now.time) : 0;
+            const startMinutes = this.timeToMinutes(dayHours.startTime);
+            const endMinutes = this.timeToMinutes(dayHours.endTime);
             const slotInterval = 15;
             const slots: AvailableSlot[] = [];
 
             for (let minutes = startMinutes; minutes <= endMinutes - duration; minutes += slotInterval) {
+                if (minutes < earliestMinutes) continue;
+
                 const slotStart = minutes;
                 const slotEnd = minutes + duration;
 
@@ -229,79 +381,153 @@ export const bookingService = {
         }
     },
 
-    async createBooking(
+    // Busca os serviços do combo e soma duração e preço a partir do cadastro de produtos;
+    // com funcionário, valem o preço e a duração personalizados da habilidade
+    async resolveServices(
         enterpriseEmail: string,
-        bookingData: Omit<Booking, 'id' | 'enterpriseEmail' | 'endTime' | 'createdAt' | 'updatedAt'>
-    ) {
-        try {
-            const enterpriseCheck = await this.checkEnterpriseExists(enterpriseEmail);
-            if (!enterpriseCheck.success) {
-                return enterpriseCheck;
-            }
+        productIds: string[],
+        employee?: Employee
+    ): Promise<{
+        success: boolean;
+        data?: { services: BookingServiceItem[]; productName: string; totalDuration: number; totalPrice: number };
+        error?: string;
+    }> {
+        if (productIds.length === 0) {
+            return {
+                success: false,
+                error: 'Informe ao menos um serviço'
+            };
+        }
 
-            const productResult = await productService.getProductById(enterpriseEmail, bookingData.productId);
-            if (!productResult.success) {
+        const services: BookingServiceItem[] = [];
+
+        for (const productId of productIds) {
+            const productResult = await productService.getProductById(enterpriseEmail, productId);
+            if (!productResult.success || !productResult.data) {
                 return {
                     success: false,
-                    error: 'Produto não encontrado'
+                    error: productIds.length > 1 ? `Produto não encontrado: ${productId}` : 'Produto não encontrado'
                 };
             }
 
-            if (!('data' in productResult)) {
-                return {
-                    success: false,
-                    error: 'Dados do produto não encontrados'
-                };
+            const product = productResult.data;
+            const skill = employee?.skills?.find(s => s.productId === productId);
+            services.push({
+                productId,
+                productName: product.name,
+                duration: skill?.duration ?? product.duration,
+                price: skill?.price ?? product.price
+            });
+        }
+
+        return {
+            success: true,
+            data: {
+                services,
+                productName: services.map(service => service.productName).join(' + '),
+                totalDuration: services.reduce((total, service) => total + service.duration, 0),
+                totalPrice: services.reduce((total, service) => total + service.price, 0)
             }
+        };
+    },
 
-            const product = productResult.data as any;
-            const endTime = this.addMinutesToTime(bookingData.startTime, product.duration);
+    async findEmployee(employeeId: string): Promise<Employee | undefined> {
+        // Importar employeeService dinamicamente para evitar dependência circular
+        const { employeeService } = await import('./employeeService.js');
+        const employeeResult = await employeeService.getEmployeeById(employeeId);
+        return employeeResult.data;
+    },
 
-            const availability = await this.isTimeSlotAvailable(
-                enterpriseEmail,
-                bookingData.date,
-                bookingData.startTime,
-                product.duration
-            );
+    canTransition(from: BookingStatus, to: BookingStatus): boolean {
+        return (BOOKING_TRANSITIONS[from] || []).includes(to);
+    },
+
+    // Única porta de entrada para mudanças de status do agendamento
+    async transitionBooking(
+        enterpriseEmail: string,
+        bookingId: string,
+        toStatus: BookingStatus,
+        actor?: BookingActor
+    ): Promise<{ success: boolean; data?: Booking; message?: string; error?: string }> {
+        try {
+            const bookingRef = doc(db, `enterprises/${enterpriseEmail}/bookings`, bookingId);
+
+            // Leitura, verificação e escrita na mesma transação: duas mudanças
+            // simultâneas (ex.: cancelar e concluir) não passam ambas pela regra
+            const transition = await runTransaction(db, async (transaction) => {
+                const bookingSnap = await transaction.get(bookingRef);
+                if (!bookingSnap.exists()) {
+                    return { error: 'Agendamento não encontrado' };
+                }
+
+                const current = { id: bookingSnap.id, ...bookingSnap.data() } as Booking;
+                const fromStatus = current.status;
+
+                if (fromStatus === toStatus) {
+                    return { error: `Agendamento já está ${STATUS_LABELS[toStatus]}` };
+                }
+
+                if (!this.canTransition(fromStatus, toStatus)) {
+                    return {
+                        error: `Não é possível alterar um agendamento ${STATUS_LABELS[fromStatus]} para ${STATUS_LABELS[toStatus]}`
+                    };
+                }
+
+                const changedAt = new Date().toISOString();
+                const change: BookingStatusChange = { from: fromStatus, to: toStatus, changedAt };
+
+                if (actor) {
+                    change.changedBy = actor;
+                }
 
-            if (!availability.available) {
+                transaction.update(bookingRef, {
+                    status: toStatus,
+                    [STATUS_TIMESTAMP_FIELDS[toStatus]]: changedAt,
+                    statusHistory: arrayUnion(change),
+                    updatedAt: Timestamp.now()
+                });
+
+                return { current, change };
+            });
+
+            if (transition.error || !transition.current || !transition.change) {
                 return {
                     success: false,
-                    error: `Horário não disponível. ${availability.conflictingBooking ? 
-                        `Conflito com agendamento às ${availability.conflictingBooking.startTime}` : ''}`
+                    error: transition.error
                 };
             }
 
-            const bookingsCollectionPath = `enterprises/${enterpriseEmail}/bookings`;
-            const docRef = await addDoc(collection(db, bookingsCollectionPath), {
-                ...bookingData,
-                enterpriseEmail,
-                productName: product.name,
-                productDuration: product.duration,
-                productPrice: product.price,
-                endTime,
-                status: 'pending',
-                createdAt: Timestamp.now(),
-                updatedAt: Timestamp.now()
+            const { current, change } = transition;
+            const changedAt = change.changedAt;
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'booking',
+                entityId: bookingId,
+                action: STATUS_AUDIT_ACTIONS[toStatus],
+                before: current,
+                after: { ...current, status: toStatus, [STATUS_TIMESTAMP_FIELDS[toStatus]]: changedAt },
+                ...(actor && { actor })
             });
 
+            const updated: Booking = {
+                ...current,
+                status: toStatus,
+                statusHistory: [...(current.statusHistory || []), change]
+            };
+
+            const event = STATUS_EVENTS[toStatus];
+            if (event) {
+                await eventBus.emit(event, { enterpriseEmail, booking: updated });
+            }
+
             return {
                 success: true,
-                id: docRef.id,
-                data: {
-                    id: docRef.id,
-                    ...bookingData,
-                    enterpriseEmail,
-                    productName: product.name,
-                    productDuration: product.duration,
-                    productPrice: product.price,
-                    endTime,
-                    status: 'pending'
-                }
+                message: `Agendamento ${STATUS_LABELS[toStatus]} com sucesso`,
+                data: updated
             };
 
         } catch (error) {
-            console.error('Erro ao criar agendamento:', error);
+            console.error(`Erro ao alterar status do agendamento para ${toStatus}:`, error);
             return {
                 success: false,
                 error: error instanceof Error ? error.message : 'Erro desconhecido'
@@ -309,22 +535,55 @@ export const bookingService = {
         }
     },
 
-    async confirmBooking(enterpriseEmail: string, bookingId: string) {
+    async confirmBooking(enterpriseEmail: string, bookingId: string, actor?: BookingActor) {
+        return this.transitionBooking(enterpriseEmail, bookingId, 'confirmed', actor);
+    },
+
+    async cancelBooking(enterpriseEmail: string, bookingId: string, actor?: BookingActor) {
+        return this.transitionBooking(enterpriseEmail, bookingId, 'cancelled', actor);
+    },
+
+    async completeBooking(enterpriseEmail: string, bookingId: string, actor?: BookingActor) {
+        return this.transitionBooking(enterpriseEmail, bookingId, 'completed', actor);
+    },
+
+    async markNoShow(enterpriseEmail: string, bookingId: string, actor?: BookingActor) {
+        return this.transitionBooking(enterpriseEmail, bookingId, 'no_show', actor);
+    },
+
+    async rescheduleBooking(
+        enterpriseEmail: string,
+        bookingId: string,
+        newSlot: RescheduleInput
+    ): Promise<BookingWriteResult> {
         try {
-            const bookingRef = doc(db, `enterprises/${enterpriseEmail}/bookings`, bookingId);
-            
-            await updateDoc(bookingRef, {
-                status: 'confirmed',
-                updatedAt: Timestamp.now()
-            });
+            const bookingSnap = await getDoc(doc(db, `enterprises/${enterpriseEmail}/bookings`, bookingId));
+            if (!bookingSnap.exists()) {
+                return {
+                    success: false,
+                    error: 'Agendamento não encontrado'
+                };
+            }
 
-            return {
-                success: true,
-                message: 'Agendamento confirmado com sucesso'
-            };
+            // O dia de origem também fica travado: o horário liberado e o ocupado
+            // mudam na mesma operação
+            const currentDate = (bookingSnap.data() as Booking).date;
+            const lock = await slotLock.runAll(enterpriseEmail, [currentDate, newSlot.date], () =>
+                this.applyReschedule(enterpriseEmail, bookingId, newSlot)
+            );
+
+            if (!lock.acquired || !lock.result) {
+                return slotBusyResult(newSlot.startTime);
+            }
 
+            // Handlers do evento rodam fora do lock, como na criação
+            if (lock.result.success && lock.result.data) {
+                await eventBus.emit('booking.rescheduled', { enterpriseEmail, booking: lock.result.data });
+            }
+
+            return lock.result;
         } catch (error) {
-            console.error('Erro ao confirmar agendamento:', error);
+            console.error('Erro ao reagendar agendamento:', error);
             return {
                 success: false,
                 error: error instanceof Error ? error.message : 'Erro desconhecido'
@@ -332,12 +591,15 @@ export const bookingService = {
         }
     },
 
-    async cancelBooking(enterpriseEmail: string, bookingId: string) {
+    async applyReschedule(
+        enterpriseEmail: string,
+        bookingId: string,
+        newSlot: RescheduleInput
+    ): Promise<BookingWriteResult> {
         try {
             const bookingRef = doc(db, `enterprises/${enterpriseEmail}/bookings`, bookingId);
-            
-            // Verificar se o agendamento existe antes de cancelar
             const bookingSnap = await getDoc(bookingRef);
+
             if (!bookingSnap.exists()) {
                 return {
                     success: false,
@@ -345,36 +607,165 @@ export const bookingService = {
                 };
             }
 
-            const bookingData = bookingSnap.data();
-            
-            // Verificar se o agendamento já está cancelado
-            if (bookingData.status === 'cancelled') {
+            const current = { id: bookingSnap.id, ...bookingSnap.data() } as Booking;
+
+            if (current.status !== 'pending' && current.status !== 'confirmed') {
                 return {
                     success: false,
-                    error: 'Agendamento já está cancelado'
+                    error: `Não é possível reagendar um agendamento ${STATUS_LABELS[current.status]}`
                 };
             }
 
-            // Verificar se o agendamento já foi completado
-            if (bookingData.status === 'completed') {
+            let duration = current.actualDuration || current.productDuration;
+            const employeeId = newSlot.employeeId || current.employeeId;
+            let employeeName = current.employeeName || '';
+
+            // Troca de funcionário: preço e duração passam a ser os do novo profissional
+            const pricingUpdate: Partial<Booking> = {};
+            if (newSlot.employeeId && newSlot.employeeId !== current.employeeId) {
+                const employee = await this.findEmployee(newSlot.employeeId);
+                const servicesResult = await this.resolveServices(enterpriseEmail, bookingProductIds(current), employee);
+                if (!servicesResult.success || !servicesResult.data) {
+                    return {
+                        success: false,
+                        error: servicesResult.error
+                    };
+                }
+
+                duration = servicesResult.data.totalDuration;
+                pricingUpdate.services = servicesResult.data.services;
+                pricingUpdate.productDuration = servicesResult.data.totalDuration;
+                pricingUpdate.productPrice = servicesResult.data.totalPrice;
+                pricingUpdate.actualDuration = servicesResult.data.totalDuration;
+            }
+
+            if (employeeId) {
+                const employeeCheck = await this.validateEmployeeSlot(
+                    enterpriseEmail,
+                    employeeId,
+                    bookingProductIds(current),
+                    newSlot.date,
+                    newSlot.startTime,
+                    duration,
+                    bookingId
+                );
+
+                if (!employeeCheck.success) {
+                    return {
+                        success: false,
+                        error: employeeCheck.error,
+                        conflictTime: employeeCheck.conflictTime
+                    };
+                }
+
+                employeeName = employeeCheck.employeeName || '';
+            } else {
+                const availabilityCheck = await this.isTimeSlotAvailable(
+                    enterpriseEmail,
+                    newSlot.date,
+                    newSlot.startTime,
+                    duration,
+                    undefined,
+                    bookingId
+                );
+
+                if (!availabilityCheck.available) {
+                    return {
+                        success: false,
+                        error: availabilityCheck.error || 'Horário não disponível',
+                        conflictTime: availabilityCheck.conflictingBooking?.startTime
+                    };
+                }
+            }
+
+            // Slot anterior preservado no histórico do agendamento
+            const previousSlot: BookingSlotHistory = {
+                date: current.date,
+                startTime: current.startTime,
+                endTime: current.endTime,
+                rescheduledAt: new Date().toISOString()
+            };
+
+            if (current.employeeId) {
+                previousSlot.employeeId = current.employeeId;
+            }
+
+            if (current.employeeName) {
+                previousSlot.employeeName = current.employeeName;
+            }
+
+            const endTime = this.addMinutesToTime(newSlot.startTime, duration);
+            const updateData: any = {
+                date: newSlot.date,
+                startTime: newSlot.startTime,
+                endTime,
+                ...pricingUpdate,
+                rescheduleHistory: arrayUnion(previousSlot),
+                updatedAt: Timestamp.now()
+            };
+
+            if (employeeId) {
+                updateData.employeeId = employeeId;
+                updateData.employeeName = employeeName;
+            }
+
+            // As verificações acima usam a leitura inicial: a escrita só acontece se o
+            // agendamento continua reagendável e no mesmo horário dentro da transação
+            const writeError = await runTransaction(db, async (transaction) => {
+                const latestSnap = await transaction.get(bookingRef);
+                if (!latestSnap.exists()) {
+                    return 'Agendamento não encontrado';
+                }
+
+                const latest = latestSnap.data() as Booking;
+                if (latest.status !== 'pending' && latest.status !== 'confirmed') {
+                    return `Não é possível reagendar um agendamento ${STATUS_LABELS[latest.status]}`;
+                }
+
+                if (
+                    latest.date !== current.date ||
+                    latest.startTime !== current.startTime ||
+                    latest.employeeId !== current.employeeId
+                ) {
+                    return 'O agendamento foi alterado por outra solicitação. Tente novamente.';
+                }
+
+                transaction.update(bookingRef, updateData);
+                return undefined;
+            });
+
+            if (writeError) {
                 return {
                     success: false,
-                    error: 'Não é possível cancelar um agendamento já completado'
+                    error: writeError
                 };
             }
 
-            await updateDoc(bookingRef, {
-                status: 'cancelled',
-                updatedAt: Timestamp.now()
+            const rescheduled: Booking = {
+                ...current,
+                date: newSlot.date,
+                startTime: newSlot.startTime,
+                endTime,
+                ...pricingUpdate,
+                ...(employeeId && { employeeId, employeeName }),
+                rescheduleHistory: [...(current.rescheduleHistory || []), previousSlot]
+            };
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'booking',
+                entityId: bookingId,
+                action: 'reschedule',
+                before: current,
+                after: rescheduled
             });
 
             return {
                 success: true,
-                message: 'Agendamento cancelado com sucesso'
+                data: rescheduled
             };
 
         } catch (error) {
-            console.error('Erro ao cancelar agendamento:', error);
+            console.error('Erro ao reagendar agendamento:', error);
             return {
                 success: false,
                 error: error instanceof Error ? error.message : 'Erro desconhecido'
@@ -442,6 +833,119 @@ export const bookingService = {
         }
     },
 
+    async getBookingById(enterpriseEmail: string, bookingId: string): Promise<{ success: boolean; data?: Booking; error?: string }> {
+        try {
+            const bookingSnap = await getDoc(doc(db, `enterprises/${enterpriseEmail}/bookings`, bookingId));
+
+            if (!bookingSnap.exists()) {
+                return {
+                    success: false,
+                    error: 'Agendamento não encontrado'
+                };
+            }
+
+            return {
+                success: true,
+                data: { id: bookingSnap.id, ...bookingSnap.data() } as Booking
+            };
+        } catch (error) {
+            console.error('Erro ao buscar agendamento:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Agenda do funcionário no período (inclusivo), em ordem cronológica
+    async getEmployeeBookings(
+        enterpriseEmail: string,
+        employeeId: string,
+        startDate: string,
+        endDate: string
+    ): Promise<{ success: boolean; data?: Booking[]; error?: string }> {
+        try {
+            const snapshot = await getDocs(query(
+                collection(db, `enterprises/${enterpriseEmail}/bookings`),
+                where('employeeId', '==', employeeId)
+            ));
+
+            const bookings = snapshot.docs
+                .map(d => ({ id: d.id, ...d.data() }) as Booking)
+                .filter(booking => booking.date >= startDate && booking.date <= endDate)
+                .sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`));
+
+            return {
+                success: true,
+                data: bookings
+            };
+        } catch (error) {
+            console.error('Erro ao buscar agenda do funcionário:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Registra a chegada do cliente; não altera o status do agendamento
+    async markArrived(
+        enterpriseEmail: string,
+        bookingId: string,
+        actor?: BookingActor
+    ): Promise<{ success: boolean; data?: Booking; error?: string }> {
+        try {
+            const bookingResult = await this.getBookingById(enterpriseEmail, bookingId);
+            if (!bookingResult.success || !bookingResult.data) {
+                return bookingResult;
+            }
+
+            const booking = bookingResult.data;
+
+            if (booking.status !== 'pending' && booking.status !== 'confirmed') {
+                return {
+                    success: false,
+                    error: `Não é possível registrar chegada em um agendamento ${STATUS_LABELS[booking.status]}`
+                };
+            }
+
+            if (booking.arrivedAt) {
+                return {
+                    success: false,
+                    error: 'Chegada do cliente já registrada'
+                };
+            }
+
+            const arrival: Partial<Booking> = { arrivedAt: new Date().toISOString() };
+            if (actor) arrival.arrivedBy = actor;
+
+            await updateDoc(doc(db, `enterprises/${enterpriseEmail}/bookings`, bookingId), {
+                ...arrival,
+                updatedAt: Timestamp.now()
+            });
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'booking',
+                entityId: bookingId,
+                action: 'arrive',
+                before: booking,
+                after: { ...booking, ...arrival },
+                ...(actor && { actor })
+            });
+
+            return {
+                success: true,
+                data: { ...booking, ...arrival }
+            };
+        } catch (error) {
+            console.error('Erro ao registrar chegada do cliente:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
     async getBookingsByEmployeeAndDate(employeeId: string, date: string): Promise<{ success: boolean; data?: Booking[]; error?: string }> {
         try {
             const bookingsRef = collection(db, 'bookings');
@@ -465,7 +969,7 @@ export const bookingService = {
 
             // Filtrar apenas agendamentos não cancelados
             const activeBookings = bookings.filter(booking => 
-                booking.status !== 'cancelled'
+                booking.status !== 'cancelled' && booking.status !== 'no_show'
             );
 
             return {
@@ -482,20 +986,141 @@ export const bookingService = {
         }
     },
 
+    // Verificações de funcionário usadas na criação e no reagendamento
+    async validateEmployeeSlot(
+        enterpriseEmail: string,
+        employeeId: string,
+        productIds: string[],
+        date: string,
+        startTime: string,
+        duration: number,
+        excludeBookingId?: string
+    ): Promise<{ success: boolean; employeeName?: string; error?: string; conflictTime?: string }> {
+        // Importar employeeService dinamicamente para evitar dependência circular
+        const { employeeService } = await import('./employeeService.js');
+
+        // Verificar se funcionário existe, é da empresa e está ativo
+        const employeeResult = await employeeService.getEmployeeById(employeeId);
+        if (!employeeResult.success || !employeeResult.data || employeeResult.data.enterpriseEmail !== enterpriseEmail) {
+            return {
+                success: false,
+                error: 'Funcionário não encontrado'
+            };
+        }
+
+        const employee = employeeResult.data;
+        if (!employee.isActive) {
+            return {
+                success: false,
+                error: 'Funcionário não está ativo'
+            };
+        }
+
+        // Verificar se funcionário tem habilidade para todos os serviços
+        const missingProductId = productIds.find(productId => {
+            const skill = employee.skills?.find(s => s.productId === productId);
+            return !skill || !skill.canPerform;
+        });
+
+        if (missingProductId) {
+            return {
+                success: false,
+                error: productIds.length > 1
+                    ? `Funcionário não possui habilidade para o serviço ${missingProductId}`
+                    : 'Funcionário não possui habilidade para este serviço'
+            };
+        }
+
+        // Verificar disponibilidade do funcionário no horário de trabalho
+        const { employeeAvailabilityService } = await import('./employeeAvailabilityService.js');
+        const workingTimeCheck = await employeeAvailabilityService.isEmployeeWorkingOnTime(
+            employeeId,
+            date,
+            startTime,
+            duration
+        );
+
+        if (!workingTimeCheck.success) {
+            return {
+                success: false,
+                error: workingTimeCheck.reason || 'Erro ao verificar disponibilidade'
+            };
+        }
+
+        if (!workingTimeCheck.available) {
+            return {
+                success: false,
+                error: workingTimeCheck.reason || 'Funcionário não trabalha neste horário'
+            };
+        }
+
+        // Verificar se já existe agendamento para este funcionário neste horário
+        const availabilityCheck = await this.isTimeSlotAvailable(
+            enterpriseEmail,
+            date,
+            startTime,
+            duration,
+            employeeId,
+            excludeBookingId
+        );
+
+        if (!availabilityCheck.available) {
+            return {
+                success: false,
+                error: availabilityCheck.error || 'Horário não disponível para este funcionário',
+                conflictTime: availabilityCheck.conflictingBooking?.startTime
+            };
+        }
+
+        return {
+            success: true,
+            employeeName: employee.name
+        };
+    },
+
     async createBookingWithEmployee(
         enterpriseEmail: string,
-        bookingData: {
-            clientName: string;
-            clientPhone: string;
-            clientEmail?: string;
-            productId: string;
-            employeeId?: string;
-            employeeName?: string;
-            date: string;
-            startTime: string;
-            notes?: string;
+        bookingData: CreateBookingInput
+    ): Promise<BookingWriteResult> {
+        try {
+            // Verificação e gravação acontecem sob o mesmo lock para evitar
+            // que duas requisições simultâneas reservem o mesmo horário
+            const lock = await slotLock.run(enterpriseEmail, bookingData.date, () =>
+                this.insertBookingWithEmployee(enterpriseEmail, bookingData)
+            );
+
+            if (!lock.acquired || !lock.result) {
+                return slotBusyResult(bookingData.startTime);
+            }
+
+            // Auditoria e eventos depois de liberar o lock: os handlers (mensagens,
+            // PIX, webhooks) podem levar segundos e seguravam o dia inteiro da empresa
+            const created = lock.result.data;
+            if (lock.result.success && created) {
+                await auditService.record(enterpriseEmail, {
+                    entityType: 'booking',
+                    entityId: created.id!,
+                    action: 'create',
+                    after: created
+                });
+
+                await eventBus.emit('booking.created', { enterpriseEmail, booking: created });
+            }
+
+            return lock.result;
+        } catch (error) {
+            console.error('Erro ao criar agendamento:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro interno'
+            };
         }
-    ): Promise<{ success: boolean; data?: Booking; error?: string }> {
+    },
+
+    async insertBookingWithEmployee(
+        enterpriseEmail: string,
+        bookingData: CreateBookingInput
+    ): Promise<BookingWriteResult> {
         try {
             // Verificar se empresa existe
             const enterpriseCheck = await this.checkEnterpriseExists(enterpriseEmail);
@@ -503,92 +1128,41 @@ export const bookingService = {
                 return enterpriseCheck;
             }
 
-            // Buscar dados do produto
-            const productResult = await productService.getProductById(enterpriseEmail, bookingData.productId);
-            if (!productResult.success || !productResult.data) {
+            // Buscar dados dos serviços (com preço e duração do funcionário escolhido)
+            const productIds = requestedProductIds(bookingData);
+            const employee = bookingData.employeeId ? await this.findEmployee(bookingData.employeeId) : undefined;
+            const servicesResult = await this.resolveServices(enterpriseEmail, productIds, employee);
+            if (!servicesResult.success || !servicesResult.data) {
                 return {
                     success: false,
-                    error: 'Produto não encontrado'
+                    error: servicesResult.error
                 };
             }
 
-            const product = productResult.data;
-            let actualDuration = product.duration;
+            const { services, productName, totalDuration, totalPrice } = servicesResult.data;
+            let actualDuration = totalDuration;
             let employeeName = '';
 
             // Se funcionário específico foi escolhido
             if (bookingData.employeeId) {
-                // Importar employeeService dinamicamente para evitar dependência circular
-                const { employeeService } = await import('./employeeService.js');
-                
-                // Verificar se funcionário existe e está ativo
-                const employeeResult = await employeeService.getEmployeeById(bookingData.employeeId);
-                if (!employeeResult.success || !employeeResult.data) {
-                    return {
-                        success: false,
-                        error: 'Funcionário não encontrado'
-                    };
-                }
-
-                const employee = employeeResult.data;
-                if (!employee.isActive) {
-                    return {
-                        success: false,
-                        error: 'Funcionário não está ativo'
-                    };
-                }
-
-                employeeName = employee.name;
-
-                // Verificar se funcionário tem habilidade para este serviço
-                const skill = employee.skills?.find(s => s.productId === bookingData.productId);
-                if (!skill || !skill.canPerform) {
-                    return {
-                        success: false,
-                        error: 'Funcionário não possui habilidade para este serviço'
-                    };
-                }
-
-                actualDuration = product.duration;
-
-                // Verificar disponibilidade do funcionário no horário de trabalho
-                const { employeeAvailabilityService } = await import('./employeeAvailabilityService.js');
-                const workingTimeCheck = await employeeAvailabilityService.isEmployeeWorkingOnTime(
+                const employeeCheck = await this.validateEmployeeSlot(
+                    enterpriseEmail,
                     bookingData.employeeId,
+                    productIds,
                     bookingData.date,
                     bookingData.startTime,
                     actualDuration
                 );
 
-                if (!workingTimeCheck.success) {
+                if (!employeeCheck.success) {
                     return {
                         success: false,
-                        error: workingTimeCheck.reason || 'Erro ao verificar disponibilidade'
+                        error: employeeCheck.error,
+                        conflictTime: employeeCheck.conflictTime
                     };
                 }
 
-                if (!workingTimeCheck.available) {
-                    return {
-                        success: false,
-                        error: workingTimeCheck.reason || 'Funcionário não trabalha neste horário'
-                    };
-                }
-
-                // Verificar se já existe agendamento para este funcionário neste horário
-                const availabilityCheck = await this.isTimeSlotAvailable(
-                    enterpriseEmail,
-                    bookingData.date,
-                    bookingData.startTime,
-                    actualDuration,
-                    bookingData.employeeId
-                );
-
-                if (!availabilityCheck.available) {
-                    return {
-                        success: false,
-                        error: availabilityCheck.error || 'Horário não disponível para este funcionário'
-                    };
-                }
+                employeeName = employeeCheck.employeeName || '';
             } else {
                 // Se não especificou funcionário, verificar disponibilidade geral
                 const availabilityCheck = await this.isTimeSlotAvailable(
@@ -601,7 +1175,8 @@ export const bookingService = {
                 if (!availabilityCheck.available) {
                     return {
                         success: false,
-                        error: availabilityCheck.error || 'Horário não disponível'
+                        error: availabilityCheck.error || 'Horário não disponível',
+                        conflictTime: availabilityCheck.conflictingBooking?.startTime
                     };
                 }
             }
@@ -614,10 +1189,11 @@ export const bookingService = {
                 enterpriseEmail,
                 clientName: bookingData.clientName,
                 clientPhone: bookingData.clientPhone,
-                productId: bookingData.productId,
-                productName: product.name,
-                productDuration: product.duration,
-                productPrice: product.price,
+                productId: productIds[0],
+                productName,
+                productDuration: totalDuration,
+                productPrice: totalPrice,
+                services,
                 date: bookingData.date,
                 startTime: bookingData.startTime,
                 endTime: endTime,
@@ -646,6 +1222,22 @@ export const bookingService = {
                 booking.notes = bookingData.notes;
             }
 
+            if (bookingData.seriesId) {
+                booking.seriesId = bookingData.seriesId;
+                booking.seriesIndex = bookingData.seriesIndex ?? 0;
+            }
+
+            // Vincular ao cadastro de clientes; falha aqui não impede o agendamento
+            const clientResult = await clientService.findOrCreateByPhone(enterpriseEmail, {
+                name: bookingData.clientName,
+                phone: bookingData.clientPhone,
+                email: bookingData.clientEmail
+            });
+
+            if (clientResult.success && clientResult.data) {
+                booking.clientId = clientResult.data.id;
+            }
+
             // Salvar no Firestore na subcoleção da empresa
             const bookingsCollectionPath = `enterprises/${enterpriseEmail}/bookings`;
             const bookingRef = await addDoc(collection(db, bookingsCollectionPath), booking);
@@ -0,0 +1,244 @@
+import { randomBytes } from 'crypto';
+import { collection, doc, getDoc, getDocs, query, setDoc, where, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { Booking, BookingStatus } from '../types/index.js';
+import { bookingService } from './bookingService.js';
+import { bookingManageService } from './bookingManageService.js';
+import { employeeService } from './employeeService.js';
+import { enterpriseService } from './enterpriseService.js';
+import { createCalendarFeedToken, verifyCalendarFeedToken, buildCalendarFeedUrl } from './manageLink.js';
+import { addDaysToDate, nowInTimeZone, zonedDateTimeToUtc } from '../utils/dateTime.js';
+import { buildCalendar, CalendarEvent } from '../utils/ical.js';
+
+// Janela publicada no feed, a partir de hoje no fuso da empresa
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 180;
+
+const STATUS_LABELS: Record<BookingStatus, string> = {
+    pending: 'Pendente',
+    confirmed: 'Confirmado',
+    completed: 'Concluído',
+    cancelled: 'Cancelado',
+    no_show: 'Não compareceu'
+};
+
+export interface CalendarFeedLinks {
+    url: string;
+    webcalUrl: string;
+}
+
+export interface CalendarResult<T> {
+    success: boolean;
+    data?: T;
+    error?: string;
+}
+
+// Um documento por feed: "enterprise" ou "employee-{id}"
+function feedDocId(employeeId?: string): string {
+    return employeeId ? `employee-${employeeId}` : 'enterprise';
+}
+
+function toDate(value: any): Date | undefined {
+    if (!value) return undefined;
+    if (typeof value.toDate === 'function') return value.toDate();
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+function clientFirstName(booking: Booking): string {
+    return booking.clientName.trim().split(/\s+/)[0] || booking.clientName;
+}
+
+function toCalendarStatus(status: BookingStatus): CalendarEvent['status'] {
+    if (status === 'cancelled') return 'CANCELLED';
+    return status === 'pending' ? 'TENTATIVE' : 'CONFIRMED';
+}
+
+// Evento do agendamento; o UID depende só do ID para o app atualizar no lugar
+function toCalendarEvent(booking: Booking, timeZone: string, summary: string, location?: string): CalendarEvent {
+    const start = zonedDateTimeToUtc(booking.date, booking.startTime, timeZone);
+    const duration = booking.actualDuration || booking.productDuration;
+    const end = booking.endTime > booking.startTime
+        ? zonedDateTimeToUtc(booking.date, booking.endTime, timeZone)
+        : new Date(start.getTime() + duration * 60 * 1000);
+
+    const description = [
+        `Serviço: ${booking.productName}`,
+        `Cliente: ${clientFirstName(booking)}`,
+        ...(booking.employeeName ? [`Profissional: ${booking.employeeName}`] : []),
+        `Status: ${STATUS_LABELS[booking.status] || booking.status}`
+    ].join('\n');
+
+    const lastModified = toDate(booking.updatedAt);
+
+    return {
+        uid: `booking-${booking.id}@x-corte`,
+        start,
+        end,
+        summary,
+        description,
+        ...(location && { location }),
+        status: toCalendarStatus(booking.status),
+        sequence: (booking.statusHistory?.length || 0) + (booking.rescheduleHistory?.length || 0),
+        ...(lastModified && { lastModified })
+    };
+}
+
+export const calendarService = {
+    // Chave atual do feed; cria na primeira vez ou quando rotate = true
+    async getFeedKey(enterpriseEmail: string, employeeId?: string, rotate: boolean = false): Promise<string> {
+        const feedRef = doc(db, `enterprises/${enterpriseEmail}/calendarFeeds`, feedDocId(employeeId));
+
+        if (!rotate) {
+            const feedSnap = await getDoc(feedRef);
+            if (feedSnap.exists() && feedSnap.data().key) {
+                return feedSnap.data().key;
+            }
+        }
+
+        const key = randomBytes(16).toString('hex');
+        await setDoc(feedRef, {
+            key,
+            ...(employeeId && { employeeId }),
+            createdAt: Timestamp.now()
+        });
+
+        return key;
+    },
+
+    async getFeedLinks(
+        enterpriseEmail: string,
+        employeeId?: string,
+        rotate: boolean = false
+    ): Promise<CalendarResult<CalendarFeedLinks>> {
+        try {
+            const key = await this.getFeedKey(enterpriseEmail, employeeId, rotate);
+            const url = buildCalendarFeedUrl(createCalendarFeedToken(enterpriseEmail, key, employeeId));
+
+            return {
+                success: true,
+                data: {
+                    url,
+                    webcalUrl: url.replace(/^https?:/, 'webcal:')
+                }
+            };
+        } catch (error) {
+            console.error('Erro ao gerar feed de calendário:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async getBookingsInWindow(enterpriseEmail: string, timeZone: string, employeeId?: string): Promise<Booking[]> {
+        const today = nowInTimeZone(timeZone).date;
+        const startDate = addDaysToDate(today, -FEED_PAST_DAYS);
+        const endDate = addDaysToDate(today, FEED_FUTURE_DAYS);
+
+        if (employeeId) {
+            const result = await bookingService.getEmployeeBookings(enterpriseEmail, employeeId, startDate, endDate);
+            if (!result.success) {
+                throw new Error(result.error || 'Erro ao buscar agendamentos');
+            }
+            return result.data || [];
+        }
+
+        const snapshot = await getDocs(query(
+            collection(db, `enterprises/${enterpriseEmail}/bookings`),
+            where('date', '>=', startDate),
+            where('date', '<=', endDate)
+        ));
+
+        return snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as Booking);
+    },
+
+    // Conteúdo .ics do feed identificado pelo token da URL
+    async getFeedCalendar(token: string): Promise<CalendarResult<string>> {
+        try {
+            const payload = verifyCalendarFeedToken(token);
+            if (!payload) {
+                return { success: false, error: 'Feed de calendário inválido' };
+            }
+
+            const { enterpriseEmail, employeeId } = payload;
+            const feedSnap = await getDoc(doc(db, `enterprises/${enterpriseEmail}/calendarFeeds`, feedDocId(employeeId)));
+            if (!feedSnap.exists() || feedSnap.data().key !== payload.feedKey) {
+                return { success: false, error: 'Feed de calendário não encontrado' };
+            }
+
+            const enterpriseResult = await enterpriseService.getEnterpriseByEmail(enterpriseEmail);
+            const enterprise = enterpriseResult.data;
+            if (!enterprise) {
+                return { success: false, error: 'Feed de calendário não encontrado' };
+            }
+
+            let calendarName = enterprise.name;
+            if (employeeId) {
+                const employeeResult = await employeeService.getEmployeeById(employeeId);
+                const employee = employeeResult.data;
+                if (!employee || employee.enterpriseEmail !== enterpriseEmail || !employee.isActive) {
+                    return { success: false, error: 'Feed de calendário não encontrado' };
+                }
+                calendarName = `${employee.name} - ${enterprise.name}`;
+            }
+
+            const timeZone = await enterpriseService.getEnterpriseTimeZone(enterpriseEmail);
+            const bookings = await this.getBookingsInWindow(enterpriseEmail, timeZone, employeeId);
+
+            const events = bookings.map(booking => {
+                const summary = `${booking.productName} - ${clientFirstName(booking)}`;
+                // No feed da empresa o profissional aparece no título
+                return toCalendarEvent(
+                    booking,
+                    timeZone,
+                    !employeeId && booking.employeeName ? `${summary} (${booking.employeeName})` : summary
+                );
+            });
+
+            return {
+                success: true,
+                data: buildCalendar(events, { name: calendarName, timeZone })
+            };
+        } catch (error) {
+            console.error('Erro ao gerar feed de calendário:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Evento único para o cliente adicionar o agendamento ao próprio calendário
+    async getBookingCalendar(manageToken: string): Promise<CalendarResult<string>> {
+        try {
+            const bookingResult = await bookingManageService.getBookingByToken(manageToken);
+            if (!bookingResult.success || !bookingResult.data) {
+                return { success: false, error: bookingResult.error || 'Agendamento não encontrado' };
+            }
+
+            const booking = bookingResult.data;
+            const enterpriseResult = await enterpriseService.getEnterpriseByEmail(booking.enterpriseEmail);
+            const enterpriseName = enterpriseResult.data?.name || booking.enterpriseEmail;
+            const timeZone = await enterpriseService.getEnterpriseTimeZone(booking.enterpriseEmail);
+
+            const event = toCalendarEvent(
+                booking,
+                timeZone,
+                `${booking.productName} - ${enterpriseName}`,
+                enterpriseResult.data?.address || undefined
+            );
+
+            return {
+                success: true,
+                data: buildCalendar([event], { name: enterpriseName, timeZone })
+            };
+        } catch (error) {
+            console.error('Erro ao gerar evento de calendário:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    }
+};
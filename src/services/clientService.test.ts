@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Booking, Client } from '../types/index.js';
+
+const mocks = vi.hoisted(() => ({
+  getDoc: vi.fn(),
+  setDoc: vi.fn(),
+  updateDoc: vi.fn(),
+  transaction: { get: vi.fn(), update: vi.fn() }
+}));
+
+vi.mock('firebase/firestore', async importOriginal => ({
+  ...(await importOriginal<typeof import('firebase/firestore')>()),
+  doc: vi.fn((_db, path: string, id: string) => ({ id, path })),
+  getDoc: mocks.getDoc,
+  setDoc: mocks.setDoc,
+  updateDoc: mocks.updateDoc,
+  increment: vi.fn((value: number) => ({ increment: value })),
+  runTransaction: vi.fn((_db, run: (transaction: unknown) => unknown) => run(mocks.transaction))
+}));
+
+vi.mock('./auditService.js', () => ({
+  auditService: { record: vi.fn() }
+}));
+
+const { clientService } = await import('./clientService.js');
+
+const client = {
+  enterpriseEmail: 'empresa@exemplo.com',
+  name: 'Ana',
+  phone: '558598765432',
+  tags: [],
+  visitCount: 2,
+  totalSpent: 100
+} as Client;
+
+function snapshot(id: string, data?: object) {
+  return { id, exists: () => !!data, data: () => data };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('clientService.findOrCreateByPhone', () => {
+  it('encontra o cliente cadastrado sem o nono dígito', async () => {
+    mocks.getDoc.mockImplementation(async ({ id }: { id: string }) =>
+      id === '558598765432' ? snapshot(id, client) : snapshot(id));
+
+    const result = await clientService.findOrCreateByPhone('empresa@exemplo.com', { name: 'Ana', phone: '(85) 99876-5432' });
+
+    expect(result.data?.id).toBe('558598765432');
+    expect(mocks.setDoc).not.toHaveBeenCalled();
+  });
+
+  it('cria o cliente com o telefone informado quando nenhuma forma existe', async () => {
+    mocks.getDoc.mockImplementation(async ({ id }: { id: string }) => snapshot(id));
+
+    const result = await clientService.findOrCreateByPhone('empresa@exemplo.com', { name: 'Ana', phone: '(85) 99876-5432' });
+
+    expect(result.data?.id).toBe('5585998765432');
+    expect(mocks.getDoc).toHaveBeenCalledTimes(2);
+    expect(mocks.setDoc).toHaveBeenCalledWith(expect.objectContaining({ id: '5585998765432' }), expect.anything());
+  });
+});
+
+describe('clientService.createClient', () => {
+  it('recusa telefone já cadastrado na outra forma', async () => {
+    mocks.getDoc.mockImplementation(async ({ id }: { id: string }) =>
+      id === '5585998765432' ? snapshot(id, client) : snapshot(id));
+
+    const result = await clientService.createClient('empresa@exemplo.com', { name: 'Ana', phone: '85 9876-5432' });
+
+    expect(result).toEqual({ success: false, error: 'Já existe um cliente com este telefone' });
+    expect(mocks.setDoc).not.toHaveBeenCalled();
+  });
+});
+
+describe('clientService.recordVisit', () => {
+  const booking = {
+    id: 'booking-1',
+    enterpriseEmail: 'empresa@exemplo.com',
+    clientId: '558598765432',
+    clientName: 'Ana',
+    clientPhone: '558598765432',
+    productPrice: 50,
+    employeeId: 'emp-1',
+    employeeName: 'João',
+    date: '2026-11-03',
+    status: 'completed'
+  } as Booking;
+
+  beforeEach(() => {
+    mocks.getDoc.mockResolvedValue(snapshot('558598765432', client));
+  });
+
+  it('soma a visita e marca o agendamento na mesma transação', async () => {
+    mocks.transaction.get.mockImplementation(async ({ id }: { id: string }) =>
+      id === 'booking-1' ? snapshot(id, booking) : snapshot(id, client));
+
+    await clientService.recordVisit(booking);
+
+    expect(mocks.transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: '558598765432' }),
+      expect.objectContaining({
+        visitCount: { increment: 1 },
+        totalSpent: { increment: 50 },
+        lastVisit: '2026-11-03',
+        preferredEmployeeId: 'emp-1'
+      })
+    );
+    expect(mocks.transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'booking-1' }),
+      { visitRecordedAt: expect.any(String) }
+    );
+  });
+
+  it('não conta de novo a visita de um agendamento já registrado', async () => {
+    mocks.transaction.get.mockImplementation(async ({ id }: { id: string }) =>
+      id === 'booking-1' ? snapshot(id, { ...booking, visitRecordedAt: '2026-11-03T18:00:00.000Z' }) : snapshot(id, client));
+
+    await clientService.recordVisit(booking);
+
+    expect(mocks.transaction.update).not.toHaveBeenCalled();
+  });
+});
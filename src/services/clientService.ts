@@ -0,0 +1,408 @@
+import {
+    collection,
+    getDocs,
+    doc,
+    getDoc,
+    setDoc,
+    updateDoc,
+    deleteDoc,
+    increment,
+    query,
+    where,
+    runTransaction,
+    Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { Booking, Client } from '../types/index.js';
+import { auditService } from './auditService.js';
+import { normalizePhone, phoneMatchVariants } from '../utils/phone.js';
+
+export interface CreateClientInput {
+    name: string;
+    phone: string;
+    email?: string;
+    notes?: string;
+    tags?: string[];
+}
+
+export type UpdateClientInput = Partial<Pick<Client, 'name' | 'email' | 'notes' | 'tags'>>;
+
+export interface ClientFilters {
+    search?: string; // Parte do nome ou do telefone
+    tag?: string;
+}
+
+function clientsCollectionPath(enterpriseEmail: string): string {
+    return `enterprises/${enterpriseEmail}/clients`;
+}
+
+// DDI + DDD + número: menos que isso não identifica ninguém
+function isValidClientPhone(phone: string): boolean {
+    return phone.length >= 12;
+}
+
+// O id do cliente é o telefone normalizado como foi cadastrado: o mesmo
+// celular pode existir com ou sem o nono dígito
+async function findClientByPhone(enterpriseEmail: string, phone: string): Promise<Client | undefined> {
+    for (const candidate of phoneMatchVariants(phone)) {
+        const clientSnap = await getDoc(doc(db, clientsCollectionPath(enterpriseEmail), candidate));
+        if (clientSnap.exists()) {
+            return { id: clientSnap.id, ...clientSnap.data() } as Client;
+        }
+    }
+    return undefined;
+}
+
+function buildClientData(enterpriseEmail: string, phone: string, input: CreateClientInput): any {
+    const clientData: any = {
+        enterpriseEmail,
+        name: input.name,
+        phone,
+        tags: input.tags || [],
+        visitCount: 0,
+        totalSpent: 0,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now()
+    };
+
+    if (input.email) clientData.email = input.email;
+    if (input.notes) clientData.notes = input.notes;
+
+    return clientData;
+}
+
+// Estatísticas somadas por um atendimento concluído
+function visitUpdate(client: Client, booking: Booking): any {
+    const updateData: any = {
+        visitCount: increment(1),
+        totalSpent: increment(booking.productPrice || 0),
+        updatedAt: Timestamp.now()
+    };
+
+    if (!client.lastVisit || booking.date > client.lastVisit) {
+        updateData.lastVisit = booking.date;
+    }
+
+    if (booking.employeeId) {
+        const employeeVisits = { ...(client.employeeVisits || {}) };
+        employeeVisits[booking.employeeId] = (employeeVisits[booking.employeeId] || 0) + 1;
+        updateData[`employeeVisits.${booking.employeeId}`] = increment(1);
+
+        const preferredVisits = client.preferredEmployeeId ? employeeVisits[client.preferredEmployeeId] || 0 : 0;
+        if (employeeVisits[booking.employeeId] > preferredVisits || client.preferredEmployeeId === booking.employeeId) {
+            updateData.preferredEmployeeId = booking.employeeId;
+            if (booking.employeeName) updateData.preferredEmployeeName = booking.employeeName;
+        }
+    }
+
+    return updateData;
+}
+
+export const clientService = {
+    async createClient(
+        enterpriseEmail: string,
+        input: CreateClientInput
+    ): Promise<{ success: boolean; data?: Client; error?: string }> {
+        try {
+            const phone = normalizePhone(input.phone);
+            if (!isValidClientPhone(phone)) {
+                return {
+                    success: false,
+                    error: 'Telefone inválido'
+                };
+            }
+
+            if (await findClientByPhone(enterpriseEmail, phone)) {
+                return {
+                    success: false,
+                    error: 'Já existe um cliente com este telefone'
+                };
+            }
+
+            const clientRef = doc(db, clientsCollectionPath(enterpriseEmail), phone);
+
+            const clientData = buildClientData(enterpriseEmail, phone, input);
+            await setDoc(clientRef, clientData);
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'client',
+                entityId: phone,
+                action: 'create',
+                after: clientData
+            });
+
+            return {
+                success: true,
+                data: { id: phone, ...clientData }
+            };
+        } catch (error) {
+            console.error('Erro ao criar cliente:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Usado na criação de agendamentos: o mesmo telefone sempre cai no mesmo cliente
+    async findOrCreateByPhone(
+        enterpriseEmail: string,
+        input: CreateClientInput
+    ): Promise<{ success: boolean; data?: Client; error?: string }> {
+        try {
+            const phone = normalizePhone(input.phone);
+            if (!isValidClientPhone(phone)) {
+                return {
+                    success: false,
+                    error: 'Telefone inválido'
+                };
+            }
+
+            const client = await findClientByPhone(enterpriseEmail, phone);
+
+            if (client) {
+                const clientRef = doc(db, clientsCollectionPath(enterpriseEmail), client.id!);
+
+                // Nome e observações editados pela empresa prevalecem; só completa o e-mail
+                if (!client.email && input.email) {
+                    await updateDoc(clientRef, { email: input.email, updatedAt: Timestamp.now() });
+
+                    await auditService.record(enterpriseEmail, {
+                        entityType: 'client',
+                        entityId: client.id!,
+                        action: 'update',
+                        before: client,
+                        after: { ...client, email: input.email }
+                    });
+
+                    client.email = input.email;
+                }
+
+                return { success: true, data: client };
+            }
+
+            const clientData = buildClientData(enterpriseEmail, phone, input);
+            await setDoc(doc(db, clientsCollectionPath(enterpriseEmail), phone), clientData);
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'client',
+                entityId: phone,
+                action: 'create',
+                after: clientData
+            });
+
+            return {
+                success: true,
+                data: { id: phone, ...clientData }
+            };
+        } catch (error) {
+            console.error('Erro ao identificar cliente:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async getClient(
+        enterpriseEmail: string,
+        clientId: string
+    ): Promise<{ success: boolean; data?: Client; error?: string }> {
+        try {
+            const clientSnap = await getDoc(doc(db, clientsCollectionPath(enterpriseEmail), clientId));
+
+            if (!clientSnap.exists()) {
+                return {
+                    success: false,
+                    error: 'Cliente não encontrado'
+                };
+            }
+
+            return {
+                success: true,
+                data: { id: clientSnap.id, ...clientSnap.data() } as Client
+            };
+        } catch (error) {
+            console.error('Erro ao buscar cliente:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async listClients(
+        enterpriseEmail: string,
+        filters: ClientFilters = {}
+    ): Promise<{ success: boolean; data?: Client[]; error?: string }> {
+        try {
+            const clientsRef = collection(db, clientsCollectionPath(enterpriseEmail));
+            const clientsQuery = filters.tag
+                ? query(clientsRef, where('tags', 'array-contains', filters.tag))
+                : query(clientsRef);
+
+            const snapshot = await getDocs(clientsQuery);
+            let clients = snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as Client);
+
+            if (filters.search) {
+                const term = filters.search.toLowerCase();
+                const digits = filters.search.replace(/\D/g, '');
+
+                clients = clients.filter(client =>
+                    client.name.toLowerCase().includes(term) ||
+                    (digits.length > 0 && client.phone.includes(digits))
+                );
+            }
+
+            clients.sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'));
+
+            return {
+                success: true,
+                data: clients
+            };
+        } catch (error) {
+            console.error('Erro ao listar clientes:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // O telefone identifica o cliente e não pode ser alterado
+    async updateClient(
+        enterpriseEmail: string,
+        clientId: string,
+        updates: UpdateClientInput
+    ): Promise<{ success: boolean; data?: Client; error?: string }> {
+        try {
+            const clientResult = await this.getClient(enterpriseEmail, clientId);
+            if (!clientResult.success || !clientResult.data) {
+                return clientResult;
+            }
+
+            const updateData: any = { updatedAt: Timestamp.now() };
+
+            if (updates.name !== undefined) updateData.name = updates.name;
+            if (updates.email !== undefined) updateData.email = updates.email;
+            if (updates.notes !== undefined) updateData.notes = updates.notes;
+            if (updates.tags !== undefined) updateData.tags = updates.tags;
+
+            await updateDoc(doc(db, clientsCollectionPath(enterpriseEmail), clientId), updateData);
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'client',
+                entityId: clientId,
+                action: 'update',
+                before: clientResult.data,
+                after: { ...clientResult.data, ...updateData }
+            });
+
+            return {
+                success: true,
+                data: { ...clientResult.data, ...updateData }
+            };
+        } catch (error) {
+            console.error('Erro ao atualizar cliente:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async deleteClient(enterpriseEmail: string, clientId: string): Promise<{ success: boolean; message?: string; error?: string }> {
+        try {
+            const clientResult = await this.getClient(enterpriseEmail, clientId);
+            if (!clientResult.success) {
+                return { success: false, error: clientResult.error };
+            }
+
+            await deleteDoc(doc(db, clientsCollectionPath(enterpriseEmail), clientId));
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'client',
+                entityId: clientId,
+                action: 'delete',
+                before: clientResult.data
+            });
+
+            return {
+                success: true,
+                message: 'Cliente removido com sucesso'
+            };
+        } catch (error) {
+            console.error('Erro ao remover cliente:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Histórico de agendamentos do cliente, do mais recente para o mais antigo
+    async getClientBookings(
+        enterpriseEmail: string,
+        clientId: string
+    ): Promise<{ success: boolean; data?: Booking[]; error?: string }> {
+        try {
+            const clientResult = await this.getClient(enterpriseEmail, clientId);
+            if (!clientResult.success) {
+                return { success: false, error: clientResult.error };
+            }
+
+            const bookingsQuery = query(
+                collection(db, `enterprises/${enterpriseEmail}/bookings`),
+                where('clientId', '==', clientId)
+            );
+
+            const snapshot = await getDocs(bookingsQuery);
+            const bookings = snapshot.docs
+                .map(d => ({ id: d.id, ...d.data() }) as Booking)
+                .sort((a, b) => `${b.date} ${b.startTime}`.localeCompare(`${a.date} ${a.startTime}`));
+
+            return {
+                success: true,
+                data: bookings
+            };
+        } catch (error) {
+            console.error('Erro ao buscar agendamentos do cliente:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Atualiza as estatísticas quando um atendimento é concluído. O evento pode ser
+    // reprocessado pelo outbox: visitRecordedAt no agendamento, gravado na mesma
+    // transação, impede contar a visita duas vezes
+    async recordVisit(booking: Booking): Promise<void> {
+        const clientResult = booking.clientId
+            ? await this.getClient(booking.enterpriseEmail, booking.clientId)
+            : await this.findOrCreateByPhone(booking.enterpriseEmail, {
+                name: booking.clientName,
+                phone: booking.clientPhone,
+                email: booking.clientEmail
+            });
+
+        if (!clientResult.success || !clientResult.data) {
+            return;
+        }
+
+        const clientRef = doc(db, clientsCollectionPath(booking.enterpriseEmail), clientResult.data.id!);
+        const bookingRef = doc(db, `enterprises/${booking.enterpriseEmail}/bookings`, booking.id!);
+
+        await runTransaction(db, async (transaction) => {
+            const bookingSnap = await transaction.get(bookingRef);
+            const clientSnap = await transaction.get(clientRef);
+            if (!bookingSnap.exists() || !clientSnap.exists() || (bookingSnap.data() as Booking).visitRecordedAt) {
+                return;
+            }
+
+            const client = { id: clientSnap.id, ...clientSnap.data() } as Client;
+            transaction.update(clientRef, visitUpdate(client, booking));
+            transaction.update(bookingRef, { visitRecordedAt: new Date().toISOString() });
+        });
+    }
+};
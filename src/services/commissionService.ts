@@ -0,0 +1,268 @@
+import {
+    collection,
+    addDoc,
+    getDocs,
+    doc,
+    getDoc,
+    updateDoc,
+    deleteDoc,
+    query,
+    where,
+    Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { CommissionRule, CommissionType, EmployeeSkill } from '../types/index.js';
+import { auditService } from './auditService.js';
+
+export type CreateCommissionRuleInput = Omit<CommissionRule, 'id' | 'enterpriseEmail' | 'createdAt' | 'updatedAt'>;
+
+export interface CommissionTarget {
+    employeeId: string;
+    productId: string;
+    category?: string;
+    experienceLevel?: EmployeeSkill['experienceLevel'];
+}
+
+export interface CommissionAmount {
+    commissionType: CommissionType;
+    commissionValue: number;
+    commission: number;
+    ruleId?: string;
+}
+
+function rulesCollectionPath(enterpriseEmail: string): string {
+    return `enterprises/${enterpriseEmail}/commissionRules`;
+}
+
+function roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+// Maior = mais específica; -1 quando a regra não se aplica
+function ruleSpecificity(rule: CommissionRule, target: CommissionTarget): number {
+    if (rule.employeeId && rule.employeeId !== target.employeeId) return -1;
+    if (rule.productId && rule.productId !== target.productId) return -1;
+    if (!rule.productId && rule.category && rule.category !== target.category) return -1;
+
+    const itemScore = rule.productId ? 2 : rule.category ? 1 : 0;
+    return (rule.employeeId ? 3 : 0) + itemScore;
+}
+
+function validateRule(input: Partial<CreateCommissionRuleInput>): string | null {
+    const values = [input.value, ...(input.tiers || []).map(tier => tier.value)];
+
+    if (values.some(value => value !== undefined && value < 0)) {
+        return 'O valor da comissão não pode ser negativo';
+    }
+
+    if (input.type === 'percentage' && values.some(value => value !== undefined && value > 100)) {
+        return 'A comissão percentual não pode passar de 100%';
+    }
+
+    return null;
+}
+
+export const commissionService = {
+    async createRule(
+        enterpriseEmail: string,
+        input: CreateCommissionRuleInput
+    ): Promise<{ success: boolean; data?: CommissionRule; error?: string }> {
+        try {
+            const validationError = validateRule(input);
+            if (validationError) {
+                return { success: false, error: validationError };
+            }
+
+            const ruleData: any = {
+                enterpriseEmail,
+                type: input.type,
+                value: input.value,
+                createdAt: Timestamp.now(),
+                updatedAt: Timestamp.now()
+            };
+
+            if (input.employeeId) ruleData.employeeId = input.employeeId;
+            if (input.productId) ruleData.productId = input.productId;
+            if (input.category && !input.productId) ruleData.category = input.category;
+            if (input.tiers && input.tiers.length > 0) ruleData.tiers = input.tiers;
+
+            const ruleRef = await addDoc(collection(db, rulesCollectionPath(enterpriseEmail)), ruleData);
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'commissionRule',
+                entityId: ruleRef.id,
+                action: 'create',
+                after: ruleData
+            });
+
+            return {
+                success: true,
+                data: { id: ruleRef.id, ...ruleData }
+            };
+        } catch (error) {
+            console.error('Erro ao criar regra de comissão:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async getRule(enterpriseEmail: string, ruleId: string): Promise<{ success: boolean; data?: CommissionRule; error?: string }> {
+        try {
+            const ruleSnap = await getDoc(doc(db, rulesCollectionPath(enterpriseEmail), ruleId));
+
+            if (!ruleSnap.exists()) {
+                return {
+                    success: false,
+                    error: 'Regra de comissão não encontrada'
+                };
+            }
+
+            return {
+                success: true,
+                data: { id: ruleSnap.id, ...ruleSnap.data() } as CommissionRule
+            };
+        } catch (error) {
+            console.error('Erro ao buscar regra de comissão:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Com employeeId, traz as regras do funcionário e as gerais da empresa
+    async listRules(
+        enterpriseEmail: string,
+        employeeId?: string
+    ): Promise<{ success: boolean; data?: CommissionRule[]; error?: string }> {
+        try {
+            const snapshot = await getDocs(query(collection(db, rulesCollectionPath(enterpriseEmail))));
+            const rules = snapshot.docs
+                .map(d => ({ id: d.id, ...d.data() }) as CommissionRule)
+                .filter(rule => !employeeId || !rule.employeeId || rule.employeeId === employeeId);
+
+            return {
+                success: true,
+                data: rules
+            };
+        } catch (error) {
+            console.error('Erro ao listar regras de comissão:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async updateRule(
+        enterpriseEmail: string,
+        ruleId: string,
+        updates: Partial<Pick<CommissionRule, 'type' | 'value' | 'tiers'>>
+    ): Promise<{ success: boolean; data?: CommissionRule; error?: string }> {
+        try {
+            const ruleResult = await this.getRule(enterpriseEmail, ruleId);
+            if (!ruleResult.success || !ruleResult.data) {
+                return ruleResult;
+            }
+
+            const merged = { ...ruleResult.data, ...updates };
+            const validationError = validateRule(merged);
+            if (validationError) {
+                return { success: false, error: validationError };
+            }
+
+            const updateData: any = { updatedAt: Timestamp.now() };
+            if (updates.type !== undefined) updateData.type = updates.type;
+            if (updates.value !== undefined) updateData.value = updates.value;
+            if (updates.tiers !== undefined) updateData.tiers = updates.tiers;
+
+            await updateDoc(doc(db, rulesCollectionPath(enterpriseEmail), ruleId), updateData);
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'commissionRule',
+                entityId: ruleId,
+                action: 'update',
+                before: ruleResult.data,
+                after: { ...ruleResult.data, ...updateData }
+            });
+
+            return {
+                success: true,
+                data: { ...ruleResult.data, ...updateData }
+            };
+        } catch (error) {
+            console.error('Erro ao atualizar regra de comissão:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async deleteRule(enterpriseEmail: string, ruleId: string): Promise<{ success: boolean; message?: string; error?: string }> {
+        try {
+            const ruleResult = await this.getRule(enterpriseEmail, ruleId);
+            if (!ruleResult.success) {
+                return { success: false, error: ruleResult.error };
+            }
+
+            await deleteDoc(doc(db, rulesCollectionPath(enterpriseEmail), ruleId));
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'commissionRule',
+                entityId: ruleId,
+                action: 'delete',
+                before: ruleResult.data
+            });
+
+            return {
+                success: true,
+                message: 'Regra de comissão removida com sucesso'
+            };
+        } catch (error) {
+            console.error('Erro ao remover regra de comissão:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Funcionário + serviço > funcionário + categoria > funcionário >
+    // serviço > categoria > regra geral da empresa
+    resolveRule(rules: CommissionRule[], target: CommissionTarget): CommissionRule | undefined {
+        let best: CommissionRule | undefined;
+        let bestScore = -1;
+
+        for (const rule of rules) {
+            const score = ruleSpecificity(rule, target);
+            if (score > bestScore) {
+                best = rule;
+                bestScore = score;
+            }
+        }
+
+        return best;
+    },
+
+    calculateCommission(rules: CommissionRule[], target: CommissionTarget, price: number): CommissionAmount {
+        const rule = this.resolveRule(rules, target);
+        if (!rule) {
+            return { commissionType: 'percentage', commissionValue: 0, commission: 0 };
+        }
+
+        const tier = target.experienceLevel
+            ? rule.tiers?.find(t => t.experienceLevel === target.experienceLevel)
+            : undefined;
+        const value = tier ? tier.value : rule.value;
+
+        return {
+            commissionType: rule.type,
+            commissionValue: value,
+            commission: rule.type === 'percentage' ? roundMoney(price * value / 100) : value,
+            ruleId: rule.id
+        };
+    }
+};
@@ -1,5 +1,8 @@
 import { employeeService } from './employeeService.js';
 import { bookingService } from './bookingService.js';
+import { scheduleExceptionService } from './scheduleExceptionService.js';
+import { enterpriseService } from './enterpriseService.js';
+import { getWeekdayName, nowInTimeZone } from '../utils/dateTime.js';
 import { Employee, DaySchedule } from '../types/index.js';
 
 const availabilityCache = new Map<string, { data: any; timestamp: number }>();
@@ -19,6 +22,11 @@ class EmployeeAvailabilityService {
   private saveToCache(key: string, data: any): void {
     availabilityCache.set(key, { data, timestamp: Date.now() });
   }
+
+  // Chamado quando ausências ou fechamentos mudam
+  clearCache(): void {
+    availabilityCache.clear();
+  }
   
   isEmployeeWorkingOnDay(employee: Employee, dayOfWeek: string): DaySchedule | null {
     const schedule = employee.workSchedule;
@@ -28,6 +36,48 @@ class EmployeeAvailabilityService {
     return daySchedule?.isWorking ? daySchedule : null;
   }
 
+  // Aplica ausências, fechamentos e horários modificados sobre o padrão semanal
+  async getEffectiveDaySchedule(
+    employee: Employee,
+    date: string,
+    dayOfWeek: string
+  ): Promise<{ daySchedule: DaySchedule | null; reason?: string }> {
+    const weeklySchedule = this.isEmployeeWorkingOnDay(employee, dayOfWeek);
+
+    const exceptionsResult = await scheduleExceptionService.getExceptionsForDate(
+      employee.enterpriseEmail,
+      date,
+      employee.id
+    );
+
+    if (!exceptionsResult.success) {
+      throw new Error(exceptionsResult.error || 'Erro ao buscar exceções de horário');
+    }
+
+    const exceptions = exceptionsResult.data || [];
+    if (exceptions.length === 0) {
+      return { daySchedule: weeklySchedule };
+    }
+
+    const baseHours = weeklySchedule?.startTime && weeklySchedule?.endTime
+      ? { startTime: weeklySchedule.startTime, endTime: weeklySchedule.endTime }
+      : null;
+
+    const resolved = scheduleExceptionService.resolveDayHours(exceptions, baseHours);
+    if (!resolved.isOpen) {
+      return { daySchedule: null, reason: resolved.reason };
+    }
+
+    return {
+      daySchedule: {
+        ...weeklySchedule,
+        isWorking: true,
+        startTime: resolved.startTime,
+        endTime: resolved.endTime
+      }
+    };
+  }
+
   async isEmployeeWorkingOnTime(
     employeeId: string,
     date: string,
@@ -47,15 +97,14 @@ class EmployeeAvailabilityService {
       const employee = employeeResult.data;
 
       // 2. Verificar dia da semana
-      const weekDays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-      const dayOfWeek = weekDays[new Date(date).getDay()];
-      const daySchedule = this.isEmployeeWorkingOnDay(employee, dayOfWeek);
+      const dayOfWeek = getWeekdayName(date);
+      const { daySchedule, reason } = await this.getEffectiveDaySchedule(employee, date, dayOfWeek);
 
       if (!daySchedule) {
         return {
           success: true,
           available: false,
-          reason: 'Funcionário não trabalha neste dia'
+          reason: reason || 'Funcionário não trabalha neste dia'
         };
       }
 
@@ -108,14 +157,19 @@ class EmployeeAvailabilityService {
   async generateTimeSlots(
     employeeId: string, 
     date: string,
-    serviceDuration: number = 30
+    serviceDuration: number = 30,
+    productIds?: string[]
   ): Promise<{ success: boolean; data?: string[]; error?: string }> {
     try {
-      // Verificar cache primeiro
-      const cacheKey = `slots:${employeeId}:${date}:${serviceDuration}`;
+      const hasServices = !!productIds && productIds.length > 0;
+
+      // Verificar cache primeiro (o corte de horários passados é aplicado a cada chamada)
+      const cacheKey = hasServices
+        ? `slots:${employeeId}:${date}:${productIds.join(',')}`
+        : `slots:${employeeId}:${date}:${serviceDuration}`;
       const cached = this.getFromCache(cacheKey);
       if (cached) {
-        return { success: true, data: cached };
+        return { success: true, data: await this.dropPastSlots(cached.slots, date, cached.enterpriseEmail) };
       }
 
       // Buscar dados do funcionário
@@ -137,16 +191,40 @@ class EmployeeAvailabilityService {
         };
       }
 
-      // Determinar dia da semana de forma otimizada
-      const targetDate = new Date(date + 'T00:00:00'); // Evitar problemas de timezone
-      const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-      const dayOfWeek = dayNames[targetDate.getDay()];
+      // Combo de serviços: o funcionário precisa saber fazer todos e a duração é a soma
+      // das durações dele (personalizadas na habilidade ou a padrão do produto)
+      if (hasServices) {
+        const missingProductId = productIds.find(productId => {
+          const skill = employee.skills?.find(s => s.productId === productId);
+          return !skill || !skill.canPerform;
+        });
 
-      // Verificar se funcionário trabalha neste dia
-      const daySchedule = this.isEmployeeWorkingOnDay(employee, dayOfWeek);
+        if (missingProductId) {
+          return {
+            success: false,
+            error: `Funcionário não possui habilidade para o serviço ${missingProductId}`
+          };
+        }
+
+        const servicesResult = await bookingService.resolveServices(employee.enterpriseEmail, productIds, employee);
+        if (!servicesResult.success || !servicesResult.data) {
+          return {
+            success: false,
+            error: servicesResult.error || 'Serviços não encontrados'
+          };
+        }
+
+        serviceDuration = servicesResult.data.totalDuration;
+      }
+
+      // Determinar dia da semana (data de calendário, independente do fuso do servidor)
+      const dayOfWeek = getWeekdayName(date);
+
+      // Verificar se funcionário trabalha neste dia (considerando ausências e fechamentos)
+      const { daySchedule } = await this.getEffectiveDaySchedule(employee, date, dayOfWeek);
       if (!daySchedule || !daySchedule.startTime || !daySchedule.endTime) {
         const emptySlots: string[] = [];
-        this.saveToCache(cacheKey, emptySlots);
+        this.saveToCache(cacheKey, { slots: emptySlots, enterpriseEmail: employee.enterpriseEmail });
         return {
           success: true,
           data: emptySlots // Funcionário não trabalha neste dia
@@ -165,11 +243,11 @@ class EmployeeAvailabilityService {
       );
 
       // Salvar no cache
-      this.saveToCache(cacheKey, timeSlots);
+      this.saveToCache(cacheKey, { slots: timeSlots, enterpriseEmail: employee.enterpriseEmail });
 
       return {
         success: true,
-        data: timeSlots
+        data: await this.dropPastSlots(timeSlots, date, employee.enterpriseEmail)
       };
 
     } catch (error: any) {
@@ -181,6 +259,17 @@ class EmployeeAvailabilityService {
     }
   }
 
+  // Remove horários que já passaram no fuso da empresa
+  private async dropPastSlots(slots: string[], date: string, enterpriseEmail: string): Promise<string[]> {
+    const timeZone = await enterpriseService.getEnterpriseTimeZone(enterpriseEmail);
+    const now = nowInTimeZone(timeZone);
+
+    if (date < now.date) return [];
+    if (date > now.date) return slots;
+
+    return slots.filter(slot => slot > now.time);
+  }
+
   // Gerar slots disponíveis considerando horário de trabalho e agendamentos
   private generateAvailableSlots(
     daySchedule: DaySchedule,
@@ -316,7 +405,7 @@ class EmployeeAvailabilityService {
       const skillfulEmployees = employeesResult.data || [];
       const availableEmployees: any[] = [];
 
-      // Buscar dados do produto para calcular preços personalizados
+      // Preço e duração padrão do produto, usados quando a habilidade não os personaliza
       const { productService } = await import('./productService.js');
       const productResult = await productService.getProductById(enterpriseEmail, productId);
       const basePrice = productResult.success && productResult.data ? productResult.data.price : 0;
@@ -330,8 +419,9 @@ class EmployeeAvailabilityService {
         const skill = employee.skills?.find(s => s.productId === productId);
         if (!skill || !skill.canPerform) continue;
 
-        // Usar duração personalizada do funcionário ou padrão
-        const serviceDuration = duration || baseDuration;
+        // Duração informada na consulta, a personalizada do funcionário ou a padrão
+        const serviceDuration = duration || skill.duration || baseDuration;
+        const price = skill.price ?? basePrice;
 
         const availabilityResult = await this.isEmployeeAvailableAtTime(
           employee.id,
@@ -347,10 +437,10 @@ class EmployeeAvailabilityService {
             position: employee.position,
             available: true,
             experienceLevel: skill.experienceLevel,
-            estimatedDuration: baseDuration,
-            customDuration: serviceDuration,
-            price: basePrice, // Preço sempre o mesmo do produto
-            duration: baseDuration
+            avatar: employee.avatar,
+            estimatedDuration: serviceDuration,
+            price,
+            duration: skill.duration ?? baseDuration
           });
         }
       }
@@ -2,6 +2,9 @@ import { db } from '../config/firebase.js';
 import { Employee, EmployeeSkill } from '../types/index.js';
 import { collection, addDoc, getDocs, doc, updateDoc, deleteDoc, query, where, getDoc, orderBy } from 'firebase/firestore';
 import { createSuccessResponse, createErrorResponse, standardMessages, logError, logInfo } from '../utils/responseHelpers.js';
+import { authService, UserProfile } from './authService.js';
+import { auditService } from './auditService.js';
+import { eventBus } from './eventBus.js';
 
 // Cache simples para melhorar performance
 const cache = new Map<string, { data: any; timestamp: number }>();
@@ -58,9 +61,18 @@ class EmployeeService {
 
       const docRef = await addDoc(collection(db, this.collectionName), employeeData);
       const newEmployee = { ...employeeData, id: docRef.id };
+
+      await auditService.record(employee.enterpriseEmail, {
+        entityType: 'employee',
+        entityId: docRef.id,
+        action: 'create',
+        after: employeeData
+      });
       
       // Invalidar cache após criação
       this.invalidateEmployeeCache(employee.enterpriseEmail);
+
+      await eventBus.emit('employee.created', { enterpriseEmail: employee.enterpriseEmail, employeeId: docRef.id });
       
       logInfo('createEmployee', 'Funcionário criado com sucesso', { id: docRef.id });
       
@@ -133,6 +145,7 @@ class EmployeeService {
             isActive: data.isActive !== false,
             enterpriseEmail: data.enterpriseEmail,
             avatar: data.avatar || '',
+            ...(data.userId && { userId: data.userId }),
             // Incluir skills para filtros, mas sem dados desnecessários
             skills: data.skills?.map((skill: any) => ({
               productId: skill.productId,
@@ -221,6 +234,8 @@ class EmployeeService {
           avatar: data.avatar || '',
           skills: data.skills || [],
           workSchedule: data.workSchedule || {},
+          ...(data.userId && { userId: data.userId }),
+          canEditSchedule: data.canEditSchedule === true,
           createdAt: data.createdAt?.toDate() || new Date(),
           updatedAt: data.updatedAt?.toDate() || new Date()
         } as Employee;
@@ -275,6 +290,16 @@ class EmployeeService {
       
       // Buscar dados atualizados
       const result = await this.getEmployeeById(id);
+
+      await auditService.record(currentEmployee.data.enterpriseEmail, {
+        entityType: 'employee',
+        entityId: id,
+        action: 'update',
+        before: currentEmployee.data,
+        after: result.data || { ...currentEmployee.data, ...updateData }
+      });
+
+      await eventBus.emit('employee.updated', { enterpriseEmail: currentEmployee.data.enterpriseEmail, employeeId: id });
       
       return result;
     } catch (error: any) {
@@ -297,6 +322,15 @@ class EmployeeService {
       // Invalidar cache após deleção se conseguimos obter os dados
       if (employee.success && employee.data) {
         this.invalidateEmployeeCache(employee.data.enterpriseEmail, id);
+
+        await auditService.record(employee.data.enterpriseEmail, {
+          entityType: 'employee',
+          entityId: id,
+          action: 'delete',
+          before: employee.data
+        });
+
+        await eventBus.emit('employee.deleted', { enterpriseEmail: employee.data.enterpriseEmail, employeeId: id });
       }
       
       return {
@@ -312,6 +346,77 @@ class EmployeeService {
     }
   }
 
+  // Cria o login (role employee) do funcionário para acessar a própria agenda
+  async createEmployeeAccount(
+    employeeId: string,
+    email: string,
+    password: string
+  ): Promise<{ success: boolean; data?: UserProfile; error?: string }> {
+    try {
+      const employeeResult = await this.getEmployeeById(employeeId);
+      if (!employeeResult.success || !employeeResult.data) {
+        return {
+          success: false,
+          error: 'Funcionário não encontrado'
+        };
+      }
+
+      const employee = employeeResult.data;
+      if (employee.userId) {
+        return {
+          success: false,
+          error: 'Funcionário já possui acesso'
+        };
+      }
+
+      const userResult = await authService.registerUser(
+        email,
+        password,
+        employee.name,
+        'employee',
+        employee.enterpriseEmail,
+        employee.phone || undefined,
+        employeeId
+      );
+
+      if (!userResult.success || !userResult.data) {
+        return {
+          success: false,
+          error: userResult.error || userResult.message
+        };
+      }
+
+      await updateDoc(doc(db, this.collectionName, employeeId), {
+        userId: userResult.data.uid,
+        updatedAt: new Date()
+      });
+      this.invalidateEmployeeCache(employee.enterpriseEmail, employeeId);
+
+      await auditService.record(employee.enterpriseEmail, {
+        entityType: 'employee',
+        entityId: employeeId,
+        action: 'update',
+        before: employee,
+        after: { ...employee, userId: userResult.data.uid }
+      });
+
+      await eventBus.emit('employee.updated', { enterpriseEmail: employee.enterpriseEmail, employeeId });
+
+      logInfo('createEmployeeAccount', 'Acesso do funcionário criado', { employeeId, uid: userResult.data.uid });
+
+      return {
+        success: true,
+        data: userResult.data
+      };
+    } catch (error: any) {
+      logError('createEmployeeAccount', error, { employeeId });
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  }
+
   // Gerenciar habilidades do funcionário
   async addSkillToEmployee(employeeId: string, skill: EmployeeSkill): Promise<{ success: boolean; data?: Employee; error?: string }> {
     try {
@@ -384,6 +489,68 @@ class EmployeeService {
     }
   }
 
+  // null remove o preço/duração personalizados e volta ao padrão do produto
+  async updateEmployeeSkill(
+    employeeId: string,
+    productId: string,
+    updates: {
+      experienceLevel?: EmployeeSkill['experienceLevel'];
+      canPerform?: boolean;
+      price?: number | null;
+      duration?: number | null;
+    }
+  ): Promise<{ success: boolean; data?: Employee; error?: string }> {
+    try {
+      const employeeResult = await this.getEmployeeById(employeeId);
+      
+      if (!employeeResult.success || !employeeResult.data) {
+        return {
+          success: false,
+          error: 'Funcionário não encontrado'
+        };
+      }
+
+      const employee = employeeResult.data;
+      const existingSkill = employee.skills?.find(s => s.productId === productId);
+
+      if (!existingSkill) {
+        return {
+          success: false,
+          error: 'Habilidade não encontrada para este funcionário'
+        };
+      }
+
+      const updatedSkill: EmployeeSkill = { ...existingSkill };
+      if (updates.experienceLevel !== undefined) updatedSkill.experienceLevel = updates.experienceLevel;
+      if (updates.canPerform !== undefined) updatedSkill.canPerform = updates.canPerform;
+
+      for (const field of ['price', 'duration'] as const) {
+        if (updates[field] === null) {
+          delete updatedSkill[field];
+        } else if (updates[field] !== undefined) {
+          updatedSkill[field] = updates[field];
+        }
+      }
+
+      const updatedSkills = (employee.skills || []).map(s => s.productId === productId ? updatedSkill : s);
+      
+      const result = await this.updateEmployee(employeeId, { skills: updatedSkills });
+
+      // Invalidar cache após alterar habilidade
+      if (result.success) {
+        this.invalidateEmployeeCache(employee.enterpriseEmail, employeeId);
+      }
+      
+      return result;
+    } catch (error: any) {
+      console.error('Erro ao atualizar habilidade:', error);
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  }
+
   // Buscar funcionários que sabem fazer um serviço específico
   async getEmployeesBySkill(enterpriseEmail: string, productId: string): Promise<{ success: boolean; data?: Employee[]; error?: string }> {
     try {
@@ -456,13 +623,11 @@ class EmployeeService {
         };
       }
 
-      // Preço sempre o mesmo do produto (sem multiplicador)
-      const finalPrice = basePrice;
-      
+      // Preço e duração personalizados do funcionário, se houver
       return {
         success: true,
-        price: finalPrice,
-        duration: undefined
+        price: skill.price ?? basePrice,
+        duration: skill.duration
       };
     } catch (error: any) {
       console.error('Erro ao calcular preço do serviço:', error);
@@ -1,7 +1,13 @@
 import { db, isFirebaseConfigured } from "../config/firebase.js";
-import { collection, getDocs, doc, getDoc, setDoc, Timestamp } from "firebase/firestore";
+import { collection, getDocs, doc, getDoc, setDoc, updateDoc, Timestamp } from "firebase/firestore";
 import { Enterprise } from "../types/index.js";
 import { createSuccessResponse, createErrorResponse, standardMessages, logError, logInfo, ApiResponse } from '../utils/responseHelpers.js';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '../utils/dateTime.js';
+import { scheduleService } from './scheduleService.js';
+import { auditService } from './auditService.js';
+
+const timeZoneCache = new Map<string, { timeZone: string; timestamp: number }>();
+const TIME_ZONE_CACHE_TTL = 5 * 60 * 1000;
 
 function convertDate(dateField: any): Date {
     if (!dateField) return new Date();
@@ -44,6 +50,10 @@ export const enterpriseService = {
                         name: data.name || 'Nome não informado',
                         phone: data.phone || '',
                         address: data.address || '',
+                        ...(data.timeZone && { timeZone: data.timeZone }),
+                        ...(data.cancellationDeadlineHours !== undefined && { cancellationDeadlineHours: data.cancellationDeadlineHours }),
+                        ...(data.deposit && { deposit: data.deposit }),
+                        ...(data.depositTimeoutMinutes !== undefined && { depositTimeoutMinutes: data.depositTimeoutMinutes }),
                         createdAt: convertDate(data.createdAt),
                         updatedAt: convertDate(data.updatedAt)
                     });
@@ -97,6 +107,10 @@ export const enterpriseService = {
                 name: data.name || 'Nome não informado',
                 phone: data.phone || '',
                 address: data.address || '',
+                ...(data.timeZone && { timeZone: data.timeZone }),
+                ...(data.cancellationDeadlineHours !== undefined && { cancellationDeadlineHours: data.cancellationDeadlineHours }),
+                ...(data.deposit && { deposit: data.deposit }),
+                ...(data.depositTimeoutMinutes !== undefined && { depositTimeoutMinutes: data.depositTimeoutMinutes }),
                 createdAt: convertDate(data.createdAt),
                 updatedAt: convertDate(data.updatedAt)
             };
@@ -119,6 +133,13 @@ export const enterpriseService = {
                 };
             }
 
+            if (enterpriseData.timeZone && !isValidTimeZone(enterpriseData.timeZone)) {
+                return {
+                    success: false,
+                    error: `Fuso horário inválido: ${enterpriseData.timeZone}`
+                };
+            }
+
             const existingEnterprise = await this.getEnterpriseByEmail(enterpriseData.email);
             if (existingEnterprise.success) {
                 return {
@@ -137,6 +158,13 @@ export const enterpriseService = {
             const enterpriseRef = doc(db, 'enterprises', enterpriseData.email);
             await setDoc(enterpriseRef, enterpriseToCreate);
 
+            await auditService.record(enterpriseData.email, {
+                entityType: 'enterprise',
+                entityId: enterpriseData.email,
+                action: 'create',
+                after: enterpriseToCreate
+            });
+
             return {
                 success: true,
                 data: {
@@ -151,5 +179,81 @@ export const enterpriseService = {
                 error: error instanceof Error ? error.message : 'Erro desconhecido'
             };
         }
+    },
+
+    async updateEnterprise(
+        email: string,
+        updates: Partial<Pick<Enterprise, 'name' | 'phone' | 'address' | 'timeZone' | 'cancellationDeadlineHours' | 'deposit' | 'depositTimeoutMinutes'>>
+    ) {
+        try {
+            if (updates.timeZone && !isValidTimeZone(updates.timeZone)) {
+                return {
+                    success: false,
+                    error: `Fuso horário inválido: ${updates.timeZone}`
+                };
+            }
+
+            const existingEnterprise = await this.getEnterpriseByEmail(email);
+            if (!existingEnterprise.success || !existingEnterprise.data) {
+                return existingEnterprise;
+            }
+
+            const updateData: any = { updatedAt: Timestamp.now() };
+            for (const [key, value] of Object.entries(updates)) {
+                if (value !== undefined) updateData[key] = value;
+            }
+
+            await updateDoc(doc(db, 'enterprises', email), updateData);
+            timeZoneCache.delete(email);
+
+            await auditService.record(email, {
+                entityType: 'enterprise',
+                entityId: email,
+                action: 'update',
+                before: existingEnterprise.data,
+                after: { ...existingEnterprise.data, ...updateData }
+            });
+
+            return {
+                success: true,
+                data: {
+                    ...existingEnterprise.data,
+                    ...updates,
+                    updatedAt: updateData.updatedAt.toDate()
+                }
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Fuso da empresa; na falta dele usa o timeZone do horário padrão
+    async getEnterpriseTimeZone(email: string): Promise<string> {
+        const cached = timeZoneCache.get(email);
+        if (cached && (Date.now() - cached.timestamp) < TIME_ZONE_CACHE_TTL) {
+            return cached.timeZone;
+        }
+
+        let timeZone = DEFAULT_TIME_ZONE;
+
+        try {
+            const enterpriseResult = await this.getEnterpriseByEmail(email);
+            const scheduleResult = enterpriseResult.data?.timeZone
+                ? null
+                : await scheduleService.getDefaultSchedule(email);
+
+            const candidate = enterpriseResult.data?.timeZone || scheduleResult?.data?.timeZone;
+            if (candidate && isValidTimeZone(candidate)) {
+                timeZone = candidate;
+            }
+        } catch (error) {
+            console.error('Erro ao buscar fuso horário da empresa:', error);
+        }
+
+        timeZoneCache.set(email, { timeZone, timestamp: Date.now() });
+        return timeZone;
     }
 };
@@ -0,0 +1,255 @@
+import { Queue, Worker, Job } from 'bullmq';
+import {
+    collection,
+    getDocs,
+    doc,
+    getDoc,
+    setDoc,
+    updateDoc,
+    query,
+    where,
+    Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { createQueueConnection } from '../config/redis.js';
+import { Booking, OutboxEvent } from '../types/index.js';
+import { toJson } from '../utils/json.js';
+
+const EVENTS_QUEUE = 'domain-events';
+const OUTBOX_COLLECTION = 'eventOutbox';
+const RETRY_ATTEMPTS = 6;
+// Eventos parados há mais tempo que isso ficaram sem handler ou sem job na fila
+// (processo caiu no meio, ou a fila falhou depois de o evento ir para "retrying")
+const STALE_EVENT_MS = 5 * 60 * 1000;
+
+export interface BookingEventPayload {
+    enterpriseEmail: string;
+    booking: Booking;
+}
+
+export interface EmployeeEventPayload {
+    enterpriseEmail: string;
+    employeeId: string;
+}
+
+export interface ScheduleExceptionEventPayload {
+    enterpriseEmail: string;
+    exceptionId: string;
+    employeeId?: string; // Ausente nos fechamentos da empresa
+}
+
+// Eventos de domínio emitidos pelos services
+export interface DomainEventMap {
+    'booking.created': BookingEventPayload;
+    'booking.confirmed': BookingEventPayload;
+    'booking.cancelled': BookingEventPayload;
+    'booking.completed': BookingEventPayload;
+    'booking.no_show': BookingEventPayload;
+    'booking.rescheduled': BookingEventPayload;
+    'employee.created': EmployeeEventPayload;
+    'employee.updated': EmployeeEventPayload;
+    'employee.deleted': EmployeeEventPayload;
+    'scheduleException.created': ScheduleExceptionEventPayload;
+    'scheduleException.deleted': ScheduleExceptionEventPayload;
+}
+
+export type DomainEventName = keyof DomainEventMap;
+
+export type BookingEventName = Extract<DomainEventName, `booking.${string}`>;
+
+// eventId é o id do outbox: igual na primeira execução e nas novas tentativas
+export interface DomainEventContext {
+    eventId: string;
+}
+
+export type DomainEventHandler<K extends DomainEventName> = (
+    payload: DomainEventMap[K],
+    context: DomainEventContext
+) => Promise<unknown> | unknown;
+
+interface EventRetryJob {
+    outboxId: string;
+}
+
+const handlers = new Map<DomainEventName, Map<string, DomainEventHandler<any>>>();
+
+const eventsQueue = new Queue<EventRetryJob>(EVENTS_QUEUE, {
+    connection: createQueueConnection(),
+    defaultJobOptions: {
+        attempts: RETRY_ATTEMPTS,
+        backoff: { type: 'exponential', delay: 30 * 1000 },
+        removeOnComplete: { age: 24 * 3600 },
+        removeOnFail: { age: 7 * 24 * 3600 }
+    }
+});
+
+function retryJobId(outboxId: string): string {
+    return `event-${outboxId}`;
+}
+
+// Roda os handlers indicados; a falha de um não impede os demais
+async function runHandlers(
+    name: DomainEventName,
+    payload: unknown,
+    handlerNames: string[],
+    context: DomainEventContext
+): Promise<{ failed: string[]; lastError?: string }> {
+    const registered = handlers.get(name);
+    const failed: string[] = [];
+    let lastError: string | undefined;
+
+    for (const handlerName of handlerNames) {
+        const handler = registered?.get(handlerName);
+        if (!handler) continue;
+
+        try {
+            await handler(payload, context);
+        } catch (error) {
+            lastError = `${handlerName}: ${error instanceof Error ? error.message : 'Erro desconhecido'}`;
+            failed.push(handlerName);
+            console.error(`Erro no handler ${handlerName} do evento ${name}:`, error);
+        }
+    }
+
+    return { failed, ...(lastError && { lastError }) };
+}
+
+export const eventBus = {
+    // O nome identifica o handler no outbox; precisa ser único por evento
+    on<K extends DomainEventName>(name: K, handlerName: string, handler: DomainEventHandler<K>): void {
+        const registered = handlers.get(name) || new Map<string, DomainEventHandler<any>>();
+        registered.set(handlerName, handler);
+        handlers.set(name, registered);
+    },
+
+    // Grava o evento no outbox e executa os handlers; o que falhar vai para a fila.
+    // Nunca lança: quem emite não deve falhar por causa de um efeito colateral
+    async emit<K extends DomainEventName>(name: K, payload: DomainEventMap[K]): Promise<void> {
+        const handlerNames = Array.from(handlers.get(name)?.keys() || []);
+        if (handlerNames.length === 0) return;
+
+        // Id gerado antes da gravação: os handlers o recebem mesmo se o outbox falhar
+        const outboxRef = doc(collection(db, OUTBOX_COLLECTION));
+        let outboxId: string | undefined;
+        try {
+            const outboxEvent: Omit<OutboxEvent, 'id'> = {
+                name,
+                enterpriseEmail: payload.enterpriseEmail,
+                payload: toJson(payload),
+                status: 'pending',
+                pendingHandlers: handlerNames,
+                attempts: 0,
+                createdAt: Timestamp.now(),
+                updatedAt: Timestamp.now()
+            };
+
+            await setDoc(outboxRef, outboxEvent);
+            outboxId = outboxRef.id;
+        } catch (error) {
+            // Sem outbox os handlers ainda rodam, só não terão nova tentativa
+            console.error(`Erro ao gravar evento ${name} no outbox:`, error);
+        }
+
+        const { failed, lastError } = await runHandlers(name, payload, handlerNames, { eventId: outboxRef.id });
+
+        if (!outboxId) return;
+
+        try {
+            await updateDoc(doc(db, OUTBOX_COLLECTION, outboxId), {
+                status: failed.length > 0 ? 'retrying' : 'processed',
+                pendingHandlers: failed,
+                attempts: 1,
+                ...(lastError && { lastError }),
+                ...(failed.length === 0 && { processedAt: Timestamp.now() }),
+                updatedAt: Timestamp.now()
+            });
+
+            if (failed.length > 0) {
+                await eventsQueue.add('retry', { outboxId }, { jobId: retryJobId(outboxId) });
+            }
+        } catch (error) {
+            console.error(`Erro ao atualizar evento ${name} no outbox:`, error);
+        }
+    },
+
+    // Executado pelo worker; lança erro para a fila tentar novamente
+    async retry(outboxId: string, isLastAttempt: boolean): Promise<void> {
+        const outboxRef = doc(db, OUTBOX_COLLECTION, outboxId);
+        const outboxSnap = await getDoc(outboxRef);
+        if (!outboxSnap.exists()) return;
+
+        const outboxEvent = outboxSnap.data() as OutboxEvent;
+        if (outboxEvent.status === 'processed' || outboxEvent.pendingHandlers.length === 0) return;
+
+        const name = outboxEvent.name as DomainEventName;
+        const { failed, lastError } = await runHandlers(
+            name,
+            JSON.parse(outboxEvent.payload),
+            outboxEvent.pendingHandlers,
+            { eventId: outboxId }
+        );
+
+        await updateDoc(outboxRef, {
+            status: failed.length === 0 ? 'processed' : isLastAttempt ? 'failed' : 'retrying',
+            pendingHandlers: failed,
+            attempts: (outboxEvent.attempts || 0) + 1,
+            ...(lastError && { lastError }),
+            ...(failed.length === 0 && { processedAt: Timestamp.now() }),
+            updatedAt: Timestamp.now()
+        });
+
+        if (failed.length > 0) {
+            throw new Error(lastError || `Handlers pendentes: ${failed.join(', ')}`);
+        }
+    },
+
+    // Reenfileira eventos que ficaram sem conclusão. O id do job é fixo por evento:
+    // se o retry ainda está na fila, adicionar de novo não duplica
+    async recoverPending(): Promise<number> {
+        const snapshot = await getDocs(query(
+            collection(db, OUTBOX_COLLECTION),
+            where('status', 'in', ['pending', 'retrying'])
+        ));
+
+        const staleBefore = Date.now() - STALE_EVENT_MS;
+        let recovered = 0;
+
+        for (const outboxDoc of snapshot.docs) {
+            const data = outboxDoc.data();
+            const lastChange = (data.updatedAt || data.createdAt)?.toDate?.() as Date | undefined;
+            if (lastChange && lastChange.getTime() > staleBefore) continue;
+
+            await eventsQueue.add('retry', { outboxId: outboxDoc.id }, { jobId: retryJobId(outboxDoc.id) });
+            recovered++;
+        }
+
+        return recovered;
+    }
+};
+
+export function startEventWorker(): Worker<EventRetryJob> {
+    const worker = new Worker<EventRetryJob>(
+        EVENTS_QUEUE,
+        async (job: Job<EventRetryJob>) => {
+            await eventBus.retry(job.data.outboxId, job.attemptsMade + 1 >= (job.opts.attempts || 1));
+        },
+        {
+            connection: createQueueConnection(),
+            concurrency: 5
+        }
+    );
+
+    worker.on('failed', (job, error) => {
+        console.error(`Erro ao reprocessar evento ${job?.data.outboxId}:`, error.message);
+    });
+
+    worker.on('error', (error) => {
+        console.error('Erro no worker de eventos:', error);
+    });
+
+    return worker;
+}
+
+export async function closeEventQueue(): Promise<void> {
+    await eventsQueue.close();
+}
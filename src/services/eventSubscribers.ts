@@ -0,0 +1,63 @@
+import { eventBus, BookingEventName } from './eventBus.js';
+import { scheduleBookingReminder, rescheduleBookingReminder, cancelSimpleReminder } from './reminder.js';
+import { employeeAvailabilityService } from './employeeAvailabilityService.js';
+import { webhookService } from './webhookService.js';
+import { waitlistService } from './waitlistService.js';
+import { clientService } from './clientService.js';
+import { sendBookingConfirmation, sendBookingCancellation } from './bookingMessages.js';
+import { paymentService } from './paymentService.js';
+
+const BOOKING_EVENTS: BookingEventName[] = [
+    'booking.created',
+    'booking.confirmed',
+    'booking.cancelled',
+    'booking.completed',
+    'booking.no_show',
+    'booking.rescheduled'
+];
+
+let registered = false;
+
+// Registrado na inicialização da API e do worker (que reprocessa o outbox)
+export function registerEventSubscribers(): void {
+    if (registered) return;
+    registered = true;
+
+    // Lembretes: qualquer agendamento criado ou movido tem lembrete, venha de onde vier
+    eventBus.on('booking.created', 'reminders.schedule', ({ booking }) => scheduleBookingReminder(booking));
+    eventBus.on('booking.rescheduled', 'reminders.reschedule', ({ booking }) => rescheduleBookingReminder(booking));
+    for (const event of ['booking.cancelled', 'booking.completed', 'booking.no_show'] as const) {
+        eventBus.on(event, 'reminders.cancel', ({ booking }) => cancelSimpleReminder(booking.id!, booking));
+    }
+
+    // Sinal: grava o valor, gera o PIX e agenda o cancelamento se não for pago
+    eventBus.on('booking.created', 'payments.deposit', async ({ booking }) => {
+        const result = await paymentService.setupBookingDeposit(booking);
+        if (!result.success) {
+            throw new Error(result.error || 'Erro ao configurar sinal');
+        }
+    });
+
+    // Disponibilidade em cache deixa de valer quando agenda, expediente ou ausências mudam
+    const clearAvailabilityCache = () => employeeAvailabilityService.clearCache();
+    for (const event of BOOKING_EVENTS) {
+        eventBus.on(event, 'availability.clearCache', clearAvailabilityCache);
+    }
+    for (const event of ['employee.created', 'employee.updated', 'employee.deleted'] as const) {
+        eventBus.on(event, 'availability.clearCache', clearAvailabilityCache);
+    }
+    for (const event of ['scheduleException.created', 'scheduleException.deleted'] as const) {
+        eventBus.on(event, 'availability.clearCache', clearAvailabilityCache);
+    }
+
+    // Notificações
+    for (const event of BOOKING_EVENTS) {
+        eventBus.on(event, 'webhooks.dispatch', ({ enterpriseEmail, booking }, { eventId }) =>
+            webhookService.dispatch(enterpriseEmail, event, booking, eventId)
+        );
+    }
+    eventBus.on('booking.created', 'messages.confirmation', ({ booking }) => sendBookingConfirmation(booking));
+    eventBus.on('booking.cancelled', 'messages.cancellation', ({ booking }) => sendBookingCancellation(booking));
+    eventBus.on('booking.cancelled', 'waitlist.offerSlot', ({ booking }) => waitlistService.offerCancelledBooking(booking));
+    eventBus.on('booking.completed', 'clients.recordVisit', ({ booking }) => clientService.recordVisit(booking));
+}
@@ -0,0 +1,456 @@
+import { Booking, Employee, EmployeeSkill, Product } from '../types/index.js';
+import { productService } from './productService.js';
+import { employeeService } from './employeeService.js';
+import { reportService } from './reportService.js';
+import { addDaysToDate } from '../utils/dateTime.js';
+import { CsvRecord, parseCsv, toCsv } from '../utils/csv.js';
+
+const MAX_IMPORT_ROWS = 1000;
+const MAX_EXPORT_DAYS = 366;
+// Separador da lista de serviços dentro da célula "skills" do CSV
+const CSV_LIST_SEPARATOR = '|';
+
+const PRODUCT_COLUMNS = ['name', 'price', 'duration', 'description', 'category', 'isActive', 'depositType', 'depositValue'];
+const EMPLOYEE_COLUMNS = ['name', 'phone', 'position', 'isActive', 'avatar', 'skills'];
+const BOOKING_COLUMNS = [
+    'id', 'date', 'startTime', 'endTime', 'status', 'clientName', 'clientPhone', 'clientEmail',
+    'productName', 'employeeName', 'productPrice', 'actualDuration', 'paymentStatus', 'amountPaid', 'notes'
+];
+
+type ImportRow = Record<string, unknown>;
+
+// Valida (e converte os tipos da) linha com o schema da rota; devolve a mensagem do primeiro erro
+export type RowValidator = (row: ImportRow) => string | null;
+
+export type ImportRowStatus = 'valid' | 'created' | 'error';
+
+export interface ImportRowReport {
+    row: number; // 1 = primeira linha de dados (o cabeçalho do CSV não conta)
+    name?: string;
+    status: ImportRowStatus;
+    id?: string;
+    errors?: string[];
+}
+
+export interface ImportReport {
+    dryRun: boolean;
+    total: number;
+    valid: number;
+    invalid: number;
+    created: number;
+    rows: ImportRowReport[];
+}
+
+export interface ImportExportResult<T> {
+    success: boolean;
+    data?: T;
+    error?: string;
+}
+
+export interface ProductExportRow {
+    name: string;
+    price: number;
+    duration: number;
+    description?: string;
+    category?: string;
+    isActive: boolean;
+    deposit?: Product['deposit'];
+}
+
+export interface EmployeeExportRow {
+    name: string;
+    phone?: string;
+    position: string;
+    isActive: boolean;
+    avatar?: string;
+    skills: string[];
+}
+
+export type BookingExportRow = Pick<Booking,
+    'id' | 'date' | 'startTime' | 'endTime' | 'status' | 'clientName' | 'clientPhone' | 'clientEmail' |
+    'productName' | 'employeeName' | 'productPrice' | 'actualDuration' | 'paymentStatus' | 'amountPaid' | 'notes'
+>;
+
+// "25,50" (planilha em português) vira "25.50" antes da validação
+function normalizeDecimal(value: string | undefined): string | undefined {
+    return value !== undefined && /^-?\d+,\d+$/.test(value) ? value.replace(',', '.') : value;
+}
+
+function productFromCsv(record: CsvRecord): ImportRow {
+    const { depositType, depositValue, ...fields } = record;
+    const row: ImportRow = {
+        ...fields,
+        ...(fields.price !== undefined && { price: normalizeDecimal(fields.price) })
+    };
+
+    if (depositType || depositValue) {
+        row.deposit = { type: depositType, value: normalizeDecimal(depositValue) };
+    }
+
+    return row;
+}
+
+function employeeFromCsv(record: CsvRecord): ImportRow {
+    const { skills, ...fields } = record;
+    return {
+        ...fields,
+        ...(skills && {
+            skills: skills.split(CSV_LIST_SEPARATOR).map(name => name.trim()).filter(Boolean)
+        })
+    };
+}
+
+function nameKey(name: string): string {
+    return name.trim().toLowerCase();
+}
+
+function summarize(rows: ImportRowReport[], dryRun: boolean): ImportReport {
+    const invalid = rows.filter(row => row.status === 'error').length;
+    return {
+        dryRun,
+        total: rows.length,
+        valid: rows.length - invalid,
+        invalid,
+        created: rows.filter(row => row.status === 'created').length,
+        rows
+    };
+}
+
+export const importExportService = {
+    // Corpo da importação: texto CSV, lista JSON ou { rows: [...] }
+    readRows(body: unknown, fromCsv: (record: CsvRecord) => ImportRow): ImportExportResult<ImportRow[]> {
+        let rows: unknown;
+
+        if (typeof body === 'string') {
+            rows = parseCsv(body).map(fromCsv);
+        } else if (Array.isArray(body)) {
+            rows = body;
+        } else if (body && typeof body === 'object' && Array.isArray((body as { rows?: unknown }).rows)) {
+            rows = (body as { rows: unknown[] }).rows;
+        }
+
+        if (!Array.isArray(rows)) {
+            return {
+                success: false,
+                error: 'Envie um CSV (Content-Type: text/csv) ou um JSON com a lista de linhas'
+            };
+        }
+
+        if (rows.length === 0) {
+            return { success: false, error: 'Nenhuma linha para importar' };
+        }
+
+        if (rows.length > MAX_IMPORT_ROWS) {
+            return { success: false, error: `Máximo de ${MAX_IMPORT_ROWS} linhas por importação` };
+        }
+
+        return {
+            success: true,
+            data: rows.map(row => (row && typeof row === 'object' && !Array.isArray(row) ? { ...row } : {}) as ImportRow)
+        };
+    },
+
+    // Só grava quando todas as linhas são válidas; com dryRun apenas devolve o relatório
+    async importProducts(
+        enterpriseEmail: string,
+        body: unknown,
+        validate: RowValidator,
+        dryRun: boolean
+    ): Promise<ImportExportResult<ImportReport>> {
+        try {
+            const rowsResult = this.readRows(body, productFromCsv);
+            if (!rowsResult.success || !rowsResult.data) {
+                return { success: false, error: rowsResult.error };
+            }
+
+            const existingResult = await productService.getProducts(enterpriseEmail);
+            if (!existingResult.success) {
+                return { success: false, error: existingResult.error || 'Erro ao buscar produtos' };
+            }
+
+            const existingIds = new Set((existingResult.data || []).map(product => product.id));
+            const seenIds = new Map<string, number>();
+            const reports: ImportRowReport[] = [];
+            const products: Array<Omit<Product, 'id' | 'createdAt' | 'updatedAt'>> = [];
+
+            rowsResult.data.forEach((row, index) => {
+                const rowNumber = index + 1;
+                const errors: string[] = [];
+
+                const validationError = validate(row);
+                if (validationError) {
+                    errors.push(validationError);
+                }
+
+                const name = typeof row.name === 'string' ? row.name.trim() : '';
+                if (!validationError) {
+                    const productId = productService.sanitizeDocumentId(name);
+
+                    if ((row.price as number) <= 0) {
+                        errors.push('Preço deve ser um número maior que zero');
+                    }
+
+                    if (!productId) {
+                        errors.push('Nome do produto inválido');
+                    } else if (existingIds.has(productId)) {
+                        errors.push(`Produto "${name}" já cadastrado`);
+                    } else if (seenIds.has(productId)) {
+                        errors.push(`Produto "${name}" repetido no arquivo (linha ${seenIds.get(productId)})`);
+                    } else {
+                        seenIds.set(productId, rowNumber);
+                    }
+                }
+
+                reports.push({
+                    row: rowNumber,
+                    ...(name && { name }),
+                    status: errors.length > 0 ? 'error' : 'valid',
+                    ...(errors.length > 0 && { errors })
+                });
+
+                products.push({
+                    name,
+                    price: row.price as number,
+                    duration: row.duration as number,
+                    description: (row.description as string) || '',
+                    category: (row.category as string) || '',
+                    isActive: row.isActive !== false,
+                    ...(row.deposit !== undefined && { deposit: row.deposit as Product['deposit'] })
+                });
+            });
+
+            if (dryRun || reports.some(report => report.status === 'error')) {
+                return { success: true, data: summarize(reports, dryRun) };
+            }
+
+            for (const [index, product] of products.entries()) {
+                const result = await productService.createProduct(enterpriseEmail, product);
+                reports[index] = result.success && result.data
+                    ? { ...reports[index], status: 'created', id: result.data.id }
+                    : { ...reports[index], status: 'error', errors: [result.error || 'Erro ao criar produto'] };
+            }
+
+            return { success: true, data: summarize(reports, dryRun) };
+        } catch (error) {
+            console.error('Erro ao importar produtos:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Skills são resolvidas pelo nome dos produtos já cadastrados na empresa
+    async importEmployees(
+        enterpriseEmail: string,
+        body: unknown,
+        validate: RowValidator,
+        dryRun: boolean
+    ): Promise<ImportExportResult<ImportReport>> {
+        try {
+            const rowsResult = this.readRows(body, employeeFromCsv);
+            if (!rowsResult.success || !rowsResult.data) {
+                return { success: false, error: rowsResult.error };
+            }
+
+            const [productsResult, employeesResult] = await Promise.all([
+                productService.getProducts(enterpriseEmail),
+                employeeService.getAllEmployees(enterpriseEmail)
+            ]);
+
+            if (!productsResult.success || !employeesResult.success) {
+                return {
+                    success: false,
+                    error: productsResult.error || employeesResult.error || 'Erro ao buscar dados da empresa'
+                };
+            }
+
+            const productsByName = new Map((productsResult.data || []).map(product => [nameKey(product.name), product]));
+            const existingNames = new Set(
+                (employeesResult.data || []).filter(employee => employee.isActive).map(employee => nameKey(employee.name))
+            );
+            const seenNames = new Map<string, number>();
+            const reports: ImportRowReport[] = [];
+            const employees: Employee[] = [];
+
+            rowsResult.data.forEach((row, index) => {
+                const rowNumber = index + 1;
+                const errors: string[] = [];
+
+                const validationError = validate(row);
+                if (validationError) {
+                    errors.push(validationError);
+                }
+
+                const name = typeof row.name === 'string' ? row.name.trim() : '';
+                const skills: EmployeeSkill[] = [];
+
+                if (!validationError) {
+                    if (existingNames.has(nameKey(name))) {
+                        errors.push(`Funcionário "${name}" já cadastrado`);
+                    } else if (seenNames.has(nameKey(name))) {
+                        errors.push(`Funcionário "${name}" repetido no arquivo (linha ${seenNames.get(nameKey(name))})`);
+                    } else {
+                        seenNames.set(nameKey(name), rowNumber);
+                    }
+
+                    for (const skillName of (row.skills as string[] | undefined) || []) {
+                        const product = productsByName.get(nameKey(skillName));
+                        if (!product) {
+                            errors.push(`Serviço "${skillName}" não encontrado`);
+                        } else if (!skills.some(skill => skill.productId === product.id)) {
+                            skills.push({
+                                productId: product.id!,
+                                productName: product.name,
+                                experienceLevel: 'intermediario',
+                                canPerform: true
+                            });
+                        }
+                    }
+                }
+
+                reports.push({
+                    row: rowNumber,
+                    ...(name && { name }),
+                    status: errors.length > 0 ? 'error' : 'valid',
+                    ...(errors.length > 0 && { errors })
+                });
+
+                employees.push({
+                    enterpriseEmail,
+                    name,
+                    position: row.position as string,
+                    isActive: row.isActive !== false,
+                    ...(row.phone !== undefined && { phone: row.phone as string }),
+                    ...(row.avatar !== undefined && { avatar: row.avatar as string }),
+                    skills
+                });
+            });
+
+            if (dryRun || reports.some(report => report.status === 'error')) {
+                return { success: true, data: summarize(reports, dryRun) };
+            }
+
+            for (const [index, employee] of employees.entries()) {
+                const result = await employeeService.createEmployee(employee);
+                reports[index] = result.success && result.data
+                    ? { ...reports[index], status: 'created', id: result.data.id }
+                    : { ...reports[index], status: 'error', errors: [result.error || 'Erro ao criar funcionário'] };
+            }
+
+            return { success: true, data: summarize(reports, dryRun) };
+        } catch (error) {
+            console.error('Erro ao importar funcionários:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Mesmo formato aceito pela importação
+    async exportProducts(enterpriseEmail: string): Promise<ImportExportResult<ProductExportRow[]>> {
+        const result = await productService.getProducts(enterpriseEmail);
+        if (!result.success) {
+            return { success: false, error: result.error || 'Erro ao buscar produtos' };
+        }
+
+        return {
+            success: true,
+            data: (result.data || []).map(product => ({
+                name: product.name,
+                price: product.price,
+                duration: product.duration,
+                ...(product.description && { description: product.description }),
+                ...(product.category && { category: product.category }),
+                isActive: product.isActive,
+                ...(product.deposit && { deposit: product.deposit })
+            }))
+        };
+    },
+
+    productsToCsv(rows: ProductExportRow[]): string {
+        return toCsv(PRODUCT_COLUMNS, rows.map(({ deposit, ...row }) => ({
+            ...row,
+            depositType: deposit?.type,
+            depositValue: deposit?.value
+        })));
+    },
+
+    async exportEmployees(enterpriseEmail: string): Promise<ImportExportResult<EmployeeExportRow[]>> {
+        const result = await employeeService.getAllEmployees(enterpriseEmail);
+        if (!result.success) {
+            return { success: false, error: result.error || 'Erro ao buscar funcionários' };
+        }
+
+        return {
+            success: true,
+            data: (result.data || []).map(employee => ({
+                name: employee.name,
+                ...(employee.phone && { phone: employee.phone }),
+                position: employee.position,
+                isActive: employee.isActive,
+                ...(employee.avatar && { avatar: employee.avatar }),
+                skills: employee.skills.map(skill => skill.productName)
+            }))
+        };
+    },
+
+    employeesToCsv(rows: EmployeeExportRow[]): string {
+        return toCsv(EMPLOYEE_COLUMNS, rows.map(row => ({
+            ...row,
+            skills: row.skills.join(CSV_LIST_SEPARATOR)
+        })));
+    },
+
+    async exportBookings(
+        enterpriseEmail: string,
+        startDate: string,
+        endDate: string
+    ): Promise<ImportExportResult<BookingExportRow[]>> {
+        if (endDate < startDate) {
+            return { success: false, error: 'A data final não pode ser anterior à data inicial' };
+        }
+
+        if (endDate > addDaysToDate(startDate, MAX_EXPORT_DAYS - 1)) {
+            return { success: false, error: `O período máximo da exportação é de ${MAX_EXPORT_DAYS} dias` };
+        }
+
+        try {
+            const bookings = await reportService.getBookingsInRange(enterpriseEmail, { startDate, endDate });
+
+            return {
+                success: true,
+                data: bookings
+                    .sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`))
+                    .map(booking => ({
+                        id: booking.id,
+                        date: booking.date,
+                        startTime: booking.startTime,
+                        endTime: booking.endTime,
+                        status: booking.status,
+                        clientName: booking.clientName,
+                        clientPhone: booking.clientPhone,
+                        ...(booking.clientEmail && { clientEmail: booking.clientEmail }),
+                        productName: booking.productName,
+                        ...(booking.employeeName && { employeeName: booking.employeeName }),
+                        productPrice: booking.productPrice,
+                        actualDuration: booking.actualDuration,
+                        ...(booking.paymentStatus && { paymentStatus: booking.paymentStatus }),
+                        ...(booking.amountPaid !== undefined && { amountPaid: booking.amountPaid }),
+                        ...(booking.notes && { notes: booking.notes })
+                    }))
+            };
+        } catch (error) {
+            console.error('Erro ao exportar agendamentos:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    bookingsToCsv(rows: BookingExportRow[]): string {
+        return toCsv(BOOKING_COLUMNS, rows);
+    }
+};
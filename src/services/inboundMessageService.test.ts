@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { parseReplyIntent } from './inboundMessageService.js';
+
+describe('parseReplyIntent', () => {
+  it.each(['1', 'sim', 'Sim!', 'S', 'sim, confirmo', ' CONFIRMADO. '])('"%s" confirma', text => {
+    expect(parseReplyIntent(text)).toBe('confirm');
+  });
+
+  it.each(['2', 'não', 'Nao', 'N', 'não, cancelar', 'Cancelo!'])('"%s" cancela', text => {
+    expect(parseReplyIntent(text)).toBe('cancel');
+  });
+
+  it.each(['', '!!!', 'sim, mas posso chegar 10 min atrasado?', 'sim não', '3', 'Bom dia'])(
+    '"%s" é repassada para a empresa',
+    text => {
+      expect(parseReplyIntent(text)).toBeUndefined();
+    }
+  );
+});
@@ -0,0 +1,318 @@
+import { timingSafeEqual } from 'crypto';
+import { collection, doc, getDocs, deleteDoc, updateDoc, query, where, runTransaction, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { Booking, BookingActor, InboundMessage, InboundMessageAction, MessageTemplateType } from '../types/index.js';
+import { bookingService } from './bookingService.js';
+import { bookingManageService } from './bookingManageService.js';
+import { enterpriseService } from './enterpriseService.js';
+import { messagingService, getDefaultEvolutionSettings } from './messagingService.js';
+import { messageTemplateService, getBookingTemplateVariables } from './messageTemplateService.js';
+import { verifyInboundWebhookToken } from './manageLink.js';
+import { nowInTimeZone, zonedDateTimeToUtc } from '../utils/dateTime.js';
+import { normalizePhone, phoneMatchKey } from '../utils/phone.js';
+
+// Evento messages.upsert da Evolution API (apenas os campos usados)
+export interface EvolutionWebhookPayload {
+    event?: string;
+    instance?: string;
+    data?: {
+        key?: {
+            id?: string;
+            remoteJid?: string;
+            remoteJidAlt?: string; // Número real quando remoteJid vem como @lid
+            fromMe?: boolean;
+        };
+        pushName?: string;
+        message?: {
+            conversation?: string;
+            extendedTextMessage?: { text?: string };
+        };
+    };
+}
+
+export interface InboundResult {
+    success: boolean;
+    data?: { action: InboundMessageAction; bookingId?: string };
+    error?: string;
+    unauthorized?: boolean;
+}
+
+type ReplyIntent = 'confirm' | 'cancel';
+
+interface ReplyOutcome {
+    action: InboundMessageAction;
+    booking?: Booking;
+    reason?: string;
+}
+
+const CONFIRM_WORDS = ['1', 'SIM', 'S', 'CONFIRMO', 'CONFIRMAR', 'CONFIRMADO'];
+const CANCEL_WORDS = ['2', 'NAO', 'N', 'CANCELO', 'CANCELAR', 'CANCELA'];
+
+// Respostas aplicadas pelo WhatsApp ficam no histórico como do próprio cliente
+function whatsAppActor(booking: Booking): BookingActor {
+    return {
+        uid: 'whatsapp',
+        email: booking.clientEmail || '',
+        role: 'client'
+    };
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const expected = Buffer.from(a);
+    const received = Buffer.from(b);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// "1", "Sim!", "sim, confirmo" confirmam; "2", "Não", "não, cancelar" cancelam.
+// Qualquer outra palavra na mensagem faz ela ser repassada para a empresa
+export function parseReplyIntent(text: string): ReplyIntent | undefined {
+    const words = text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toUpperCase()
+        .replace(/[^A-Z0-9]+/g, ' ')
+        .trim()
+        .split(' ')
+        .filter(Boolean);
+
+    if (words.length === 0) return undefined;
+    if (words.every(word => CONFIRM_WORDS.includes(word))) return 'confirm';
+    if (words.every(word => CANCEL_WORDS.includes(word))) return 'cancel';
+    return undefined;
+}
+
+// Empresa dona da URL do webhook; sem empresa é a instância compartilhada do servidor
+async function resolveWebhookScope(token: string): Promise<{ instance: string; enterpriseEmail?: string } | null> {
+    const sharedSecret = process.env.EVOLUTION_WEBHOOK_SECRET;
+    if (sharedSecret && safeEqual(sharedSecret, token)) {
+        const evolution = getDefaultEvolutionSettings();
+        return evolution ? { instance: evolution.instance } : null;
+    }
+
+    const payload = verifyInboundWebhookToken(token);
+    if (!payload) return null;
+
+    const settings = await messagingService.getSettings(payload.enterpriseEmail);
+    if (settings.evolution?.instance !== payload.instance) return null;
+
+    return { instance: payload.instance, enterpriseEmail: payload.enterpriseEmail };
+}
+
+function getSenderPhone(key: NonNullable<EvolutionWebhookPayload['data']>['key']): string | undefined {
+    const jid = [key?.remoteJid, key?.remoteJidAlt].find(candidate => candidate?.endsWith('@s.whatsapp.net'));
+    return jid ? normalizePhone(jid.split('@')[0]) : undefined;
+}
+
+// Próximo agendamento pendente ou confirmado do número na empresa
+async function findUpcomingBooking(enterpriseEmail: string, phone: string, timeZone: string): Promise<Booking | undefined> {
+    const today = nowInTimeZone(timeZone).date;
+    const snapshot = await getDocs(query(
+        collection(db, `enterprises/${enterpriseEmail}/bookings`),
+        where('date', '>=', today)
+    ));
+
+    const phoneKey = phoneMatchKey(phone);
+    const now = Date.now();
+
+    return snapshot.docs
+        .map(bookingDoc => ({ id: bookingDoc.id, ...bookingDoc.data() }) as Booking)
+        .filter(booking =>
+            (booking.status === 'pending' || booking.status === 'confirmed') &&
+            phoneMatchKey(booking.clientPhone) === phoneKey &&
+            zonedDateTimeToUtc(booking.date, booking.startTime, timeZone).getTime() > now
+        )
+        .sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`))[0];
+}
+
+// Instância compartilhada: a mensagem só vai para uma empresa quando não há dúvida
+// de qual é. Com mais de uma que já falou com o número, vale a única com agendamento próximo
+async function resolveSharedInstanceEnterprise(phone: string): Promise<string | undefined> {
+    const candidates = await messagingService.getContactEnterprises(phone);
+    if (candidates.length <= 1) return candidates[0];
+
+    const withUpcomingBooking: string[] = [];
+    for (const enterpriseEmail of candidates) {
+        const timeZone = await enterpriseService.getEnterpriseTimeZone(enterpriseEmail);
+        if (await findUpcomingBooking(enterpriseEmail, phone, timeZone)) {
+            withUpcomingBooking.push(enterpriseEmail);
+        }
+    }
+
+    if (withUpcomingBooking.length !== 1) {
+        console.warn(`Mensagem de ${phone} na instância compartilhada sem empresa definida (${candidates.length} candidatas)`);
+        return undefined;
+    }
+
+    return withUpcomingBooking[0];
+}
+
+export const inboundMessageService = {
+    // Webhook da Evolution API: a URL carrega o token que identifica a instância
+    async handleEvolutionWebhook(token: string, payload: EvolutionWebhookPayload): Promise<InboundResult> {
+        const scope = await resolveWebhookScope(token);
+        if (!scope || payload.instance !== scope.instance) {
+            return { success: false, unauthorized: true, error: 'Webhook não autorizado' };
+        }
+
+        const event = (payload.event || '').toLowerCase().replace(/_/g, '.');
+        const key = payload.data?.key;
+        const text = (payload.data?.message?.conversation || payload.data?.message?.extendedTextMessage?.text || '').trim();
+        const phone = getSenderPhone(key);
+
+        // Só mensagens de texto recebidas de contatos (sem grupos ou mensagens enviadas)
+        if (event !== 'messages.upsert' || key?.fromMe || !phone || !text) {
+            return { success: true, data: { action: 'ignored' } };
+        }
+
+        const enterpriseEmail = scope.enterpriseEmail || await resolveSharedInstanceEnterprise(phone);
+        if (!enterpriseEmail) {
+            return { success: true, data: { action: 'ignored' } };
+        }
+
+        // A Evolution pode reenviar o mesmo evento, inclusive em paralelo: só quem
+        // reservar o id da mensagem a trata
+        const messagesCollection = collection(db, `enterprises/${enterpriseEmail}/inboundMessages`);
+        const messageRef = key?.id ? doc(messagesCollection, key.id) : doc(messagesCollection);
+        const inboundMessage: Omit<InboundMessage, 'id'> = {
+            phone,
+            ...(payload.data?.pushName && { pushName: payload.data.pushName }),
+            text,
+            action: 'processing',
+            createdAt: Timestamp.now()
+        };
+
+        const claimed = await runTransaction(db, async (transaction) => {
+            if ((await transaction.get(messageRef)).exists()) return false;
+            transaction.set(messageRef, inboundMessage);
+            return true;
+        });
+
+        if (!claimed) {
+            return { success: true, data: { action: 'ignored' } };
+        }
+
+        let handled: ReplyOutcome;
+        try {
+            handled = await this.handleReply(enterpriseEmail, phone, text, payload.data?.pushName);
+        } catch (error) {
+            // Libera o id para a Evolution reenviar o evento
+            await deleteDoc(messageRef);
+            throw error;
+        }
+
+        await updateDoc(messageRef, {
+            action: handled.action,
+            ...(handled.booking?.id && { bookingId: handled.booking.id }),
+            ...(handled.reason && { reason: handled.reason })
+        });
+
+        return {
+            success: true,
+            data: { action: handled.action, ...(handled.booking?.id && { bookingId: handled.booking.id }) }
+        };
+    },
+
+    // Aplica "1/SIM" ou "2/NÃO" ao próximo agendamento e responde ao cliente;
+    // o que não puder ser aplicado é repassado para a empresa
+    async handleReply(
+        enterpriseEmail: string,
+        phone: string,
+        text: string,
+        pushName?: string
+    ): Promise<ReplyOutcome> {
+        const timeZone = await enterpriseService.getEnterpriseTimeZone(enterpriseEmail);
+        const intent = parseReplyIntent(text);
+        const booking = await findUpcomingBooking(enterpriseEmail, phone, timeZone);
+
+        let reason: string | undefined;
+
+        if (intent && !booking) {
+            reason = 'Nenhum agendamento próximo para este número';
+        } else if (intent && booking) {
+            if (intent === 'confirm') {
+                const result = booking.status === 'confirmed'
+                    ? { success: true }
+                    : await bookingService.confirmBooking(enterpriseEmail, booking.id!, whatsAppActor(booking));
+
+                if (result.success) {
+                    await this.sendAck('reply_confirmed', booking, phone, timeZone);
+                    return { action: 'confirmed', booking };
+                }
+                reason = result.error;
+            } else {
+                const window = await bookingManageService.getChangeDeadline(booking);
+
+                if (!window.allowed) {
+                    reason = `Cancelamento permitido apenas com ${window.deadlineHours}h de antecedência`;
+                    await this.sendAck('reply_cancel_refused', booking, phone, timeZone, { deadlineHours: String(window.deadlineHours) });
+                } else {
+                    const result = await bookingService.cancelBooking(enterpriseEmail, booking.id!, whatsAppActor(booking));
+
+                    if (result.success) {
+                        await this.sendAck('reply_cancelled', booking, phone, timeZone);
+                        return { action: 'cancelled', booking };
+                    }
+                    reason = result.error;
+                }
+            }
+        }
+
+        await this.forwardToEnterprise(enterpriseEmail, { phone, text, pushName, booking, reason, timeZone });
+        return { action: 'forwarded', ...(booking && { booking }), ...(reason && { reason }) };
+    },
+
+    // Resposta com o modelo da empresa; falha no envio não desfaz a ação já aplicada ao agendamento
+    async sendAck(
+        type: Extract<MessageTemplateType, 'reply_confirmed' | 'reply_cancelled' | 'reply_cancel_refused'>,
+        booking: Booking,
+        phone: string,
+        timeZone: string,
+        variables: Record<string, string> = {}
+    ): Promise<void> {
+        try {
+            const { text } = await messageTemplateService.render(
+                type,
+                { ...getBookingTemplateVariables(booking, timeZone), ...variables },
+                booking.enterpriseEmail
+            );
+            await messagingService.send('reply_ack', { to: { phone }, text }, booking.enterpriseEmail);
+        } catch (error) {
+            console.error('Erro ao responder mensagem recebida:', error);
+        }
+    },
+
+    // Repassa a mensagem para o WhatsApp e o e-mail da empresa
+    async forwardToEnterprise(
+        enterpriseEmail: string,
+        message: { phone: string; text: string; pushName?: string; booking?: Booking; reason?: string; timeZone: string }
+    ): Promise<void> {
+        try {
+            const enterpriseResult = await enterpriseService.getEnterpriseByEmail(enterpriseEmail);
+            const enterprise = enterpriseResult.data;
+            const sender = message.booking?.clientName || message.pushName || 'Cliente';
+
+            let body = `Mensagem de ${sender} (${message.phone}) pelo WhatsApp:\n\n"${message.text}"`;
+
+            if (message.booking) {
+                const { date, time } = getBookingTemplateVariables(message.booking, message.timeZone);
+                body += `\n\nPróximo agendamento: ${message.booking.productName || 'Serviço'} em ${date} às ${time}`;
+            }
+            if (message.reason) {
+                body += `\nNão aplicado automaticamente: ${message.reason}`;
+            }
+            body += `\n\nResponder: https://wa.me/${message.phone}`;
+
+            await messagingService.send('reply_forward', {
+                to: {
+                    ...(enterprise?.phone && { phone: normalizePhone(enterprise.phone) }),
+                    email: enterpriseEmail,
+                    ...(enterprise?.name && { name: enterprise.name })
+                },
+                subject: `Mensagem de ${sender} pelo WhatsApp`,
+                text: body
+            }, enterpriseEmail);
+        } catch (error) {
+            console.error('Erro ao repassar mensagem recebida para a empresa:', error);
+        }
+    }
+};
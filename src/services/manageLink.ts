@@ -0,0 +1,157 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+interface ManageTokenPayload {
+  enterpriseEmail: string;
+  bookingId: string;
+}
+
+interface OfferTokenPayload {
+  enterpriseEmail: string;
+  entryId: string;
+  offerId: string;
+}
+
+interface CalendarFeedTokenPayload {
+  enterpriseEmail: string;
+  employeeId?: string; // Ausente no feed da empresa inteira
+  feedKey: string;
+}
+
+interface InboundWebhookTokenPayload {
+  enterpriseEmail: string;
+  instance: string;
+}
+
+function getSecret(): string {
+  const secret = process.env.MANAGE_LINK_SECRET;
+  if (!secret) {
+    throw new Error('MANAGE_LINK_SECRET não configurado');
+  }
+  return secret;
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', getSecret()).update(encodedPayload).digest('base64url');
+}
+
+// Token = payload.assinatura (HMAC-SHA256); sem o segredo não é possível
+// gerar um token válido para outro agendamento
+function createSignedToken(payload: object): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+function readSignedToken(token: string): Record<string, unknown> | null {
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) return null;
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function getPublicBaseUrl(): string {
+  return (process.env.PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+// Arquivos .ics são servidos pela própria API, não pelo app
+function getPublicApiUrl(): string {
+  return (process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/$/, '');
+}
+
+export function createManageToken(enterpriseEmail: string, bookingId: string): string {
+  const payload: ManageTokenPayload = { enterpriseEmail, bookingId };
+  return createSignedToken(payload);
+}
+
+export function verifyManageToken(token: string): ManageTokenPayload | null {
+  const payload = readSignedToken(token);
+  if (typeof payload?.enterpriseEmail !== 'string' || typeof payload?.bookingId !== 'string') {
+    return null;
+  }
+  return { enterpriseEmail: payload.enterpriseEmail, bookingId: payload.bookingId };
+}
+
+export function buildManageUrl(token: string): string {
+  return `${getPublicBaseUrl()}/agendamento/${token}`;
+}
+
+// offerId muda a cada oferta: links de ofertas anteriores deixam de valer
+export function createOfferToken(enterpriseEmail: string, entryId: string, offerId: string): string {
+  const payload: OfferTokenPayload = { enterpriseEmail, entryId, offerId };
+  return createSignedToken(payload);
+}
+
+export function verifyOfferToken(token: string): OfferTokenPayload | null {
+  const payload = readSignedToken(token);
+  if (
+    typeof payload?.enterpriseEmail !== 'string' ||
+    typeof payload?.entryId !== 'string' ||
+    typeof payload?.offerId !== 'string'
+  ) {
+    return null;
+  }
+  return { enterpriseEmail: payload.enterpriseEmail, entryId: payload.entryId, offerId: payload.offerId };
+}
+
+export function buildOfferUrl(token: string): string {
+  return `${getPublicBaseUrl()}/lista-de-espera/${token}`;
+}
+
+// feedKey fica salvo no servidor: trocá-lo invalida as URLs de feed anteriores
+export function createCalendarFeedToken(enterpriseEmail: string, feedKey: string, employeeId?: string): string {
+  const payload: CalendarFeedTokenPayload = { enterpriseEmail, feedKey, ...(employeeId && { employeeId }) };
+  return createSignedToken(payload);
+}
+
+export function verifyCalendarFeedToken(token: string): CalendarFeedTokenPayload | null {
+  const payload = readSignedToken(token);
+  if (
+    typeof payload?.enterpriseEmail !== 'string' ||
+    typeof payload?.feedKey !== 'string' ||
+    (payload.employeeId !== undefined && typeof payload.employeeId !== 'string')
+  ) {
+    return null;
+  }
+  return {
+    enterpriseEmail: payload.enterpriseEmail,
+    feedKey: payload.feedKey,
+    ...(typeof payload.employeeId === 'string' && { employeeId: payload.employeeId })
+  };
+}
+
+export function buildCalendarFeedUrl(token: string): string {
+  return `${getPublicApiUrl()}/api/public/calendar/${token}/agenda.ics`;
+}
+
+// Evento único do agendamento, identificado pelo mesmo token do link de gerenciamento
+export function buildBookingCalendarUrl(manageToken: string): string {
+  return `${getPublicApiUrl()}/api/public/bookings/${manageToken}/calendar.ics`;
+}
+
+// Vinculado à instância da Evolution: trocar de instância invalida a URL anterior
+export function createInboundWebhookToken(enterpriseEmail: string, instance: string): string {
+  const payload: InboundWebhookTokenPayload = { enterpriseEmail, instance };
+  return createSignedToken(payload);
+}
+
+export function verifyInboundWebhookToken(token: string): InboundWebhookTokenPayload | null {
+  const payload = readSignedToken(token);
+  if (typeof payload?.enterpriseEmail !== 'string' || typeof payload?.instance !== 'string') {
+    return null;
+  }
+  return { enterpriseEmail: payload.enterpriseEmail, instance: payload.instance };
+}
+
+// URL a configurar como webhook da instância na Evolution API
+export function buildInboundWebhookUrl(token: string): string {
+  return `${getPublicApiUrl()}/api/messaging/inbound/evolution/${token}`;
+}
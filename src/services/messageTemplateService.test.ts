@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_TEMPLATES,
+  MESSAGE_TEMPLATE_TYPES,
+  REQUIRED_PLACEHOLDERS,
+  TEMPLATE_PLACEHOLDERS,
+  messageTemplateService
+} from './messageTemplateService.js';
+import { getTemplateVariables, validateTemplate } from '../utils/template.js';
+
+describe('modelos padrão', () => {
+  it.each(MESSAGE_TEMPLATE_TYPES)('%s usa apenas placeholders aceitos e tem os obrigatórios', type => {
+    const { subject, body } = DEFAULT_TEMPLATES[type];
+
+    expect(validateTemplate(subject, TEMPLATE_PLACEHOLDERS[type])).toEqual([]);
+    expect(validateTemplate(body, TEMPLATE_PLACEHOLDERS[type])).toEqual([]);
+    for (const name of REQUIRED_PLACEHOLDERS[type] || []) {
+      expect(getTemplateVariables(body)).toContain(name);
+    }
+  });
+});
+
+// A validação acontece antes de qualquer acesso ao Firestore
+describe('validação de rascunhos', () => {
+  it('recusa OTP sem {{code}}', async () => {
+    const result = await messageTemplateService.updateTemplate('empresa@exemplo.com', 'otp', {
+      body: 'Seu código expira em {{expiresInMinutes}} minutos.'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['Placeholder obrigatório ausente: {{code}}']);
+  });
+
+  it('recusa confirmação sem {{manageLink}} e placeholder desconhecido', async () => {
+    const result = await messageTemplateService.preview('empresa@exemplo.com', 'booking_confirmation', {
+      body: 'Olá {{cliente}}!'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      'Placeholder desconhecido: {{cliente}}',
+      'Placeholder obrigatório ausente: {{manageLink}}'
+    ]);
+  });
+
+  it('não exige o placeholder obrigatório no assunto', async () => {
+    const result = await messageTemplateService.preview('empresa@exemplo.com', 'otp', { subject: 'Seu código' });
+
+    expect(result.errors).toBeUndefined();
+  });
+});
@@ -0,0 +1,386 @@
+import { doc, getDoc, getDocs, setDoc, deleteDoc, collection, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { Booking, MessageTemplate, MessageTemplateType } from '../types/index.js';
+import { enterpriseService } from './enterpriseService.js';
+import { auditService } from './auditService.js';
+import { createManageToken, buildManageUrl, buildBookingCalendarUrl } from './manageLink.js';
+import { DEFAULT_TIME_ZONE, formatInTimeZone, zonedDateTimeToUtc } from '../utils/dateTime.js';
+import { TemplateVariables, getTemplateVariables, renderTemplate, validateTemplate } from '../utils/template.js';
+
+export const MESSAGE_TEMPLATE_TYPES: MessageTemplateType[] = [
+    'booking_confirmation',
+    'booking_reminder',
+    'booking_cancellation',
+    'otp',
+    'reply_confirmed',
+    'reply_cancelled',
+    'reply_cancel_refused'
+];
+
+const ENTERPRISE_PLACEHOLDERS = ['enterpriseName', 'enterprisePhone', 'enterpriseAddress'];
+
+const BOOKING_PLACEHOLDERS = [
+    ...ENTERPRISE_PLACEHOLDERS,
+    'clientName',
+    'productName',
+    'employeeName',
+    'date',
+    'time',
+    'manageLink'
+];
+
+// Placeholders aceitos em cada tipo; qualquer outro é recusado ao salvar
+export const TEMPLATE_PLACEHOLDERS: Record<MessageTemplateType, string[]> = {
+    booking_confirmation: [...BOOKING_PLACEHOLDERS, 'calendarLink'],
+    booking_reminder: [...BOOKING_PLACEHOLDERS, 'calendarLink'],
+    booking_cancellation: BOOKING_PLACEHOLDERS,
+    otp: [...ENTERPRISE_PLACEHOLDERS, 'code', 'expiresInMinutes'],
+    reply_confirmed: BOOKING_PLACEHOLDERS,
+    reply_cancelled: BOOKING_PLACEHOLDERS,
+    reply_cancel_refused: [...BOOKING_PLACEHOLDERS, 'deadlineHours']
+};
+
+// Placeholders que o texto precisa ter: sem eles a mensagem perde a razão de existir
+export const REQUIRED_PLACEHOLDERS: Partial<Record<MessageTemplateType, string[]>> = {
+    otp: ['code'],
+    booking_confirmation: ['manageLink']
+};
+
+export const DEFAULT_TEMPLATES: Record<MessageTemplateType, Pick<MessageTemplate, 'subject' | 'body'>> = {
+    booking_confirmation: {
+        subject: 'Agendamento recebido',
+        body: `Agendamento Recebido
+
+Olá {{clientName}}!
+
+Serviço: {{productName}}
+Data: {{date}}
+Horário: {{time}}{{#employeeName}}
+Profissional: {{employeeName}}{{/employeeName}}
+
+Para cancelar ou reagendar, acesse:
+{{manageLink}}
+
+Adicionar ao calendário:
+{{calendarLink}}`
+    },
+    booking_reminder: {
+        subject: 'Lembrete de agendamento',
+        body: `Lembrete de Agendamento
+
+Olá {{clientName}}!
+
+Seu agendamento está chegando:
+
+Serviço: {{productName}}
+Data: {{date}}
+Horário: {{time}}
+
+Nos vemos em breve!`
+    },
+    booking_cancellation: {
+        subject: 'Agendamento cancelado',
+        body: `Agendamento Cancelado
+
+Olá {{clientName}}!
+
+Seu agendamento foi cancelado:
+
+Serviço: {{productName}}
+Data: {{date}}
+Horário: {{time}}
+
+Para marcar um novo horário, fale com {{enterpriseName}}.`
+    },
+    otp: {
+        subject: 'Código de verificação',
+        body: `Seu código de verificação é: {{code}}
+
+Este código expira em {{expiresInMinutes}} minutos.
+Não compartilhe este código com ninguém.`
+    },
+    reply_confirmed: {
+        subject: 'Agendamento confirmado',
+        body: 'Obrigado, {{clientName}}! Seu agendamento de {{date}} às {{time}} está confirmado.'
+    },
+    reply_cancelled: {
+        subject: 'Agendamento cancelado',
+        body: 'Seu agendamento de {{date}} às {{time}} foi cancelado.'
+    },
+    reply_cancel_refused: {
+        subject: 'Cancelamento não realizado',
+        body: 'Cancelamento permitido apenas com {{deadlineHours}}h de antecedência. Encaminhamos sua mensagem para o estabelecimento, que entrará em contato.'
+    }
+};
+
+// Modelo em uso: o personalizado da empresa ou o padrão
+export interface ResolvedMessageTemplate extends MessageTemplate {
+    isDefault: boolean;
+    placeholders: string[];
+    requiredPlaceholders: string[];
+}
+
+export interface UpdateMessageTemplateInput {
+    subject?: string; // Sem assunto mantém o atual
+    body: string;
+}
+
+export interface RenderedMessage {
+    subject: string;
+    text: string;
+}
+
+function templateDocRef(enterpriseEmail: string, type: MessageTemplateType) {
+    return doc(db, `enterprises/${enterpriseEmail}/messageTemplates`, type);
+}
+
+function toResolvedTemplate(type: MessageTemplateType, stored?: MessageTemplate): ResolvedMessageTemplate {
+    return {
+        type,
+        subject: stored?.subject || DEFAULT_TEMPLATES[type].subject,
+        body: stored?.body || DEFAULT_TEMPLATES[type].body,
+        isDefault: !stored,
+        placeholders: TEMPLATE_PLACEHOLDERS[type],
+        requiredPlaceholders: REQUIRED_PLACEHOLDERS[type] || [],
+        ...(stored?.updatedAt && { updatedAt: stored.updatedAt })
+    };
+}
+
+function validateDraft(type: MessageTemplateType, draft: { subject?: string; body?: string }): string[] {
+    const allowed = TEMPLATE_PLACEHOLDERS[type];
+    const errors = [
+        ...(draft.subject !== undefined ? validateTemplate(draft.subject, allowed) : []),
+        ...(draft.body !== undefined ? validateTemplate(draft.body, allowed) : [])
+    ];
+
+    // Obrigatórios valem para o corpo, que é o texto enviado por WhatsApp
+    if (draft.body !== undefined) {
+        const used = getTemplateVariables(draft.body);
+        for (const name of REQUIRED_PLACEHOLDERS[type] || []) {
+            if (!used.includes(name)) {
+                errors.push(`Placeholder obrigatório ausente: {{${name}}}`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+async function getEnterpriseVariables(enterpriseEmail: string): Promise<TemplateVariables> {
+    const enterpriseResult = await enterpriseService.getEnterpriseByEmail(enterpriseEmail);
+    const enterprise = enterpriseResult.data;
+    if (!enterprise) return {};
+
+    return {
+        enterpriseName: enterprise.name,
+        enterprisePhone: enterprise.phone,
+        enterpriseAddress: enterprise.address
+    };
+}
+
+// Variáveis de um agendamento, com data e horário no fuso da empresa
+export function getBookingTemplateVariables(booking: Booking, timeZone: string = DEFAULT_TIME_ZONE): TemplateVariables {
+    const { date, time } = formatInTimeZone(
+        zonedDateTimeToUtc(booking.date, booking.startTime, timeZone),
+        timeZone
+    );
+
+    const manageToken = booking.id ? createManageToken(booking.enterpriseEmail, booking.id) : undefined;
+
+    return {
+        clientName: booking.clientName,
+        productName: booking.productName || 'Serviço',
+        employeeName: booking.employeeName,
+        date,
+        time,
+        manageLink: manageToken && buildManageUrl(manageToken),
+        calendarLink: manageToken && buildBookingCalendarUrl(manageToken)
+    };
+}
+
+export const messageTemplateService = {
+    // Sem empresa (ou sem modelo salvo) usa o padrão; erros de leitura sobem
+    async resolveTemplate(enterpriseEmail: string | undefined, type: MessageTemplateType): Promise<ResolvedMessageTemplate> {
+        if (!enterpriseEmail) return toResolvedTemplate(type);
+
+        const templateSnap = await getDoc(templateDocRef(enterpriseEmail, type));
+        return toResolvedTemplate(type, templateSnap.exists() ? templateSnap.data() as MessageTemplate : undefined);
+    },
+
+    async getTemplates(enterpriseEmail: string): Promise<{ success: boolean; data?: ResolvedMessageTemplate[]; error?: string }> {
+        try {
+            const snapshot = await getDocs(collection(db, `enterprises/${enterpriseEmail}/messageTemplates`));
+            const stored = new Map(snapshot.docs.map(templateDoc => [templateDoc.id, templateDoc.data() as MessageTemplate]));
+
+            return {
+                success: true,
+                data: MESSAGE_TEMPLATE_TYPES.map(type => toResolvedTemplate(type, stored.get(type)))
+            };
+        } catch (error) {
+            console.error('Erro ao buscar modelos de mensagem:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async getTemplate(
+        enterpriseEmail: string,
+        type: MessageTemplateType
+    ): Promise<{ success: boolean; data?: ResolvedMessageTemplate; error?: string }> {
+        try {
+            return { success: true, data: await this.resolveTemplate(enterpriseEmail, type) };
+        } catch (error) {
+            console.error('Erro ao buscar modelo de mensagem:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async updateTemplate(
+        enterpriseEmail: string,
+        type: MessageTemplateType,
+        input: UpdateMessageTemplateInput
+    ): Promise<{ success: boolean; data?: ResolvedMessageTemplate; error?: string; errors?: string[] }> {
+        try {
+            const errors = validateDraft(type, input);
+            if (errors.length > 0) {
+                return { success: false, error: 'Modelo inválido', errors };
+            }
+
+            const current = await this.resolveTemplate(enterpriseEmail, type);
+            const template: MessageTemplate = {
+                type,
+                subject: input.subject ?? current.subject,
+                body: input.body,
+                updatedAt: Timestamp.now()
+            };
+
+            await setDoc(templateDocRef(enterpriseEmail, type), template);
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'messageTemplate',
+                entityId: type,
+                action: current.isDefault ? 'create' : 'update',
+                ...(!current.isDefault && { before: { subject: current.subject, body: current.body } }),
+                after: { subject: template.subject, body: template.body }
+            });
+
+            return { success: true, data: toResolvedTemplate(type, template) };
+        } catch (error) {
+            console.error('Erro ao atualizar modelo de mensagem:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Remove o modelo personalizado; o tipo volta a usar o padrão
+    async resetTemplate(
+        enterpriseEmail: string,
+        type: MessageTemplateType
+    ): Promise<{ success: boolean; data?: ResolvedMessageTemplate; error?: string }> {
+        try {
+            const current = await this.resolveTemplate(enterpriseEmail, type);
+
+            if (!current.isDefault) {
+                await deleteDoc(templateDocRef(enterpriseEmail, type));
+
+                await auditService.record(enterpriseEmail, {
+                    entityType: 'messageTemplate',
+                    entityId: type,
+                    action: 'delete',
+                    before: { subject: current.subject, body: current.body }
+                });
+            }
+
+            return { success: true, data: toResolvedTemplate(type) };
+        } catch (error) {
+            console.error('Erro ao restaurar modelo de mensagem:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Monta a mensagem com o modelo da empresa; os dados da empresa entram automaticamente
+    async render(type: MessageTemplateType, variables: TemplateVariables, enterpriseEmail?: string): Promise<RenderedMessage> {
+        const template = await this.resolveTemplate(enterpriseEmail, type);
+        const allVariables = {
+            ...(enterpriseEmail ? await getEnterpriseVariables(enterpriseEmail) : {}),
+            ...variables
+        };
+
+        return {
+            subject: renderTemplate(template.subject, allVariables),
+            text: renderTemplate(template.body, allVariables)
+        };
+    },
+
+    // Renderiza o modelo salvo (ou o rascunho enviado) com um agendamento de exemplo
+    async preview(
+        enterpriseEmail: string,
+        type: MessageTemplateType,
+        draft: { subject?: string; body?: string } = {}
+    ): Promise<{ success: boolean; data?: RenderedMessage & { variables: TemplateVariables }; error?: string; errors?: string[] }> {
+        try {
+            const errors = validateDraft(type, draft);
+            if (errors.length > 0) {
+                return { success: false, error: 'Modelo inválido', errors };
+            }
+
+            const template = await this.resolveTemplate(enterpriseEmail, type);
+            const timeZone = await enterpriseService.getEnterpriseTimeZone(enterpriseEmail);
+            const variables = {
+                ...await getEnterpriseVariables(enterpriseEmail),
+                ...getSampleVariables(type, timeZone)
+            };
+
+            return {
+                success: true,
+                data: {
+                    subject: renderTemplate(draft.subject ?? template.subject, variables),
+                    text: renderTemplate(draft.body ?? template.body, variables),
+                    variables
+                }
+            };
+        } catch (error) {
+            console.error('Erro ao gerar prévia do modelo:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    }
+};
+
+// Agendamento fictício para amanhã às 14:00, com links de exemplo
+function getSampleVariables(type: MessageTemplateType, timeZone: string): TemplateVariables {
+    if (type === 'otp') {
+        return { code: '123456', expiresInMinutes: '5' };
+    }
+
+    const tomorrow = formatInTimeZone(new Date(Date.now() + 24 * 60 * 60 * 1000), timeZone);
+    const [day, month, year] = tomorrow.date.split('/');
+    const sampleBooking = {
+        enterpriseEmail: '',
+        clientName: 'Maria Silva',
+        clientPhone: '5511999999999',
+        productName: 'Corte de cabelo',
+        employeeName: 'João',
+        date: `${year}-${month}-${day}`,
+        startTime: '14:00'
+    } as Booking;
+
+    return {
+        ...getBookingTemplateVariables(sampleBooking, timeZone),
+        manageLink: buildManageUrl('exemplo'),
+        calendarLink: buildBookingCalendarUrl('exemplo'),
+        ...(type === 'reply_cancel_refused' && { deadlineHours: '24' })
+    };
+}
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EvolutionProvider } from './messagingProvider.js';
+
+describe('EvolutionProvider', () => {
+  const message = { to: { phone: '5585998765432' }, text: 'Olá' };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each([
+    ['http://evolution.exemplo.com', 'A URL precisa usar https'],
+    ['https://169.254.169.254', 'A URL aponta para um endereço interno ou reservado'],
+    ['https://127.0.0.1:6379', 'A URL aponta para um endereço interno ou reservado']
+  ])('não envia a apiKey da empresa para %s', async (baseUrl, error) => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new EvolutionProvider({ baseUrl, instance: 'barbearia', apiKey: 'segredo' }, true);
+
+    await expect(provider.send(message)).rejects.toThrow(error);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('não restringe o host da instância do servidor', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ key: { id: 'msg-1' } }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new EvolutionProvider({ baseUrl: 'http://evolution:8080/', instance: 'padrao', apiKey: 'segredo' });
+
+    await expect(provider.send(message)).resolves.toEqual({ provider: 'evolution', channel: 'whatsapp', messageId: 'msg-1' });
+    expect(fetchMock.mock.calls[0][0]).toBe('http://evolution:8080/message/sendText/padrao');
+  });
+});
@@ -0,0 +1,149 @@
+import { appendFile } from 'fs/promises';
+import nodemailer, { Transporter } from 'nodemailer';
+import { EvolutionSettings, MessageChannel, MessageProviderName } from '../types/index.js';
+import { checkOutboundUrl } from '../utils/outboundUrl.js';
+
+export interface MessageRecipient {
+  phone?: string; // Já normalizado (DDI + DDD + número)
+  email?: string;
+  name?: string;
+}
+
+export interface OutgoingMessage {
+  to: MessageRecipient;
+  subject?: string; // Usado apenas por e-mail
+  text: string;
+}
+
+export interface MessageSendResult {
+  provider: MessageProviderName;
+  channel: MessageChannel;
+  messageId?: string;
+}
+
+// Contrato dos provedores de envio de mensagens
+export interface MessagingProvider {
+  readonly name: MessageProviderName;
+  // false quando o destinatário não tem endereço no canal do provedor
+  canSend(message: OutgoingMessage): boolean;
+  send(message: OutgoingMessage): Promise<MessageSendResult>;
+}
+
+// WhatsApp pela Evolution API, com a instância da empresa ou a compartilhada (EVOLUTION_*)
+export class EvolutionProvider implements MessagingProvider {
+  readonly name = 'evolution';
+
+  constructor(
+    private readonly settings: EvolutionSettings,
+    // Instância cadastrada pela empresa: o host é verificado a cada envio, já que a apiKey vai junto
+    readonly ownedByEnterprise: boolean = false
+  ) {}
+
+  canSend(message: OutgoingMessage): boolean {
+    return Boolean(message.to.phone);
+  }
+
+  async send(message: OutgoingMessage): Promise<MessageSendResult> {
+    const baseUrl = this.settings.baseUrl.replace(/\/+$/, '');
+    const url = `${baseUrl}/message/sendText/${encodeURIComponent(this.settings.instance)}`;
+
+    if (this.ownedByEnterprise) {
+      const urlError = await checkOutboundUrl(url);
+      if (urlError) throw new Error(urlError);
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': this.settings.apiKey
+      },
+      body: JSON.stringify({ number: message.to.phone, text: message.text }),
+      ...(this.ownedByEnterprise && { redirect: 'manual' as const }),
+      signal: AbortSignal.timeout(15 * 1000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Erro HTTP: ${response.status} - ${response.statusText}`);
+    }
+
+    const result: any = await response.json().catch(() => ({}));
+
+    return {
+      provider: this.name,
+      channel: 'whatsapp',
+      ...(result?.key?.id && { messageId: result.key.id })
+    };
+  }
+}
+
+let smtpTransporter: Transporter | undefined;
+
+function getSmtpTransporter(): Transporter {
+  if (!smtpTransporter) {
+    const port = Number(process.env.SMTP_PORT) || 587;
+
+    smtpTransporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      ...(process.env.SMTP_USER && {
+        auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' }
+      })
+    });
+  }
+
+  return smtpTransporter;
+}
+
+// E-mail por SMTP; servidor único configurado no ambiente
+export class SmtpProvider implements MessagingProvider {
+  readonly name = 'smtp';
+
+  static isConfigured(): boolean {
+    return Boolean(process.env.SMTP_HOST && process.env.SMTP_FROM);
+  }
+
+  canSend(message: OutgoingMessage): boolean {
+    return Boolean(message.to.email);
+  }
+
+  async send(message: OutgoingMessage): Promise<MessageSendResult> {
+    const info = await getSmtpTransporter().sendMail({
+      from: process.env.SMTP_FROM,
+      to: message.to.name ? { name: message.to.name, address: message.to.email! } : message.to.email,
+      subject: message.subject || 'X-Corte',
+      text: message.text
+    });
+
+    return {
+      provider: this.name,
+      channel: 'email',
+      ...(info.messageId && { messageId: info.messageId })
+    };
+  }
+}
+
+// Provedor local para desenvolvimento: mostra a mensagem no console e, com
+// MESSAGING_LOG_FILE, grava uma linha JSON por mensagem no arquivo
+export class ConsoleProvider implements MessagingProvider {
+  readonly name = 'console';
+
+  canSend(message: OutgoingMessage): boolean {
+    return Boolean(message.to.phone || message.to.email);
+  }
+
+  async send(message: OutgoingMessage): Promise<MessageSendResult> {
+    const channel: MessageChannel = message.to.phone ? 'whatsapp' : 'email';
+    const destination = message.to.phone || message.to.email;
+
+    console.log(`📨 [${channel}] ${destination}${message.subject ? ` - ${message.subject}` : ''}\n${message.text}`);
+
+    const logFile = process.env.MESSAGING_LOG_FILE;
+    if (logFile) {
+      await appendFile(logFile, JSON.stringify({ sentAt: new Date().toISOString(), channel, ...message }) + '\n');
+    }
+
+    return { provider: this.name, channel };
+  }
+}
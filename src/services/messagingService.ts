@@ -0,0 +1,231 @@
+import { doc, getDoc, setDoc, arrayUnion, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { EvolutionSettings, MessageProviderName, MessageType, MessagingSettings, WhatsAppContact } from '../types/index.js';
+import {
+    ConsoleProvider,
+    EvolutionProvider,
+    MessageSendResult,
+    MessagingProvider,
+    OutgoingMessage,
+    SmtpProvider
+} from './messagingProvider.js';
+import { auditService } from './auditService.js';
+import { createInboundWebhookToken, buildInboundWebhookUrl } from './manageLink.js';
+import { phoneMatchKey } from '../utils/phone.js';
+import { checkOutboundUrl } from '../utils/outboundUrl.js';
+
+const CONTACTS_COLLECTION = 'whatsappContacts';
+
+export const MESSAGE_TYPES: MessageType[] = [
+    'otp',
+    'booking_confirmation',
+    'booking_reminder',
+    'booking_cancellation',
+    'waitlist_offer',
+    'reply_ack',
+    'reply_forward'
+];
+
+// WhatsApp primeiro; e-mail como alternativa quando o cliente tem endereço
+const DEFAULT_ROUTING: Record<MessageType, MessageProviderName[]> = {
+    otp: ['evolution', 'smtp'],
+    booking_confirmation: ['evolution', 'smtp'],
+    booking_reminder: ['evolution', 'smtp'],
+    booking_cancellation: ['evolution', 'smtp'],
+    waitlist_offer: ['evolution', 'smtp'],
+    reply_ack: ['evolution'], // Responde no canal em que o cliente escreveu
+    reply_forward: ['evolution', 'smtp']
+};
+
+// Tipos que não são conversa com o cliente: não atualizam whatsappContacts
+const NON_CONTACT_TYPES: MessageType[] = ['reply_forward'];
+
+export interface UpdateMessagingSettingsInput {
+    evolution?: (Omit<EvolutionSettings, 'apiKey'> & { apiKey?: string }) | null; // null remove a instância
+    routing?: Partial<Record<MessageType, MessageProviderName[]>>;
+}
+
+// Configuração devolvida pela API, sem a chave da Evolution
+export interface PublicMessagingSettings {
+    evolution?: Omit<EvolutionSettings, 'apiKey'> & {
+        hasApiKey: boolean;
+        inboundWebhookUrl: string; // Webhook de mensagens recebidas a configurar na instância
+    };
+    routing: Record<MessageType, MessageProviderName[]>;
+}
+
+function settingsDocRef(enterpriseEmail: string) {
+    return doc(db, `enterprises/${enterpriseEmail}/settings`, 'messaging');
+}
+
+// Falha ao registrar o contato não deve invalidar um envio já feito
+async function rememberContact(phone: string, enterpriseEmail: string): Promise<void> {
+    try {
+        await setDoc(doc(db, CONTACTS_COLLECTION, phoneMatchKey(phone)), {
+            phone,
+            enterpriseEmails: arrayUnion(enterpriseEmail),
+            updatedAt: Timestamp.now()
+        }, { merge: true });
+    } catch (error) {
+        console.error('Erro ao registrar contato de WhatsApp:', error);
+    }
+}
+
+// Instância global (EVOLUTION_*) para empresas sem número próprio e envios sem empresa
+export function getDefaultEvolutionSettings(): EvolutionSettings | undefined {
+    const { EVOLUTION_API_URL, EVOLUTION_INSTANCE, EVOLUTION_API_KEY } = process.env;
+    if (!EVOLUTION_API_URL || !EVOLUTION_INSTANCE || !EVOLUTION_API_KEY) return undefined;
+
+    return { baseUrl: EVOLUTION_API_URL, instance: EVOLUTION_INSTANCE, apiKey: EVOLUTION_API_KEY };
+}
+
+function toPublicSettings(enterpriseEmail: string, settings: MessagingSettings): PublicMessagingSettings {
+    const routing = { ...DEFAULT_ROUTING, ...settings.routing };
+
+    if (!settings.evolution) {
+        return { routing };
+    }
+
+    const { apiKey, ...evolution } = settings.evolution;
+    const inboundWebhookUrl = buildInboundWebhookUrl(createInboundWebhookToken(enterpriseEmail, evolution.instance));
+
+    return { evolution: { ...evolution, hasApiKey: Boolean(apiKey), inboundWebhookUrl }, routing };
+}
+
+export const messagingService = {
+    async getSettings(enterpriseEmail: string): Promise<MessagingSettings> {
+        const settingsSnap = await getDoc(settingsDocRef(enterpriseEmail));
+        return settingsSnap.exists() ? settingsSnap.data() as MessagingSettings : {};
+    },
+
+    async getPublicSettings(enterpriseEmail: string): Promise<{ success: boolean; data?: PublicMessagingSettings; error?: string }> {
+        try {
+            return { success: true, data: toPublicSettings(enterpriseEmail, await this.getSettings(enterpriseEmail)) };
+        } catch (error) {
+            console.error('Erro ao buscar configuração de mensagens:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async updateSettings(
+        enterpriseEmail: string,
+        input: UpdateMessagingSettingsInput
+    ): Promise<{ success: boolean; data?: PublicMessagingSettings; error?: string }> {
+        try {
+            const current = await this.getSettings(enterpriseEmail);
+            const updated: MessagingSettings = { ...current };
+
+            if (input.evolution === null) {
+                delete updated.evolution;
+            } else if (input.evolution) {
+                const urlError = await checkOutboundUrl(input.evolution.baseUrl);
+                if (urlError) {
+                    return { success: false, error: urlError };
+                }
+
+                // Sem apiKey mantém a chave já cadastrada
+                const apiKey = input.evolution.apiKey || current.evolution?.apiKey;
+                if (!apiKey) {
+                    return { success: false, error: 'Informe a apiKey da instância da Evolution API' };
+                }
+
+                updated.evolution = {
+                    baseUrl: input.evolution.baseUrl,
+                    instance: input.evolution.instance,
+                    apiKey
+                };
+            }
+
+            if (input.routing) {
+                updated.routing = { ...current.routing, ...input.routing };
+            }
+
+            await setDoc(settingsDocRef(enterpriseEmail), { ...updated, updatedAt: Timestamp.now() });
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'enterprise',
+                entityId: enterpriseEmail,
+                action: 'update',
+                before: { messaging: toPublicSettings(enterpriseEmail, current) },
+                after: { messaging: toPublicSettings(enterpriseEmail, updated) }
+            });
+
+            return { success: true, data: toPublicSettings(enterpriseEmail, updated) };
+        } catch (error) {
+            console.error('Erro ao atualizar configuração de mensagens:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Provedores configurados, na ordem definida para o tipo de mensagem.
+    // MESSAGING_PROVIDER=console desvia tudo para o console (desenvolvimento)
+    async resolveProviders(type: MessageType, enterpriseEmail?: string): Promise<MessagingProvider[]> {
+        if (process.env.MESSAGING_PROVIDER === 'console') {
+            return [new ConsoleProvider()];
+        }
+
+        const settings = enterpriseEmail ? await this.getSettings(enterpriseEmail) : {};
+        const order = settings.routing?.[type] || DEFAULT_ROUTING[type];
+
+        const providers: MessagingProvider[] = [];
+        for (const name of order) {
+            if (name === 'evolution') {
+                if (settings.evolution) {
+                    providers.push(new EvolutionProvider(settings.evolution, true));
+                } else {
+                    const evolution = getDefaultEvolutionSettings();
+                    if (evolution) providers.push(new EvolutionProvider(evolution));
+                }
+            } else if (name === 'smtp') {
+                if (SmtpProvider.isConfigured()) providers.push(new SmtpProvider());
+            } else if (name === 'console') {
+                providers.push(new ConsoleProvider());
+            }
+        }
+
+        return providers;
+    },
+
+    // Empresas que já falaram com o número pela instância compartilhada
+    async getContactEnterprises(phone: string): Promise<string[]> {
+        const contactSnap = await getDoc(doc(db, CONTACTS_COLLECTION, phoneMatchKey(phone)));
+        return contactSnap.exists() ? (contactSnap.data() as WhatsAppContact).enterpriseEmails || [] : [];
+    },
+
+    // Tenta cada provedor até um entregar; lança erro se todos falharem
+    async send(type: MessageType, message: OutgoingMessage, enterpriseEmail?: string): Promise<MessageSendResult> {
+        const providers = (await this.resolveProviders(type, enterpriseEmail))
+            .filter(provider => provider.canSend(message));
+
+        if (providers.length === 0) {
+            throw new Error(`Nenhum provedor de mensagens disponível para ${type}`);
+        }
+
+        const errors: string[] = [];
+        for (const provider of providers) {
+            try {
+                const result = await provider.send(message);
+
+                // Só a instância compartilhada precisa descobrir de qual empresa é a resposta
+                const sharedInstance = provider instanceof EvolutionProvider && !provider.ownedByEnterprise;
+                if (sharedInstance && enterpriseEmail && message.to.phone && !NON_CONTACT_TYPES.includes(type)) {
+                    await rememberContact(message.to.phone, enterpriseEmail);
+                }
+
+                return result;
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+                errors.push(`${provider.name}: ${errorMessage}`);
+                console.error(`Erro ao enviar ${type} via ${provider.name}:`, errorMessage);
+            }
+        }
+
+        throw new Error(`Falha ao enviar mensagem (${errors.join('; ')})`);
+    }
+};
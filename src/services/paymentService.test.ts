@@ -0,0 +1,157 @@
+import { Queue } from 'bullmq';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Booking, Payment } from '../types/index.js';
+
+const mocks = vi.hoisted(() => ({
+  getBookingById: vi.fn(),
+  getEnterpriseByEmail: vi.fn(),
+  getProductById: vi.fn(),
+  createCharge: vi.fn(),
+  getDocs: vi.fn(),
+  updateDoc: vi.fn(),
+  addDoc: vi.fn(),
+  transaction: { get: vi.fn(), set: vi.fn(), update: vi.fn() }
+}));
+
+vi.mock('firebase/firestore', async importOriginal => ({
+  ...(await importOriginal<typeof import('firebase/firestore')>()),
+  collection: vi.fn((_db, path: string) => ({ path })),
+  doc: vi.fn((_db?: unknown, path?: string, id?: string) => ({ id: id || 'payment-1', path })),
+  query: vi.fn(),
+  where: vi.fn(),
+  getDocs: mocks.getDocs,
+  updateDoc: mocks.updateDoc,
+  addDoc: mocks.addDoc,
+  runTransaction: vi.fn((_db, run: (transaction: unknown) => unknown) => run(mocks.transaction))
+}));
+
+vi.mock('./bookingService.js', () => ({
+  bookingService: { getBookingById: mocks.getBookingById, confirmBooking: vi.fn() },
+  bookingServiceItems: (booking: Booking) => [{ productId: booking.productId, price: booking.productPrice }]
+}));
+vi.mock('./enterpriseService.js', () => ({
+  enterpriseService: { getEnterpriseByEmail: mocks.getEnterpriseByEmail }
+}));
+vi.mock('./productService.js', () => ({
+  productService: { getProductById: mocks.getProductById }
+}));
+vi.mock('./auditService.js', () => ({
+  auditService: { record: vi.fn() }
+}));
+vi.mock('./pixProvider.js', () => ({
+  getPixProvider: () => ({ name: 'fake', createCharge: mocks.createCharge }),
+  isPixEnabled: () => true
+}));
+
+const { paymentService } = await import('./paymentService.js');
+
+const booking = {
+  id: 'booking-1',
+  enterpriseEmail: 'empresa@exemplo.com',
+  productId: 'corte',
+  productName: 'Corte',
+  productPrice: 50,
+  date: '2026-11-02',
+  startTime: '14:00',
+  status: 'pending'
+} as Booking;
+
+function paymentDocs(payments: Partial<Payment>[]) {
+  return { docs: payments.map((payment, index) => ({ id: `payment-${index}`, data: () => payment })) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.getBookingById.mockResolvedValue({ success: true, data: booking });
+  mocks.getEnterpriseByEmail.mockResolvedValue({ success: true, data: { depositTimeoutMinutes: 30 } });
+  mocks.getProductById.mockResolvedValue({ success: true, data: { deposit: { type: 'percentage', value: 40 } } });
+  mocks.getDocs.mockResolvedValue(paymentDocs([]));
+  mocks.addDoc.mockResolvedValue({ id: 'payment-1' });
+});
+
+describe('paymentService.setupBookingDeposit', () => {
+  it('gera o PIX do sinal e só então agenda o cancelamento automático', async () => {
+    const add = vi.spyOn(Queue.prototype, 'add');
+    mocks.createCharge.mockResolvedValue({ chargeId: 'charge-1', copyPaste: 'pix', expiresAt: new Date() });
+
+    const result = await paymentService.setupBookingDeposit(booking);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.booking.depositAmount).toBe(20);
+    expect(mocks.createCharge).toHaveBeenCalledWith(expect.objectContaining({ amount: 20 }));
+    expect(add).toHaveBeenCalledWith('expire-deposit', expect.anything(), expect.objectContaining({ jobId: 'deposit-booking-1' }));
+  });
+
+  it('devolve falha quando o provedor não gera o PIX, para o outbox tentar de novo', async () => {
+    const add = vi.spyOn(Queue.prototype, 'add');
+    mocks.createCharge.mockRejectedValue(new Error('provedor fora do ar'));
+
+    const result = await paymentService.setupBookingDeposit(booking);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/provedor fora do ar/);
+    expect(add).not.toHaveBeenCalled();
+    // A cobrança sem PIX fica cancelada e não bloqueia a nova tentativa
+    expect(mocks.updateDoc).toHaveBeenCalledWith(expect.objectContaining({ id: 'payment-1' }), expect.objectContaining({ status: 'cancelled' }));
+  });
+
+  it('não gera outra cobrança quando o sinal já foi cobrado', async () => {
+    mocks.getDocs.mockResolvedValue(paymentDocs([{ isDeposit: true, status: 'pending', amount: 20 }]));
+
+    const result = await paymentService.setupBookingDeposit(booking);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.pixCharge?.amount).toBe(20);
+    expect(mocks.createCharge).not.toHaveBeenCalled();
+  });
+
+  it('ignora agendamento já cancelado', async () => {
+    mocks.getBookingById.mockResolvedValue({ success: true, data: { ...booking, status: 'cancelled' } });
+
+    const result = await paymentService.setupBookingDeposit(booking);
+
+    expect(result.success).toBe(true);
+    expect(mocks.createCharge).not.toHaveBeenCalled();
+  });
+});
+
+describe('paymentService.recordPayment', () => {
+  function bookingSnapshot(data: Partial<Booking>) {
+    return { id: 'booking-1', exists: () => true, data: () => ({ ...booking, ...data }) };
+  }
+
+  it('confere o saldo e soma amountPaid na mesma transação', async () => {
+    mocks.transaction.get.mockResolvedValue(bookingSnapshot({ amountPaid: 20, depositAmount: 20 }));
+
+    const result = await paymentService.recordPayment(booking.enterpriseEmail, 'booking-1', { method: 'cash', amount: 30 });
+
+    expect(result.success).toBe(true);
+    expect(mocks.transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'payment-1' }),
+      expect.objectContaining({ amount: 30, status: 'paid', isDeposit: false })
+    );
+    expect(mocks.transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'booking-1' }),
+      expect.objectContaining({ amountPaid: 50 })
+    );
+  });
+
+  it('recusa valor acima do saldo lido na transação', async () => {
+    mocks.transaction.get.mockResolvedValue(bookingSnapshot({ amountPaid: 40 }));
+
+    const result = await paymentService.recordPayment(booking.enterpriseEmail, 'booking-1', { method: 'cash', amount: 30 });
+
+    expect(result).toEqual({ success: false, error: 'Valor maior que o saldo devedor (R$ 10.00)' });
+    expect(mocks.transaction.set).not.toHaveBeenCalled();
+    expect(mocks.transaction.update).not.toHaveBeenCalled();
+  });
+
+  it('recusa pagamento em agendamento cancelado', async () => {
+    mocks.transaction.get.mockResolvedValue(bookingSnapshot({ status: 'cancelled' }));
+
+    const result = await paymentService.recordPayment(booking.enterpriseEmail, 'booking-1', { method: 'card', amount: 10 });
+
+    expect(result.success).toBe(false);
+    expect(mocks.transaction.set).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,674 @@
+import { Queue, Worker, Job } from 'bullmq';
+import {
+    collection,
+    addDoc,
+    getDocs,
+    doc,
+    getDoc,
+    updateDoc,
+    query,
+    where,
+    runTransaction,
+    Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { createQueueConnection } from '../config/redis.js';
+import {
+    Booking,
+    BookingActor,
+    BookingPaymentStatus,
+    DepositRule,
+    Payment,
+    PaymentMethod
+} from '../types/index.js';
+import { bookingService, bookingServiceItems } from './bookingService.js';
+import { enterpriseService } from './enterpriseService.js';
+import { productService } from './productService.js';
+import { getPixProvider, isPixEnabled } from './pixProvider.js';
+import { auditService } from './auditService.js';
+
+const DEPOSIT_QUEUE = 'payment-deposits';
+const DEFAULT_DEPOSIT_TIMEOUT_MINUTES = Number(process.env.DEPOSIT_TIMEOUT_MINUTES) || 30;
+const PIX_CHARGE_TTL_MINUTES = 60;
+
+// Confirmações e cancelamentos automáticos ficam no histórico como do sistema de pagamentos
+const PAYMENT_ACTOR: BookingActor = { uid: 'payments', email: '', role: 'system' };
+
+interface DepositExpiryJob {
+    enterpriseEmail: string;
+    bookingId: string;
+}
+
+export interface RecordPaymentInput {
+    method: PaymentMethod;
+    amount: number;
+    notes?: string;
+}
+
+export interface PaymentSummary {
+    total: number;
+    depositAmount: number;
+    amountPaid: number;
+    balanceDue: number;
+    paymentStatus: BookingPaymentStatus;
+}
+
+const depositQueue = new Queue<DepositExpiryJob>(DEPOSIT_QUEUE, {
+    connection: createQueueConnection(),
+    defaultJobOptions: {
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 10 * 1000 },
+        removeOnComplete: { age: 24 * 3600 },
+        removeOnFail: { age: 7 * 24 * 3600 }
+    }
+});
+
+function paymentsCollectionPath(enterpriseEmail: string): string {
+    return `enterprises/${enterpriseEmail}/payments`;
+}
+
+function depositJobId(bookingId: string): string {
+    return `deposit-${bookingId}`;
+}
+
+function roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+// Referência enviada ao provedor PIX e devolvida no webhook
+function paymentReference(enterpriseEmail: string, paymentId: string): string {
+    return `${enterpriseEmail}:${paymentId}`;
+}
+
+function parsePaymentReference(reference: string): { enterpriseEmail: string; paymentId: string } | null {
+    const separator = reference.lastIndexOf(':');
+    if (separator <= 0) return null;
+
+    return {
+        enterpriseEmail: reference.slice(0, separator),
+        paymentId: reference.slice(separator + 1)
+    };
+}
+
+function depositForPrice(rule: DepositRule, price: number): number {
+    const amount = rule.type === 'percentage' ? price * rule.value / 100 : rule.value;
+    return Math.min(amount, price);
+}
+
+function paymentStatusFor(total: number, depositAmount: number, amountPaid: number): BookingPaymentStatus {
+    if (amountPaid >= total && total > 0) return 'paid';
+    if (depositAmount > 0 && amountPaid < depositAmount) return 'deposit_pending';
+    return amountPaid > 0 ? 'partially_paid' : 'unpaid';
+}
+
+function summarize(booking: Booking, amountPaid: number): PaymentSummary {
+    const total = booking.productPrice || 0;
+    const depositAmount = booking.depositAmount || 0;
+
+    return {
+        total,
+        depositAmount,
+        amountPaid,
+        balanceDue: roundMoney(Math.max(total - amountPaid, 0)),
+        paymentStatus: paymentStatusFor(total, depositAmount, amountPaid)
+    };
+}
+
+export const paymentService = {
+    // Soma o sinal de cada serviço: regra do produto ou, na falta dela, a da empresa
+    async calculateDeposit(booking: Booking): Promise<number> {
+        const enterpriseResult = await enterpriseService.getEnterpriseByEmail(booking.enterpriseEmail);
+        const enterpriseRule = enterpriseResult.data?.deposit;
+
+        let deposit = 0;
+        for (const item of bookingServiceItems(booking)) {
+            const productResult = await productService.getProductById(booking.enterpriseEmail, item.productId);
+            const rule = productResult.data?.deposit || enterpriseRule;
+
+            if (rule) {
+                deposit += depositForPrice(rule, item.price || 0);
+            }
+        }
+
+        return roundMoney(deposit);
+    },
+
+    // Chamado após criar o agendamento: registra o sinal, gera a cobrança PIX
+    // e agenda o cancelamento automático caso o sinal não seja pago. Falha na
+    // cobrança devolve erro para o outbox tentar de novo
+    async setupBookingDeposit(booking: Booking): Promise<{ success: boolean; data?: { booking: Booking; pixCharge?: Payment }; error?: string }> {
+        try {
+            if (!isPixEnabled()) {
+                return { success: true, data: { booking } };
+            }
+
+            // Reprocessamento pelo outbox: cobrança do sinal já gerada não é refeita
+            const currentResult = await bookingService.getBookingById(booking.enterpriseEmail, booking.id!);
+            const current = currentResult.data;
+            if (current?.status === 'cancelled') {
+                return { success: true, data: { booking: current } };
+            }
+
+            const payments = await this.listBookingPayments(booking.enterpriseEmail, booking.id!);
+            const existingCharge = payments.find(payment => payment.isDeposit && payment.status !== 'cancelled');
+            if (current && existingCharge) {
+                return { success: true, data: { booking: current, pixCharge: existingCharge } };
+            }
+
+            const depositAmount = await this.calculateDeposit(booking);
+            if (depositAmount <= 0) {
+                return { success: true, data: { booking } };
+            }
+
+            const enterpriseResult = await enterpriseService.getEnterpriseByEmail(booking.enterpriseEmail);
+            const timeoutMinutes = enterpriseResult.data?.depositTimeoutMinutes ?? DEFAULT_DEPOSIT_TIMEOUT_MINUTES;
+            const depositDueAt = new Date(Date.now() + timeoutMinutes * 60 * 1000);
+
+            const depositFields = {
+                depositAmount,
+                depositDueAt: depositDueAt.toISOString(),
+                amountPaid: current?.amountPaid || 0,
+                paymentStatus: 'deposit_pending' as const
+            };
+
+            await updateDoc(doc(db, `enterprises/${booking.enterpriseEmail}/bookings`, booking.id!), {
+                ...depositFields,
+                updatedAt: Timestamp.now()
+            });
+
+            const updatedBooking = { ...booking, ...depositFields };
+
+            const chargeResult = await this.createPixCharge(booking.enterpriseEmail, booking.id!, {
+                amount: depositAmount,
+                isDeposit: true,
+                expiresAt: depositDueAt
+            });
+
+            // Sem cobrança o cliente não tem como pagar: o cancelamento automático
+            // só é agendado depois que o PIX existe
+            if (!chargeResult.success) {
+                return {
+                    success: false,
+                    error: `Erro ao gerar cobrança PIX do sinal: ${chargeResult.error}`
+                };
+            }
+
+            await depositQueue.add(
+                'expire-deposit',
+                { enterpriseEmail: booking.enterpriseEmail, bookingId: booking.id! },
+                { jobId: depositJobId(booking.id!), delay: timeoutMinutes * 60 * 1000 }
+            );
+
+            return {
+                success: true,
+                data: { booking: updatedBooking, pixCharge: chargeResult.data }
+            };
+        } catch (error) {
+            console.error('Erro ao configurar sinal do agendamento:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Cobrança PIX do sinal gerada no booking.created, devolvida na criação do agendamento
+    async getDepositCharge(enterpriseEmail: string, bookingId: string): Promise<Payment | undefined> {
+        const payments = await this.listBookingPayments(enterpriseEmail, bookingId);
+        return payments.find(payment => payment.isDeposit && payment.status === 'pending');
+    },
+
+    // Sem amount, cobra o saldo devedor
+    async createPixCharge(
+        enterpriseEmail: string,
+        bookingId: string,
+        options: { amount?: number; isDeposit?: boolean; expiresAt?: Date } = {}
+    ): Promise<{ success: boolean; data?: Payment; error?: string }> {
+        try {
+            const provider = getPixProvider();
+            if (!provider) {
+                return {
+                    success: false,
+                    error: `Provedor PIX não configurado: ${process.env.PIX_PROVIDER}`
+                };
+            }
+
+            const bookingResult = await bookingService.getBookingById(enterpriseEmail, bookingId);
+            if (!bookingResult.success || !bookingResult.data) {
+                return { success: false, error: bookingResult.error };
+            }
+
+            const booking = bookingResult.data;
+            if (booking.status === 'cancelled') {
+                return {
+                    success: false,
+                    error: 'Não é possível cobrar um agendamento cancelado'
+                };
+            }
+
+            const amount = roundMoney(options.amount ?? summarize(booking, booking.amountPaid || 0).balanceDue);
+            if (amount <= 0) {
+                return {
+                    success: false,
+                    error: 'Não há saldo a pagar neste agendamento'
+                };
+            }
+
+            const expiresAt = options.expiresAt || new Date(Date.now() + PIX_CHARGE_TTL_MINUTES * 60 * 1000);
+
+            const paymentData: any = {
+                enterpriseEmail,
+                bookingId,
+                method: 'pix',
+                amount,
+                status: 'pending',
+                isDeposit: options.isDeposit === true,
+                provider: provider.name,
+                expiresAt: expiresAt.toISOString(),
+                createdAt: Timestamp.now(),
+                updatedAt: Timestamp.now()
+            };
+
+            const paymentRef = await addDoc(collection(db, paymentsCollectionPath(enterpriseEmail)), paymentData);
+
+            let charge;
+            try {
+                charge = await provider.createCharge({
+                    amount,
+                    description: `${booking.productName} - ${booking.date} ${booking.startTime}`,
+                    reference: paymentReference(enterpriseEmail, paymentRef.id),
+                    expiresAt
+                });
+            } catch (error) {
+                // Cobrança sem PIX no provedor não pode ser paga nem contar como gerada
+                await updateDoc(paymentRef, { status: 'cancelled', updatedAt: Timestamp.now() });
+                throw error;
+            }
+
+            const chargeFields = {
+                providerChargeId: charge.chargeId,
+                pixCopyPaste: charge.copyPaste
+            };
+
+            await updateDoc(paymentRef, chargeFields);
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'payment',
+                entityId: paymentRef.id,
+                action: 'create',
+                after: { ...paymentData, ...chargeFields }
+            });
+
+            return {
+                success: true,
+                data: { id: paymentRef.id, ...paymentData, ...chargeFields }
+            };
+        } catch (error) {
+            console.error('Erro ao gerar cobrança PIX:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Pagamento recebido fora do provedor (dinheiro, cartão na maquininha, PIX direto)
+    async recordPayment(
+        enterpriseEmail: string,
+        bookingId: string,
+        input: RecordPaymentInput,
+        actor?: BookingActor
+    ): Promise<{ success: boolean; data?: Payment; summary?: PaymentSummary; error?: string }> {
+        try {
+            if (!(input.amount > 0)) {
+                return {
+                    success: false,
+                    error: 'O valor do pagamento deve ser maior que zero'
+                };
+            }
+
+            const bookingRef = doc(db, `enterprises/${enterpriseEmail}/bookings`, bookingId);
+            const paymentRef = doc(collection(db, paymentsCollectionPath(enterpriseEmail)));
+            const amount = roundMoney(input.amount);
+
+            // Saldo conferido e amountPaid somado na mesma transação: dois pagamentos
+            // simultâneos não passam ambos pela verificação do saldo
+            const recorded = await runTransaction(db, async (transaction) => {
+                const bookingSnap = await transaction.get(bookingRef);
+                if (!bookingSnap.exists()) {
+                    return { error: 'Agendamento não encontrado' };
+                }
+
+                const booking = { id: bookingSnap.id, ...bookingSnap.data() } as Booking;
+                if (booking.status === 'cancelled') {
+                    return { error: 'Não é possível registrar pagamento em um agendamento cancelado' };
+                }
+
+                const amountPaid = booking.amountPaid || 0;
+                const balanceDue = summarize(booking, amountPaid).balanceDue;
+                if (amount > balanceDue) {
+                    return { error: `Valor maior que o saldo devedor (R$ ${balanceDue.toFixed(2)})` };
+                }
+
+                const paymentData: any = {
+                    enterpriseEmail,
+                    bookingId,
+                    method: input.method,
+                    amount,
+                    status: 'paid',
+                    isDeposit: (booking.depositAmount || 0) > amountPaid,
+                    paidAt: new Date().toISOString(),
+                    createdAt: Timestamp.now(),
+                    updatedAt: Timestamp.now()
+                };
+
+                if (input.notes) paymentData.notes = input.notes;
+                if (actor) paymentData.recordedBy = actor;
+
+                transaction.set(paymentRef, paymentData);
+                transaction.update(bookingRef, {
+                    amountPaid: roundMoney(amountPaid + amount),
+                    updatedAt: Timestamp.now()
+                });
+
+                return { paymentData };
+            });
+
+            if (recorded.error || !recorded.paymentData) {
+                return { success: false, error: recorded.error };
+            }
+
+            const { paymentData } = recorded;
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'payment',
+                entityId: paymentRef.id,
+                action: 'create',
+                after: paymentData,
+                ...(actor && { actor })
+            });
+
+            const summary = await this.refreshBookingBalance(enterpriseEmail, bookingId);
+
+            return {
+                success: true,
+                data: { id: paymentRef.id, ...paymentData },
+                summary
+            };
+        } catch (error) {
+            console.error('Erro ao registrar pagamento:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Idempotente: o provedor pode reenviar a mesma notificação
+    async handlePixWebhook(
+        providerName: string,
+        headers: Record<string, unknown>,
+        body: unknown
+    ): Promise<{ success: boolean; error?: string }> {
+        const provider = getPixProvider(providerName);
+        if (!provider) {
+            return { success: false, error: 'Provedor PIX não encontrado' };
+        }
+
+        const event = provider.parseWebhook(headers, body);
+        const reference = event && parsePaymentReference(event.reference);
+        if (!event || !reference) {
+            return { success: false, error: 'Notificação PIX inválida' };
+        }
+
+        try {
+            const paymentRef = doc(db, paymentsCollectionPath(reference.enterpriseEmail), reference.paymentId);
+
+            // Lê e grava na mesma transação: a expiração do sinal (expireDeposit)
+            // e notificações repetidas não sobrescrevem umas às outras
+            const change = await runTransaction(db, async (transaction) => {
+                const paymentSnap = await transaction.get(paymentRef);
+                if (!paymentSnap.exists()) {
+                    return { error: 'Pagamento não encontrado' };
+                }
+
+                const payment = { id: paymentSnap.id, ...paymentSnap.data() } as Payment;
+                if (payment.provider !== provider.name || payment.providerChargeId !== event.chargeId) {
+                    return { error: 'Notificação PIX inválida' };
+                }
+
+                if (event.status === 'expired') {
+                    if (payment.status !== 'pending') return { payment };
+
+                    const update = { status: 'expired' as const };
+                    transaction.update(paymentRef, { ...update, updatedAt: Timestamp.now() });
+                    return { payment, update };
+                }
+
+                if (payment.status === 'paid') return { payment };
+
+                // Dinheiro recebido depois da expiração ou do cancelamento da cobrança:
+                // registra o pagamento e marca para a empresa reembolsar ou reativar
+                const update: Partial<Payment> = {
+                    status: 'paid',
+                    amount: roundMoney(event.paidAmount ?? payment.amount),
+                    paidAt: new Date().toISOString(),
+                    ...(payment.status !== 'pending' && {
+                        requiresReview: true,
+                        reviewReason: payment.status === 'expired'
+                            ? 'Pagamento recebido depois da expiração da cobrança'
+                            : 'Pagamento recebido depois do cancelamento da cobrança'
+                    })
+                };
+                transaction.update(paymentRef, { ...update, updatedAt: Timestamp.now() });
+                return { payment, update };
+            });
+
+            if (change.error || !change.payment) {
+                return { success: false, error: change.error };
+            }
+
+            if (!change.update) {
+                return { success: true };
+            }
+
+            const { payment, update } = change;
+
+            await auditService.record(reference.enterpriseEmail, {
+                entityType: 'payment',
+                entityId: payment.id!,
+                action: 'update',
+                before: payment,
+                after: { ...payment, ...update },
+                actor: PAYMENT_ACTOR
+            });
+
+            if (update.status === 'paid') {
+                await this.refreshBookingBalance(reference.enterpriseEmail, payment.bookingId);
+
+                if (update.requiresReview) {
+                    await this.flagBookingForReview(reference.enterpriseEmail, payment.bookingId);
+                }
+            }
+
+            return { success: true };
+        } catch (error) {
+            console.error('Erro ao processar webhook PIX:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async listBookingPayments(enterpriseEmail: string, bookingId: string): Promise<Payment[]> {
+        const paymentsQuery = query(
+            collection(db, paymentsCollectionPath(enterpriseEmail)),
+            where('bookingId', '==', bookingId)
+        );
+
+        const snapshot = await getDocs(paymentsQuery);
+        return snapshot.docs
+            .map(d => ({ id: d.id, ...d.data() }) as Payment)
+            .sort((a, b) => (a.createdAt?.toMillis?.() || 0) - (b.createdAt?.toMillis?.() || 0));
+    },
+
+    // Recalcula o total pago; sinal quitado confirma o agendamento pendente
+    async refreshBookingBalance(enterpriseEmail: string, bookingId: string): Promise<PaymentSummary | undefined> {
+        const bookingResult = await bookingService.getBookingById(enterpriseEmail, bookingId);
+        if (!bookingResult.success || !bookingResult.data) {
+            return undefined;
+        }
+
+        const booking = bookingResult.data;
+        const payments = await this.listBookingPayments(enterpriseEmail, bookingId);
+        const amountPaid = roundMoney(
+            payments.filter(p => p.status === 'paid').reduce((total, p) => total + p.amount, 0)
+        );
+        const summary = summarize(booking, amountPaid);
+
+        await updateDoc(doc(db, `enterprises/${enterpriseEmail}/bookings`, bookingId), {
+            amountPaid,
+            paymentStatus: summary.paymentStatus,
+            updatedAt: Timestamp.now()
+        });
+
+        const depositAmount = booking.depositAmount || 0;
+        if (depositAmount > 0 && amountPaid >= depositAmount) {
+            await this.removeDepositExpiry(bookingId);
+
+            if (booking.status === 'pending') {
+                await bookingService.confirmBooking(enterpriseEmail, bookingId, PAYMENT_ACTOR);
+            }
+        }
+
+        return summary;
+    },
+
+    async getBookingPayments(
+        enterpriseEmail: string,
+        bookingId: string
+    ): Promise<{ success: boolean; data?: { payments: Payment[]; summary: PaymentSummary }; error?: string }> {
+        try {
+            const bookingResult = await bookingService.getBookingById(enterpriseEmail, bookingId);
+            if (!bookingResult.success || !bookingResult.data) {
+                return { success: false, error: bookingResult.error };
+            }
+
+            const payments = await this.listBookingPayments(enterpriseEmail, bookingId);
+            const amountPaid = roundMoney(
+                payments.filter(p => p.status === 'paid').reduce((total, p) => total + p.amount, 0)
+            );
+
+            return {
+                success: true,
+                data: { payments, summary: summarize(bookingResult.data, amountPaid) }
+            };
+        } catch (error) {
+            console.error('Erro ao buscar pagamentos do agendamento:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Executado pelo worker quando o prazo do sinal termina
+    async expireDeposit(enterpriseEmail: string, bookingId: string): Promise<void> {
+        const bookingResult = await bookingService.getBookingById(enterpriseEmail, bookingId);
+        if (!bookingResult.success || !bookingResult.data) return;
+
+        const booking = bookingResult.data;
+        if (booking.status !== 'pending' || (booking.amountPaid || 0) >= (booking.depositAmount || 0)) {
+            return;
+        }
+
+        // Cada cobrança só expira se ainda estiver pendente no momento da gravação;
+        // um PIX pago nesse meio tempo mantém o agendamento
+        const payments = await this.listBookingPayments(enterpriseEmail, bookingId);
+        for (const payment of payments.filter(p => p.status === 'pending')) {
+            const paymentRef = doc(db, paymentsCollectionPath(enterpriseEmail), payment.id!);
+
+            await runTransaction(db, async (transaction) => {
+                const paymentSnap = await transaction.get(paymentRef);
+                if (paymentSnap.data()?.status !== 'pending') return;
+
+                transaction.update(paymentRef, {
+                    status: 'expired',
+                    updatedAt: Timestamp.now()
+                });
+            });
+        }
+
+        const summary = await this.refreshBookingBalance(enterpriseEmail, bookingId);
+        if (summary && summary.amountPaid >= (booking.depositAmount || 0)) {
+            return;
+        }
+
+        const result = await bookingService.cancelBooking(enterpriseEmail, bookingId, PAYMENT_ACTOR);
+        if (result.success) {
+            console.log(`Agendamento ${bookingId} cancelado: sinal não pago no prazo`);
+        }
+    },
+
+    // Agendamento cancelado que recebeu pagamento fica marcado para revisão
+    async flagBookingForReview(enterpriseEmail: string, bookingId: string): Promise<void> {
+        const bookingResult = await bookingService.getBookingById(enterpriseEmail, bookingId);
+        const booking = bookingResult.data;
+        if (!booking || booking.status !== 'cancelled' || booking.paymentReviewRequired) return;
+
+        await updateDoc(doc(db, `enterprises/${enterpriseEmail}/bookings`, bookingId), {
+            paymentReviewRequired: true,
+            updatedAt: Timestamp.now()
+        });
+
+        await auditService.record(enterpriseEmail, {
+            entityType: 'booking',
+            entityId: bookingId,
+            action: 'update',
+            before: booking,
+            after: { ...booking, paymentReviewRequired: true },
+            actor: PAYMENT_ACTOR
+        });
+
+        console.warn(`Agendamento ${bookingId} recebeu pagamento após expirar: revisar reembolso`);
+    },
+
+    async removeDepositExpiry(bookingId: string): Promise<void> {
+        try {
+            const job = await depositQueue.getJob(depositJobId(bookingId));
+            if (job) {
+                await job.remove();
+            }
+        } catch (error) {
+            console.error('Erro ao remover expiração do sinal:', error);
+        }
+    }
+};
+
+export function startPaymentWorker(): Worker<DepositExpiryJob> {
+    const worker = new Worker<DepositExpiryJob>(
+        DEPOSIT_QUEUE,
+        async (job: Job<DepositExpiryJob>) => {
+            await paymentService.expireDeposit(job.data.enterpriseEmail, job.data.bookingId);
+        },
+        {
+            connection: createQueueConnection(),
+            concurrency: 5
+        }
+    );
+
+    worker.on('failed', (job, error) => {
+        console.error(`Erro ao expirar sinal do agendamento ${job?.data.bookingId}:`, error.message);
+    });
+
+    worker.on('error', (error) => {
+        console.error('Erro no worker de pagamentos:', error);
+    });
+
+    return worker;
+}
+
+export async function closePaymentQueue(): Promise<void> {
+    await depositQueue.close();
+}
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Booking } from '../types/index.js';
+
+const mocks = vi.hoisted(() => ({
+  getBookingsInRange: vi.fn(),
+  auditRecord: vi.fn(),
+  transaction: { get: vi.fn(), set: vi.fn(), update: vi.fn() }
+}));
+
+vi.mock('firebase/firestore', async importOriginal => ({
+  ...(await importOriginal<typeof import('firebase/firestore')>()),
+  collection: vi.fn((_db, path: string) => ({ path })),
+  doc: vi.fn((_db?: unknown, path?: string, id?: string) => ({ id: id || 'statement-1', path })),
+  runTransaction: vi.fn((_db, run: (transaction: unknown) => unknown) => run(mocks.transaction))
+}));
+
+vi.mock('./bookingService.js', () => ({
+  bookingServiceItems: (booking: Booking) => [
+    { productId: booking.productId, productName: booking.productName, price: booking.productPrice }
+  ]
+}));
+vi.mock('./reportService.js', () => ({
+  reportService: { validateRange: () => undefined, getBookingsInRange: mocks.getBookingsInRange }
+}));
+vi.mock('./commissionService.js', () => ({
+  commissionService: {
+    listRules: async () => ({ success: true, data: [] }),
+    calculateCommission: (_rules: unknown, _target: unknown, price: number) => ({
+      commissionType: 'percentage',
+      commissionValue: 40,
+      commission: price * 0.4
+    })
+  }
+}));
+vi.mock('./employeeService.js', () => ({
+  employeeService: { getAllEmployees: async () => ({ success: true, data: [{ id: 'func-1', name: 'Ana' }] }) }
+}));
+vi.mock('./productService.js', () => ({
+  productService: { getProducts: async () => ({ success: true, data: [] }) }
+}));
+vi.mock('./auditService.js', () => ({
+  auditService: { record: mocks.auditRecord }
+}));
+
+const { payoutService } = await import('./payoutService.js');
+
+const period = { startDate: '2026-09-01', endDate: '2026-09-30' };
+
+function completedBookings(count: number): Booking[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `booking-${index}`,
+    employeeId: 'func-1',
+    productId: 'corte',
+    productName: 'Corte',
+    productPrice: 50,
+    date: '2026-09-10',
+    startTime: '14:00',
+    status: 'completed'
+  }) as Booking);
+}
+
+describe('payoutService.closeStatement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.transaction.get.mockResolvedValue({ data: () => ({}) });
+  });
+
+  it('grava o extrato e marca cada atendimento na mesma transação', async () => {
+    mocks.getBookingsInRange.mockResolvedValue(completedBookings(2));
+
+    const result = await payoutService.closeStatement('empresa@exemplo.com', 'func-1', period);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ id: 'statement-1', status: 'closed', bookingCount: 2, totalCommission: 40 });
+    expect(mocks.transaction.set).toHaveBeenCalledTimes(1);
+    expect(mocks.transaction.update).toHaveBeenCalledTimes(2);
+    expect(mocks.transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'booking-0' }),
+      expect.objectContaining({ payoutStatementId: 'statement-1' })
+    );
+  });
+
+  it('recusa períodos com mais atendimentos do que cabem em uma transação', async () => {
+    mocks.getBookingsInRange.mockResolvedValue(completedBookings(500));
+
+    const result = await payoutService.closeStatement('empresa@exemplo.com', 'func-1', period);
+
+    expect(result).toEqual({
+      success: false,
+      error: 'O extrato pode ter no máximo 499 atendimentos; feche um período menor'
+    });
+    expect(mocks.transaction.set).not.toHaveBeenCalled();
+    expect(mocks.transaction.update).not.toHaveBeenCalled();
+  });
+
+  it('não fecha quando algum atendimento já entrou em outro extrato', async () => {
+    mocks.getBookingsInRange.mockResolvedValue(completedBookings(2));
+    mocks.transaction.get.mockResolvedValueOnce({ data: () => ({ payoutStatementId: 'outro' }) });
+
+    const result = await payoutService.closeStatement('empresa@exemplo.com', 'func-1', period);
+
+    expect(result.success).toBe(false);
+    expect(mocks.transaction.set).not.toHaveBeenCalled();
+    expect(mocks.auditRecord).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,278 @@
+import {
+    collection,
+    getDocs,
+    doc,
+    getDoc,
+    query,
+    where,
+    runTransaction,
+    Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { Booking, BookingActor, Employee, PayoutLine, PayoutStatement } from '../types/index.js';
+import { bookingServiceItems } from './bookingService.js';
+import { commissionService } from './commissionService.js';
+import { employeeService } from './employeeService.js';
+import { productService } from './productService.js';
+import { reportService } from './reportService.js';
+import { auditService } from './auditService.js';
+
+// Uma transação do Firestore aceita até 500 escritas: o extrato ocupa uma e
+// cada atendimento marcado, outra
+const MAX_BOOKINGS_PER_STATEMENT = 499;
+
+export interface PayoutPeriod {
+    startDate: string;
+    endDate: string;
+}
+
+function statementsCollectionPath(enterpriseEmail: string): string {
+    return `enterprises/${enterpriseEmail}/payoutStatements`;
+}
+
+function roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+export const payoutService = {
+    // Extratos em aberto: atendimentos concluídos no período que ainda não
+    // entraram em nenhum extrato fechado
+    async buildStatements(
+        enterpriseEmail: string,
+        period: PayoutPeriod,
+        employeeId?: string
+    ): Promise<{ success: boolean; data?: PayoutStatement[]; error?: string }> {
+        try {
+            const rangeError = reportService.validateRange(period);
+            if (rangeError) {
+                return { success: false, error: rangeError };
+            }
+
+            const [bookings, rulesResult, employeesResult, productsResult] = await Promise.all([
+                reportService.getBookingsInRange(enterpriseEmail, period),
+                commissionService.listRules(enterpriseEmail),
+                employeeService.getAllEmployees(enterpriseEmail),
+                productService.getProducts(enterpriseEmail)
+            ]);
+
+            const rules = rulesResult.data || [];
+            const employees = new Map<string, Employee>(
+                (employeesResult.data || []).map(employee => [employee.id!, employee])
+            );
+            const categories = new Map<string, string | undefined>(
+                (productsResult.data || []).map(product => [product.id!, product.category])
+            );
+
+            const payable = bookings
+                .filter(booking =>
+                    booking.status === 'completed' &&
+                    booking.employeeId &&
+                    !booking.payoutStatementId &&
+                    (!employeeId || booking.employeeId === employeeId)
+                )
+                .sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`));
+
+            const statements = new Map<string, PayoutStatement>();
+
+            for (const booking of payable) {
+                const bookingEmployeeId = booking.employeeId!;
+                const employee = employees.get(bookingEmployeeId);
+
+                if (!statements.has(bookingEmployeeId)) {
+                    statements.set(bookingEmployeeId, {
+                        enterpriseEmail,
+                        employeeId: bookingEmployeeId,
+                        employeeName: employee?.name || booking.employeeName || bookingEmployeeId,
+                        startDate: period.startDate,
+                        endDate: period.endDate,
+                        status: 'open',
+                        lines: [],
+                        bookingCount: 0,
+                        totalRevenue: 0,
+                        totalCommission: 0
+                    });
+                }
+
+                const statement = statements.get(bookingEmployeeId)!;
+                statement.bookingCount++;
+
+                for (const item of bookingServiceItems(booking)) {
+                    const skill = employee?.skills?.find(s => s.productId === item.productId);
+                    const amount = commissionService.calculateCommission(rules, {
+                        employeeId: bookingEmployeeId,
+                        productId: item.productId,
+                        category: categories.get(item.productId),
+                        experienceLevel: skill?.experienceLevel
+                    }, item.price || 0);
+
+                    const line: PayoutLine = {
+                        bookingId: booking.id!,
+                        date: booking.date,
+                        productId: item.productId,
+                        productName: item.productName,
+                        price: item.price || 0,
+                        ...amount
+                    };
+                    if (!line.ruleId) delete line.ruleId;
+
+                    statement.lines.push(line);
+                    statement.totalRevenue = roundMoney(statement.totalRevenue + line.price);
+                    statement.totalCommission = roundMoney(statement.totalCommission + line.commission);
+                }
+            }
+
+            return {
+                success: true,
+                data: Array.from(statements.values()).sort((a, b) => a.employeeName.localeCompare(b.employeeName, 'pt-BR'))
+            };
+        } catch (error) {
+            console.error('Erro ao calcular comissões:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Congela os valores do extrato e marca os agendamentos como pagos
+    async closeStatement(
+        enterpriseEmail: string,
+        employeeId: string,
+        period: PayoutPeriod,
+        actor?: BookingActor
+    ): Promise<{ success: boolean; data?: PayoutStatement; error?: string }> {
+        try {
+            const statementsResult = await this.buildStatements(enterpriseEmail, period, employeeId);
+            if (!statementsResult.success || !statementsResult.data) {
+                return { success: false, error: statementsResult.error };
+            }
+
+            const statement = statementsResult.data[0];
+            if (!statement) {
+                return {
+                    success: false,
+                    error: 'Nenhum atendimento pendente de pagamento no período'
+                };
+            }
+
+            const bookingIds = Array.from(new Set(statement.lines.map(line => line.bookingId)));
+            if (bookingIds.length > MAX_BOOKINGS_PER_STATEMENT) {
+                return {
+                    success: false,
+                    error: `O extrato pode ter no máximo ${MAX_BOOKINGS_PER_STATEMENT} atendimentos; feche um período menor`
+                };
+            }
+
+            const closedStatement: PayoutStatement & { closedAt: string; createdAt: Timestamp; closedBy?: BookingActor } = {
+                ...statement,
+                status: 'closed',
+                closedAt: new Date().toISOString(),
+                createdAt: Timestamp.now()
+            };
+            if (actor) closedStatement.closedBy = actor;
+
+            const statementRef = doc(collection(db, statementsCollectionPath(enterpriseEmail)));
+            const bookingRefs = bookingIds
+                .map(bookingId => doc(db, `enterprises/${enterpriseEmail}/bookings`, bookingId));
+
+            // Extrato e marcação dos atendimentos na mesma transação: dois fechamentos
+            // simultâneos não pagam o mesmo atendimento duas vezes
+            const alreadyClosed = await runTransaction(db, async (transaction) => {
+                const bookingSnaps = await Promise.all(bookingRefs.map(bookingRef => transaction.get(bookingRef)));
+                if (bookingSnaps.some(bookingSnap => bookingSnap.data()?.payoutStatementId)) {
+                    return true;
+                }
+
+                transaction.set(statementRef, closedStatement);
+                for (const bookingRef of bookingRefs) {
+                    transaction.update(bookingRef, {
+                        payoutStatementId: statementRef.id,
+                        updatedAt: Timestamp.now()
+                    });
+                }
+                return false;
+            });
+
+            if (alreadyClosed) {
+                return {
+                    success: false,
+                    error: 'Atendimentos do período já entraram em outro extrato; consulte o extrato novamente'
+                };
+            }
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'payoutStatement',
+                entityId: statementRef.id,
+                action: 'close',
+                after: closedStatement,
+                ...(actor && { actor })
+            });
+
+            return {
+                success: true,
+                data: { id: statementRef.id, ...closedStatement }
+            };
+        } catch (error) {
+            console.error('Erro ao fechar extrato de comissões:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async listStatements(
+        enterpriseEmail: string,
+        employeeId?: string
+    ): Promise<{ success: boolean; data?: PayoutStatement[]; error?: string }> {
+        try {
+            const statementsRef = collection(db, statementsCollectionPath(enterpriseEmail));
+            const statementsQuery = employeeId
+                ? query(statementsRef, where('employeeId', '==', employeeId))
+                : query(statementsRef);
+
+            const snapshot = await getDocs(statementsQuery);
+            const statements = snapshot.docs
+                .map(d => ({ id: d.id, ...d.data() }) as PayoutStatement)
+                .sort((a, b) => b.endDate.localeCompare(a.endDate));
+
+            return {
+                success: true,
+                data: statements
+            };
+        } catch (error) {
+            console.error('Erro ao listar extratos de comissões:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async getStatement(
+        enterpriseEmail: string,
+        statementId: string
+    ): Promise<{ success: boolean; data?: PayoutStatement; error?: string }> {
+        try {
+            const statementSnap = await getDoc(doc(db, statementsCollectionPath(enterpriseEmail), statementId));
+
+            if (!statementSnap.exists()) {
+                return {
+                    success: false,
+                    error: 'Extrato não encontrado'
+                };
+            }
+
+            return {
+                success: true,
+                data: { id: statementSnap.id, ...statementSnap.data() } as PayoutStatement
+            };
+        } catch (error) {
+            console.error('Erro ao buscar extrato de comissões:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    }
+};
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getPixConfigurationError, getPixProvider, isPixEnabled } from './pixProvider.js';
+
+describe('getPixProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('usa o fake sem PIX_PROVIDER fora de produção', () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('PIX_PROVIDER', '');
+
+    expect(getPixProvider()?.name).toBe('fake');
+  });
+
+  it('não cai no fake sem PIX_PROVIDER em produção', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('PIX_PROVIDER', '');
+
+    expect(getPixProvider()).toBeUndefined();
+  });
+
+  it('não devolve provedor desconhecido', () => {
+    expect(getPixProvider('inexistente')).toBeUndefined();
+  });
+});
+
+describe('getPixConfigurationError', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('exige PIX_PROVIDER em produção', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('PIX_PROVIDER', '');
+
+    expect(getPixConfigurationError()).toMatch(/PIX_PROVIDER não definido/);
+  });
+
+  it('recusa o fake em produção', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('PIX_PROVIDER', 'fake');
+
+    expect(getPixConfigurationError()).toMatch(/PIX_PROVIDER=fake/);
+  });
+
+  it('aceita "none" em produção e desativa os sinais', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('PIX_PROVIDER', 'none');
+
+    expect(getPixConfigurationError()).toBeUndefined();
+    expect(isPixEnabled()).toBe(false);
+  });
+
+  it('recusa provedor desconhecido', () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('PIX_PROVIDER', 'inexistente');
+
+    expect(getPixConfigurationError()).toBe('Provedor PIX desconhecido: inexistente');
+  });
+
+  it('aceita o fake fora de produção', () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('PIX_PROVIDER', 'fake');
+
+    expect(getPixConfigurationError()).toBeUndefined();
+    expect(isPixEnabled()).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { randomUUID } from 'crypto';
+
+export interface CreatePixChargeInput {
+  amount: number;
+  description: string;
+  reference: string; // Devolvido pelo provedor no webhook para localizar o pagamento
+  expiresAt: Date;
+}
+
+export interface PixCharge {
+  chargeId: string;
+  copyPaste: string;
+  expiresAt: Date;
+}
+
+export interface PixWebhookEvent {
+  chargeId: string;
+  reference: string;
+  status: 'paid' | 'expired';
+  paidAmount?: number;
+}
+
+// Contrato dos provedores de cobrança PIX
+export interface PixProvider {
+  readonly name: string;
+  createCharge(input: CreatePixChargeInput): Promise<PixCharge>;
+  // null quando a notificação não é válida ou não diz respeito a uma cobrança
+  parseWebhook(headers: Record<string, unknown>, body: unknown): PixWebhookEvent | null;
+}
+
+// Provedor local para desenvolvimento: gera códigos fictícios e aceita
+// webhooks simulados com { chargeId, reference, status }
+class FakePixProvider implements PixProvider {
+  readonly name = 'fake';
+
+  async createCharge(input: CreatePixChargeInput): Promise<PixCharge> {
+    const chargeId = randomUUID().replace(/-/g, '');
+
+    return {
+      chargeId,
+      copyPaste: `00020126FAKEPIX${chargeId}5204000053039865405${input.amount.toFixed(2)}6304FAKE`,
+      expiresAt: input.expiresAt
+    };
+  }
+
+  parseWebhook(_headers: Record<string, unknown>, body: unknown): PixWebhookEvent | null {
+    if (process.env.NODE_ENV === 'production') {
+      return null;
+    }
+
+    const event = body as Partial<PixWebhookEvent> | undefined;
+    if (!event?.chargeId || !event.reference || (event.status !== 'paid' && event.status !== 'expired')) {
+      return null;
+    }
+
+    return {
+      chargeId: event.chargeId,
+      reference: event.reference,
+      status: event.status,
+      ...(typeof event.paidAmount === 'number' && { paidAmount: event.paidAmount })
+    };
+  }
+}
+
+const providers: Record<string, PixProvider> = {
+  fake: new FakePixProvider()
+};
+
+// PIX_PROVIDER=none desliga sinais e cobranças. Sem a variável, só fora de produção
+// cai no fake: em produção o fake não aceita webhooks e nenhum sinal seria pago
+export function getPixProvider(name: string | undefined = process.env.PIX_PROVIDER): PixProvider | undefined {
+  const providerName = name || (process.env.NODE_ENV === 'production' ? undefined : 'fake');
+  return providerName ? providers[providerName] : undefined;
+}
+
+export function isPixEnabled(): boolean {
+  return process.env.PIX_PROVIDER !== 'none';
+}
+
+// Verificado na inicialização da API e do worker; undefined quando a configuração é válida
+export function getPixConfigurationError(): string | undefined {
+  const name = process.env.PIX_PROVIDER;
+  if (name === 'none') return undefined;
+
+  if (process.env.NODE_ENV === 'production') {
+    if (!name) {
+      return 'PIX_PROVIDER não definido: informe o provedor PIX ou "none" para desativar sinais e cobranças';
+    }
+    if (name === 'fake') {
+      return 'PIX_PROVIDER=fake não recebe pagamentos em produção: informe o provedor PIX ou "none"';
+    }
+  }
+
+  if (name && !providers[name]) {
+    return `Provedor PIX desconhecido: ${name}`;
+  }
+
+  return undefined;
+}
@@ -2,6 +2,7 @@ import { db, isFirebaseConfigured } from "../config/firebase.js";
 import { collection, getDocs, doc, getDoc, setDoc, updateDoc, deleteDoc, Timestamp } from "firebase/firestore";
 import { Product } from "../types/index.js";
 import { createSuccessResponse, createErrorResponse, standardMessages, logError, logInfo, ApiResponse } from '../utils/responseHelpers.js';
+import { auditService } from './auditService.js';
 
 function convertDate(dateField: any): Date {
     if (!dateField) return new Date();
@@ -64,6 +65,7 @@ export const productService = {
                         description: data.description || '',
                         category: data.category || '',
                         isActive: data.isActive !== false,
+                        ...(data.deposit && { deposit: data.deposit }),
                         createdAt: convertDate(data.createdAt),
                         updatedAt: convertDate(data.updatedAt)
                     });
@@ -134,6 +136,7 @@ export const productService = {
                         description: data.description || '',
                         category: data.category || '',
                         isActive: data.isActive !== false,
+                        ...(data.deposit && { deposit: data.deposit }),
                         createdAt: convertDate(data.createdAt),
                         updatedAt: convertDate(data.updatedAt)
                     });
@@ -215,6 +218,7 @@ export const productService = {
                 description: data.description || '',
                 category: data.category || '',
                 isActive: data.isActive !== false,
+                ...(data.deposit && { deposit: data.deposit }),
                 createdAt: convertDate(data.createdAt),
                 updatedAt: convertDate(data.updatedAt)
             };
@@ -262,8 +266,17 @@ export const productService = {
             };
 
             const docRef = doc(db, `enterprises/${enterpriseEmail}/products`, productId);
+            const previousDoc = await getDoc(docRef);
             await setDoc(docRef, docData);
 
+            await auditService.record(enterpriseEmail, {
+                entityType: 'product',
+                entityId: productId,
+                action: previousDoc.exists() ? 'update' : 'create',
+                before: previousDoc.exists() ? previousDoc.data() : null,
+                after: docData
+            });
+
             const product: Product = {
                 id: productId,
                 ...productData,
@@ -318,8 +331,24 @@ export const productService = {
                 updatedAt: Timestamp.now()
             };
 
+            const previousDoc = await getDoc(docRef);
+            if (!previousDoc.exists()) {
+                return createErrorResponse(
+                    standardMessages.notFound('Produto'),
+                    `Produto com ID ${id} não encontrado`
+                );
+            }
+
             await updateDoc(docRef, updateData);
 
+            await auditService.record(enterpriseEmail, {
+                entityType: 'product',
+                entityId: id,
+                action: 'update',
+                before: previousDoc.data(),
+                after: { ...previousDoc.data(), ...updateData }
+            });
+
             const updatedDoc = await getDoc(docRef);
             
             if (!updatedDoc.exists()) {
@@ -338,6 +367,7 @@ export const productService = {
                 description: data?.description || '',
                 category: data?.category || '',
                 isActive: data?.isActive !== false,
+                ...(data?.deposit && { deposit: data.deposit }),
                 createdAt: convertDate(data?.createdAt),
                 updatedAt: convertDate(data?.updatedAt)
             };
@@ -396,6 +426,13 @@ export const productService = {
 
             await deleteDoc(docRef);
 
+            await auditService.record(enterpriseEmail, {
+                entityType: 'product',
+                entityId: id,
+                action: 'delete',
+                before: docSnap.data()
+            });
+
             logInfo('deleteProduct', 'Produto deletado com sucesso', { id, enterpriseEmail });
 
             return createSuccessResponse(
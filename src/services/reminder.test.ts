@@ -0,0 +1,158 @@
+import { Queue } from 'bullmq';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Booking } from '../types/index.js';
+import { calculateReminderDelay, executeReminder, rescheduleBookingReminder } from './reminder.js';
+
+const mocks = vi.hoisted(() => ({
+  getBookingById: vi.fn(),
+  send: vi.fn()
+}));
+
+vi.mock('./bookingService.js', () => ({
+  bookingService: { getBookingById: mocks.getBookingById }
+}));
+vi.mock('./messagingService.js', () => ({
+  messagingService: { send: mocks.send }
+}));
+vi.mock('./messageTemplateService.js', () => ({
+  messageTemplateService: { render: async () => ({ subject: 'Lembrete', text: 'Seu horário é hoje' }) }
+}));
+vi.mock('./enterpriseService.js', () => ({
+  enterpriseService: { getEnterpriseTimeZone: async () => 'America/Sao_Paulo' }
+}));
+vi.mock('./manageLink.js', () => ({
+  createManageToken: () => 'token',
+  buildManageUrl: () => 'https://app/manage',
+  buildBookingCalendarUrl: () => 'https://api/calendar.ics'
+}));
+
+describe('calculateReminderDelay', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // 13:00 em São Paulo (UTC-3)
+    vi.setSystemTime(new Date('2026-03-10T16:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('agenda 30 minutos antes do horário em produção, no fuso da empresa', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect(calculateReminderDelay('2026-03-10', '14:00')).toBe(30 * 60);
+    expect(calculateReminderDelay('2026-03-10', '14:00', 'America/Manaus')).toBe(90 * 60);
+  });
+
+  it('agenda 30 segundos antes do horário fora de produção', () => {
+    vi.stubEnv('NODE_ENV', 'development');
+
+    expect(calculateReminderDelay('2026-03-10', '14:00')).toBe(60 * 60 - 30);
+  });
+
+  it('retorna zero quando o horário do lembrete já passou', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect(calculateReminderDelay('2026-03-10', '13:20')).toBe(0);
+    expect(calculateReminderDelay('2026-03-09', '14:00')).toBe(0);
+  });
+});
+
+const booking = {
+  id: 'booking-1',
+  enterpriseEmail: 'empresa@exemplo.com',
+  clientName: 'Ana',
+  clientPhone: '11999998888',
+  productName: 'Corte',
+  date: '2026-03-12',
+  startTime: '15:00',
+  status: 'confirmed'
+} as Booking;
+
+describe('rescheduleBookingReminder', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-10T16:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('agenda o novo horário mesmo com o lembrete anterior em execução', async () => {
+    const activeJob = { getState: vi.fn(async () => 'active'), remove: vi.fn() };
+    const getJob = vi.spyOn(Queue.prototype, 'getJob').mockImplementation((async (jobId: string) =>
+      jobId === 'reminder-booking-1-2026-03-11-1000' ? activeJob : undefined) as never);
+    const add = vi.spyOn(Queue.prototype, 'add');
+
+    const scheduled = await rescheduleBookingReminder({
+      ...booking,
+      rescheduleHistory: [{ date: '2026-03-11', startTime: '10:00', endTime: '10:30', rescheduledAt: '2026-03-10T15:00:00Z' }]
+    });
+
+    expect(scheduled).toBe(true);
+    expect(getJob).toHaveBeenCalledWith('reminder-booking-1-2026-03-11-1000');
+    expect(activeJob.remove).not.toHaveBeenCalled();
+    expect(add).toHaveBeenCalledWith(
+      'send-reminder',
+      expect.objectContaining({ date: '2026-03-12', startTime: '15:00' }),
+      expect.objectContaining({ jobId: 'reminder-booking-1-2026-03-12-1500' })
+    );
+  });
+});
+
+describe('executeReminder', () => {
+  const data = {
+    bookingId: 'booking-1',
+    enterpriseEmail: 'empresa@exemplo.com',
+    clientName: 'Ana',
+    clientPhone: '11999998888',
+    productName: 'Corte',
+    bookingDateTime: '2026-03-12T15:00:00-03:00',
+    timeZone: 'America/Sao_Paulo',
+    date: '2026-03-12',
+    startTime: '15:00'
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.send.mockResolvedValue({ provider: 'whatsapp' });
+  });
+
+  it('envia o lembrete de agendamento ativo no mesmo horário', async () => {
+    mocks.getBookingById.mockResolvedValue({ success: true, data: booking });
+
+    await executeReminder('booking-1', data);
+
+    expect(mocks.send).toHaveBeenCalledWith('booking_reminder', expect.objectContaining({ text: 'Seu horário é hoje' }), 'empresa@exemplo.com');
+  });
+
+  it.each([
+    ['cancelado', { ...booking, status: 'cancelled' }],
+    ['concluído', { ...booking, status: 'completed' }],
+    ['movido para outro horário', { ...booking, startTime: '16:00' }]
+  ])('não envia para agendamento %s', async (_label, current) => {
+    mocks.getBookingById.mockResolvedValue({ success: true, data: current });
+
+    await executeReminder('booking-1', data);
+
+    expect(mocks.send).not.toHaveBeenCalled();
+  });
+
+  it('não envia para agendamento removido', async () => {
+    mocks.getBookingById.mockResolvedValue({ success: false, error: 'Agendamento não encontrado' });
+
+    await executeReminder('booking-1', data);
+
+    expect(mocks.send).not.toHaveBeenCalled();
+  });
+
+  it('falha para o BullMQ tentar de novo quando não consegue ler o agendamento', async () => {
+    mocks.getBookingById.mockResolvedValue({ success: false, error: 'unavailable' });
+
+    await expect(executeReminder('booking-1', data)).rejects.toThrow('unavailable');
+    expect(mocks.send).not.toHaveBeenCalled();
+  });
+});
@@ -1,139 +1,301 @@
-import { redis } from "../config/redis.js";
-import { sendMessage } from "./sendmessage.js";
+import { Queue, Worker, Job } from "bullmq";
+import { createQueueConnection } from "../config/redis.js";
+import { messagingService } from "./messagingService.js";
+import { messageTemplateService } from "./messageTemplateService.js";
+import { createManageToken, buildManageUrl, buildBookingCalendarUrl } from "./manageLink.js";
+import { normalizePhone } from "../utils/phone.js";
+import { Booking } from "../types/index.js";
+import { enterpriseService } from "./enterpriseService.js";
+import { bookingService } from "./bookingService.js";
+import { DEFAULT_TIME_ZONE, formatInTimeZone, toZonedIsoString, zonedDateTimeToUtc } from "../utils/dateTime.js";
 
 interface SimpleReminderData {
   bookingId: string;
+  enterpriseEmail?: string;
   clientName: string;
   clientPhone: string;
+  clientEmail?: string; // Alternativa quando o WhatsApp falha
   productName: string;
+  employeeName?: string;
   bookingDateTime: string;
+  timeZone?: string; // Fuso da empresa, usado para formatar a mensagem
+  // Horário a que o lembrete se refere; conferido com o agendamento no envio
+  date?: string;
+  startTime?: string;
+  isTest?: boolean; // Lembrete de teste, sem agendamento salvo
 }
 
+interface ReminderSlot {
+  date: string;
+  startTime: string;
+}
+
+const REMINDER_QUEUE = "reminders";
+const DEAD_LETTER_QUEUE = "reminders-dead-letter";
+const MAX_ATTEMPTS = 5;
+
+const reminderQueue = new Queue<SimpleReminderData>(REMINDER_QUEUE, {
+  connection: createQueueConnection(),
+  defaultJobOptions: {
+    attempts: MAX_ATTEMPTS,
+    backoff: { type: "exponential", delay: 30 * 1000 },
+    removeOnComplete: { age: 24 * 3600 },
+    removeOnFail: { age: 7 * 24 * 3600 }
+  }
+});
+
+const deadLetterQueue = new Queue(DEAD_LETTER_QUEUE, {
+  connection: createQueueConnection()
+});
+
+// O ID do job é derivado do agendamento e do horário: impede lembretes
+// duplicados entre réplicas, permite que o cancelamento encontre o job e
+// um reagendamento não colide com o lembrete do horário anterior em execução
+function reminderJobId(bookingId: string, slot?: ReminderSlot): string {
+  return slot
+    ? `reminder-${bookingId}-${slot.date}-${slot.startTime.replace(":", "")}`
+    : `reminder-${bookingId}`;
+}
+
+function reminderSlot(data: SimpleReminderData): ReminderSlot | undefined {
+  return data.date && data.startTime ? { date: data.date, startTime: data.startTime } : undefined;
+}
+
+export function calculateReminderDelay(date: string, startTime: string, timeZone: string = DEFAULT_TIME_ZONE): number {
+  const isProduction = process.env.NODE_ENV === 'production';
+  const minutesBefore = isProduction ? 30 : 0.5;
+
+  const bookingDateTime = zonedDateTimeToUtc(date, startTime, timeZone);
+  const reminderTime = bookingDateTime.getTime() - (minutesBefore * 60 * 1000);
+  const delay = reminderTime - Date.now();
+
+  return Math.max(0, Math.round(delay / 1000));
+}
+
+export function createBookingTimestamp(date: string, startTime: string, timeZone: string = DEFAULT_TIME_ZONE): string {
+  return toZonedIsoString(date, startTime, timeZone);
+}
+
+// Agenda o lembrete de um agendamento já salvo (precisa ter id)
+export async function scheduleBookingReminder(booking: Booking): Promise<boolean> {
+  if (!booking.id) return false;
+
+  const timeZone = await enterpriseService.getEnterpriseTimeZone(booking.enterpriseEmail);
+  const delaySeconds = calculateReminderDelay(booking.date, booking.startTime, timeZone);
+  if (delaySeconds <= 0) {
+    console.log(' Delay inválido, sem lembrete');
+    return false;
+  }
+
+  return scheduleSimpleReminder(booking.id, {
+    bookingId: booking.id,
+    enterpriseEmail: booking.enterpriseEmail,
+    clientName: booking.clientName,
+    clientPhone: booking.clientPhone,
+    ...(booking.clientEmail && { clientEmail: booking.clientEmail }),
+    productName: booking.productName || 'Serviço',
+    ...(booking.employeeName && { employeeName: booking.employeeName }),
+    bookingDateTime: createBookingTimestamp(booking.date, booking.startTime, timeZone),
+    timeZone,
+    date: booking.date,
+    startTime: booking.startTime
+  }, delaySeconds);
+}
+
+// Remove o lembrete do horário anterior e agenda um novo para o horário atual.
+// Se o anterior já estiver em execução, o envio confere o horário e o descarta
+export async function rescheduleBookingReminder(booking: Booking): Promise<boolean> {
+  if (!booking.id) return false;
+
+  const previousSlot = booking.rescheduleHistory?.[booking.rescheduleHistory.length - 1];
+  if (previousSlot) {
+    await cancelSimpleReminder(booking.id, previousSlot);
+  }
+  return scheduleBookingReminder(booking);
+}
+
+// false quando não há o que agendar; erros da fila (Redis) sobem para o
+// handler de eventos, que reprocessa pelo outbox
 export async function scheduleSimpleReminder(
   bookingId: string,
   data: SimpleReminderData,
   delaySeconds: number
 ): Promise<boolean> {
-  try {
-    console.log(`Agendando lembrete para ${data.clientName} em ${delaySeconds}s`);
-    
-    if (delaySeconds <= 0) {
-      console.log("Delay inválido, não agendando");
-      return false;
+  console.log(`Agendando lembrete para ${data.clientName} em ${delaySeconds}s`);
+
+  if (delaySeconds <= 0) {
+    console.log("Delay inválido, não agendando");
+    return false;
+  }
+
+  const jobId = reminderJobId(bookingId, reminderSlot(data));
+  const existingJob = await reminderQueue.getJob(jobId);
+
+  if (existingJob) {
+    const state = await existingJob.getState();
+    if (state === "delayed" || state === "waiting" || state === "active") {
+      console.log(`Lembrete já agendado: ${bookingId}`);
+      return true;
     }
+    // Job antigo (concluído ou falho) ainda ocupa o ID
+    await existingJob.remove();
+  }
 
-    const reminderKey = `reminder:${bookingId}`;
-    const reminderValue = JSON.stringify({
-      ...data,
-      scheduledFor: Date.now() + (delaySeconds * 1000)
-    });
+  await reminderQueue.add("send-reminder", data, {
+    jobId,
+    delay: delaySeconds * 1000
+  });
 
-    await redis.setex(reminderKey, delaySeconds + 60, reminderValue);
+  console.log(`Lembrete agendado: ${bookingId}`);
+  return true;
+}
 
-    setTimeout(async () => {
-      await executeReminder(bookingId, data);
-    }, delaySeconds * 1000);
+// Agendamento cancelado, concluído ou movido depois que o job foi criado não recebe o lembrete
+async function isReminderStillValid(bookingId: string, data: SimpleReminderData): Promise<boolean> {
+  if (data.isTest || !data.enterpriseEmail) return true;
 
-    console.log(`Lembrete agendado: ${bookingId}`);
-    return true;
-  } catch (error) {
-    console.error("Erro ao agendar lembrete:", error);
-    return false;
+  const bookingResult = await bookingService.getBookingById(data.enterpriseEmail, bookingId);
+  if (!bookingResult.success || !bookingResult.data) {
+    if (bookingResult.error === "Agendamento não encontrado") return false;
+    // Falha ao ler o agendamento: o BullMQ tenta de novo
+    throw new Error(bookingResult.error || "Erro ao buscar agendamento do lembrete");
   }
+
+  const booking = bookingResult.data;
+  if (booking.status !== "pending" && booking.status !== "confirmed") return false;
+
+  const slot = reminderSlot(data);
+  return !slot || (booking.date === slot.date && booking.startTime === slot.startTime);
 }
 
-async function executeReminder(bookingId: string, data: SimpleReminderData) {
-  try {
-    console.log(`\nExecutando lembrete: ${bookingId}`);
+export async function executeReminder(bookingId: string, data: SimpleReminderData) {
+  console.log(`\nExecutando lembrete: ${bookingId}`);
+
+  if (!(await isReminderStillValid(bookingId, data))) {
+    console.log(`Lembrete descartado, agendamento cancelado ou alterado: ${bookingId}`);
+    return;
+  }
+
+  const phone = normalizePhone(data.clientPhone);
+
+  const bookingDate = new Date(data.bookingDateTime);
+  const { date: formattedDate, time: formattedTime } = formatInTimeZone(
+    bookingDate,
+    data.timeZone || DEFAULT_TIME_ZONE
+  );
+
+  const manageToken = data.enterpriseEmail ? createManageToken(data.enterpriseEmail, bookingId) : undefined;
+  const { subject, text } = await messageTemplateService.render('booking_reminder', {
+    clientName: data.clientName,
+    productName: data.productName,
+    employeeName: data.employeeName,
+    date: formattedDate,
+    time: formattedTime,
+    ...(manageToken && {
+      manageLink: buildManageUrl(manageToken),
+      calendarLink: buildBookingCalendarUrl(manageToken)
+    })
+  }, data.enterpriseEmail);
 
-    const reminderExists = await redis.exists(`reminder:${bookingId}`);
-    
-    if (!reminderExists) {
-      console.log("Lembrete foi cancelado, não enviando");
-      return;
+  console.log(`Enviando para: ${phone}`);
+  console.log(`Data/Hora do agendamento: ${formattedDate} às ${formattedTime}`);
+
+  // Erros sobem para o BullMQ, que faz o retry com backoff
+  const result = await messagingService.send('booking_reminder', {
+    to: {
+      phone,
+      name: data.clientName,
+      ...(data.clientEmail && { email: data.clientEmail })
+    },
+    subject,
+    text
+  }, data.enterpriseEmail);
+  console.log(`Lembrete enviado via ${result.provider}!`);
+}
+
+export function startReminderWorker(): Worker<SimpleReminderData> {
+  const worker = new Worker<SimpleReminderData>(
+    REMINDER_QUEUE,
+    async (job: Job<SimpleReminderData>) => {
+      await executeReminder(job.data.bookingId, job.data);
+    },
+    {
+      connection: createQueueConnection(),
+      concurrency: 5
     }
+  );
+
+  worker.on("completed", (job) => {
+    console.log(`Lembrete concluído: ${job.data.bookingId}`);
+  });
+
+  worker.on("failed", async (job, error) => {
+    if (!job) return;
 
-    let phone = data.clientPhone.replace(/\D/g, '');
-    if (!phone.startsWith('55')) {
-      phone = '55' + phone;
+    console.error(`Erro ao executar lembrete ${job.data.bookingId} (tentativa ${job.attemptsMade}/${MAX_ATTEMPTS}):`, error.message);
+
+    if (job.attemptsMade >= (job.opts.attempts || 1)) {
+      // O ID do lembrete se repete quando o agendamento volta a um horário
+      // anterior; com a criação do job, cada falha definitiva fica registrada
+      try {
+        await deadLetterQueue.add("dead-reminder", {
+          ...job.data,
+          jobId: job.id,
+          error: error.message,
+          attemptsMade: job.attemptsMade,
+          failedAt: Date.now()
+        }, { jobId: `${job.id}-${job.timestamp}` });
+        console.error(`Lembrete movido para dead-letter: ${job.data.bookingId}`);
+      } catch (deadLetterError) {
+        console.error("Erro ao mover lembrete para dead-letter:", deadLetterError);
+      }
     }
+  });
 
-    const bookingDate = new Date(data.bookingDateTime);
-    
-    const dateFormatter = new Intl.DateTimeFormat('pt-BR', {
-      timeZone: 'America/Sao_Paulo',
-      day: '2-digit',
-      month: '2-digit',
-      year: 'numeric'
-    });
-    
-    const timeFormatter = new Intl.DateTimeFormat('pt-BR', {
-      timeZone: 'America/Sao_Paulo',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-
-    const formattedDate = dateFormatter.format(bookingDate);
-    const formattedTime = timeFormatter.format(bookingDate);
-
-    const message = `Lembrete de Agendamento
-
-Olá ${data.clientName}!
-
-Seu agendamento está chegando:
-
-Serviço: ${data.productName}
-Data: ${formattedDate}
-Horário: ${formattedTime}
-
-Nos vemos em breve!`;
-
-    console.log(`Enviando para: ${phone}`);
-    console.log(`Data/Hora do agendamento: ${formattedDate} às ${formattedTime}`);
-    
-    const result = await sendMessage(phone, message);
-    console.log(`Lembrete enviado!`, result);
-
-    await redis.del(`reminder:${bookingId}`);
-    console.log(message);
-    
-  } catch (error: any) {
-    console.error(`Erro ao executar lembrete ${bookingId}:`, error);
-    
-    await redis.setex(`reminder:${bookingId}:error`, 3600, JSON.stringify({
-      error: error.message,
-      timestamp: Date.now()
-    }));
-  }
+  worker.on("error", (error) => {
+    console.error("Erro no worker de lembretes:", error);
+  });
+
+  return worker;
 }
 
-export async function cancelSimpleReminder(bookingId: string): Promise<boolean> {
-  try {
-    const result = await redis.del(`reminder:${bookingId}`);
-    console.log(`Lembrete ${result > 0 ? 'cancelado' : 'não encontrado'}: ${bookingId}`);
-    return result > 0;
-  } catch (error) {
-    console.error("Erro ao cancelar lembrete:", error);
+// false quando não há lembrete pendente; erros da fila sobem, como no agendamento
+export async function cancelSimpleReminder(bookingId: string, slot?: ReminderSlot): Promise<boolean> {
+  const job = await reminderQueue.getJob(reminderJobId(bookingId, slot));
+
+  if (!job) {
+    console.log(`Lembrete não encontrado: ${bookingId}`);
     return false;
   }
+
+  const state = await job.getState();
+  if (state !== "delayed" && state !== "waiting") {
+    console.log(`Lembrete não pode ser cancelado (estado: ${state}): ${bookingId}`);
+    return false;
+  }
+
+  await job.remove();
+  console.log(`Lembrete cancelado: ${bookingId}`);
+  return true;
 }
 
-export async function getActiveReminders(): Promise<any[]> {
+// Sem enterpriseEmail, lista os lembretes de todas as empresas
+export async function getActiveReminders(enterpriseEmail?: string): Promise<any[]> {
   try {
-    const keys = await redis.keys('reminder:*');
-    const activeKeys = keys.filter(key => !key.includes(':error'));
+    const jobs = await reminderQueue.getJobs(["delayed", "waiting", "active"]);
     const reminders = [];
 
-    for (const key of activeKeys) {
-      const data = await redis.get(key);
-      if (data) {
-        reminders.push({
-          key,
-          bookingId: key.split(':')[1],
-          data: JSON.parse(data),
-          ttl: await redis.ttl(key)
-        });
-      }
+    for (const job of jobs) {
+      if (!job) continue;
+      if (enterpriseEmail && job.data.enterpriseEmail !== enterpriseEmail) continue;
+      reminders.push({
+        jobId: job.id,
+        bookingId: job.data.bookingId,
+        data: job.data,
+        state: await job.getState(),
+        scheduledFor: job.timestamp + (job.opts.delay || 0),
+        attemptsMade: job.attemptsMade
+      });
     }
 
     return reminders;
@@ -141,4 +303,24 @@ export async function getActiveReminders(): Promise<any[]> {
     console.error("Erro ao buscar lembretes:", error);
     return [];
   }
-}
\ No newline at end of file
+}
+
+export async function getDeadLetterReminders(enterpriseEmail?: string): Promise<any[]> {
+  try {
+    const jobs = await deadLetterQueue.getJobs(["waiting", "delayed"]);
+    return jobs
+      .filter(job => job && (!enterpriseEmail || job.data.enterpriseEmail === enterpriseEmail))
+      .map(job => ({
+        jobId: job.id,
+        ...job.data
+      }));
+  } catch (error) {
+    console.error("Erro ao buscar lembretes em dead-letter:", error);
+    return [];
+  }
+}
+
+export async function closeReminderQueues(): Promise<void> {
+  await reminderQueue.close();
+  await deadLetterQueue.close();
+}
@@ -0,0 +1,281 @@
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { Booking } from '../types/index.js';
+import { bookingServiceItems } from './bookingService.js';
+import { addDaysToDate, getWeekdayIndex } from '../utils/dateTime.js';
+
+const MAX_RANGE_DAYS = 366;
+
+export type ReportGroupBy = 'day' | 'week' | 'month';
+
+export interface ReportRange {
+    startDate: string; // YYYY-MM-DD
+    endDate: string; // YYYY-MM-DD (inclusivo)
+    groupBy: ReportGroupBy;
+}
+
+// Receita considera apenas agendamentos concluídos
+export interface ReportMetrics {
+    totalBookings: number;
+    completed: number;
+    cancelled: number;
+    noShow: number;
+    revenue: number;
+    averageTicket: number; // Receita / concluídos
+    cancellationRate: number; // % de cancelados sobre o total
+}
+
+export interface ReportPeriod extends ReportMetrics {
+    period: string; // YYYY-MM-DD (dia ou segunda-feira da semana) ou YYYY-MM
+}
+
+export interface ServiceReportItem extends ReportMetrics {
+    productId: string;
+    productName: string;
+    periods: ReportPeriod[];
+}
+
+export interface EmployeeReportItem extends ReportMetrics {
+    employeeId: string | null; // null = agendamentos sem funcionário definido
+    employeeName: string;
+    periods: ReportPeriod[];
+}
+
+interface MetricsAccumulator {
+    totalBookings: number;
+    completed: number;
+    cancelled: number;
+    noShow: number;
+    revenue: number;
+}
+
+type ReportResult<T> = { success: boolean; data?: T; error?: string };
+
+function emptyAccumulator(): MetricsAccumulator {
+    return { totalBookings: 0, completed: 0, cancelled: 0, noShow: 0, revenue: 0 };
+}
+
+function roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function accumulate(acc: MetricsAccumulator, status: Booking['status'], price: number): void {
+    acc.totalBookings++;
+
+    if (status === 'completed') {
+        acc.completed++;
+        acc.revenue += price;
+    } else if (status === 'cancelled') {
+        acc.cancelled++;
+    } else if (status === 'no_show') {
+        acc.noShow++;
+    }
+}
+
+function toMetrics(acc: MetricsAccumulator): ReportMetrics {
+    return {
+        totalBookings: acc.totalBookings,
+        completed: acc.completed,
+        cancelled: acc.cancelled,
+        noShow: acc.noShow,
+        revenue: roundMoney(acc.revenue),
+        averageTicket: acc.completed > 0 ? roundMoney(acc.revenue / acc.completed) : 0,
+        cancellationRate: acc.totalBookings > 0
+            ? Math.round((acc.cancelled / acc.totalBookings) * 1000) / 10
+            : 0
+    };
+}
+
+function periodKey(date: string, groupBy: ReportGroupBy): string {
+    if (groupBy === 'month') {
+        return date.slice(0, 7);
+    }
+
+    if (groupBy === 'week') {
+        // Semanas começam na segunda-feira
+        const daysSinceMonday = (getWeekdayIndex(date) + 6) % 7;
+        return addDaysToDate(date, -daysSinceMonday);
+    }
+
+    return date;
+}
+
+function toPeriods(periods: Map<string, MetricsAccumulator>): ReportPeriod[] {
+    return Array.from(periods.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([period, acc]) => ({ period, ...toMetrics(acc) }));
+}
+
+// Acumula totais e quebra por período de um grupo (serviço, funcionário ou empresa)
+class ReportGroup {
+    readonly totals = emptyAccumulator();
+    readonly periods = new Map<string, MetricsAccumulator>();
+
+    add(period: string, status: Booking['status'], price: number): void {
+        accumulate(this.totals, status, price);
+
+        if (!this.periods.has(period)) {
+            this.periods.set(period, emptyAccumulator());
+        }
+        accumulate(this.periods.get(period)!, status, price);
+    }
+}
+
+export const reportService = {
+    validateRange(range: Pick<ReportRange, 'startDate' | 'endDate'>): string | null {
+        if (range.endDate < range.startDate) {
+            return 'A data final não pode ser anterior à data inicial';
+        }
+
+        if (range.endDate > addDaysToDate(range.startDate, MAX_RANGE_DAYS - 1)) {
+            return `O período máximo do relatório é de ${MAX_RANGE_DAYS} dias`;
+        }
+
+        return null;
+    },
+
+    async getBookingsInRange(enterpriseEmail: string, range: Pick<ReportRange, 'startDate' | 'endDate'>): Promise<Booking[]> {
+        const bookingsQuery = query(
+            collection(db, `enterprises/${enterpriseEmail}/bookings`),
+            where('date', '>=', range.startDate),
+            where('date', '<=', range.endDate)
+        );
+
+        const snapshot = await getDocs(bookingsQuery);
+        return snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as Booking);
+    },
+
+    async getRevenueReport(
+        enterpriseEmail: string,
+        range: ReportRange
+    ): Promise<ReportResult<{ range: ReportRange; summary: ReportMetrics; periods: ReportPeriod[] }>> {
+        try {
+            const rangeError = this.validateRange(range);
+            if (rangeError) {
+                return { success: false, error: rangeError };
+            }
+
+            const bookings = await this.getBookingsInRange(enterpriseEmail, range);
+            const group = new ReportGroup();
+
+            for (const booking of bookings) {
+                group.add(periodKey(booking.date, range.groupBy), booking.status, booking.productPrice || 0);
+            }
+
+            return {
+                success: true,
+                data: {
+                    range,
+                    summary: toMetrics(group.totals),
+                    periods: toPeriods(group.periods)
+                }
+            };
+        } catch (error) {
+            console.error('Erro ao gerar relatório de receita:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Serviços ordenados por receita (top serviços primeiro)
+    async getServicesReport(
+        enterpriseEmail: string,
+        range: ReportRange
+    ): Promise<ReportResult<{ range: ReportRange; services: ServiceReportItem[] }>> {
+        try {
+            const rangeError = this.validateRange(range);
+            if (rangeError) {
+                return { success: false, error: rangeError };
+            }
+
+            const bookings = await this.getBookingsInRange(enterpriseEmail, range);
+            const groups = new Map<string, { productName: string; group: ReportGroup }>();
+
+            // Serviços de combos contam separadamente, cada um com o próprio preço
+            for (const booking of bookings) {
+                const period = periodKey(booking.date, range.groupBy);
+
+                for (const item of bookingServiceItems(booking)) {
+                    if (!groups.has(item.productId)) {
+                        groups.set(item.productId, { productName: item.productName, group: new ReportGroup() });
+                    }
+                    groups.get(item.productId)!.group.add(period, booking.status, item.price || 0);
+                }
+            }
+
+            const services = Array.from(groups.entries())
+                .map(([productId, { productName, group }]) => ({
+                    productId,
+                    productName,
+                    ...toMetrics(group.totals),
+                    periods: toPeriods(group.periods)
+                }))
+                .sort((a, b) => b.revenue - a.revenue || b.completed - a.completed);
+
+            return {
+                success: true,
+                data: { range, services }
+            };
+        } catch (error) {
+            console.error('Erro ao gerar relatório de serviços:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async getEmployeesReport(
+        enterpriseEmail: string,
+        range: ReportRange
+    ): Promise<ReportResult<{ range: ReportRange; employees: EmployeeReportItem[] }>> {
+        try {
+            const rangeError = this.validateRange(range);
+            if (rangeError) {
+                return { success: false, error: rangeError };
+            }
+
+            const bookings = await this.getBookingsInRange(enterpriseEmail, range);
+            const groups = new Map<string | null, { employeeName: string; group: ReportGroup }>();
+
+            for (const booking of bookings) {
+                const employeeId = booking.employeeId || null;
+
+                if (!groups.has(employeeId)) {
+                    groups.set(employeeId, {
+                        employeeName: booking.employeeName || (employeeId ? employeeId : 'Sem funcionário definido'),
+                        group: new ReportGroup()
+                    });
+                }
+
+                groups.get(employeeId)!.group.add(
+                    periodKey(booking.date, range.groupBy),
+                    booking.status,
+                    booking.productPrice || 0
+                );
+            }
+
+            const employees = Array.from(groups.entries())
+                .map(([employeeId, { employeeName, group }]) => ({
+                    employeeId,
+                    employeeName,
+                    ...toMetrics(group.totals),
+                    periods: toPeriods(group.periods)
+                }))
+                .sort((a, b) => b.revenue - a.revenue || b.completed - a.completed);
+
+            return {
+                success: true,
+                data: { range, employees }
+            };
+        } catch (error) {
+            console.error('Erro ao gerar relatório de funcionários:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    }
+};
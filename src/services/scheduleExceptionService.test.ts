@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ScheduleException } from '../types/index.js';
+import { scheduleExceptionService } from './scheduleExceptionService.js';
+
+function exception(fields: Partial<ScheduleException>): ScheduleException {
+  return {
+    enterpriseEmail: 'empresa@exemplo.com',
+    startDate: '2026-12-20',
+    endDate: '2026-12-20',
+    type: 'modified_hours',
+    ...fields
+  } as ScheduleException;
+}
+
+const weekday = { startTime: '09:00', endTime: '18:00' };
+
+describe('scheduleExceptionService.resolveDayHours', () => {
+  it('usa o padrão semanal sem exceções', () => {
+    expect(scheduleExceptionService.resolveDayHours([], weekday)).toEqual({ isOpen: true, ...weekday });
+    expect(scheduleExceptionService.resolveDayHours([], null)).toEqual({ isOpen: false });
+  });
+
+  it('fechamento vence qualquer horário', () => {
+    const result = scheduleExceptionService.resolveDayHours([
+      exception({ type: 'closed', reason: 'Feriado' }),
+      exception({ startTime: '10:00', endTime: '14:00' })
+    ], weekday);
+
+    expect(result).toEqual({ isOpen: false, reason: 'Feriado' });
+  });
+
+  it('horário modificado da empresa abre um dia normalmente fechado', () => {
+    const result = scheduleExceptionService.resolveDayHours([exception({ startTime: '10:00', endTime: '16:00' })], null);
+
+    expect(result).toEqual({ isOpen: true, startTime: '10:00', endTime: '16:00' });
+  });
+
+  it('horário modificado da empresa substitui o padrão semanal', () => {
+    const result = scheduleExceptionService.resolveDayHours([exception({ startTime: '08:00', endTime: '13:00' })], weekday);
+
+    expect(result).toEqual({ isOpen: true, startTime: '08:00', endTime: '13:00' });
+  });
+
+  it('horário do funcionário fica limitado ao da empresa', () => {
+    const result = scheduleExceptionService.resolveDayHours([
+      exception({ employeeId: 'emp-1', startTime: '07:00', endTime: '12:00' }),
+      exception({ startTime: '09:00', endTime: '13:00' })
+    ], weekday);
+
+    expect(result).toEqual({ isOpen: true, startTime: '09:00', endTime: '12:00' });
+  });
+
+  it('fecha quando os horários do funcionário e da empresa não se cruzam', () => {
+    const result = scheduleExceptionService.resolveDayHours([
+      exception({ employeeId: 'emp-1', startTime: '14:00', endTime: '18:00' }),
+      exception({ startTime: '09:00', endTime: '13:00', reason: 'Véspera de Natal' })
+    ], weekday);
+
+    expect(result).toEqual({ isOpen: false, reason: 'Véspera de Natal' });
+  });
+});
@@ -0,0 +1,281 @@
+import {
+    collection,
+    addDoc,
+    getDocs,
+    doc,
+    getDoc,
+    deleteDoc,
+    query,
+    where,
+    Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { ScheduleException } from '../types/index.js';
+import { auditService } from './auditService.js';
+import { eventBus } from './eventBus.js';
+
+export type CreateScheduleExceptionInput = Omit<ScheduleException, 'id' | 'enterpriseEmail' | 'createdAt' | 'updatedAt'>;
+
+// Expediente efetivo de um dia depois de aplicar as exceções
+export interface ResolvedDayHours {
+    isOpen: boolean;
+    startTime?: string;
+    endTime?: string;
+    reason?: string;
+}
+
+function exceptionsCollectionPath(enterpriseEmail: string): string {
+    return `enterprises/${enterpriseEmail}/scheduleExceptions`;
+}
+
+function timeToMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+export const scheduleExceptionService = {
+    async createException(
+        enterpriseEmail: string,
+        input: CreateScheduleExceptionInput
+    ): Promise<{ success: boolean; data?: ScheduleException; error?: string }> {
+        try {
+            if (input.endDate < input.startDate) {
+                return {
+                    success: false,
+                    error: 'A data final não pode ser anterior à data inicial'
+                };
+            }
+
+            if (input.type === 'modified_hours') {
+                if (!input.startTime || !input.endTime) {
+                    return {
+                        success: false,
+                        error: 'startTime e endTime são obrigatórios para horário modificado'
+                    };
+                }
+
+                if (timeToMinutes(input.startTime) >= timeToMinutes(input.endTime)) {
+                    return {
+                        success: false,
+                        error: 'O horário de início deve ser anterior ao horário de término'
+                    };
+                }
+            }
+
+            const exceptionData: any = {
+                enterpriseEmail,
+                type: input.type,
+                startDate: input.startDate,
+                endDate: input.endDate,
+                createdAt: Timestamp.now(),
+                updatedAt: Timestamp.now()
+            };
+
+            if (input.employeeId) exceptionData.employeeId = input.employeeId;
+            if (input.reason) exceptionData.reason = input.reason;
+            if (input.type === 'modified_hours') {
+                exceptionData.startTime = input.startTime;
+                exceptionData.endTime = input.endTime;
+            }
+
+            const docRef = await addDoc(collection(db, exceptionsCollectionPath(enterpriseEmail)), exceptionData);
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'scheduleException',
+                entityId: docRef.id,
+                action: 'create',
+                after: exceptionData
+            });
+
+            await eventBus.emit('scheduleException.created', {
+                enterpriseEmail,
+                exceptionId: docRef.id,
+                ...(input.employeeId && { employeeId: input.employeeId })
+            });
+
+            return {
+                success: true,
+                data: { id: docRef.id, ...exceptionData }
+            };
+        } catch (error) {
+            console.error('Erro ao criar exceção de horário:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async getException(
+        enterpriseEmail: string,
+        exceptionId: string
+    ): Promise<{ success: boolean; data?: ScheduleException; error?: string }> {
+        try {
+            const exceptionSnap = await getDoc(doc(db, exceptionsCollectionPath(enterpriseEmail), exceptionId));
+
+            if (!exceptionSnap.exists()) {
+                return {
+                    success: false,
+                    error: 'Exceção de horário não encontrada'
+                };
+            }
+
+            return {
+                success: true,
+                data: { id: exceptionSnap.id, ...exceptionSnap.data() } as ScheduleException
+            };
+        } catch (error) {
+            console.error('Erro ao buscar exceção de horário:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Sem employeeId retorna apenas as exceções da empresa inteira (fechamentos)
+    async listExceptions(
+        enterpriseEmail: string,
+        employeeId?: string
+    ): Promise<{ success: boolean; data?: ScheduleException[]; error?: string }> {
+        try {
+            const exceptionsRef = collection(db, exceptionsCollectionPath(enterpriseEmail));
+            const exceptionsQuery = employeeId
+                ? query(exceptionsRef, where('employeeId', '==', employeeId))
+                : query(exceptionsRef);
+
+            const snapshot = await getDocs(exceptionsQuery);
+            const exceptions = snapshot.docs
+                .map(d => ({ id: d.id, ...d.data() }) as ScheduleException)
+                .filter(e => employeeId || !e.employeeId)
+                .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+            return {
+                success: true,
+                data: exceptions
+            };
+        } catch (error) {
+            console.error('Erro ao listar exceções de horário:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async deleteException(
+        enterpriseEmail: string,
+        exceptionId: string
+    ): Promise<{ success: boolean; message?: string; error?: string }> {
+        try {
+            const exceptionResult = await this.getException(enterpriseEmail, exceptionId);
+
+            await deleteDoc(doc(db, exceptionsCollectionPath(enterpriseEmail), exceptionId));
+
+            if (exceptionResult.data) {
+                await auditService.record(enterpriseEmail, {
+                    entityType: 'scheduleException',
+                    entityId: exceptionId,
+                    action: 'delete',
+                    before: exceptionResult.data
+                });
+            }
+
+            await eventBus.emit('scheduleException.deleted', {
+                enterpriseEmail,
+                exceptionId,
+                ...(exceptionResult.data?.employeeId && { employeeId: exceptionResult.data.employeeId })
+            });
+
+            return {
+                success: true,
+                message: 'Exceção de horário removida com sucesso'
+            };
+        } catch (error) {
+            console.error('Erro ao remover exceção de horário:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Exceções da empresa e, se informado, do funcionário que cobrem a data
+    async getExceptionsForDate(
+        enterpriseEmail: string,
+        date: string,
+        employeeId?: string
+    ): Promise<{ success: boolean; data?: ScheduleException[]; error?: string }> {
+        try {
+            const exceptionsQuery = query(
+                collection(db, exceptionsCollectionPath(enterpriseEmail)),
+                where('startDate', '<=', date)
+            );
+
+            const snapshot = await getDocs(exceptionsQuery);
+            const exceptions = snapshot.docs
+                .map(d => ({ id: d.id, ...d.data() }) as ScheduleException)
+                .filter(e => e.endDate >= date)
+                .filter(e => !e.employeeId || e.employeeId === employeeId);
+
+            return {
+                success: true,
+                data: exceptions
+            };
+        } catch (error) {
+            console.error('Erro ao buscar exceções de horário:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Fechamento ou ausência vence tudo. Horário modificado substitui o padrão
+    // semanal, inclusive em dia normalmente fechado: o do funcionário vale para ele,
+    // limitado ao da empresa quando os dois existem
+    resolveDayHours(
+        exceptions: ScheduleException[],
+        baseHours: { startTime: string; endTime: string } | null
+    ): ResolvedDayHours {
+        const closed = exceptions.find(e => e.type === 'closed');
+        if (closed) {
+            return {
+                isOpen: false,
+                reason: closed.reason || (closed.employeeId ? 'Funcionário ausente nesta data' : 'Empresa fechada nesta data')
+            };
+        }
+
+        const employeeHours = exceptions.find(e => e.type === 'modified_hours' && e.employeeId);
+        const enterpriseHours = exceptions.find(e => e.type === 'modified_hours' && !e.employeeId);
+
+        const modifiedHours = employeeHours || enterpriseHours;
+        const hours = modifiedHours
+            ? { startTime: modifiedHours.startTime!, endTime: modifiedHours.endTime! }
+            : baseHours;
+
+        if (!hours) {
+            return { isOpen: false };
+        }
+
+        let { startTime, endTime } = hours;
+
+        if (employeeHours && enterpriseHours) {
+            if (timeToMinutes(enterpriseHours.startTime!) > timeToMinutes(startTime)) {
+                startTime = enterpriseHours.startTime!;
+            }
+            if (timeToMinutes(enterpriseHours.endTime!) < timeToMinutes(endTime)) {
+                endTime = enterpriseHours.endTime!;
+            }
+        }
+
+        if (timeToMinutes(startTime) >= timeToMinutes(endTime)) {
+            return {
+                isOpen: false,
+                reason: enterpriseHours?.reason || 'Sem expediente nesta data'
+            };
+        }
+
+        return { isOpen: true, startTime, endTime };
+    }
+};
@@ -1,6 +1,7 @@
 import { collection, addDoc, getDocs, query, where, deleteDoc, doc, updateDoc, getDoc } from 'firebase/firestore';
 import { db } from '../config/firebase.js';
 import { Schedule } from '../types/index.js';
+import { auditService } from './auditService.js';
 
 interface ServiceResult<T> {
   success: boolean;
@@ -27,6 +28,13 @@ export class ScheduleService {
         ...docData
       };
 
+      await auditService.record(enterpriseEmail, {
+        entityType: 'schedule',
+        entityId: docRef.id,
+        action: 'create',
+        after: docData
+      });
+
       return {
         success: true,
         data: newSchedule
@@ -109,9 +117,22 @@ export class ScheduleService {
         updatedAt: new Date()
       };
 
+      const previous = await this.getScheduleById(scheduleId);
+
       await updateDoc(docRef, dataToUpdate);
 
       const result = await this.getScheduleById(scheduleId);
+
+      if (previous.data?.enterpriseEmail) {
+        await auditService.record(previous.data.enterpriseEmail, {
+          entityType: 'schedule',
+          entityId: scheduleId,
+          action: 'update',
+          before: previous.data,
+          after: result.data
+        });
+      }
+
       return result;
     } catch (error: any) {
       console.error('Erro ao atualizar schedule:', error);
@@ -125,8 +146,19 @@ export class ScheduleService {
   async deleteSchedule(scheduleId: string): Promise<ServiceResult<boolean>> {
     try {
       const docRef = doc(db, this.collectionName, scheduleId);
+      const previous = await this.getScheduleById(scheduleId);
+
       await deleteDoc(docRef);
 
+      if (previous.data?.enterpriseEmail) {
+        await auditService.record(previous.data.enterpriseEmail, {
+          entityType: 'schedule',
+          entityId: scheduleId,
+          action: 'delete',
+          before: previous.data
+        });
+      }
+
       return {
         success: true,
         data: true
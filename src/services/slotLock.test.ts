@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { redis } from '../config/redis.js';
+import { slotLock } from './slotLock.js';
+
+const set = vi.mocked(redis.set);
+const release = vi.mocked(redis.eval);
+
+const EMAIL = 'empresa@exemplo.com';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('slotLock.run', () => {
+  it('adquire o lock do dia com expiração, executa e libera com o mesmo token', async () => {
+    set.mockResolvedValue('OK' as never);
+
+    const lock = await slotLock.run(EMAIL, '2026-11-03', async () => 'feito');
+
+    expect(lock).toEqual({ acquired: true, result: 'feito' });
+    expect(set).toHaveBeenCalledWith(`lock:bookings:${EMAIL}:2026-11-03`, expect.any(String), 'PX', 10000, 'NX');
+
+    const token = set.mock.calls[0][1];
+    expect(release).toHaveBeenCalledWith(expect.stringContaining('del'), 1, `lock:bookings:${EMAIL}:2026-11-03`, token);
+  });
+
+  it('espera o lock ser liberado por outra solicitação', async () => {
+    set.mockResolvedValueOnce(null as never).mockResolvedValueOnce(null as never).mockResolvedValue('OK' as never);
+    const operation = vi.fn(async () => 'feito');
+
+    const lock = await slotLock.run(EMAIL, '2026-11-03', operation);
+
+    expect(lock).toEqual({ acquired: true, result: 'feito' });
+    expect(set).toHaveBeenCalledTimes(3);
+    expect(operation).toHaveBeenCalledOnce();
+  });
+
+  it('desiste depois do tempo de espera sem executar a operação', async () => {
+    vi.useFakeTimers();
+    set.mockResolvedValue(null as never);
+    const operation = vi.fn(async () => 'feito');
+
+    const pending = slotLock.run(EMAIL, '2026-11-03', operation);
+    await vi.advanceTimersByTimeAsync(5100);
+
+    expect(await pending).toEqual({ acquired: false });
+    expect(operation).not.toHaveBeenCalled();
+    expect(release).not.toHaveBeenCalled();
+  });
+
+  it('libera o lock quando a operação falha', async () => {
+    set.mockResolvedValue('OK' as never);
+
+    await expect(slotLock.run(EMAIL, '2026-11-03', async () => {
+      throw new Error('falhou');
+    })).rejects.toThrow('falhou');
+
+    expect(release).toHaveBeenCalledOnce();
+  });
+
+  it('não propaga erro ao liberar um lock que já expirou', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    set.mockResolvedValue('OK' as never);
+    release.mockRejectedValueOnce(new Error('conexão perdida'));
+
+    const lock = await slotLock.run(EMAIL, '2026-11-03', async () => 'feito');
+
+    expect(lock).toEqual({ acquired: true, result: 'feito' });
+  });
+});
+
+describe('slotLock.runAll', () => {
+  it('trava cada dia uma vez, em ordem de data', async () => {
+    set.mockResolvedValue('OK' as never);
+
+    const lock = await slotLock.runAll(EMAIL, ['2026-11-05', '2026-11-03', '2026-11-05'], async () => 'feito');
+
+    expect(lock).toEqual({ acquired: true, result: 'feito' });
+    expect(set.mock.calls.map(call => call[0])).toEqual([
+      `lock:bookings:${EMAIL}:2026-11-03`,
+      `lock:bookings:${EMAIL}:2026-11-05`
+    ]);
+    expect(release).toHaveBeenCalledTimes(2);
+  });
+
+  it('libera o primeiro dia quando o segundo não é adquirido', async () => {
+    vi.useFakeTimers();
+    set.mockImplementation((async (key: string) => key.endsWith('2026-11-03') ? 'OK' : null) as never);
+    const operation = vi.fn(async () => 'feito');
+
+    const pending = slotLock.runAll(EMAIL, ['2026-11-03', '2026-11-05'], operation);
+    await vi.advanceTimersByTimeAsync(5100);
+
+    expect(await pending).toEqual({ acquired: false });
+    expect(operation).not.toHaveBeenCalled();
+    expect(release).toHaveBeenCalledWith(expect.any(String), 1, `lock:bookings:${EMAIL}:2026-11-03`, expect.any(String));
+  });
+});
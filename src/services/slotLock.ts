@@ -0,0 +1,77 @@
+import { randomUUID } from 'crypto';
+import { redis } from '../config/redis.js';
+
+const LOCK_TTL_MS = 10 * 1000;
+const LOCK_WAIT_MS = 5 * 1000;
+const LOCK_RETRY_MS = 50;
+
+// Libera o lock apenas se ainda pertencer a quem o adquiriu
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+else
+  return 0
+end
+`;
+
+function lockKey(enterpriseEmail: string, date: string): string {
+  return `lock:bookings:${enterpriseEmail}:${date}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export const slotLock = {
+  // O lock é por empresa e dia: agendamentos sem funcionário disputam
+  // com todos os funcionários, então um lock por funcionário não bastaria
+  async run<T>(
+    enterpriseEmail: string,
+    date: string,
+    operation: () => Promise<T>
+  ): Promise<{ acquired: boolean; result?: T }> {
+    const key = lockKey(enterpriseEmail, date);
+    const token = randomUUID();
+    const deadline = Date.now() + LOCK_WAIT_MS;
+
+    let acquired = false;
+    while (!acquired && Date.now() < deadline) {
+      acquired = (await redis.set(key, token, 'PX', LOCK_TTL_MS, 'NX')) === 'OK';
+      if (!acquired) {
+        await sleep(LOCK_RETRY_MS);
+      }
+    }
+
+    if (!acquired) {
+      console.warn(`Lock de agendamento ocupado: ${key}`);
+      return { acquired: false };
+    }
+
+    try {
+      const result = await operation();
+      return { acquired: true, result };
+    } finally {
+      try {
+        await redis.eval(RELEASE_SCRIPT, 1, key, token);
+      } catch (error) {
+        console.error('Erro ao liberar lock de agendamento:', error);
+      }
+    }
+  },
+
+  // Vários dias de uma vez (ex.: reagendamento entre dias). Os locks são
+  // adquiridos em ordem de data para duas operações não esperarem uma pela outra
+  async runAll<T>(
+    enterpriseEmail: string,
+    dates: string[],
+    operation: () => Promise<T>
+  ): Promise<{ acquired: boolean; result?: T }> {
+    const [first, ...rest] = [...new Set(dates)].sort();
+    if (!first) {
+      return { acquired: true, result: await operation() };
+    }
+
+    const outer = await this.run(enterpriseEmail, first, () => this.runAll(enterpriseEmail, rest, operation));
+    return outer.acquired && outer.result ? outer.result : { acquired: false };
+  }
+};
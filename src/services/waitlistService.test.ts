@@ -0,0 +1,222 @@
+import { Queue } from 'bullmq';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Booking, Employee, WaitlistEntry } from '../types/index.js';
+
+const mocks = vi.hoisted(() => ({
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  updateDoc: vi.fn(),
+  createBookingWithEmployee: vi.fn(),
+  getBookingsByDate: vi.fn(),
+  resolveServices: vi.fn(),
+  getEmployeeById: vi.fn(),
+  send: vi.fn(),
+  transaction: { get: vi.fn(), update: vi.fn() }
+}));
+
+vi.mock('firebase/firestore', async importOriginal => ({
+  ...(await importOriginal<typeof import('firebase/firestore')>()),
+  collection: vi.fn(),
+  doc: vi.fn((_db, path: string, id: string) => ({ id, path })),
+  query: vi.fn(),
+  where: vi.fn(),
+  getDoc: mocks.getDoc,
+  getDocs: mocks.getDocs,
+  updateDoc: mocks.updateDoc,
+  deleteField: vi.fn(() => 'deleteField'),
+  runTransaction: vi.fn((_db, run: (transaction: unknown) => unknown) => run(mocks.transaction))
+}));
+
+vi.mock('./bookingService.js', () => ({
+  bookingService: {
+    createBookingWithEmployee: mocks.createBookingWithEmployee,
+    getBookingsByDate: mocks.getBookingsByDate,
+    resolveServices: mocks.resolveServices
+  }
+}));
+vi.mock('./employeeService.js', () => ({
+  employeeService: { getEmployeeById: mocks.getEmployeeById }
+}));
+vi.mock('./enterpriseService.js', () => ({
+  enterpriseService: { getEnterpriseTimeZone: async () => 'America/Sao_Paulo' }
+}));
+vi.mock('./messagingService.js', () => ({
+  messagingService: { send: mocks.send }
+}));
+vi.mock('./manageLink.js', () => ({
+  createOfferToken: () => 'offer-token',
+  buildOfferUrl: (token: string) => `https://app/oferta/${token}`,
+  verifyOfferToken: (token: string) => token === 'valido'
+    ? { enterpriseEmail: 'empresa@exemplo.com', entryId: 'entry-1', offerId: 'offer-1' }
+    : null
+}));
+vi.mock('./auditService.js', () => ({
+  auditService: { record: vi.fn() }
+}));
+
+const { waitlistService } = await import('./waitlistService.js');
+
+const offer = {
+  id: 'offer-1',
+  date: '2026-11-03',
+  startTime: '15:00',
+  duration: 30,
+  offeredAt: '2026-11-02T15:00:00.000Z',
+  expiresAt: '2999-01-01T00:00:00.000Z'
+};
+
+const entry = {
+  id: 'entry-1',
+  enterpriseEmail: 'empresa@exemplo.com',
+  clientName: 'Ana',
+  clientPhone: '11999998888',
+  productId: 'corte',
+  fromDate: '2026-11-01',
+  toDate: '2026-11-10',
+  status: 'offered',
+  offer
+} as WaitlistEntry;
+
+function entrySnapshot(data: Partial<WaitlistEntry> = {}) {
+  return { id: 'entry-1', exists: () => true, data: () => ({ ...entry, ...data }) };
+}
+
+const slot = {
+  enterpriseEmail: 'empresa@exemplo.com',
+  date: '2026-11-03',
+  startTime: '15:00',
+  duration: 30,
+  employeeId: 'emp-1'
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe('waitlistService.claimOffer', () => {
+  it('agenda a recuperação antes de passar a entrada para claiming', async () => {
+    const add = vi.spyOn(Queue.prototype, 'add');
+    mocks.transaction.get.mockResolvedValue(entrySnapshot());
+    mocks.createBookingWithEmployee.mockResolvedValue({ success: true, data: { id: 'booking-1' } });
+
+    const result = await waitlistService.claimOffer('valido');
+
+    expect(result.success).toBe(true);
+    expect(add).toHaveBeenCalledWith('recover-claim', expect.objectContaining({ offerId: 'offer-1' }), expect.objectContaining({ jobId: 'claim-offer-1' }));
+    expect(mocks.transaction.update).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ status: 'claiming' }));
+    expect(mocks.updateDoc).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ status: 'booked', bookingId: 'booking-1' }));
+  });
+
+  it('recusa oferta que não está mais disponível', async () => {
+    mocks.transaction.get.mockResolvedValue(entrySnapshot({ status: 'claiming' }));
+
+    const result = await waitlistService.claimOffer('valido');
+
+    expect(result).toEqual({ success: false, error: 'Esta oferta não está mais disponível' });
+    expect(mocks.createBookingWithEmployee).not.toHaveBeenCalled();
+  });
+
+  it('recusa oferta expirada', async () => {
+    mocks.transaction.get.mockResolvedValue(entrySnapshot({ offer: { ...offer, expiresAt: '2000-01-01T00:00:00.000Z' } }));
+
+    const result = await waitlistService.claimOffer('valido');
+
+    expect(result).toEqual({ success: false, error: 'Esta oferta expirou' });
+    expect(mocks.transaction.update).not.toHaveBeenCalled();
+  });
+
+  it('devolve o cliente à fila quando o horário foi ocupado', async () => {
+    mocks.transaction.get
+      .mockResolvedValueOnce(entrySnapshot())
+      .mockResolvedValueOnce(entrySnapshot({ status: 'claiming' }));
+    mocks.createBookingWithEmployee.mockResolvedValue({ success: false, error: 'Horário ocupado', conflictTime: '15:00' });
+
+    const result = await waitlistService.claimOffer('valido');
+
+    expect(result.success).toBe(false);
+    expect(mocks.transaction.update).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({ status: 'waiting', offer: 'deleteField' }));
+  });
+});
+
+describe('waitlistService.recoverClaim', () => {
+  it('marca como booked quando o agendamento chegou a ser criado', async () => {
+    mocks.getDoc.mockResolvedValue(entrySnapshot({ status: 'claiming' }));
+    mocks.transaction.get.mockResolvedValue(entrySnapshot({ status: 'claiming' }));
+    mocks.getBookingsByDate.mockResolvedValue({
+      success: true,
+      data: [{ id: 'booking-1', startTime: '15:00', clientPhone: '(11) 99999-8888' } as Booking]
+    });
+    const offerFreedSlot = vi.spyOn(waitlistService, 'offerFreedSlot');
+
+    await waitlistService.recoverClaim('empresa@exemplo.com', 'entry-1', 'offer-1');
+
+    expect(mocks.transaction.update).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ status: 'booked', bookingId: 'booking-1' }));
+    expect(offerFreedSlot).not.toHaveBeenCalled();
+  });
+
+  it('devolve a entrada à fila e reoferece o horário quando o aceite não criou agendamento', async () => {
+    mocks.getDoc.mockResolvedValue(entrySnapshot({ status: 'claiming' }));
+    mocks.transaction.get.mockResolvedValue(entrySnapshot({ status: 'claiming' }));
+    mocks.getBookingsByDate.mockResolvedValue({ success: true, data: [] });
+    const offerFreedSlot = vi.spyOn(waitlistService, 'offerFreedSlot').mockResolvedValue(null);
+
+    await waitlistService.recoverClaim('empresa@exemplo.com', 'entry-1', 'offer-1');
+
+    expect(mocks.transaction.update).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ status: 'waiting' }));
+    expect(offerFreedSlot).toHaveBeenCalledWith(expect.objectContaining({ date: '2026-11-03', startTime: '15:00' }));
+  });
+
+  it('não mexe em aceite já concluído', async () => {
+    mocks.getDoc.mockResolvedValue(entrySnapshot({ status: 'booked' }));
+
+    await waitlistService.recoverClaim('empresa@exemplo.com', 'entry-1', 'offer-1');
+
+    expect(mocks.getBookingsByDate).not.toHaveBeenCalled();
+    expect(mocks.transaction.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('waitlistService.makeOffer', () => {
+  it('não oferece para entrada que deixou de aguardar', async () => {
+    const add = vi.spyOn(Queue.prototype, 'add');
+    mocks.transaction.get.mockResolvedValue(entrySnapshot({ status: 'offered' }));
+
+    const offered = await waitlistService.makeOffer({ ...entry, status: 'waiting' }, slot, 'America/Sao_Paulo');
+
+    expect(offered).toBe(false);
+    expect(mocks.transaction.update).not.toHaveBeenCalled();
+    expect(add).not.toHaveBeenCalled();
+    expect(mocks.send).not.toHaveBeenCalled();
+  });
+
+  it('grava a oferta e envia a mensagem para entrada aguardando', async () => {
+    mocks.transaction.get.mockResolvedValue(entrySnapshot({ status: 'waiting' }));
+
+    const offered = await waitlistService.makeOffer({ ...entry, status: 'waiting' }, slot, 'America/Sao_Paulo');
+
+    expect(offered).toBe(true);
+    expect(mocks.transaction.update).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ status: 'offered' }));
+    expect(mocks.send).toHaveBeenCalledWith('waitlist_offer', expect.anything(), 'empresa@exemplo.com');
+  });
+});
+
+describe('waitlistService.fitsSlot', () => {
+  const employee = { id: 'emp-1', skills: [{ productId: 'corte', canPerform: true, duration: 45 }] } as Employee;
+
+  it('usa a duração do serviço com o profissional do horário', async () => {
+    mocks.getEmployeeById.mockResolvedValue({ success: true, data: employee });
+    mocks.resolveServices.mockResolvedValue({ success: true, data: { totalDuration: 45 } });
+
+    expect(await waitlistService.fitsSlot(entry, slot)).toBe(false);
+    expect(await waitlistService.fitsSlot(entry, { ...slot, duration: 45 })).toBe(true);
+    expect(mocks.resolveServices).toHaveBeenCalledWith('empresa@exemplo.com', ['corte'], employee);
+  });
+
+  it('recusa profissional que não faz o serviço', async () => {
+    mocks.getEmployeeById.mockResolvedValue({ success: true, data: { ...employee, skills: [] } });
+
+    expect(await waitlistService.fitsSlot(entry, slot)).toBe(false);
+    expect(mocks.resolveServices).not.toHaveBeenCalled();
+  });
+});
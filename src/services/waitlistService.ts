@@ -0,0 +1,595 @@
+import { randomUUID } from 'crypto';
+import { Queue, Worker, Job } from 'bullmq';
+import {
+    collection,
+    addDoc,
+    getDocs,
+    doc,
+    getDoc,
+    updateDoc,
+    deleteField,
+    query,
+    where,
+    runTransaction,
+    Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { createQueueConnection } from '../config/redis.js';
+import { Booking, Employee, WaitlistEntry, WaitlistOffer, WaitlistStatus } from '../types/index.js';
+import { bookingService, BookingWriteResult } from './bookingService.js';
+import { productService } from './productService.js';
+import { employeeService } from './employeeService.js';
+import { enterpriseService } from './enterpriseService.js';
+import { messagingService } from './messagingService.js';
+import { createOfferToken, verifyOfferToken, buildOfferUrl } from './manageLink.js';
+import { formatInTimeZone, zonedDateTimeToUtc } from '../utils/dateTime.js';
+import { normalizePhone } from '../utils/phone.js';
+import { auditService } from './auditService.js';
+
+const WAITLIST_QUEUE = 'waitlist-offers';
+const OFFER_TTL_MINUTES = Number(process.env.WAITLIST_OFFER_MINUTES) || 30;
+// Prazo para um aceite terminar; depois disso a entrada em claiming é recuperada
+const CLAIM_TIMEOUT_MS = 2 * 60 * 1000;
+
+interface OfferExpiryJob {
+    enterpriseEmail: string;
+    entryId: string;
+    offerId: string;
+}
+
+// Horário liberado que pode ser oferecido à lista de espera
+interface FreedSlot {
+    enterpriseEmail: string;
+    date: string;
+    startTime: string;
+    duration: number;
+    employeeId?: string;
+}
+
+export type CreateWaitlistEntryInput = Omit<WaitlistEntry, 'id' | 'enterpriseEmail' | 'status' | 'offer' | 'bookingId' | 'createdAt' | 'updatedAt'>;
+
+const offerQueue = new Queue<OfferExpiryJob>(WAITLIST_QUEUE, {
+    connection: createQueueConnection(),
+    defaultJobOptions: {
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 10 * 1000 },
+        removeOnComplete: { age: 24 * 3600 },
+        removeOnFail: { age: 7 * 24 * 3600 }
+    }
+});
+
+function waitlistCollectionPath(enterpriseEmail: string): string {
+    return `enterprises/${enterpriseEmail}/waitlist`;
+}
+
+function offerJobId(offerId: string): string {
+    return `offer-${offerId}`;
+}
+
+function claimJobId(offerId: string): string {
+    return `claim-${offerId}`;
+}
+
+function createdAtMillis(entry: WaitlistEntry): number {
+    return typeof entry.createdAt?.toMillis === 'function' ? entry.createdAt.toMillis() : 0;
+}
+
+export const waitlistService = {
+    async createEntry(
+        enterpriseEmail: string,
+        input: CreateWaitlistEntryInput
+    ): Promise<{ success: boolean; data?: WaitlistEntry; error?: string }> {
+        try {
+            if (input.toDate < input.fromDate) {
+                return {
+                    success: false,
+                    error: 'A data final não pode ser anterior à data inicial'
+                };
+            }
+
+            if (input.preferredStartTime && input.preferredEndTime && input.preferredEndTime < input.preferredStartTime) {
+                return {
+                    success: false,
+                    error: 'A janela de horário preferida é inválida'
+                };
+            }
+
+            const productResult = await productService.getProductById(enterpriseEmail, input.productId);
+            if (!productResult.success || !productResult.data) {
+                return {
+                    success: false,
+                    error: 'Produto não encontrado'
+                };
+            }
+
+            const entryData: any = {
+                enterpriseEmail,
+                clientName: input.clientName,
+                clientPhone: input.clientPhone,
+                productId: input.productId,
+                fromDate: input.fromDate,
+                toDate: input.toDate,
+                status: 'waiting',
+                createdAt: Timestamp.now(),
+                updatedAt: Timestamp.now()
+            };
+
+            if (input.clientEmail) entryData.clientEmail = input.clientEmail;
+            if (input.employeeId) entryData.employeeId = input.employeeId;
+            if (input.preferredStartTime) entryData.preferredStartTime = input.preferredStartTime;
+            if (input.preferredEndTime) entryData.preferredEndTime = input.preferredEndTime;
+
+            const entryRef = await addDoc(collection(db, waitlistCollectionPath(enterpriseEmail)), entryData);
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'waitlistEntry',
+                entityId: entryRef.id,
+                action: 'create',
+                after: entryData
+            });
+
+            return {
+                success: true,
+                data: { id: entryRef.id, ...entryData }
+            };
+        } catch (error) {
+            console.error('Erro ao entrar na lista de espera:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async getEntry(enterpriseEmail: string, entryId: string): Promise<{ success: boolean; data?: WaitlistEntry; error?: string }> {
+        try {
+            const entrySnap = await getDoc(doc(db, waitlistCollectionPath(enterpriseEmail), entryId));
+
+            if (!entrySnap.exists()) {
+                return {
+                    success: false,
+                    error: 'Entrada da lista de espera não encontrada'
+                };
+            }
+
+            return {
+                success: true,
+                data: { id: entrySnap.id, ...entrySnap.data() } as WaitlistEntry
+            };
+        } catch (error) {
+            console.error('Erro ao buscar entrada da lista de espera:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async listEntries(
+        enterpriseEmail: string,
+        status?: WaitlistStatus
+    ): Promise<{ success: boolean; data?: WaitlistEntry[]; error?: string }> {
+        try {
+            const waitlistRef = collection(db, waitlistCollectionPath(enterpriseEmail));
+            const waitlistQuery = status
+                ? query(waitlistRef, where('status', '==', status))
+                : query(waitlistRef);
+
+            const snapshot = await getDocs(waitlistQuery);
+            const entries = snapshot.docs
+                .map(d => ({ id: d.id, ...d.data() }) as WaitlistEntry)
+                .sort((a, b) => createdAtMillis(a) - createdAtMillis(b));
+
+            return {
+                success: true,
+                data: entries
+            };
+        } catch (error) {
+            console.error('Erro ao listar lista de espera:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async cancelEntry(enterpriseEmail: string, entryId: string): Promise<{ success: boolean; message?: string; error?: string }> {
+        try {
+            const entryResult = await this.getEntry(enterpriseEmail, entryId);
+            if (!entryResult.success || !entryResult.data) {
+                return { success: false, error: entryResult.error };
+            }
+
+            if (entryResult.data.status === 'booked') {
+                return {
+                    success: false,
+                    error: 'Entrada já convertida em agendamento'
+                };
+            }
+
+            if (entryResult.data.status === 'claiming') {
+                return {
+                    success: false,
+                    error: 'A oferta está sendo aceita pelo cliente; tente novamente em instantes'
+                };
+            }
+
+            await updateDoc(doc(db, waitlistCollectionPath(enterpriseEmail), entryId), {
+                status: 'cancelled',
+                updatedAt: Timestamp.now()
+            });
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'waitlistEntry',
+                entityId: entryId,
+                action: 'cancel',
+                before: entryResult.data,
+                after: { ...entryResult.data, status: 'cancelled' }
+            });
+
+            if (entryResult.data.offer) {
+                await this.removeExpiryJob(entryResult.data.offer.id);
+            }
+
+            return {
+                success: true,
+                message: 'Removido da lista de espera'
+            };
+        } catch (error) {
+            console.error('Erro ao remover da lista de espera:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Chamado após um cancelamento: oferece o horário ao primeiro da fila que se encaixa
+    async offerCancelledBooking(booking: Booking): Promise<void> {
+        await this.offerFreedSlot({
+            enterpriseEmail: booking.enterpriseEmail,
+            date: booking.date,
+            startTime: booking.startTime,
+            duration: booking.actualDuration || booking.productDuration,
+            employeeId: booking.employeeId
+        });
+    },
+
+    async offerFreedSlot(slot: FreedSlot): Promise<WaitlistEntry | null> {
+        try {
+            const timeZone = await enterpriseService.getEnterpriseTimeZone(slot.enterpriseEmail);
+            if (zonedDateTimeToUtc(slot.date, slot.startTime, timeZone).getTime() <= Date.now()) {
+                return null;
+            }
+
+            const entriesResult = await this.listEntries(slot.enterpriseEmail, 'waiting');
+            const candidates = (entriesResult.data || []).filter(entry =>
+                entry.fromDate <= slot.date &&
+                entry.toDate >= slot.date &&
+                (!entry.preferredStartTime || slot.startTime >= entry.preferredStartTime) &&
+                (!entry.preferredEndTime || slot.startTime <= entry.preferredEndTime) &&
+                (!entry.employeeId || entry.employeeId === slot.employeeId)
+            );
+
+            // Ordem de chegada: o primeiro que cabe no horário recebe a oferta
+            for (const entry of candidates) {
+                if (await this.fitsSlot(entry, slot) && await this.makeOffer(entry, slot, timeZone)) {
+                    return entry;
+                }
+            }
+
+            return null;
+        } catch (error) {
+            console.error('Erro ao oferecer horário à lista de espera:', error);
+            return null;
+        }
+    },
+
+    // Duração do serviço com o profissional do horário, como na criação do agendamento
+    async fitsSlot(entry: WaitlistEntry, slot: FreedSlot): Promise<boolean> {
+        let employee: Employee | undefined;
+        if (slot.employeeId) {
+            employee = (await employeeService.getEmployeeById(slot.employeeId)).data;
+            const skill = employee?.skills?.find(s => s.productId === entry.productId);
+            if (!skill?.canPerform) return false;
+        }
+
+        const servicesResult = await bookingService.resolveServices(slot.enterpriseEmail, [entry.productId], employee);
+        return !!servicesResult.data && servicesResult.data.totalDuration <= slot.duration;
+    },
+
+    // false quando a entrada deixou de aguardar (cancelada ou com outra oferta)
+    async makeOffer(entry: WaitlistEntry, slot: FreedSlot, timeZone: string): Promise<boolean> {
+        const now = new Date();
+        const offer: WaitlistOffer = {
+            id: randomUUID(),
+            date: slot.date,
+            startTime: slot.startTime,
+            duration: slot.duration,
+            offeredAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + OFFER_TTL_MINUTES * 60 * 1000).toISOString()
+        };
+
+        if (slot.employeeId) offer.employeeId = slot.employeeId;
+
+        // Dois horários liberados ao mesmo tempo não geram duas ofertas para a mesma entrada
+        const entryRef = doc(db, waitlistCollectionPath(entry.enterpriseEmail), entry.id!);
+        const offered = await runTransaction(db, async (transaction) => {
+            const entrySnap = await transaction.get(entryRef);
+            if (!entrySnap.exists() || (entrySnap.data() as WaitlistEntry).status !== 'waiting') {
+                return false;
+            }
+
+            transaction.update(entryRef, {
+                status: 'offered',
+                offer,
+                updatedAt: Timestamp.now()
+            });
+            return true;
+        });
+
+        if (!offered) return false;
+
+        await offerQueue.add('expire-offer', {
+            enterpriseEmail: entry.enterpriseEmail,
+            entryId: entry.id!,
+            offerId: offer.id
+        }, {
+            jobId: offerJobId(offer.id),
+            delay: OFFER_TTL_MINUTES * 60 * 1000
+        });
+
+        const { date, time } = formatInTimeZone(zonedDateTimeToUtc(slot.date, slot.startTime, timeZone), timeZone);
+        const claimUrl = buildOfferUrl(createOfferToken(entry.enterpriseEmail, entry.id!, offer.id));
+
+        const message = `Vaga Disponível
+
+Olá ${entry.clientName}!
+
+Abriu um horário que você estava esperando:
+
+Data: ${date}
+Horário: ${time}
+
+Confirme em até ${OFFER_TTL_MINUTES} minutos:
+${claimUrl}`;
+
+        try {
+            await messagingService.send('waitlist_offer', {
+                to: {
+                    phone: normalizePhone(entry.clientPhone),
+                    name: entry.clientName,
+                    ...(entry.clientEmail && { email: entry.clientEmail })
+                },
+                subject: 'Vaga disponível',
+                text: message
+            }, entry.enterpriseEmail);
+        } catch (error) {
+            // A oferta continua válida até expirar, mesmo sem a mensagem
+            console.error('Erro ao enviar oferta da lista de espera:', error);
+        }
+
+        return true;
+    },
+
+    // Executado pelo worker quando o prazo da oferta termina sem confirmação
+    async expireOffer(enterpriseEmail: string, entryId: string, offerId: string): Promise<void> {
+        const entryRef = doc(db, waitlistCollectionPath(enterpriseEmail), entryId);
+
+        // Na mesma transação do aceite: uma oferta em claiming não expira
+        const offer = await runTransaction(db, async (transaction) => {
+            const entrySnap = await transaction.get(entryRef);
+            const entry = entrySnap.exists() ? entrySnap.data() as WaitlistEntry : undefined;
+
+            if (!entry || entry.status !== 'offered' || entry.offer?.id !== offerId) {
+                return undefined;
+            }
+
+            transaction.update(entryRef, {
+                status: 'expired',
+                updatedAt: Timestamp.now()
+            });
+            return entry.offer;
+        });
+
+        if (!offer) return;
+
+        console.log(`Oferta da lista de espera expirada: ${entryId}`);
+
+        await this.offerFreedSlot({
+            enterpriseEmail,
+            date: offer.date,
+            startTime: offer.startTime,
+            duration: offer.duration,
+            employeeId: offer.employeeId
+        });
+    },
+
+    async claimOffer(token: string): Promise<BookingWriteResult> {
+        const payload = verifyOfferToken(token);
+        if (!payload) {
+            return {
+                success: false,
+                error: 'Link de oferta inválido'
+            };
+        }
+
+        const { enterpriseEmail, entryId, offerId } = payload;
+        const entryRef = doc(db, waitlistCollectionPath(enterpriseEmail), entryId);
+
+        // Agendado antes do aceite: se o processo cair no meio, a entrada não
+        // fica presa em claiming
+        await offerQueue.add('recover-claim', { enterpriseEmail, entryId, offerId }, {
+            jobId: claimJobId(offerId),
+            delay: CLAIM_TIMEOUT_MS
+        });
+
+        // offered → claiming é atômico: só um aceite simultâneo segue adiante
+        const claim = await runTransaction(db, async (transaction): Promise<{ entry?: WaitlistEntry; error?: string }> => {
+            const entrySnap = await transaction.get(entryRef);
+            const entry = entrySnap.exists() ? { id: entrySnap.id, ...entrySnap.data() } as WaitlistEntry : undefined;
+
+            if (!entry || entry.status !== 'offered' || !entry.offer || entry.offer.id !== offerId) {
+                return { error: 'Esta oferta não está mais disponível' };
+            }
+
+            if (new Date(entry.offer.expiresAt).getTime() <= Date.now()) {
+                return { error: 'Esta oferta expirou' };
+            }
+
+            transaction.update(entryRef, {
+                status: 'claiming',
+                updatedAt: Timestamp.now()
+            });
+            return { entry };
+        });
+
+        if (!claim.entry || !claim.entry.offer) {
+            return {
+                success: false,
+                error: claim.error
+            };
+        }
+
+        const entry = claim.entry;
+        const offer = claim.entry.offer;
+
+        const result = await bookingService.createBookingWithEmployee(enterpriseEmail, {
+            clientName: entry.clientName,
+            clientPhone: entry.clientPhone,
+            clientEmail: entry.clientEmail,
+            productId: entry.productId,
+            employeeId: offer.employeeId || entry.employeeId,
+            date: offer.date,
+            startTime: offer.startTime
+        });
+
+        await this.removeExpiryJob(offerId);
+
+        if (!result.success || !result.data) {
+            // Horário foi ocupado por outro caminho: cliente volta para a fila,
+            // desde que a entrada ainda esteja neste aceite
+            await runTransaction(db, async (transaction) => {
+                const entrySnap = await transaction.get(entryRef);
+                const current = entrySnap.exists() ? entrySnap.data() as WaitlistEntry : undefined;
+                if (current?.status !== 'claiming' || current.offer?.id !== offerId) return;
+
+                transaction.update(entryRef, {
+                    status: 'waiting',
+                    offer: deleteField(),
+                    updatedAt: Timestamp.now()
+                });
+            });
+            await this.removeClaimRecoveryJob(offerId);
+            return result;
+        }
+
+        await updateDoc(entryRef, {
+            status: 'booked',
+            bookingId: result.data.id,
+            updatedAt: Timestamp.now()
+        });
+        await this.removeClaimRecoveryJob(offerId);
+
+        return result;
+    },
+
+    // Aceite que não terminou no prazo: se o agendamento chegou a ser criado a
+    // entrada vira booked; senão volta para a fila e o horário é oferecido de novo
+    async recoverClaim(enterpriseEmail: string, entryId: string, offerId: string): Promise<void> {
+        const entryResult = await this.getEntry(enterpriseEmail, entryId);
+        const entry = entryResult.data;
+        if (!entry || entry.status !== 'claiming' || !entry.offer || entry.offer.id !== offerId) return;
+
+        const offer = entry.offer;
+        const bookingsResult = await bookingService.getBookingsByDate(enterpriseEmail, offer.date);
+        if (!bookingsResult.success) {
+            throw new Error(bookingsResult.error || 'Erro ao buscar agendamentos');
+        }
+
+        const booking = (bookingsResult.data || []).find(b =>
+            b.startTime === offer.startTime &&
+            normalizePhone(b.clientPhone) === normalizePhone(entry.clientPhone)
+        );
+
+        const entryRef = doc(db, waitlistCollectionPath(enterpriseEmail), entryId);
+        const recovered = await runTransaction(db, async (transaction) => {
+            const entrySnap = await transaction.get(entryRef);
+            const current = entrySnap.exists() ? entrySnap.data() as WaitlistEntry : undefined;
+            if (current?.status !== 'claiming' || current.offer?.id !== offerId) return false;
+
+            transaction.update(entryRef, booking
+                ? { status: 'booked', bookingId: booking.id, updatedAt: Timestamp.now() }
+                : { status: 'waiting', offer: deleteField(), updatedAt: Timestamp.now() });
+            return true;
+        });
+
+        if (!recovered) return;
+
+        console.warn(`Aceite da lista de espera recuperado (${booking ? 'booked' : 'waiting'}): ${entryId}`);
+
+        if (!booking) {
+            await this.offerFreedSlot({
+                enterpriseEmail,
+                date: offer.date,
+                startTime: offer.startTime,
+                duration: offer.duration,
+                employeeId: offer.employeeId
+            });
+        }
+    },
+
+    async removeClaimRecoveryJob(offerId: string): Promise<void> {
+        try {
+            const job = await offerQueue.getJob(claimJobId(offerId));
+            if (job) {
+                await job.remove();
+            }
+        } catch (error) {
+            console.error('Erro ao remover recuperação do aceite:', error);
+        }
+    },
+
+    async removeExpiryJob(offerId: string): Promise<void> {
+        try {
+            const job = await offerQueue.getJob(offerJobId(offerId));
+            if (job) {
+                await job.remove();
+            }
+        } catch (error) {
+            console.error('Erro ao remover expiração da oferta:', error);
+        }
+    }
+};
+
+export function startWaitlistWorker(): Worker<OfferExpiryJob> {
+    const worker = new Worker<OfferExpiryJob>(
+        WAITLIST_QUEUE,
+        async (job: Job<OfferExpiryJob>) => {
+            const { enterpriseEmail, entryId, offerId } = job.data;
+            if (job.name === 'recover-claim') {
+                await waitlistService.recoverClaim(enterpriseEmail, entryId, offerId);
+            } else {
+                await waitlistService.expireOffer(enterpriseEmail, entryId, offerId);
+            }
+        },
+        {
+            connection: createQueueConnection(),
+            concurrency: 5
+        }
+    );
+
+    worker.on('failed', (job, error) => {
+        console.error(`Erro ao processar oferta ${job?.data.entryId} (${job?.name}):`, error.message);
+    });
+
+    worker.on('error', (error) => {
+        console.error('Erro no worker da lista de espera:', error);
+    });
+
+    return worker;
+}
+
+export async function closeWaitlistQueue(): Promise<void> {
+    await offerQueue.close();
+}
@@ -0,0 +1,21 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { signWebhookPayload } from './webhookService.js';
+
+describe('signWebhookPayload', () => {
+  const secret = 'whsec_teste';
+  const payload = JSON.stringify({ event: 'booking.created', data: { id: 'b1' } });
+
+  it('assina "<timestamp>.<corpo>" com HMAC-SHA256 do segredo', () => {
+    const expected = createHmac('sha256', secret).update(`1767225600.${payload}`).digest('hex');
+    expect(signWebhookPayload(secret, payload, 1767225600)).toBe(`t=1767225600,v1=${expected}`);
+  });
+
+  it('muda a assinatura quando o corpo, o horário ou o segredo mudam', () => {
+    const signature = signWebhookPayload(secret, payload, 1767225600);
+
+    expect(signWebhookPayload(secret, payload + ' ', 1767225600)).not.toBe(signature);
+    expect(signWebhookPayload(secret, payload, 1767225601).split(',v1=')[1]).not.toBe(signature.split(',v1=')[1]);
+    expect(signWebhookPayload('whsec_outro', payload, 1767225600)).not.toBe(signature);
+  });
+});
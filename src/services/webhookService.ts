@@ -0,0 +1,494 @@
+import { createHmac, randomBytes } from 'crypto';
+import { Queue, Worker, Job } from 'bullmq';
+import {
+    collection,
+    addDoc,
+    getDocs,
+    doc,
+    getDoc,
+    setDoc,
+    updateDoc,
+    deleteDoc,
+    query,
+    where,
+    Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase.js';
+import { createQueueConnection } from '../config/redis.js';
+import { Booking, WebhookDelivery, WebhookEvent, WebhookSubscription } from '../types/index.js';
+import { auditService } from './auditService.js';
+import { toJson } from '../utils/json.js';
+import { checkOutboundUrl } from '../utils/outboundUrl.js';
+
+const WEBHOOK_QUEUE = 'webhook-deliveries';
+const DELIVERY_ATTEMPTS = 8;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_DELIVERIES_LIMIT = 50;
+
+interface WebhookDeliveryJob {
+    enterpriseEmail: string;
+    deliveryId: string;
+}
+
+export interface CreateWebhookInput {
+    url: string;
+    events: WebhookEvent[];
+    description?: string;
+}
+
+export interface UpdateWebhookInput {
+    url?: string;
+    events?: WebhookEvent[];
+    description?: string;
+    isActive?: boolean;
+}
+
+export interface WebhookResult<T> {
+    success: boolean;
+    data?: T;
+    message?: string;
+    error?: string;
+}
+
+// Espera de 30s, 1min, 2min, 4min... entre as tentativas (~1h no total)
+const webhookQueue = new Queue<WebhookDeliveryJob>(WEBHOOK_QUEUE, {
+    connection: createQueueConnection(),
+    defaultJobOptions: {
+        attempts: DELIVERY_ATTEMPTS,
+        backoff: { type: 'exponential', delay: 30 * 1000 },
+        removeOnComplete: { age: 24 * 3600 },
+        removeOnFail: { age: 7 * 24 * 3600 }
+    }
+});
+
+function webhooksCollectionPath(enterpriseEmail: string): string {
+    return `enterprises/${enterpriseEmail}/webhooks`;
+}
+
+function deliveriesCollectionPath(enterpriseEmail: string): string {
+    return `enterprises/${enterpriseEmail}/webhookDeliveries`;
+}
+
+// Uma entrega por evento e webhook: o reprocessamento do outbox não reenvia
+function deliveryIdFor(eventId: string, webhookId: string): string {
+    return `${eventId}-${webhookId}`;
+}
+
+function deliveryJobId(deliveryId: string): string {
+    return `webhook-${deliveryId}`;
+}
+
+function generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+// Assinatura enviada em X-Corte-Signature: "t=<unix>,v1=<hex>", com
+// HMAC-SHA256 de "<unix>.<corpo>" usando o segredo do webhook
+export function signWebhookPayload(secret: string, payload: string, timestamp: number): string {
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+}
+
+// Segredo fica de fora das listagens
+function toPublicSubscription(subscription: WebhookSubscription): Omit<WebhookSubscription, 'secret'> {
+    const { secret: _secret, ...rest } = subscription;
+    return rest;
+}
+
+function toDelivery(id: string, data: any): WebhookDelivery {
+    return {
+        id,
+        ...data,
+        createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
+        ...(data.deliveredAt && { deliveredAt: data.deliveredAt.toDate?.()?.toISOString() || data.deliveredAt }),
+        ...(data.updatedAt && { updatedAt: data.updatedAt.toDate?.()?.toISOString() || data.updatedAt })
+    };
+}
+
+export const webhookService = {
+    async getWebhooks(enterpriseEmail: string): Promise<WebhookResult<Omit<WebhookSubscription, 'secret'>[]>> {
+        try {
+            const snapshot = await getDocs(collection(db, webhooksCollectionPath(enterpriseEmail)));
+            const webhooks = snapshot.docs.map(d => toPublicSubscription({ id: d.id, ...d.data() } as WebhookSubscription));
+
+            return { success: true, data: webhooks };
+        } catch (error) {
+            console.error('Erro ao buscar webhooks:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async getWebhook(enterpriseEmail: string, webhookId: string): Promise<WebhookResult<WebhookSubscription>> {
+        try {
+            const webhookSnap = await getDoc(doc(db, webhooksCollectionPath(enterpriseEmail), webhookId));
+
+            if (!webhookSnap.exists()) {
+                return { success: false, error: 'Webhook não encontrado' };
+            }
+
+            return {
+                success: true,
+                data: { id: webhookSnap.id, ...webhookSnap.data() } as WebhookSubscription
+            };
+        } catch (error) {
+            console.error('Erro ao buscar webhook:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Única resposta que inclui o segredo
+    async createWebhook(enterpriseEmail: string, input: CreateWebhookInput): Promise<WebhookResult<WebhookSubscription>> {
+        try {
+            const urlError = await checkOutboundUrl(input.url);
+            if (urlError) {
+                return { success: false, error: urlError };
+            }
+
+            const webhookData: Omit<WebhookSubscription, 'id'> = {
+                enterpriseEmail,
+                url: input.url,
+                events: Array.from(new Set(input.events)),
+                secret: generateSecret(),
+                isActive: true,
+                createdAt: Timestamp.now(),
+                updatedAt: Timestamp.now()
+            };
+
+            if (input.description) webhookData.description = input.description;
+
+            const webhookRef = await addDoc(collection(db, webhooksCollectionPath(enterpriseEmail)), webhookData);
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'webhook',
+                entityId: webhookRef.id,
+                action: 'create',
+                after: toPublicSubscription(webhookData)
+            });
+
+            return {
+                success: true,
+                data: { id: webhookRef.id, ...webhookData }
+            };
+        } catch (error) {
+            console.error('Erro ao criar webhook:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async updateWebhook(
+        enterpriseEmail: string,
+        webhookId: string,
+        input: UpdateWebhookInput
+    ): Promise<WebhookResult<Omit<WebhookSubscription, 'secret'>>> {
+        try {
+            const webhookResult = await this.getWebhook(enterpriseEmail, webhookId);
+            if (!webhookResult.success || !webhookResult.data) {
+                return { success: false, error: webhookResult.error };
+            }
+
+            if (input.url !== undefined) {
+                const urlError = await checkOutboundUrl(input.url);
+                if (urlError) {
+                    return { success: false, error: urlError };
+                }
+            }
+
+            const updateData: Partial<WebhookSubscription> = { updatedAt: Timestamp.now() };
+            if (input.url !== undefined) updateData.url = input.url;
+            if (input.events !== undefined) updateData.events = Array.from(new Set(input.events));
+            if (input.description !== undefined) updateData.description = input.description;
+            if (input.isActive !== undefined) updateData.isActive = input.isActive;
+
+            await updateDoc(doc(db, webhooksCollectionPath(enterpriseEmail), webhookId), updateData);
+
+            const updated = toPublicSubscription({ ...webhookResult.data, ...updateData });
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'webhook',
+                entityId: webhookId,
+                action: 'update',
+                before: toPublicSubscription(webhookResult.data),
+                after: updated
+            });
+
+            return { success: true, data: updated };
+        } catch (error) {
+            console.error('Erro ao atualizar webhook:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    async deleteWebhook(enterpriseEmail: string, webhookId: string): Promise<WebhookResult<never>> {
+        try {
+            const webhookResult = await this.getWebhook(enterpriseEmail, webhookId);
+            if (!webhookResult.success || !webhookResult.data) {
+                return { success: false, error: webhookResult.error };
+            }
+
+            await deleteDoc(doc(db, webhooksCollectionPath(enterpriseEmail), webhookId));
+
+            await auditService.record(enterpriseEmail, {
+                entityType: 'webhook',
+                entityId: webhookId,
+                action: 'delete',
+                before: toPublicSubscription(webhookResult.data)
+            });
+
+            return { success: true, message: 'Webhook removido com sucesso' };
+        } catch (error) {
+            console.error('Erro ao remover webhook:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Handler dos eventos de agendamento; erros sobem para o outbox tentar de novo
+    async dispatch(enterpriseEmail: string, event: WebhookEvent, booking: Booking, eventId: string): Promise<void> {
+        const snapshot = await getDocs(query(
+            collection(db, webhooksCollectionPath(enterpriseEmail)),
+            where('isActive', '==', true)
+        ));
+
+        const subscriptions = snapshot.docs
+            .map(d => ({ id: d.id, ...d.data() }) as WebhookSubscription)
+            .filter(subscription => subscription.events.includes(event));
+
+        for (const subscription of subscriptions) {
+            const deliveryRef = doc(db, deliveriesCollectionPath(enterpriseEmail), deliveryIdFor(eventId, subscription.id!));
+            const deliverySnap = await getDoc(deliveryRef);
+
+            // Já criada numa execução anterior do evento; a que não chegou à fila é reenfileirada
+            if (deliverySnap.exists()) {
+                if ((deliverySnap.data() as WebhookDelivery).status === 'pending') {
+                    await webhookQueue.add('deliver', { enterpriseEmail, deliveryId: deliveryRef.id }, { jobId: deliveryJobId(deliveryRef.id) });
+                }
+                continue;
+            }
+
+            const payload = toJson({
+                id: deliveryRef.id,
+                event,
+                createdAt: new Date().toISOString(),
+                enterpriseEmail,
+                data: { booking }
+            });
+
+            await this.enqueueDelivery(enterpriseEmail, deliveryRef.id, subscription.id!, event, payload);
+        }
+    },
+
+    async enqueueDelivery(
+        enterpriseEmail: string,
+        deliveryId: string,
+        webhookId: string,
+        event: WebhookEvent,
+        payload: string,
+        redeliveryOf?: string
+    ): Promise<WebhookDelivery> {
+        const delivery: Omit<WebhookDelivery, 'id'> = {
+            enterpriseEmail,
+            webhookId,
+            event,
+            payload,
+            status: 'pending',
+            attempts: 0,
+            createdAt: Timestamp.now(),
+            updatedAt: Timestamp.now()
+        };
+
+        if (redeliveryOf) delivery.redeliveryOf = redeliveryOf;
+
+        await setDoc(doc(db, deliveriesCollectionPath(enterpriseEmail), deliveryId), delivery);
+
+        await webhookQueue.add('deliver', { enterpriseEmail, deliveryId }, { jobId: deliveryJobId(deliveryId) });
+
+        return { id: deliveryId, ...delivery };
+    },
+
+    async getDeliveries(
+        enterpriseEmail: string,
+        webhookId: string,
+        limit: number = DEFAULT_DELIVERIES_LIMIT
+    ): Promise<WebhookResult<WebhookDelivery[]>> {
+        try {
+            const snapshot = await getDocs(query(
+                collection(db, deliveriesCollectionPath(enterpriseEmail)),
+                where('webhookId', '==', webhookId)
+            ));
+
+            const deliveries = snapshot.docs
+                .map(d => toDelivery(d.id, d.data()))
+                .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)))
+                .slice(0, limit);
+
+            return { success: true, data: deliveries };
+        } catch (error) {
+            console.error('Erro ao buscar entregas do webhook:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Reenvia o mesmo corpo como uma nova entrega ligada à original
+    async redeliver(enterpriseEmail: string, deliveryId: string): Promise<WebhookResult<WebhookDelivery>> {
+        try {
+            const deliverySnap = await getDoc(doc(db, deliveriesCollectionPath(enterpriseEmail), deliveryId));
+            if (!deliverySnap.exists()) {
+                return { success: false, error: 'Entrega não encontrada' };
+            }
+
+            const original = toDelivery(deliverySnap.id, deliverySnap.data());
+
+            const webhookResult = await this.getWebhook(enterpriseEmail, original.webhookId);
+            if (!webhookResult.success || !webhookResult.data) {
+                return { success: false, error: webhookResult.error };
+            }
+
+            const deliveryRef = doc(collection(db, deliveriesCollectionPath(enterpriseEmail)));
+            const delivery = await this.enqueueDelivery(
+                enterpriseEmail,
+                deliveryRef.id,
+                original.webhookId,
+                original.event,
+                original.payload,
+                deliveryId
+            );
+
+            return {
+                success: true,
+                data: toDelivery(delivery.id!, delivery),
+                message: 'Entrega reenviada para a fila'
+            };
+        } catch (error) {
+            console.error('Erro ao reenviar entrega do webhook:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Erro desconhecido'
+            };
+        }
+    },
+
+    // Executado pelo worker; lança erro para a fila tentar novamente
+    async deliver(enterpriseEmail: string, deliveryId: string, attempt: number, isLastAttempt: boolean): Promise<void> {
+        const deliveryRef = doc(db, deliveriesCollectionPath(enterpriseEmail), deliveryId);
+        const deliverySnap = await getDoc(deliveryRef);
+        if (!deliverySnap.exists()) return;
+
+        const delivery = deliverySnap.data() as WebhookDelivery;
+        if (delivery.status === 'delivered') return;
+
+        const webhookResult = await this.getWebhook(enterpriseEmail, delivery.webhookId);
+        if (!webhookResult.data) {
+            await updateDoc(deliveryRef, {
+                status: 'failed',
+                attempts: attempt,
+                lastError: 'Webhook removido',
+                updatedAt: Timestamp.now()
+            });
+            return;
+        }
+
+        const webhook = webhookResult.data;
+        const timestamp = Math.floor(Date.now() / 1000);
+
+        let responseStatus: number | undefined;
+        // O host é verificado de novo a cada entrega: o DNS pode ter mudado desde o cadastro
+        let errorMessage = await checkOutboundUrl(webhook.url);
+
+        if (!errorMessage) {
+            try {
+                const response = await fetch(webhook.url, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'User-Agent': 'X-Corte-Webhooks/1.0',
+                        'X-Corte-Event': delivery.event,
+                        'X-Corte-Delivery': deliveryId,
+                        'X-Corte-Signature': signWebhookPayload(webhook.secret, delivery.payload, timestamp)
+                    },
+                    body: delivery.payload,
+                    // Redirecionamento conta como falha: poderia levar a um host interno
+                    redirect: 'manual',
+                    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+                });
+
+                responseStatus = response.status;
+                if (!response.ok) {
+                    errorMessage = `Erro HTTP: ${response.status} - ${response.statusText}`;
+                }
+            } catch (error) {
+                errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+            }
+        }
+
+        if (!errorMessage) {
+            await updateDoc(deliveryRef, {
+                status: 'delivered',
+                attempts: attempt,
+                responseStatus,
+                deliveredAt: Timestamp.now(),
+                updatedAt: Timestamp.now()
+            });
+            return;
+        }
+
+        await updateDoc(deliveryRef, {
+            status: isLastAttempt ? 'failed' : 'retrying',
+            attempts: attempt,
+            ...(responseStatus !== undefined && { responseStatus }),
+            lastError: errorMessage,
+            updatedAt: Timestamp.now()
+        });
+
+        throw new Error(errorMessage);
+    }
+};
+
+export function startWebhookWorker(): Worker<WebhookDeliveryJob> {
+    const worker = new Worker<WebhookDeliveryJob>(
+        WEBHOOK_QUEUE,
+        async (job: Job<WebhookDeliveryJob>) => {
+            const attempt = job.attemptsMade + 1;
+            await webhookService.deliver(
+                job.data.enterpriseEmail,
+                job.data.deliveryId,
+                attempt,
+                attempt >= (job.opts.attempts || 1)
+            );
+        },
+        {
+            connection: createQueueConnection(),
+            concurrency: 5
+        }
+    );
+
+    worker.on('failed', (job, error) => {
+        console.error(`Erro ao entregar webhook ${job?.data.deliveryId}:`, error.message);
+    });
+
+    worker.on('error', (error) => {
+        console.error('Erro no worker de webhooks:', error);
+    });
+
+    return worker;
+}
+
+export async function closeWebhookQueue(): Promise<void> {
+    await webhookQueue.close();
+}
@@ -6,32 +6,249 @@ export interface Product {
     description?: string;
     category?: string;
     isActive: boolean;
+    deposit?: DepositRule; // Sinal exigido ao agendar (substitui o da empresa)
     createdAt?: any;
     updatedAt?: any;
 }
 
+// Sinal: percentual do preço do serviço ou valor fixo
+export interface DepositRule {
+    type: 'percentage' | 'fixed';
+    value: number;
+}
+
 export interface Booking {
     id?: string;
     enterpriseEmail: string;
     clientName: string;
     clientPhone: string;
     clientEmail?: string;
-    productId: string;
-    productName: string;
-    productDuration: number;
-    productPrice: number;
+    productId: string; // Primeiro serviço (mantido para compatibilidade)
+    productName: string; // Nomes dos serviços unidos por " + "
+    productDuration: number; // Soma das durações dos serviços
+    productPrice: number; // Soma dos preços dos serviços
+    services?: BookingServiceItem[]; // Serviços na ordem em que serão realizados
     employeeId?: string; // ID do funcionário escolhido
     employeeName?: string; // Nome do funcionário
     date: string; // YYYY-MM-DD
     startTime: string; // HH:MM
     endTime: string; // HH:MM (calculado automaticamente)
     actualDuration: number; // Duração real baseada no funcionário (ou duração padrão do produto)
-    status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
+    status: BookingStatus;
+    statusHistory?: BookingStatusChange[];
+    confirmedAt?: string;
+    cancelledAt?: string;
+    completedAt?: string;
+    noShowAt?: string;
+    arrivedAt?: string; // ISO - chegada do cliente registrada pelo profissional
+    arrivedBy?: BookingActor;
+    notes?: string;
+    rescheduleHistory?: BookingSlotHistory[]; // Horários anteriores em caso de reagendamento
+    seriesId?: string; // Série recorrente à qual o agendamento pertence
+    seriesIndex?: number; // Posição da ocorrência na série (0 = primeira)
+    payoutStatementId?: string; // Extrato fechado que já pagou a comissão deste agendamento
+    clientId?: string; // Cliente do cadastro (CRM) da empresa
+    visitRecordedAt?: string; // ISO - atendimento já somado às estatísticas do cliente
+    depositAmount?: number; // Sinal exigido para manter o agendamento
+    depositDueAt?: string; // ISO - sem o sinal pago até aqui, o agendamento pendente é cancelado
+    amountPaid?: number;
+    paymentStatus?: BookingPaymentStatus;
+    paymentReviewRequired?: boolean; // Pagamento recebido depois do cancelamento: reembolsar ou reativar
+    createdAt?: any;
+    updatedAt?: any;
+}
+
+export interface BookingServiceItem {
+    productId: string;
+    productName: string;
+    duration: number;
+    price: number;
+}
+
+export type BookingStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'no_show';
+
+export type BookingPaymentStatus = 'unpaid' | 'deposit_pending' | 'partially_paid' | 'paid';
+
+export type PaymentMethod = 'cash' | 'card' | 'pix';
+
+// pending: cobrança PIX aguardando pagamento
+export type PaymentStatus = 'pending' | 'paid' | 'expired' | 'cancelled';
+
+export interface Payment {
+    id?: string;
+    enterpriseEmail: string;
+    bookingId: string;
+    method: PaymentMethod;
+    amount: number;
+    status: PaymentStatus;
+    isDeposit: boolean;
+    provider?: string; // Provedor PIX que gerou a cobrança
+    providerChargeId?: string;
+    pixCopyPaste?: string; // Código PIX copia e cola
+    expiresAt?: string; // ISO - validade da cobrança PIX
+    paidAt?: string;
     notes?: string;
+    recordedBy?: BookingActor; // Quem registrou pagamentos manuais
+    requiresReview?: boolean; // PIX pago depois de a cobrança expirar ou ser cancelada
+    reviewReason?: string;
+    createdAt?: any;
+    updatedAt?: any;
+}
+
+// Usuário autenticado responsável por uma transição
+export interface BookingActor {
+    uid: string;
+    email: string;
+    role?: string;
+}
+
+export interface BookingStatusChange {
+    from: BookingStatus;
+    to: BookingStatus;
+    changedAt: string; // ISO
+    changedBy?: BookingActor;
+}
+
+export interface BookingSlotHistory {
+    date: string;
+    startTime: string;
+    endTime: string;
+    employeeId?: string;
+    employeeName?: string;
+    rescheduledAt: string; // ISO
+}
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    count?: number; // Número de ocorrências
+    until?: string; // YYYY-MM-DD (inclusivo)
+}
+
+export interface BookingSeries {
+    id?: string;
+    enterpriseEmail: string;
+    clientName: string;
+    clientPhone: string;
+    clientEmail?: string;
+    productId: string;
+    employeeId?: string;
+    startDate: string; // YYYY-MM-DD
+    startTime: string; // HH:MM
+    rule: RecurrenceRule;
+    status: 'active' | 'cancelled';
+    notes?: string;
+    createdAt?: any;
+    updatedAt?: any;
+}
+
+// claiming: cliente aceitou a oferta e o agendamento está sendo criado
+export type WaitlistStatus = 'waiting' | 'offered' | 'claiming' | 'booked' | 'expired' | 'cancelled';
+
+// Horário liberado por um cancelamento e oferecido a quem está na lista de espera
+export interface WaitlistOffer {
+    id: string;
+    date: string; // YYYY-MM-DD
+    startTime: string; // HH:MM
+    duration: number; // Minutos livres no horário liberado
+    employeeId?: string;
+    offeredAt: string; // ISO
+    expiresAt: string; // ISO
+}
+
+export interface WaitlistEntry {
+    id?: string;
+    enterpriseEmail: string;
+    clientName: string;
+    clientPhone: string;
+    clientEmail?: string;
+    productId: string;
+    employeeId?: string; // Sem funcionário aceita qualquer profissional habilitado
+    fromDate: string; // YYYY-MM-DD
+    toDate: string; // YYYY-MM-DD (inclusivo)
+    preferredStartTime?: string; // HH:MM - início mais cedo aceito
+    preferredEndTime?: string; // HH:MM - início mais tarde aceito
+    status: WaitlistStatus;
+    offer?: WaitlistOffer;
+    bookingId?: string; // Agendamento criado ao aceitar a oferta
+    createdAt?: any;
+    updatedAt?: any;
+}
+
+// Cadastro de clientes da empresa; o id é o telefone normalizado
+export interface Client {
+    id?: string;
+    enterpriseEmail: string;
+    name: string;
+    phone: string; // Telefone normalizado (apenas dígitos, com DDI)
+    email?: string;
+    notes?: string;
+    tags: string[];
+    visitCount: number; // Atendimentos concluídos
+    lastVisit?: string; // YYYY-MM-DD do último atendimento concluído
+    totalSpent: number;
+    employeeVisits?: Record<string, number>; // Atendimentos por funcionário
+    preferredEmployeeId?: string; // Funcionário com mais atendimentos
+    preferredEmployeeName?: string;
+    createdAt?: any;
+    updatedAt?: any;
+}
+
+export type CommissionType = 'percentage' | 'fixed';
+
+// Valor diferente conforme o nível do funcionário no serviço
+export interface CommissionTier {
+    experienceLevel: EmployeeSkill['experienceLevel'];
+    value: number;
+}
+
+// Regra de comissão; vale a mais específica (funcionário + serviço vence as demais)
+export interface CommissionRule {
+    id?: string;
+    enterpriseEmail: string;
+    employeeId?: string; // Sem employeeId vale para todos os funcionários
+    productId?: string;
+    category?: string; // Product.category; ignorado quando productId está presente
+    type: CommissionType;
+    value: number; // Percentual (0-100) ou valor fixo por serviço
+    tiers?: CommissionTier[];
     createdAt?: any;
     updatedAt?: any;
 }
 
+export interface PayoutLine {
+    bookingId: string;
+    date: string;
+    productId: string;
+    productName: string;
+    price: number;
+    commissionType: CommissionType;
+    commissionValue: number; // Percentual ou valor fixo aplicado
+    commission: number;
+    ruleId?: string; // Ausente quando nenhuma regra se aplica (comissão 0)
+}
+
+export type PayoutStatementStatus = 'open' | 'closed';
+
+// Extrato de comissões de um funcionário no período
+export interface PayoutStatement {
+    id?: string;
+    enterpriseEmail: string;
+    employeeId: string;
+    employeeName: string;
+    startDate: string; // YYYY-MM-DD
+    endDate: string; // YYYY-MM-DD (inclusivo)
+    status: PayoutStatementStatus;
+    lines: PayoutLine[];
+    bookingCount: number;
+    totalRevenue: number;
+    totalCommission: number;
+    closedAt?: string;
+    closedBy?: BookingActor;
+    createdAt?: any;
+}
+
 export interface TimeSlot {
     startTime: string;
     endTime: string;
@@ -41,6 +258,7 @@ export interface TimeSlot {
 
 export interface Schedule {
     id?: string;
+    enterpriseEmail?: string;
     name: string;
     timeZone: string;
     availability: {
@@ -58,6 +276,10 @@ export interface Enterprise {
     name: string;
     phone?: string;
     address?: string;
+    timeZone?: string; // IANA, ex: America/Manaus (padrão: America/Sao_Paulo)
+    cancellationDeadlineHours?: number; // Antecedência mínima para o cliente cancelar/reagendar pelo link
+    deposit?: DepositRule; // Sinal padrão dos serviços sem regra própria
+    depositTimeoutMinutes?: number; // Prazo para pagar o sinal antes do cancelamento automático
     createdAt?: any;
     updatedAt?: any;
 }
@@ -88,6 +310,9 @@ export interface Employee {
     
     // Horário de trabalho semanal
     workSchedule?: EmployeeWorkSchedule;
+
+    userId?: string; // Usuário (role employee) que acessa a agenda deste funcionário
+    canEditSchedule?: boolean; // Admin permite que o próprio funcionário altere workSchedule
     
     createdAt?: any;
     updatedAt?: any;
@@ -98,6 +323,8 @@ export interface EmployeeSkill {
     productName: string;
     experienceLevel: 'iniciante' | 'intermediario' | 'avancado' | 'especialista';
     canPerform: boolean;
+    price?: number; // Preço cobrado por este funcionário (padrão: preço do produto)
+    duration?: number; // Minutos que este funcionário leva (padrão: duração do produto)
 }
 
 export interface EmployeeWorkSchedule {
@@ -110,6 +337,24 @@ export interface EmployeeWorkSchedule {
     sunday?: DaySchedule;
 }
 
+// closed: ausência do funcionário ou fechamento da empresa
+// modified_hours: expediente diferente do padrão semanal
+export type ScheduleExceptionType = 'closed' | 'modified_hours';
+
+export interface ScheduleException {
+    id?: string;
+    enterpriseEmail: string;
+    employeeId?: string; // Sem employeeId vale para a empresa inteira
+    type: ScheduleExceptionType;
+    startDate: string; // YYYY-MM-DD
+    endDate: string; // YYYY-MM-DD (inclusivo)
+    startTime?: string; // HH:MM - apenas modified_hours
+    endTime?: string; // HH:MM - apenas modified_hours
+    reason?: string; // Ex: "Férias", "Feriado"
+    createdAt?: any;
+    updatedAt?: any;
+}
+
 export interface DaySchedule {
     isWorking: boolean;
     startTime?: string; // HH:MM
@@ -117,3 +362,173 @@ export interface DaySchedule {
     breakStart?: string; // HH:MM - Início do intervalo
     breakEnd?: string; // HH:MM - Fim do intervalo
 }
+
+export type AuditEntityType =
+    | 'booking'
+    | 'bookingSeries'
+    | 'product'
+    | 'employee'
+    | 'schedule'
+    | 'scheduleException'
+    | 'enterprise'
+    | 'client'
+    | 'commissionRule'
+    | 'payment'
+    | 'payoutStatement'
+    | 'waitlistEntry'
+    | 'webhook'
+    | 'messageTemplate';
+
+export type AuditAction =
+    | 'create'
+    | 'update'
+    | 'delete'
+    | 'confirm'
+    | 'cancel'
+    | 'complete'
+    | 'no_show'
+    | 'reschedule'
+    | 'arrive'
+    | 'close';
+
+export interface AuditChange {
+    field: string;
+    before: unknown; // null quando o campo não existia
+    after: unknown; // null quando o campo foi removido
+}
+
+// Registro imutável de uma alteração (enterprises/{email}/auditLog)
+export interface AuditEntry {
+    id?: string;
+    enterpriseEmail: string;
+    entityType: AuditEntityType;
+    entityId: string;
+    action: AuditAction;
+    actor: BookingActor; // uid "system" para filas e webhooks, "public" para rotas sem login
+    ip?: string;
+    changes: AuditChange[];
+    createdAt?: any;
+}
+
+export type WebhookEvent =
+    | 'booking.created'
+    | 'booking.confirmed'
+    | 'booking.cancelled'
+    | 'booking.completed'
+    | 'booking.no_show'
+    | 'booking.rescheduled';
+
+// Assinatura de webhook da empresa (enterprises/{email}/webhooks)
+export interface WebhookSubscription {
+    id?: string;
+    enterpriseEmail: string;
+    url: string;
+    events: WebhookEvent[];
+    secret: string; // Chave do HMAC; só é devolvida na criação
+    description?: string;
+    isActive: boolean;
+    createdAt?: any;
+    updatedAt?: any;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+// Tentativa de entrega registrada (enterprises/{email}/webhookDeliveries)
+export interface WebhookDelivery {
+    id?: string;
+    enterpriseEmail: string;
+    webhookId: string;
+    event: WebhookEvent;
+    payload: string; // Corpo JSON exatamente como assinado e enviado
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    responseStatus?: number;
+    lastError?: string;
+    redeliveryOf?: string; // ID da entrega original quando reenviada manualmente
+    createdAt?: any;
+    deliveredAt?: any;
+    updatedAt?: any;
+}
+
+export type OutboxEventStatus = 'pending' | 'processed' | 'retrying' | 'failed';
+
+// Evento de domínio persistido antes dos handlers rodarem (eventOutbox)
+export interface OutboxEvent {
+    id?: string;
+    name: string;
+    enterpriseEmail: string;
+    payload: string; // JSON do evento, reaproveitado nas novas tentativas
+    status: OutboxEventStatus;
+    pendingHandlers: string[]; // Handlers que ainda não concluíram
+    attempts: number;
+    lastError?: string;
+    createdAt?: any;
+    processedAt?: any;
+    updatedAt?: any;
+}
+
+export type MessageChannel = 'whatsapp' | 'email';
+
+export type MessageProviderName = 'evolution' | 'smtp' | 'console';
+
+// Tipos de mensagem enviados pelo sistema; cada um tem sua ordem de provedores
+export type MessageType =
+    | 'otp'
+    | 'booking_confirmation'
+    | 'booking_reminder'
+    | 'booking_cancellation'
+    | 'waitlist_offer'
+    | 'reply_ack' // Resposta automática às mensagens recebidas do cliente
+    | 'reply_forward'; // Mensagem do cliente repassada para a empresa
+
+// Tipos de mensagem com texto editável pela empresa
+export type MessageTemplateType =
+    | Extract<MessageType, 'otp' | 'booking_confirmation' | 'booking_reminder' | 'booking_cancellation'>
+    // Respostas automáticas ao cliente no WhatsApp; saem como reply_ack
+    | 'reply_confirmed'
+    | 'reply_cancelled'
+    | 'reply_cancel_refused';
+
+// Modelo personalizado da empresa (enterprises/{email}/messageTemplates/{type})
+export interface MessageTemplate {
+    type: MessageTemplateType;
+    subject: string; // Assunto quando a mensagem sai por e-mail
+    body: string; // Texto com placeholders {{nome}} e seções opcionais {{#nome}}...{{/nome}}
+    updatedAt?: any;
+}
+
+// Instância da Evolution API da empresa (número de WhatsApp próprio)
+export interface EvolutionSettings {
+    baseUrl: string;
+    instance: string;
+    apiKey: string;
+}
+
+// Empresas que falaram com o número pela instância compartilhada do servidor
+// (whatsappContacts/{telefone}): candidatas a receber as respostas dele
+export interface WhatsAppContact {
+    phone: string;
+    enterpriseEmails: string[];
+    updatedAt: any;
+}
+
+export type InboundMessageAction = 'processing' | 'confirmed' | 'cancelled' | 'forwarded' | 'ignored'; // processing: id reservado, ainda em tratamento
+
+// Mensagem recebida pelo WhatsApp (enterprises/{email}/inboundMessages/{id da mensagem})
+export interface InboundMessage {
+    id?: string;
+    phone: string;
+    pushName?: string; // Nome do contato no WhatsApp
+    text: string;
+    action: InboundMessageAction;
+    bookingId?: string;
+    reason?: string; // Por que a resposta não foi aplicada ao agendamento
+    createdAt: any;
+}
+
+// Configuração de mensagens da empresa (enterprises/{email}/settings/messaging)
+export interface MessagingSettings {
+    evolution?: EvolutionSettings;
+    routing?: Partial<Record<MessageType, MessageProviderName[]>>; // Provedores em ordem de tentativa
+    updatedAt?: any;
+}
@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import { getPixConfigurationError } from '../services/pixProvider.js';
 
 dotenv.config();
 
@@ -46,4 +47,18 @@ function checkFirebaseConfiguration(): void {
   }
 }
 
+function checkPixConfiguration(): void {
+  console.log('\nVerificando configuração do PIX...\n');
+  console.log(`  PIX_PROVIDER: ${process.env.PIX_PROVIDER || 'VAZIO'}`);
+
+  const error = getPixConfigurationError();
+  if (error) {
+    console.log(`Status: ${error}`);
+    process.exitCode = 1;
+  } else {
+    console.log('Status: Configuração do PIX válida');
+  }
+}
+
 checkFirebaseConfiguration();
+checkPixConfiguration();
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv.js';
+
+describe('parseCsv', () => {
+  it('lê separador vírgula usando a primeira linha como cabeçalho', () => {
+    expect(parseCsv('name,price\nCorte,35\nBarba,20\n')).toEqual([
+      { name: 'Corte', price: '35' },
+      { name: 'Barba', price: '20' }
+    ]);
+  });
+
+  it('detecta ponto e vírgula e remove o BOM do Excel', () => {
+    expect(parseCsv('﻿name;price\r\nCorte;35,50\r\n')).toEqual([{ name: 'Corte', price: '35,50' }]);
+  });
+
+  it('aceita aspas com separador, quebra de linha e aspas escapadas', () => {
+    expect(parseCsv('name,notes\n"Corte, barba","Linha 1\nLinha ""2"""')).toEqual([
+      { name: 'Corte, barba', notes: 'Linha 1\nLinha "2"' }
+    ]);
+  });
+
+  it('ignora linhas em branco e deixa células vazias de fora', () => {
+    expect(parseCsv('name,category,price\n\nCorte,,35\n , , \n')).toEqual([{ name: 'Corte', price: '35' }]);
+  });
+
+  it('retorna vazio sem conteúdo', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+
+  it('lê de volta o que toCsv escreve', () => {
+    const records = [{ name: 'Corte; "premium"', price: 35 }];
+    expect(parseCsv(toCsv(['name', 'price'], records))).toEqual([{ name: 'Corte; "premium"', price: '35' }]);
+  });
+});
@@ -0,0 +1,99 @@
+// Leitura e escrita de CSV (RFC 4180). Aceita vírgula ou ponto e vírgula
+// como separador, já que o Excel em português exporta com ";".
+
+export type CsvRecord = Record<string, string>;
+
+function detectDelimiter(headerLine: string): string {
+  const semicolons = (headerLine.match(/;/g) || []).length;
+  const commas = (headerLine.match(/,/g) || []).length;
+  return semicolons > commas ? ';' : ',';
+}
+
+function parseRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Primeira linha = cabeçalho; linhas em branco são ignoradas e células
+// vazias ficam de fora do registro
+export function parseCsv(text: string): CsvRecord[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const [header, ...rows] = parseRows(content, detectDelimiter(firstLine));
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+
+  return rows
+    .filter(row => row.some(cell => cell.trim() !== ''))
+    .map(row => {
+      const record: CsvRecord = {};
+      columns.forEach((column, index) => {
+        const value = (row[index] ?? '').trim();
+        if (column && value !== '') record[column] = value;
+      });
+      return record;
+    });
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+
+  let text = String(value);
+  // Evita que planilhas interpretem o conteúdo como fórmula
+  if (typeof value === 'string' && /^[=@\t\r]|^[+-]\D/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(columns: string[], records: Array<Record<string, unknown>>): string {
+  const lines = [
+    columns.join(','),
+    ...records.map(record => columns.map(column => formatCell(record[column])).join(','))
+  ];
+
+  // BOM para o Excel reconhecer o arquivo como UTF-8 (acentos)
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
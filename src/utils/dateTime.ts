@@ -0,0 +1,122 @@
+// Utilitários de data/hora sensíveis ao fuso da empresa.
+// Datas de agendamento (YYYY-MM-DD) e horários (HH:MM) são sempre
+// horário local da empresa; nada aqui depende do fuso do servidor.
+
+export const DEFAULT_TIME_ZONE = 'America/Sao_Paulo';
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Dia da semana de uma data de calendário (0 = domingo)
+export function getWeekdayIndex(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+export function getWeekdayName(date: string): string {
+  return WEEKDAY_NAMES[getWeekdayIndex(date)];
+}
+
+// Soma dias a uma data de calendário (YYYY-MM-DD)
+export function addDaysToDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function getZonedParts(instant: Date, timeZone: string): Record<string, number> {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  });
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return parts;
+}
+
+// Diferença em minutos entre o horário local do fuso e UTC no instante informado
+export function getTimeZoneOffsetMinutes(timeZone: string, instant: Date): number {
+  const parts = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const instantSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instantSeconds) / 60000);
+}
+
+// Converte data + horário locais da empresa para o instante correspondente
+export function zonedDateTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Segunda passada corrige datas próximas a mudanças de horário de verão
+  const guess = getTimeZoneOffsetMinutes(timeZone, new Date(wallClock));
+  const offset = getTimeZoneOffsetMinutes(timeZone, new Date(wallClock - guess * 60000));
+
+  return new Date(wallClock - offset * 60000);
+}
+
+function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  const minutes = String(absolute % 60).padStart(2, '0');
+  return `${sign}${hours}:${minutes}`;
+}
+
+// ISO 8601 com o offset do fuso, ex: 2025-09-04T14:00:00-04:00
+export function toZonedIsoString(date: string, time: string, timeZone: string): string {
+  const instant = zonedDateTimeToUtc(date, time, timeZone);
+  const offset = getTimeZoneOffsetMinutes(timeZone, instant);
+  return `${date}T${time}:00${formatOffset(offset)}`;
+}
+
+// Data (YYYY-MM-DD) e horário (HH:MM) atuais no fuso da empresa
+export function nowInTimeZone(timeZone: string, now: Date = new Date()): { date: string; time: string } {
+  const parts = getZonedParts(now, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return {
+    date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`
+  };
+}
+
+// Data e hora no formato brasileiro (dd/mm/aaaa, HH:MM) no fuso informado
+export function formatInTimeZone(instant: Date, timeZone: string): { date: string; time: string } {
+  const dateFormatter = new Intl.DateTimeFormat('pt-BR', {
+    timeZone,
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric'
+  });
+
+  const timeFormatter = new Intl.DateTimeFormat('pt-BR', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  return {
+    date: dateFormatter.format(instant),
+    time: timeFormatter.format(instant)
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendar, foldLine } from './ical.js';
+
+describe('foldLine', () => {
+  it('não altera linhas de até 75 octetos', () => {
+    const line = 'X'.repeat(75);
+    expect(foldLine(line)).toBe(line);
+  });
+
+  it('quebra linhas longas em 75 octetos, continuando com espaço', () => {
+    const folded = foldLine('X'.repeat(160));
+    const parts = folded.split('\r\n');
+
+    expect(parts.map(part => part.length)).toEqual([75, 75, 12]);
+    expect(parts.slice(1).every(part => part.startsWith(' '))).toBe(true);
+    expect(parts.map((part, index) => index === 0 ? part : part.slice(1)).join('')).toBe('X'.repeat(160));
+  });
+
+  it('conta octetos e não divide caracteres acentuados', () => {
+    const folded = foldLine('ç'.repeat(60));
+    const parts = folded.split('\r\n');
+
+    expect(parts.every(part => Buffer.byteLength(part) <= 75)).toBe(true);
+    expect(parts.map((part, index) => index === 0 ? part : part.slice(1)).join('')).toBe('ç'.repeat(60));
+  });
+});
+
+describe('buildCalendar', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('gera o calendário com os eventos, texto escapado e CRLF', () => {
+    const calendar = buildCalendar([{
+      uid: 'booking-1@x-corte',
+      start: new Date('2026-03-10T17:00:00Z'),
+      end: new Date('2026-03-10T17:30:00Z'),
+      summary: 'Corte; barba, bigode',
+      description: 'Linha 1\nLinha 2',
+      status: 'CONFIRMED',
+      sequence: 2
+    }], { name: 'Barbearia', timeZone: 'America/Sao_Paulo' }, now);
+
+    expect(calendar.endsWith('\r\n')).toBe(true);
+    expect(calendar.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//X-Corte//Agenda//PT-BR',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Barbearia',
+      'X-WR-TIMEZONE:America/Sao_Paulo',
+      'BEGIN:VEVENT',
+      'UID:booking-1@x-corte',
+      'DTSTAMP:20260301T120000Z',
+      'DTSTART:20260310T170000Z',
+      'DTEND:20260310T173000Z',
+      'SUMMARY:Corte\\; barba\\, bigode',
+      'DESCRIPTION:Linha 1\\nLinha 2',
+      'STATUS:CONFIRMED',
+      'SEQUENCE:2',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      ''
+    ]);
+  });
+
+  it('dobra linhas longas do evento', () => {
+    const calendar = buildCalendar([{
+      uid: 'booking-2@x-corte',
+      start: new Date('2026-03-10T17:00:00Z'),
+      end: new Date('2026-03-10T17:30:00Z'),
+      summary: 'Serviço '.repeat(20),
+      status: 'TENTATIVE',
+      sequence: 0
+    }], { name: 'Barbearia' }, now);
+
+    expect(calendar.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(calendar).not.toContain('X-WR-TIMEZONE');
+  });
+});
@@ -0,0 +1,90 @@
+// Geração de arquivos iCalendar (RFC 5545): apenas o necessário para
+// publicar eventos de agendamento em feeds somente leitura.
+
+export interface CalendarEvent {
+  uid: string; // Estável: o app de calendário atualiza o evento em vez de duplicar
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  status: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  sequence: number; // Aumenta a cada alteração do evento
+  lastModified?: Date;
+}
+
+export interface CalendarOptions {
+  name: string;
+  timeZone?: string;
+}
+
+const PRODUCT_ID = '-//X-Corte//Agenda//PT-BR';
+const MAX_LINE_OCTETS = 75;
+
+// Texto com \, ; , e quebras de linha escapados
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Data/hora em UTC: 20250904T170000Z
+export function formatUtc(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Linhas com mais de 75 octetos continuam na linha seguinte iniciada por espaço
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = '';
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+function eventLines(event: CalendarEvent, now: Date): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    `STATUS:${event.status}`,
+    `SEQUENCE:${event.sequence}`,
+    ...(event.lastModified ? [`LAST-MODIFIED:${formatUtc(event.lastModified)}`] : []),
+    'END:VEVENT'
+  ];
+}
+
+export function buildCalendar(events: CalendarEvent[], options: CalendarOptions, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...(options.timeZone ? [`X-WR-TIMEZONE:${options.timeZone}`] : []),
+    ...events.flatMap(event => eventLines(event, now)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,10 @@
+// JSON com datas do Firestore (Timestamp) e Date em ISO
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, function (key, item) {
+    const raw = (this as Record<string, unknown>)[key];
+    if (raw && typeof (raw as { toDate?: unknown }).toDate === 'function') {
+      return (raw as { toDate: () => Date }).toDate().toISOString();
+    }
+    return item;
+  });
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { checkOutboundUrl, isPublicAddress } from './outboundUrl.js';
+
+describe('isPublicAddress', () => {
+  it.each(['8.8.8.8', '200.147.67.142', '2606:4700:4700::1111'])('%s é público', address => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '127.0.0.1',
+    '10.0.0.5',
+    '172.20.1.1',
+    '192.168.0.10',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:169.254.169.254'
+  ])('%s é interno ou reservado', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it('recusa o que não é IP', () => {
+    expect(isPublicAddress('redis')).toBe(false);
+  });
+});
+
+describe('checkOutboundUrl', () => {
+  it('aceita https para IP público', async () => {
+    expect(await checkOutboundUrl('https://8.8.8.8/hooks')).toBeUndefined();
+  });
+
+  it('exige https', async () => {
+    expect(await checkOutboundUrl('http://8.8.8.8/hooks')).toBe('A URL precisa usar https');
+    expect(await checkOutboundUrl('redis://8.8.8.8:6379')).toBe('A URL precisa usar https');
+  });
+
+  it('recusa URL inválida', async () => {
+    expect(await checkOutboundUrl('meu-painel')).toBe('URL inválida');
+  });
+
+  it.each([
+    'https://127.0.0.1:6379',
+    'https://169.254.169.254/latest/meta-data',
+    'https://[::1]/hooks',
+    'https://[::ffff:10.0.0.1]/hooks',
+    'https://localhost/hooks'
+  ])('recusa %s', async url => {
+    expect(await checkOutboundUrl(url)).toBe('A URL aponta para um endereço interno ou reservado');
+  });
+});
@@ -0,0 +1,79 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// URLs chamadas pelo servidor a partir de configuração das empresas (webhooks,
+// Evolution API própria). Só https para endereços públicos: a API não pode ser
+// usada para alcançar Redis, metadados da nuvem ou a rede interna.
+
+const blockedAddresses = new BlockList();
+
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "Esta" rede
+  ['10.0.0.0', 8], // Privada
+  ['100.64.0.0', 10], // CGNAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local (inclui 169.254.169.254, metadados da nuvem)
+  ['172.16.0.0', 12], // Privada
+  ['192.0.0.0', 24], // Reservada IETF
+  ['192.168.0.0', 16], // Privada
+  ['198.18.0.0', 15], // Testes de rede
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4] // Reservada e broadcast
+];
+
+const BLOCKED_IPV6: Array<[string, number]> = [
+  ['::', 128], // Não especificado
+  ['::1', 128], // Loopback
+  ['64:ff9b::', 96], // NAT64 (embute endereços IPv4)
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8] // Multicast
+];
+
+for (const [network, prefix] of BLOCKED_IPV4) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of BLOCKED_IPV6) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv4 mapeado em IPv6 (::ffff:127.0.0.1) é verificado como IPv4
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Motivo da recusa, ou undefined quando a URL pode ser chamada. Resolve o host
+// a cada chamada: um domínio público pode passar a apontar para a rede interna
+export async function checkOutboundUrl(url: string): Promise<string | undefined> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'URL inválida';
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return 'A URL precisa usar https';
+  }
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch {
+      return `Não foi possível resolver o endereço ${host}`;
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return 'A URL aponta para um endereço interno ou reservado';
+  }
+
+  return undefined;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { normalizePhone, phoneMatchKey, phoneMatchVariants } from './phone.js';
+
+describe('normalizePhone', () => {
+  it('mantém só os dígitos e adiciona o DDI do Brasil', () => {
+    expect(normalizePhone('(85) 99876-5432')).toBe('5585998765432');
+    expect(normalizePhone('+55 85 99876-5432')).toBe('5585998765432');
+  });
+});
+
+describe('phoneMatchKey', () => {
+  it('trata o celular com e sem o nono dígito como o mesmo número', () => {
+    expect(phoneMatchKey('5585998765432')).toBe('558598765432');
+    expect(phoneMatchKey('558598765432')).toBe('558598765432');
+    expect(phoneMatchKey('(85) 99876-5432')).toBe(phoneMatchKey('5585 9876-5432'));
+  });
+
+  it('não altera números fixos', () => {
+    expect(phoneMatchKey('558532345678')).toBe('558532345678');
+  });
+});
+
+describe('phoneMatchVariants', () => {
+  it('devolve o número informado e as formas com e sem o nono dígito', () => {
+    expect(phoneMatchVariants('(85) 99876-5432')).toEqual(['5585998765432', '558598765432']);
+    expect(phoneMatchVariants('85 9876-5432')).toEqual(['558598765432', '5585998765432']);
+  });
+
+  it('todas as variantes têm a mesma chave', () => {
+    for (const variant of phoneMatchVariants('558532345678')) {
+      expect(phoneMatchKey(variant)).toBe('558532345678');
+    }
+  });
+});
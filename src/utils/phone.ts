@@ -0,0 +1,22 @@
+// Telefone só com dígitos e DDI do Brasil: usado no WhatsApp e para
+// identificar o mesmo cliente digitado de formas diferentes
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.startsWith('55') ? digits : '55' + digits;
+}
+
+// Chave para comparar números: o WhatsApp pode omitir o nono dígito dos
+// celulares brasileiros (55 85 9XXXX-XXXX chega como 5585XXXXXXXX)
+export function phoneMatchKey(phone: string): string {
+  const normalized = normalizePhone(phone);
+  return /^55\d{2}9\d{8}$/.test(normalized) ? normalized.slice(0, 4) + normalized.slice(5) : normalized;
+}
+
+// Formas normalizadas que têm a mesma chave: o número informado primeiro,
+// depois com e sem o nono dígito. Para buscar registros salvos pelo telefone
+export function phoneMatchVariants(phone: string): string[] {
+  const normalized = normalizePhone(phone);
+  const key = phoneMatchKey(normalized);
+  const withNinthDigit = /^55\d{10}$/.test(key) ? key.slice(0, 4) + '9' + key.slice(4) : key;
+  return [...new Set([normalized, withNinthDigit, key])];
+}
@@ -0,0 +1,15 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { FastifyRequest } from 'fastify';
+
+// Requisição em andamento, acessível pelos serviços sem repassá-la como
+// parâmetro (usada pelo log de auditoria para saber quem fez a alteração)
+const storage = new AsyncLocalStorage<FastifyRequest>();
+
+export function runWithRequest(request: FastifyRequest, callback: () => void): void {
+  storage.run(request, callback);
+}
+
+// undefined fora de uma requisição (workers, filas)
+export function getCurrentRequest(): FastifyRequest | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { getTemplateVariables, renderTemplate, validateTemplate } from './template.js';
+
+describe('validateTemplate', () => {
+  const allowed = ['clientName', 'employeeName', 'date'];
+
+  it('aceita placeholders e seções conhecidos', () => {
+    expect(validateTemplate('Olá {{clientName}}{{#employeeName}} com {{ employeeName }}{{/employeeName}}', allowed)).toEqual([]);
+  });
+
+  it('recusa placeholder desconhecido', () => {
+    expect(validateTemplate('Olá {{nome}}', allowed)).toEqual(['Placeholder desconhecido: {{nome}}']);
+  });
+
+  it('recusa seção sem fechamento ou fechada sem abertura', () => {
+    expect(validateTemplate('{{#employeeName}}com {{employeeName}}', allowed)).toEqual(['Seção sem fechamento: {{#employeeName}}']);
+    expect(validateTemplate('{{date}}{{/employeeName}}', allowed)).toEqual([
+      'Seção fechada sem abertura correspondente: {{/employeeName}}'
+    ]);
+  });
+
+  it('recusa chaves soltas', () => {
+    expect(validateTemplate('Olá {{ nome do cliente }}', allowed)).toEqual([
+      'Placeholder mal formatado: use {{nome}} com letras, números ou _'
+    ]);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('substitui variáveis e deixa vazias as que não têm valor', () => {
+    expect(renderTemplate('Olá {{clientName}}, dia {{ date }}{{extra}}', { clientName: 'Maria', date: '10/03/2026' }))
+      .toBe('Olá Maria, dia 10/03/2026');
+  });
+
+  it('mostra a seção apenas quando a variável tem valor', () => {
+    const template = 'Corte{{#employeeName}} com {{employeeName}}{{/employeeName}}';
+    expect(renderTemplate(template, { employeeName: 'João' })).toBe('Corte com João');
+    expect(renderTemplate(template, { employeeName: '' })).toBe('Corte');
+    expect(renderTemplate(template, {})).toBe('Corte');
+  });
+
+  it('resolve seções aninhadas', () => {
+    const template = '{{#a}}A{{#b}}B{{/b}}{{/a}}';
+    expect(renderTemplate(template, { a: '1', b: '1' })).toBe('AB');
+    expect(renderTemplate(template, { a: '1' })).toBe('A');
+    expect(renderTemplate(template, { b: '1' })).toBe('');
+  });
+});
+
+describe('getTemplateVariables', () => {
+  it('lista as variáveis sem repetir e ignora os marcadores de seção', () => {
+    expect(getTemplateVariables('{{code}} {{#name}}{{name}}{{/name}} {{code}}')).toEqual(['code', 'name']);
+  });
+});
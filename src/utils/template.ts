@@ -0,0 +1,62 @@
+// Modelos de mensagem com placeholders {{nome}}. Seções {{#nome}}...{{/nome}}
+// só aparecem quando a variável tem valor (ex.: linha do profissional).
+
+export type TemplateVariables = Record<string, string | undefined>;
+
+const TOKEN_PATTERN = /\{\{\s*([#/]?)\s*([a-zA-Z]\w*)\s*\}\}/g;
+const SECTION_PATTERN = /\{\{\s*#\s*([a-zA-Z]\w*)\s*\}\}([\s\S]*?)\{\{\s*\/\s*\1\s*\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z]\w*)\s*\}\}/g;
+
+// Erros de placeholder desconhecido, seção sem fechamento ou chaves soltas
+export function validateTemplate(template: string, allowed: readonly string[]): string[] {
+  const errors = new Set<string>();
+  const openSections: string[] = [];
+
+  for (const [, marker, name] of template.matchAll(TOKEN_PATTERN)) {
+    if (!allowed.includes(name)) {
+      errors.add(`Placeholder desconhecido: {{${name}}}`);
+    }
+
+    if (marker === '#') {
+      openSections.push(name);
+    } else if (marker === '/') {
+      if (openSections[openSections.length - 1] !== name) {
+        errors.add(`Seção fechada sem abertura correspondente: {{/${name}}}`);
+      } else {
+        openSections.pop();
+      }
+    }
+  }
+
+  for (const name of openSections) {
+    errors.add(`Seção sem fechamento: {{#${name}}}`);
+  }
+
+  // Sobrou "{{" ou "}}" fora de um placeholder válido (ex.: {{ nome do cliente }})
+  const leftover = template.replace(TOKEN_PATTERN, '');
+  if (leftover.includes('{{') || leftover.includes('}}')) {
+    errors.add('Placeholder mal formatado: use {{nome}} com letras, números ou _');
+  }
+
+  return Array.from(errors);
+}
+
+// Nomes das variáveis usadas fora de marcadores de seção, na ordem em que aparecem
+export function getTemplateVariables(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(VARIABLE_PATTERN), ([, name]) => name)));
+}
+
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  let rendered = template;
+
+  // Seções podem estar aninhadas; resolve de dentro para fora
+  let previous: string;
+  do {
+    previous = rendered;
+    rendered = rendered.replace(SECTION_PATTERN, (_, name: string, content: string) =>
+      variables[name] ? content : ''
+    );
+  } while (rendered !== previous);
+
+  return rendered.replace(VARIABLE_PATTERN, (_, name: string) => variables[name] ?? '');
+}
@@ -0,0 +1,63 @@
+// Carregado antes dos demais imports para que REDIS_URL esteja disponível
+import 'dotenv/config';
+import { startReminderWorker, closeReminderQueues } from '../services/reminder.js';
+import { startWaitlistWorker, closeWaitlistQueue } from '../services/waitlistService.js';
+import { startPaymentWorker, closePaymentQueue } from '../services/paymentService.js';
+import { startWebhookWorker, closeWebhookQueue } from '../services/webhookService.js';
+import { startEventWorker, closeEventQueue, eventBus } from '../services/eventBus.js';
+import { registerEventSubscribers } from '../services/eventSubscribers.js';
+import { getPixConfigurationError } from '../services/pixProvider.js';
+
+// Sinais dependem do provedor PIX: sem ele o worker não sobe
+const pixConfigError = getPixConfigurationError();
+if (pixConfigError) {
+  console.error(pixConfigError);
+  process.exit(1);
+}
+
+const worker = startReminderWorker();
+// Expiração das ofertas da lista de espera roda no mesmo processo
+const waitlistWorker = startWaitlistWorker();
+// Cancelamento de agendamentos com sinal não pago
+const paymentWorker = startPaymentWorker();
+// Entregas de webhooks com novas tentativas
+const webhookWorker = startWebhookWorker();
+// Novas tentativas dos handlers de eventos que falharam (outbox)
+registerEventSubscribers();
+const eventWorker = startEventWorker();
+
+// Na inicialização e periodicamente: eventos que ficaram sem job na fila
+// não dependem de um novo restart para serem reprocessados
+const RECOVER_EVENTS_INTERVAL_MS = 5 * 60 * 1000;
+
+function recoverPendingEvents() {
+  eventBus.recoverPending()
+    .then((recovered) => {
+      if (recovered > 0) console.log(`${recovered} evento(s) pendente(s) reenfileirado(s)`);
+    })
+    .catch((error) => console.error('Erro ao recuperar eventos pendentes:', error));
+}
+
+recoverPendingEvents();
+const recoverEventsTimer = setInterval(recoverPendingEvents, RECOVER_EVENTS_INTERVAL_MS);
+
+console.log('⏰ Worker de lembretes iniciado');
+
+async function shutdown(signal: string) {
+  console.log(`Recebido ${signal}, fechando worker de lembretes...`);
+  clearInterval(recoverEventsTimer);
+  await worker.close();
+  await waitlistWorker.close();
+  await paymentWorker.close();
+  await webhookWorker.close();
+  await eventWorker.close();
+  await closeReminderQueues();
+  await closeWaitlistQueue();
+  await closePaymentQueue();
+  await closeWebhookQueue();
+  await closeEventQueue();
+  process.exit(0);
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
@@ -0,0 +1,21 @@
+import { vi } from 'vitest';
+
+// Testes unitários não sobem Redis: os services criam filas do BullMQ ao
+// serem importados, então filas, workers e o cliente Redis viram stubs.
+// Sem as variáveis FIREBASE_*, o Firestore também não é inicializado.
+vi.mock('bullmq', () => {
+  class QueueStub {
+    on() { return this; }
+    async add() { return undefined; }
+    async getJob() { return undefined; }
+    async getJobs() { return []; }
+    async close() { return undefined; }
+  }
+
+  return { Queue: QueueStub, Worker: QueueStub };
+});
+
+vi.mock('../src/config/redis.js', () => ({
+  redis: { on: vi.fn(), call: vi.fn(), eval: vi.fn(), set: vi.fn() },
+  createQueueConnection: () => ({ on: vi.fn() })
+}));